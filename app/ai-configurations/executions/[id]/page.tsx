@@ -0,0 +1,263 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { AdminLayout } from '@/components/AdminLayout';
+import { ArrowLeft, FileText, ShieldCheck, AlertCircle, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ExecutionDetail {
+  id: string;
+  useCaseId: string;
+  model?: string;
+  modelUsed?: string;
+  provider?: string;
+  success: boolean;
+  latencyMs: number;
+  costUSD: number;
+  tokenUsage?: { promptTokens: number; completionTokens: number; totalTokens: number };
+  cacheHit?: boolean;
+  error?: { code: string; message: string };
+  qualityScore?: number;
+  experimentId?: string;
+  variantId?: string;
+  attempts?: Array<{ model: string; provider: string; attempt: number; success: boolean; error?: string; latencyMs: number }>;
+  timestamp?: string;
+  metadata?: Record<string, any>;
+}
+
+interface ExecutionLog {
+  logLevel: string;
+  request?: {
+    systemPrompt?: string;
+    userPrompt?: string;
+    prompt?: string;
+    messages?: Array<{ role: string; content: any; name?: string }>;
+    variables?: Record<string, string>;
+  };
+  response?: {
+    content?: string;
+    toolCalls?: Array<{ id: string; name: string; arguments: any }>;
+    finishReason?: string;
+    error?: string;
+  };
+  redactions: Record<string, number>;
+  truncated: boolean;
+}
+
+function LogBlock({ label, text }: { label: string; text?: string }) {
+  if (!text) return null;
+  return (
+    <div>
+      <div className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">{label}</div>
+      <pre className="bg-gray-50 border border-gray-200 rounded-md p-3 text-sm text-gray-800 whitespace-pre-wrap break-words max-h-96 overflow-y-auto">
+        {text}
+      </pre>
+    </div>
+  );
+}
+
+const formatContent = (content: any) =>
+  typeof content === 'string'
+    ? content
+    : (content as Array<{ type: string; text?: string; mimeType?: string }>)
+      .map(part => part.type === 'text' ? part.text : `[${part.type}${part.mimeType ? ` ${part.mimeType}` : ''}]`)
+      .join('\n');
+
+export default function ExecutionDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const [execution, setExecution] = useState<ExecutionDetail | null>(null);
+  const [log, setLog] = useState<ExecutionLog | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchExecution = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await fetch(`/api/admin/ai-configurations/executions/${encodeURIComponent(id)}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || `Failed to fetch execution: ${response.statusText}`);
+        }
+        setExecution(data.execution);
+        setLog(data.log);
+      } catch (err: any) {
+        console.error('Error fetching execution:', err);
+        setError(err.message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchExecution();
+  }, [id]);
+
+  const redactionTotal = log ? Object.values(log.redactions || {}).reduce((sum, count) => sum + count, 0) : 0;
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <Link href="/ai-configurations/stats" className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-800 mb-2">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to usage statistics
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900">Execution Details</h1>
+          <p className="text-gray-600 font-mono text-sm break-all">{id}</p>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center text-gray-500">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Loading execution...
+          </div>
+        ) : error || !execution ? (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 flex items-center text-red-700">
+            <AlertCircle className="w-5 h-5 mr-2" />
+            {error || 'Execution not found'}
+          </div>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="bg-white shadow rounded-lg p-6">
+              <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <dt className="text-gray-500">Use Case</dt>
+                  <dd className="font-medium text-gray-900">{execution.useCaseId}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Model</dt>
+                  <dd className="font-medium text-gray-900">{execution.model || execution.modelUsed} <span className="text-gray-500">({execution.provider})</span></dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Status</dt>
+                  <dd>
+                    <span className={cn(
+                      'px-2 py-0.5 text-xs font-medium rounded-full',
+                      execution.success ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                    )}>
+                      {execution.cacheHit ? 'cached' : execution.success ? 'success' : 'failed'}
+                    </span>
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Time</dt>
+                  <dd className="font-medium text-gray-900">{execution.timestamp ? new Date(execution.timestamp).toLocaleString() : '—'}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Latency</dt>
+                  <dd className="font-medium text-gray-900">{execution.latencyMs}ms</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Tokens</dt>
+                  <dd className="font-medium text-gray-900">
+                    {execution.tokenUsage
+                      ? `${execution.tokenUsage.promptTokens} in / ${execution.tokenUsage.completionTokens} out`
+                      : '—'}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Cost</dt>
+                  <dd className="font-medium text-gray-900">${(execution.costUSD || 0).toFixed(6)}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Quality Score</dt>
+                  <dd className="font-medium text-gray-900">{execution.qualityScore ?? '—'}</dd>
+                </div>
+                {execution.experimentId && (
+                  <div>
+                    <dt className="text-gray-500">Experiment</dt>
+                    <dd className="font-medium text-gray-900">{execution.experimentId} / {execution.variantId}</dd>
+                  </div>
+                )}
+                {execution.metadata?.configVersion && (
+                  <div>
+                    <dt className="text-gray-500">Config Version</dt>
+                    <dd className="font-medium text-gray-900">{execution.metadata.configVersion}</dd>
+                  </div>
+                )}
+              </dl>
+
+              {execution.error && (
+                <div className="mt-4 bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+                  {execution.error.message}
+                </div>
+              )}
+
+              {execution.attempts && execution.attempts.length > 1 && (
+                <div className="mt-4">
+                  <div className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">Attempts</div>
+                  <ul className="text-sm text-gray-700 space-y-1">
+                    {execution.attempts.map((attempt, index) => (
+                      <li key={index}>
+                        {attempt.model} ({attempt.provider}) #{attempt.attempt}: {attempt.success ? 'succeeded' : `failed – ${attempt.error}`} in {attempt.latencyMs}ms
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+
+            {/* Prompt / Response */}
+            <div className="bg-white shadow rounded-lg p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-medium text-gray-900 flex items-center">
+                  <FileText className="w-5 h-5 mr-2 text-indigo-600" />
+                  Prompt &amp; Response
+                </h3>
+                {log && (
+                  <span className="inline-flex items-center text-sm text-gray-500">
+                    <ShieldCheck className="w-4 h-4 mr-1 text-green-600" />
+                    {redactionTotal > 0
+                      ? `${redactionTotal} redaction${redactionTotal === 1 ? '' : 's'} (${Object.entries(log.redactions).map(([rule, count]) => `${rule}: ${count}`).join(', ')})`
+                      : 'No redactions'}
+                    {log.truncated && ' · truncated'}
+                  </span>
+                )}
+              </div>
+
+              {!log ? (
+                <p className="text-sm text-gray-500">
+                  No prompt or response was captured for this execution. Set <code>logAllRequests</code> or <code>logResponses</code> (or <code>logLevel: &apos;debug&apos;</code>) in the use case&apos;s monitoringConfig to capture them.
+                </p>
+              ) : (
+                <>
+                  {log.request && (
+                    <div className="space-y-3">
+                      <LogBlock label="System Prompt" text={log.request.systemPrompt} />
+                      <LogBlock label="User Prompt" text={log.request.userPrompt} />
+                      <LogBlock label="Prompt" text={log.request.prompt} />
+                      {log.request.messages?.map((message, index) => (
+                        <LogBlock
+                          key={index}
+                          label={`Message ${index + 1} (${message.role}${message.name ? `: ${message.name}` : ''})`}
+                          text={formatContent(message.content)}
+                        />
+                      ))}
+                      {log.request.variables && Object.keys(log.request.variables).length > 0 && (
+                        <LogBlock label="Variables" text={JSON.stringify(log.request.variables, null, 2)} />
+                      )}
+                    </div>
+                  )}
+                  {log.response && (
+                    <div className="space-y-3">
+                      <LogBlock label={`Response${log.response.finishReason ? ` (${log.response.finishReason})` : ''}`} text={log.response.content} />
+                      {log.response.toolCalls && log.response.toolCalls.length > 0 && (
+                        <LogBlock label="Tool Calls" text={JSON.stringify(log.response.toolCalls, null, 2)} />
+                      )}
+                      <LogBlock label="Error" text={log.response.error} />
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
@@ -21,7 +21,8 @@ import {
   Filter,
   Upload,
   X,
-  RefreshCw
+  RefreshCw,
+  Trash2
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { AIUseCaseConfig, AIUseCaseCategory } from '@/types/ai-configuration-schema';
@@ -289,6 +290,12 @@ export default function AIConfigurationsPage() {
     }
   };
 
+  // Show the restored version in the modal after a rollback
+  const handleConfigRollback = async (config: AIUseCaseConfig) => {
+    setSelectedConfig(config);
+    await fetchConfigurations();
+  };
+
   // Handle create new configuration
   const handleCreateNew = () => {
     setSelectedConfig(null);
@@ -303,6 +310,27 @@ export default function AIConfigurationsPage() {
     setIsEditModalOpen(true);
   };
 
+  // Invalidate cached responses for a configuration
+  const handleInvalidateCache = async (config: AIUseCaseConfig) => {
+    if (!confirm(`Invalidate all cached responses for "${config.displayName}"?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/ai-configurations/${encodeURIComponent(config.useCaseId)}/cache`, {
+        method: 'DELETE'
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || result.error || `Invalidation failed: ${response.status}`);
+      }
+      alert(result.message);
+      await fetchConfigurations();
+    } catch (error: any) {
+      alert(`Cache invalidation failed: ${error.message}`);
+    }
+  };
+
   const categoryIcons: Record<string, any> = {
     agent: Bot,
     service: Settings,
@@ -514,6 +542,7 @@ export default function AIConfigurationsPage() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Usage</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cost</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Performance</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cache</th>
                   <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
                   <th className="px-4 py-3" />
                 </tr>
@@ -524,6 +553,8 @@ export default function AIConfigurationsPage() {
                   const isActive = config.metadata?.isActive ?? false;
                   const isDeprecated = config.metadata?.isDeprecated ?? false;
                   const usage = config.metadata?.usageStats;
+                  const cacheStats = config.metadata?.cacheStats;
+                  const cachingEnabled = config.performanceConfig?.enableCaching ?? false;
                   return (
                     <tr key={config.useCaseId} className="odd:bg-white even:bg-gray-50 hover:bg-gray-50">
                       <td className="px-6 py-4">
@@ -588,6 +619,19 @@ export default function AIConfigurationsPage() {
                           </div>
                         ) : <span className="text-gray-400">-</span>}
                       </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {cachingEnabled || cacheStats ? (
+                          <div className="space-y-0.5">
+                            <div className="text-gray-900">
+                              {cacheStats ? `${cacheStats.hitRate.toFixed(1)}% hit rate` : 'No lookups yet'}
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              {cacheStats ? `saved $${cacheStats.savedCostUSD.toFixed(3)}` : config.performanceConfig?.cacheKeyStrategy || 'prompt-hash'}
+                              {!cachingEnabled && ' (disabled)'}
+                            </div>
+                          </div>
+                        ) : <span className="text-gray-400">Off</span>}
+                      </td>
                       <td className="px-6 py-4 text-right">
                         <div className="inline-flex gap-2">
                           {isActive && !isDeprecated && (
@@ -626,6 +670,15 @@ export default function AIConfigurationsPage() {
                           >
                             <Edit className="w-4 h-4" />
                           </button>
+                          {(cachingEnabled || cacheStats) && (
+                            <button
+                              className="p-1 text-gray-400 hover:text-red-600"
+                              title="Invalidate cache"
+                              onClick={() => handleInvalidateCache(config)}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          )}
                           <button className="p-1 text-gray-400 hover:text-gray-600" title="More">
                             <MoreHorizontal className="w-4 h-4" />
                           </button>
@@ -666,6 +719,7 @@ export default function AIConfigurationsPage() {
           onClose={() => setIsEditModalOpen(false)}
           configuration={selectedConfig}
           onSave={handleConfigSave}
+          onRollback={handleConfigRollback}
           mode={editMode}
         />
 
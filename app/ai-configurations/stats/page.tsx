@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { AdminLayout } from '@/components/AdminLayout';
 import { 
   BarChart3, 
@@ -14,7 +15,11 @@ import {
   RefreshCw,
   ArrowUp,
   ArrowDown,
-  Minus
+  Minus,
+  FlaskConical,
+  Trophy,
+  LineChart,
+  FileText
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -58,6 +63,12 @@ interface UsageStatsOverview {
     calls: number;
   }>;
   
+  pricingSources?: Array<{
+    pricingSource: string;
+    calls: number;
+    cost: number;
+  }>;
+  
   performanceAlerts: Array<{
     useCaseId: string;
     displayName: string;
@@ -67,16 +78,266 @@ interface UsageStatsOverview {
   }>;
 }
 
+interface ExperimentSummary {
+  useCaseId: string;
+  displayName: string;
+  experimentId: string;
+  name?: string;
+  enabled: boolean;
+  winnerVariantId?: string;
+  variants: Array<{
+    variantId: string;
+    description?: string;
+    primaryModel?: string;
+  }>;
+  results: Array<{
+    variantId: string;
+    weight: number;
+    requests: number;
+    successRate: number;
+    avgLatencyMs: number;
+    avgCostUSD: number;
+    totalCostUSD: number;
+    avgQualityScore: number | null;
+    qualitySamples: number;
+  }>;
+}
+
+interface UsageSeriesPoint {
+  bucketStart: string;
+  calls: number;
+  errors: number;
+  errorRate: number;
+  totalTokens: number;
+  costUSD: number;
+  latencyP50: number;
+  latencyP95: number;
+}
+
+interface UsageSeries {
+  granularity: 'hour' | 'day';
+  points: UsageSeriesPoint[];
+  totals: Omit<UsageSeriesPoint, 'bucketStart'>;
+  byUseCase: Array<{ key: string; calls: number; errors: number; costUSD: number; totalTokens: number }>;
+}
+
+interface RecentExecution {
+  id: string;
+  useCaseId: string;
+  model: string;
+  provider: string;
+  success: boolean;
+  latencyMs: number;
+  costUSD: number;
+  cacheHit: boolean;
+  hasLog: boolean;
+  timestamp: string;
+}
+
+type TrendRange = '24h' | '7d' | '30d' | '90d';
+
+const TREND_RANGE_DAYS: Record<TrendRange, number> = { '24h': 1, '7d': 7, '30d': 30, '90d': 90 };
+
+type SeriesKey = Exclude<keyof UsageSeriesPoint, 'bucketStart'>;
+
+function TrendChart({
+  title,
+  points,
+  granularity,
+  lines,
+  format
+}: {
+  title: string;
+  points: UsageSeriesPoint[];
+  granularity: 'hour' | 'day';
+  lines: Array<{ key: SeriesKey; label: string; color: string }>;
+  format: (value: number) => string;
+}) {
+  const width = 300;
+  const height = 100;
+  const max = Math.max(1e-9, ...points.flatMap(point => lines.map(line => point[line.key])));
+  const x = (index: number) => (points.length > 1 ? (index / (points.length - 1)) * width : width / 2);
+  const y = (value: number) => height - (value / max) * (height - 4) - 2;
+  const formatBucket = (bucketStart: string) => granularity === 'hour'
+    ? new Date(bucketStart).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit' })
+    : new Date(bucketStart).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium text-gray-900">{title}</h4>
+        <div className="flex gap-3">
+          {lines.map(line => (
+            <span key={line.key} className="flex items-center text-xs text-gray-500">
+              <span className="w-2 h-2 rounded-full mr-1" style={{ backgroundColor: line.color }} />
+              {line.label}
+            </span>
+          ))}
+        </div>
+      </div>
+      <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="w-full h-28">
+        {lines.map(line => (
+          <polyline
+            key={line.key}
+            fill="none"
+            stroke={line.color}
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+            points={points.map((point, index) => `${x(index)},${y(point[line.key])}`).join(' ')}
+          />
+        ))}
+        {points.map((point, index) => (
+          <rect
+            key={point.bucketStart}
+            x={x(index) - width / Math.max(points.length, 1) / 2}
+            y={0}
+            width={width / Math.max(points.length, 1)}
+            height={height}
+            fill="transparent"
+          >
+            <title>
+              {`${formatBucket(point.bucketStart)}\n${lines.map(line => `${line.label}: ${format(point[line.key])}`).join('\n')}`}
+            </title>
+          </rect>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-400 mt-1">
+        <span>{points.length > 0 && formatBucket(points[0].bucketStart)}</span>
+        <span>max {format(max)}</span>
+        <span>{points.length > 0 && formatBucket(points[points.length - 1].bucketStart)}</span>
+      </div>
+    </div>
+  );
+}
+
 export default function AIConfigStatsPage() {
   const [stats, setStats] = useState<UsageStatsOverview | null>(null);
+  const [experiments, setExperiments] = useState<ExperimentSummary[]>([]);
+  const [promoting, setPromoting] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<string>('');
+  const [trendRange, setTrendRange] = useState<TrendRange>('7d');
+  const [trendUseCase, setTrendUseCase] = useState('all');
+  const [trends, setTrends] = useState<UsageSeries | null>(null);
+  const [trendsLoading, setTrendsLoading] = useState(false);
+  const [rollingUp, setRollingUp] = useState(false);
+  const [recentExecutions, setRecentExecutions] = useState<RecentExecution[]>([]);
 
   useEffect(() => {
     fetchStats();
+    fetchExperiments();
   }, []);
 
+  useEffect(() => {
+    fetchTrends();
+  }, [trendRange, trendUseCase]);
+
+  useEffect(() => {
+    fetchRecentExecutions();
+  }, [trendUseCase]);
+
+  const fetchRecentExecutions = async () => {
+    try {
+      const params = new URLSearchParams({ limit: '25' });
+      if (trendUseCase !== 'all') params.set('useCaseId', trendUseCase);
+
+      const response = await fetch(`/api/admin/ai-configurations/executions?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch recent executions: ${response.statusText}`);
+      }
+      const data = await response.json();
+      setRecentExecutions(data.executions);
+    } catch (err) {
+      console.error('Error fetching recent executions:', err);
+    }
+  };
+
+  const fetchTrends = async () => {
+    try {
+      setTrendsLoading(true);
+      const to = new Date();
+      const params = new URLSearchParams({
+        from: new Date(to.getTime() - TREND_RANGE_DAYS[trendRange] * 24 * 60 * 60 * 1000).toISOString(),
+        to: to.toISOString()
+      });
+      if (trendUseCase !== 'all') params.set('useCaseId', trendUseCase);
+
+      const response = await fetch(`/api/admin/ai-configurations/stats/timeseries?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch usage trends: ${response.statusText}`);
+      }
+      const data = await response.json();
+      setTrends(data.series);
+    } catch (err) {
+      // Trends are optional on this page; the rest of the stats still render
+      console.error('Error fetching usage trends:', err);
+    } finally {
+      setTrendsLoading(false);
+    }
+  };
+
+  const handleRollup = async () => {
+    try {
+      setRollingUp(true);
+      const response = await fetch('/api/admin/ai-configurations/stats', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: 'refresh-all',
+          since: new Date(Date.now() - TREND_RANGE_DAYS[trendRange] * 24 * 60 * 60 * 1000).toISOString()
+        })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || result.error || `Rollup failed: ${response.status}`);
+      }
+      await Promise.all([fetchStats(), fetchTrends()]);
+    } catch (err: any) {
+      alert(`Rollup failed: ${err.message}`);
+    } finally {
+      setRollingUp(false);
+    }
+  };
+
+  const fetchExperiments = async () => {
+    try {
+      const response = await fetch('/api/admin/ai-configurations/experiments');
+      if (!response.ok) {
+        throw new Error(`Failed to fetch experiments: ${response.statusText}`);
+      }
+      const data = await response.json();
+      setExperiments(data.experiments || []);
+    } catch (err) {
+      // Experiments are optional on this page; the rest of the stats still render
+      console.error('Error fetching experiments:', err);
+    }
+  };
+
+  const handlePromote = async (experiment: ExperimentSummary, variantId: string) => {
+    if (!confirm(`Promote variant "${variantId}" to the base configuration of ${experiment.displayName}? This ends the experiment.`)) {
+      return;
+    }
+
+    try {
+      setPromoting(`${experiment.useCaseId}:${variantId}`);
+      const response = await fetch('/api/admin/ai-configurations/experiments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ useCaseId: experiment.useCaseId, variantId })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || result.error || `Promotion failed: ${response.status}`);
+      }
+      await fetchExperiments();
+    } catch (err: any) {
+      alert(`Promotion failed: ${err.message}`);
+    } finally {
+      setPromoting(null);
+    }
+  };
+
   const fetchStats = async () => {
     try {
       setLoading(true);
@@ -201,7 +462,7 @@ export default function AIConfigStatsPage() {
             )}
           </div>
           <button 
-            onClick={fetchStats}
+            onClick={() => { fetchStats(); fetchExperiments(); fetchTrends(); }}
             className="px-4 py-2 bg-indigo-600 text-white rounded-md text-sm font-medium hover:bg-indigo-700 flex items-center"
           >
             <RefreshCw className="w-4 h-4 mr-2" />
@@ -279,7 +540,7 @@ export default function AIConfigStatsPage() {
                 </div>
               </div>
               <div className="mt-3 flex items-center text-sm text-gray-600">
-                <span>All time usage</span>
+                <span>Last 30 days</span>
               </div>
             </div>
           </div>
@@ -308,6 +569,188 @@ export default function AIConfigStatsPage() {
           </div>
         </div>
 
+        {/* Usage Trends */}
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+              <h3 className="text-lg leading-6 font-medium text-gray-900 flex items-center">
+                <LineChart className="w-5 h-5 mr-2 text-indigo-600" />
+                Usage Trends
+              </h3>
+              <div className="flex flex-wrap items-center gap-2">
+                <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+                  {(Object.keys(TREND_RANGE_DAYS) as TrendRange[]).map(range => (
+                    <button
+                      key={range}
+                      onClick={() => setTrendRange(range)}
+                      className={cn(
+                        'px-3 py-1 text-sm',
+                        trendRange === range ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                      )}
+                    >
+                      {range}
+                    </button>
+                  ))}
+                </div>
+                <select
+                  value={trendUseCase}
+                  onChange={(e) => setTrendUseCase(e.target.value)}
+                  className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                >
+                  <option value="all">All use cases</option>
+                  {Array.from(new Set([
+                    ...(trendUseCase !== 'all' ? [trendUseCase] : []),
+                    ...(trends?.byUseCase || []).map(entry => entry.key)
+                  ])).map(useCaseId => (
+                    <option key={useCaseId} value={useCaseId}>{useCaseId}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleRollup}
+                  disabled={rollingUp}
+                  className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 flex items-center"
+                  title="Recompute the hourly and daily rollups from aiExecutions for this range"
+                >
+                  <RefreshCw className={cn('w-4 h-4 mr-1', rollingUp && 'animate-spin')} />
+                  Run Rollup
+                </button>
+              </div>
+            </div>
+
+            {trendsLoading && !trends ? (
+              <p className="text-sm text-gray-500">Loading usage trends...</p>
+            ) : !trends || trends.totals.calls === 0 ? (
+              <p className="text-sm text-gray-500">
+                No rolled-up usage in this range yet. Run the rollup to aggregate aiExecutions.
+              </p>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-4 text-sm">
+                  <div>
+                    <div className="text-gray-500">Calls</div>
+                    <div className="text-lg font-semibold text-gray-900">{trends.totals.calls.toLocaleString()}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500">Error rate</div>
+                    <div className={cn('text-lg font-semibold', trends.totals.errorRate > 10 ? 'text-red-600' : 'text-gray-900')}>
+                      {trends.totals.errorRate.toFixed(1)}%
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500">Cost</div>
+                    <div className="text-lg font-semibold text-gray-900">{formatCurrency(trends.totals.costUSD)}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500">Tokens</div>
+                    <div className="text-lg font-semibold text-gray-900">{trends.totals.totalTokens.toLocaleString()}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500">Latency p50 / p95</div>
+                    <div className="text-lg font-semibold text-gray-900">
+                      {trends.totals.latencyP50}ms / {trends.totals.latencyP95}ms
+                    </div>
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                  <TrendChart
+                    title="Calls"
+                    points={trends.points}
+                    granularity={trends.granularity}
+                    lines={[
+                      { key: 'calls', label: 'Calls', color: '#4f46e5' },
+                      { key: 'errors', label: 'Errors', color: '#dc2626' }
+                    ]}
+                    format={(value) => Math.round(value).toLocaleString()}
+                  />
+                  <TrendChart
+                    title="Cost"
+                    points={trends.points}
+                    granularity={trends.granularity}
+                    lines={[{ key: 'costUSD', label: 'Cost', color: '#059669' }]}
+                    format={formatCurrency}
+                  />
+                  <TrendChart
+                    title="Tokens"
+                    points={trends.points}
+                    granularity={trends.granularity}
+                    lines={[{ key: 'totalTokens', label: 'Tokens', color: '#7c3aed' }]}
+                    format={(value) => Math.round(value).toLocaleString()}
+                  />
+                  <TrendChart
+                    title="Latency"
+                    points={trends.points}
+                    granularity={trends.granularity}
+                    lines={[
+                      { key: 'latencyP50', label: 'p50', color: '#0284c7' },
+                      { key: 'latencyP95', label: 'p95', color: '#f59e0b' }
+                    ]}
+                    format={(value) => `${Math.round(value)}ms`}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Recent Executions */}
+        {recentExecutions.length > 0 && (
+          <div className="bg-white shadow rounded-lg">
+            <div className="px-4 py-5 sm:p-6">
+              <h3 className="text-lg leading-6 font-medium text-gray-900 mb-1 flex items-center">
+                <FileText className="w-5 h-5 mr-2 text-indigo-600" />
+                Recent Executions
+              </h3>
+              <p className="text-sm text-gray-500 mb-4">
+                Executions with a captured prompt/response (per the use case&apos;s logging settings) are marked as logged.
+              </p>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Use Case</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Model</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Latency</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cost</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {recentExecutions.map((execution) => (
+                      <tr key={execution.id}>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">
+                          {new Date(execution.timestamp).toLocaleString()}
+                        </td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">{execution.useCaseId}</td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{execution.model}</td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm">
+                          <span className={cn(
+                            'px-2 py-0.5 text-xs font-medium rounded-full',
+                            execution.success ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                          )}>
+                            {execution.cacheHit ? 'cached' : execution.success ? 'success' : 'failed'}
+                          </span>
+                        </td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{execution.latencyMs}ms</td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">${(execution.costUSD || 0).toFixed(4)}</td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-right">
+                          <Link
+                            href={`/ai-configurations/executions/${encodeURIComponent(execution.id)}`}
+                            className="text-indigo-600 hover:text-indigo-800"
+                          >
+                            {execution.hasLog ? 'View log' : 'Details'}
+                          </Link>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Performance Alerts */}
         {stats.performanceAlerts && stats.performanceAlerts.length > 0 && (
           <div className="bg-white shadow rounded-lg">
@@ -411,6 +854,148 @@ export default function AIConfigStatsPage() {
           </div>
         </div>
 
+        {/* Pricing Sources */}
+        {stats.pricingSources && stats.pricingSources.length > 0 && (
+          <div className="bg-white shadow rounded-lg">
+            <div className="px-4 py-5 sm:p-6">
+              <h3 className="text-lg leading-6 font-medium text-gray-900 mb-1">
+                Cost by Pricing Source
+              </h3>
+              <p className="text-sm text-gray-500 mb-4">
+                Last 30 days of executions. Catalog costs use the pricing on each model document; default-table costs use built-in list prices for models missing from the catalog.
+              </p>
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                {stats.pricingSources.map(source => (
+                  <div
+                    key={source.pricingSource}
+                    className={cn(
+                      'border rounded-lg p-4',
+                      source.pricingSource === 'catalog'
+                        ? 'border-green-200 bg-green-50'
+                        : source.pricingSource === 'default-table'
+                          ? 'border-yellow-200 bg-yellow-50'
+                          : 'border-gray-200 bg-gray-50'
+                    )}
+                  >
+                    <p className="text-sm font-medium text-gray-900 capitalize">
+                      {source.pricingSource.replace('-', ' ')}
+                    </p>
+                    <p className="mt-1 text-lg font-semibold text-gray-900">
+                      {formatCurrency(source.cost)}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {source.calls.toLocaleString()} calls
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Experiments */}
+        {experiments.length > 0 && (
+          <div className="bg-white shadow rounded-lg">
+            <div className="px-4 py-5 sm:p-6">
+              <h3 className="text-lg leading-6 font-medium text-gray-900 mb-1 flex items-center">
+                <FlaskConical className="w-5 h-5 mr-2 text-indigo-600" />
+                Experiments
+              </h3>
+              <p className="text-sm text-gray-500 mb-4">
+                Variant results from each experiment&apos;s recent executions (cache hits excluded). Quality is the mean score of evaluated executions.
+              </p>
+              <div className="space-y-6">
+                {experiments.map(experiment => {
+                  const best = (key: 'avgCostUSD' | 'avgLatencyMs' | 'successRate' | 'avgQualityScore', lowest: boolean) => {
+                    const values = experiment.results
+                      .filter(result => result.requests > 0 && result[key] !== null)
+                      .map(result => result[key] as number);
+                    return values.length > 1 ? (lowest ? Math.min(...values) : Math.max(...values)) : null;
+                  };
+                  const bestCost = best('avgCostUSD', true);
+                  const bestLatency = best('avgLatencyMs', true);
+                  const bestSuccess = best('successRate', false);
+                  const bestQuality = best('avgQualityScore', false);
+
+                  return (
+                    <div key={`${experiment.useCaseId}:${experiment.experimentId}`} className="border rounded-lg">
+                      <div className="px-4 py-3 border-b bg-gray-50 flex items-center justify-between">
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">
+                            {experiment.displayName} · {experiment.name || experiment.experimentId}
+                          </p>
+                          <p className="text-xs text-gray-500">{experiment.useCaseId}</p>
+                        </div>
+                        <span className={cn(
+                          'px-2 py-0.5 rounded-full text-xs font-medium',
+                          experiment.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                        )}>
+                          {experiment.enabled
+                            ? 'Running'
+                            : experiment.winnerVariantId ? `Promoted ${experiment.winnerVariantId}` : 'Stopped'}
+                        </span>
+                      </div>
+                      <div className="overflow-x-auto">
+                        <table className="min-w-full divide-y divide-gray-200">
+                          <thead>
+                            <tr>
+                              {['Variant', 'Weight', 'Requests', 'Avg Cost', 'Avg Latency', 'Success Rate', 'Quality', ''].map(heading => (
+                                <th key={heading} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                  {heading}
+                                </th>
+                              ))}
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-gray-200">
+                            {experiment.results.map(result => {
+                              const variant = experiment.variants.find(candidate => candidate.variantId === result.variantId);
+                              const highlight = (isBest: boolean) => isBest ? 'text-green-700 font-semibold' : 'text-gray-700';
+                              return (
+                                <tr key={result.variantId}>
+                                  <td className="px-4 py-2 text-sm">
+                                    <div className="font-medium text-gray-900">{result.variantId}</div>
+                                    <div className="text-xs text-gray-500">{variant?.primaryModel}{variant?.description && ` · ${variant.description}`}</div>
+                                  </td>
+                                  <td className="px-4 py-2 text-sm text-gray-700">{result.weight}</td>
+                                  <td className="px-4 py-2 text-sm text-gray-700">{result.requests.toLocaleString()}</td>
+                                  <td className={cn('px-4 py-2 text-sm', highlight(result.requests > 0 && result.avgCostUSD === bestCost))}>
+                                    {formatCurrency(result.avgCostUSD)}
+                                  </td>
+                                  <td className={cn('px-4 py-2 text-sm', highlight(result.requests > 0 && result.avgLatencyMs === bestLatency))}>
+                                    {result.avgLatencyMs.toLocaleString()}ms
+                                  </td>
+                                  <td className={cn('px-4 py-2 text-sm', highlight(result.requests > 0 && result.successRate === bestSuccess))}>
+                                    {result.successRate}%
+                                  </td>
+                                  <td className={cn('px-4 py-2 text-sm', highlight(result.avgQualityScore !== null && result.avgQualityScore === bestQuality))}>
+                                    {result.avgQualityScore !== null ? `${result.avgQualityScore} (${result.qualitySamples})` : '—'}
+                                  </td>
+                                  <td className="px-4 py-2 text-right">
+                                    {experiment.enabled && (
+                                      <button
+                                        onClick={() => handlePromote(experiment, result.variantId)}
+                                        disabled={promoting !== null}
+                                        className="inline-flex items-center px-2 py-1 text-xs border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                                      >
+                                        <Trophy className="w-3 h-3 mr-1" />
+                                        {promoting === `${experiment.useCaseId}:${result.variantId}` ? 'Promoting...' : 'Promote'}
+                                      </button>
+                                    )}
+                                  </td>
+                                </tr>
+                              );
+                            })}
+                          </tbody>
+                        </table>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Top Performers */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Top by Usage */}
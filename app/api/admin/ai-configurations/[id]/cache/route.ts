@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminAccess } from '@/lib/admin-auth';
+import { AIResponseCache } from '@/lib/ai-response-cache';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// GET /api/admin/ai-configurations/[id]/cache - Response cache hit rate and savings
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Validate admin access
+    if (!validateAdminAccess(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized access' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const stats = await AIResponseCache.getStatsForUseCase(id);
+
+    return NextResponse.json({
+      stats,
+      backend: AIResponseCache.getBackend().name,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error fetching AI response cache stats:', error);
+    return NextResponse.json(
+      { 
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/ai-configurations/[id]/cache - Invalidate cached responses for a use case
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Validate admin access
+    if (!validateAdminAccess(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized access' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const invalidated = await AIResponseCache.invalidate(id);
+
+    return NextResponse.json({
+      success: true,
+      invalidated,
+      message: `Invalidated ${invalidated} cached response(s) for ${id}`
+    });
+
+  } catch (error) {
+    console.error('Error invalidating AI response cache:', error);
+    return NextResponse.json(
+      { 
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminAccess } from '@/lib/admin-auth';
+import { aiConfigurationService } from '@/lib/ai-configuration-service';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// POST /api/admin/ai-configurations/[id]/rollback - Restore a previous version as a new version
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Validate admin access
+    if (!validateAdminAccess(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized access' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { version } = await request.json();
+
+    if (!version) {
+      return NextResponse.json(
+        { error: 'Version is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await aiConfigurationService.findConfiguration(id))) {
+      return NextResponse.json(
+        { error: 'Configuration not found' },
+        { status: 404 }
+      );
+    }
+
+    // Goes through the service so the restore is versioned and the cache stays current
+    const result = await aiConfigurationService.rollbackConfiguration(id, version);
+    if (!result) {
+      return NextResponse.json(
+        { error: `No restorable snapshot for version ${version}` },
+        { status: 404 }
+      );
+    }
+
+    const { newVersion, changes } = result;
+    const configuration = await aiConfigurationService.getConfiguration(id);
+
+    console.log(`Rolled back AI configuration ${id} to version ${version} (now ${newVersion})`);
+
+    return NextResponse.json({
+      success: true,
+      configuration,
+      restoredVersion: version,
+      newVersion,
+      changes,
+      message: `Restored version ${version} as version ${newVersion}`
+    });
+
+  } catch (error) {
+    const { id: errorId } = await params;
+    console.error(`Error rolling back AI configuration ${errorId}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,48 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase-admin';
 import { validateAdminAccess } from '@/lib/admin-auth';
+import { aiConfigurationService } from '@/lib/ai-configuration-service';
 import { AIUseCaseConfig } from '@/types/ai-configuration-schema';
 
+// Fields a general PATCH may change; everything else (useCaseId, versioning, history, statistics) is managed by the server
+const PATCHABLE_FIELDS = [
+  'displayName', 'description', 'category', 'subcategory',
+  'parentWorkflow', 'workflowStep', 'executionOrder', 'dependsOn', 'inputSources', 'outputConsumers',
+  'isCriticalPath', 'canRunInParallel', 'location',
+  'triggeredBy', 'expectedOutput', 'businessImpact', 'usageFrequency'
+];
+
+// Sections are merged over the stored ones, so a PATCH can carry just the changed settings
+const PATCHABLE_SECTIONS = [
+  'modelConfig', 'generationConfig', 'promptConfig', 'performanceConfig',
+  'qualityConfig', 'monitoringConfig', 'experimentConfig'
+];
+
+const PATCHABLE_METADATA = ['isActive', 'isDeprecated', 'deprecationReason', 'replacedBy', 'owner', 'contact', 'documentation'];
+
+function buildPatchUpdate(updates: Record<string, any>, existing: AIUseCaseConfig): Partial<AIUseCaseConfig> {
+  const update: Record<string, any> = {};
+
+  PATCHABLE_FIELDS.forEach(field => {
+    if (updates[field] !== undefined) update[field] = updates[field];
+  });
+
+  PATCHABLE_SECTIONS.forEach(section => {
+    if (updates[section] && typeof updates[section] === 'object') {
+      update[section] = { ...(existing[section as keyof AIUseCaseConfig] as Record<string, any> | undefined), ...updates[section] };
+    }
+  });
+
+  const metadata = Object.fromEntries(
+    Object.entries(updates.metadata || {}).filter(([key]) => PATCHABLE_METADATA.includes(key))
+  );
+  if (Object.keys(metadata).length > 0) {
+    update.metadata = metadata;
+  }
+
+  return update as Partial<AIUseCaseConfig>;
+}
+
 interface RouteParams {
   params: Promise<{
     id: string;
@@ -31,21 +71,16 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
     console.log(`Fetching AI configuration: ${id}`);
 
-    // Fetch configuration from Firestore
-    const doc = await adminDb.collection('aiUseCaseConfigs').doc(id).get();
+    // Served from the configuration service's cache
+    const configuration = await aiConfigurationService.findConfiguration(id);
 
-    if (!doc.exists) {
+    if (!configuration) {
       return NextResponse.json(
         { error: 'Configuration not found' },
         { status: 404 }
       );
     }
 
-    const configuration: AIUseCaseConfig = {
-      useCaseId: doc.id,
-      ...doc.data()
-    } as AIUseCaseConfig;
-
     console.log(`Successfully retrieved configuration: ${id}`);
 
     return NextResponse.json({
@@ -86,64 +121,19 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    const body = await request.json();
-    const updates: Partial<AIUseCaseConfig> = body;
-
-    // Remove useCaseId from updates to prevent changes
-    delete (updates as any).useCaseId;
+    const updates: Partial<AIUseCaseConfig> = await request.json();
 
     // Check if configuration exists
-    const doc = await adminDb.collection('aiUseCaseConfigs').doc(id).get();
-    if (!doc.exists) {
+    if (!(await aiConfigurationService.findConfiguration(id))) {
       return NextResponse.json(
         { error: 'Configuration not found' },
         { status: 404 }
       );
     }
 
-    // Separate metadata from other updates to avoid field conflicts
-    const { metadata, ...otherUpdates } = updates;
-    const updateData: any = {
-      ...otherUpdates,
-      'metadata.updatedAt': new Date(),
-      'metadata.updatedBy': 'admin' // TODO: Get actual user from auth
-    };
-
-    // Handle metadata updates separately using dot notation to avoid conflicts
-    if (metadata) {
-      Object.keys(metadata).forEach(key => {
-        if (key !== 'updatedAt' && key !== 'updatedBy') {
-          updateData[`metadata.${key}`] = (metadata as any)[key];
-        }
-      });
-    }
-
-    // Save configuration history if version is being changed
-    const existingData = doc.data();
-    if (updates.metadata?.version && existingData?.metadata?.version !== updates.metadata.version) {
-      const historyEntry = {
-        version: existingData?.metadata?.version || '1.0.0',
-        timestamp: new Date(),
-        changes: ['Version update'],
-        changedBy: 'admin',
-        rollbackData: existingData
-      };
-      
-      updateData['metadata.configurationHistory'] = [
-        ...(existingData?.metadata?.configurationHistory || []),
-        historyEntry
-      ];
-    }
-
-    // Update in Firestore
-    await adminDb.collection('aiUseCaseConfigs').doc(id).update(updateData);
-
-    // Fetch updated configuration
-    const updatedDoc = await adminDb.collection('aiUseCaseConfigs').doc(id).get();
-    const updatedConfiguration: AIUseCaseConfig = {
-      useCaseId: updatedDoc.id,
-      ...updatedDoc.data()
-    } as AIUseCaseConfig;
+    // Records the replaced version in the configuration history when something changed
+    await aiConfigurationService.updateConfiguration(id, updates);
+    const updatedConfiguration = await aiConfigurationService.getConfiguration(id);
 
     console.log(`Successfully updated AI configuration: ${id}`);
 
@@ -187,19 +177,16 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     }
 
     // Check if configuration exists
-    const doc = await adminDb.collection('aiUseCaseConfigs').doc(id).get();
-    if (!doc.exists) {
+    const configData = await aiConfigurationService.findConfiguration(id);
+    if (!configData) {
       return NextResponse.json(
         { error: 'Configuration not found' },
         { status: 404 }
       );
     }
 
-    // Store configuration data before deletion for potential rollback
-    const configData = doc.data() as AIUseCaseConfig;
-
-    // Delete from Firestore
-    await adminDb.collection('aiUseCaseConfigs').doc(id).delete();
+    // Keeps a tombstone so the configuration (with its history) can be restored
+    await aiConfigurationService.deleteConfiguration(id);
 
     console.log(`Successfully deleted AI configuration: ${id}`);
 
@@ -210,7 +197,7 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
         displayName: configData.displayName,
         category: configData.category
       },
-      message: 'Configuration deleted successfully'
+      message: 'Configuration deleted successfully (restorable from deleted configurations)'
     });
 
   } catch (error) {
@@ -249,61 +236,47 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     }
 
     // Check if configuration exists
-    const doc = await adminDb.collection('aiUseCaseConfigs').doc(id).get();
-    if (!doc.exists) {
+    const existing = await aiConfigurationService.findConfiguration(id);
+    if (!existing) {
       return NextResponse.json(
         { error: 'Configuration not found' },
         { status: 404 }
       );
     }
 
-    let updateData: any = {};
-
-    // Handle specific actions
+    // Handle specific actions; everything but usage statistics is a versioned configuration change
     switch (action) {
       case 'toggle-active':
-        const currentData = doc.data();
-        updateData = {
-          'metadata.isActive': !(currentData?.metadata?.isActive ?? true),
-          'metadata.updatedAt': new Date(),
-          'metadata.updatedBy': 'admin'
-        };
+        await aiConfigurationService.updateConfiguration(id, {
+          metadata: { isActive: !(existing.metadata?.isActive ?? true) }
+        } as Partial<AIUseCaseConfig>);
         break;
       
       case 'toggle-deprecated':
-        const existingData = doc.data();
-        updateData = {
-          'metadata.isDeprecated': !(existingData?.metadata?.isDeprecated ?? false),
-          'metadata.updatedAt': new Date(),
-          'metadata.updatedBy': 'admin'
-        };
-        if (updates.deprecationReason) {
-          updateData['metadata.deprecationReason'] = updates.deprecationReason;
-        }
+        await aiConfigurationService.updateConfiguration(id, {
+          metadata: {
+            isDeprecated: !(existing.metadata?.isDeprecated ?? false),
+            ...(updates.deprecationReason && { deprecationReason: updates.deprecationReason })
+          }
+        } as Partial<AIUseCaseConfig>);
         break;
       
       case 'update-usage-stats':
+        // System statistics, not part of the configuration's versions
         if (updates.usageStats) {
-          updateData = {
+          await adminDb.collection('aiUseCaseConfigs').doc(id).update({
             'metadata.usageStats': updates.usageStats,
             'metadata.updatedAt': new Date(),
             'metadata.updatedBy': 'admin'
-          };
+          });
         }
         break;
       
       default:
         // General partial update
-        updateData = {
-          ...updates,
-          'metadata.updatedAt': new Date(),
-          'metadata.updatedBy': 'admin'
-        };
+        await aiConfigurationService.updateConfiguration(id, buildPatchUpdate(updates, existing));
     }
 
-    // Update in Firestore
-    await adminDb.collection('aiUseCaseConfigs').doc(id).update(updateData);
-
     // Fetch updated configuration
     const updatedDoc = await adminDb.collection('aiUseCaseConfigs').doc(id).get();
     const updatedConfiguration: AIUseCaseConfig = {
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminDb } from '@/lib/firebase-admin';
+import { validateAdminAccess } from '@/lib/admin-auth';
+import { AIBudgetGuard } from '@/lib/ai-budget-guard';
+import type { AIUseCaseConfig } from '@/types/ai-configuration-schema';
+
+// GET /api/admin/ai-configurations/budget - Daily AI spend against the configured budgets
+export async function GET(request: NextRequest) {
+  try {
+    // Validate admin access
+    if (!validateAdminAccess(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized access' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const date = searchParams.get('date') || new Date().toISOString().slice(0, 10);
+
+    const [spend, configsSnapshot] = await Promise.all([
+      AIBudgetGuard.getDailySpend(date),
+      adminDb.collection('aiUseCaseConfigs').get()
+    ]);
+
+    const configs = new Map<string, AIUseCaseConfig>();
+    configsSnapshot.forEach(doc => {
+      configs.set(doc.id, doc.data() as AIUseCaseConfig);
+    });
+
+    const globalLimit = AIBudgetGuard.getGlobalDailyLimit();
+    const global = spend.find(entry => entry.scope === 'global');
+
+    const useCases = spend
+      .filter(entry => entry.scope === 'use-case' && entry.useCaseId)
+      .map(entry => {
+        const config = configs.get(entry.useCaseId!);
+        const limitUSD = config?.monitoringConfig?.alertThresholds?.costThreshold;
+        return {
+          ...entry,
+          ...(limitUSD && { limitUSD, utilization: Math.round((entry.spentUSD / limitUSD) * 1000) / 10 }),
+          maxCostPerRequest: config?.modelConfig?.maxCostPerRequest,
+          costOptimization: config?.modelConfig?.costOptimization
+        };
+      });
+
+    return NextResponse.json({
+      date,
+      global: {
+        spentUSD: global?.spentUSD || 0,
+        requests: global?.requests || 0,
+        blocked: global?.blocked || 0,
+        downgraded: global?.downgraded || 0,
+        limitUSD: globalLimit,
+        utilization: globalLimit ? Math.round(((global?.spentUSD || 0) / globalLimit) * 1000) / 10 : null
+      },
+      useCases,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error fetching AI budget status:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: 500 }
+    );
+  }
+}
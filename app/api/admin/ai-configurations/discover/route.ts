@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminDb } from '@/lib/firebase-admin';
+import { validateAdminAccess } from '@/lib/admin-auth';
+import { AICallSiteScanner, type AISourceFile } from '@/lib/ai-call-site-scanner';
+import type { AIUseCaseConfig } from '@/types/ai-configuration-schema';
+
+const MAX_FILES = 2000;
+const MAX_TOTAL_BYTES = 20 * 1024 * 1024;
+
+// POST /api/admin/ai-configurations/discover - Scan uploaded source files for AI call sites and reconcile them with stored configurations
+export async function POST(request: NextRequest) {
+  try {
+    // Validate admin access
+    if (!validateAdminAccess(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized access' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const files: AISourceFile[] = body.files;
+
+    if (!Array.isArray(files) || files.some(file => typeof file?.path !== 'string' || typeof file?.content !== 'string')) {
+      return NextResponse.json(
+        { error: 'Invalid request body', message: 'Expected files: Array<{ path: string, content: string }>' },
+        { status: 400 }
+      );
+    }
+
+    if (files.length > MAX_FILES) {
+      return NextResponse.json(
+        { error: 'Too many files', message: `At most ${MAX_FILES} files can be scanned per request` },
+        { status: 413 }
+      );
+    }
+
+    const totalBytes = files.reduce((sum, file) => sum + file.content.length, 0);
+    if (totalBytes > MAX_TOTAL_BYTES) {
+      return NextResponse.json(
+        { error: 'Upload too large', message: `Source files must total at most ${MAX_TOTAL_BYTES / (1024 * 1024)}MB` },
+        { status: 413 }
+      );
+    }
+
+    const callSites = await AICallSiteScanner.scan(files);
+
+    // Read straight from Firestore so configurations imported since the service cache loaded are included
+    const snapshot = await adminDb.collection('aiUseCaseConfigs').get();
+    const configs = snapshot.docs.map(doc => ({ ...doc.data(), useCaseId: doc.id } as AIUseCaseConfig));
+
+    const report = AICallSiteScanner.reconcile(callSites, configs, files.map(file => file.path));
+
+    console.log(`🔎 Discovered ${report.callSites.length} AI call sites in ${report.scannedFiles} files: ${report.unconfigured.length} unconfigured, ${report.orphaned.length} orphaned, ${report.moved.length} moved`);
+
+    return NextResponse.json({
+      success: true,
+      report
+    });
+
+  } catch (error) {
+    console.error('Error discovering AI call sites:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminAccess } from '@/lib/admin-auth';
+import { getExecutionDetail } from '@/lib/ai-analytics';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// Firestore Timestamps to ISO strings, recursively
+function serialize(value: any): any {
+  if (value && typeof value.toDate === 'function') return value.toDate().toISOString();
+  if (Array.isArray(value)) return value.map(serialize);
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, serialize(item)]));
+  }
+  return value;
+}
+
+// GET /api/admin/ai-configurations/executions/[id] - An execution with its captured prompt/response
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Validate admin access
+    if (!validateAdminAccess(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized access' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const detail = await getExecutionDetail(id);
+
+    if (!detail) {
+      return NextResponse.json(
+        { error: 'Execution not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      execution: serialize(detail.execution),
+      log: serialize(detail.log),
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const { id: errorId } = await params;
+    console.error(`Error fetching execution ${errorId}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: 500 }
+    );
+  }
+}
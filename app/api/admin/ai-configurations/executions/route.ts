@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminAccess } from '@/lib/admin-auth';
+import { getRecentExecutions } from '@/lib/ai-analytics';
+
+const toISO = (value: any) => value?.toDate?.().toISOString() || value;
+
+// GET /api/admin/ai-configurations/executions - Recent executions (?useCaseId=...&limit=25)
+export async function GET(request: NextRequest) {
+  try {
+    // Validate admin access
+    if (!validateAdminAccess(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized access' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const useCaseId = searchParams.get('useCaseId');
+    const limit = Math.min(Number(searchParams.get('limit')) || 25, 100);
+
+    const executions = await getRecentExecutions(useCaseId && useCaseId !== 'all' ? useCaseId : null, limit);
+
+    return NextResponse.json({
+      executions: executions.map(execution => ({
+        id: execution.id,
+        useCaseId: execution.useCaseId,
+        model: execution.model || execution.modelUsed,
+        provider: execution.provider,
+        success: execution.success,
+        latencyMs: execution.latencyMs,
+        tokensUsed: execution.tokensUsed,
+        costUSD: execution.costUSD,
+        cacheHit: execution.cacheHit || false,
+        hasLog: execution.hasLog || false,
+        ...(execution.qualityScore !== undefined && { qualityScore: execution.qualityScore }),
+        timestamp: toISO(execution.timestamp)
+      })),
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error fetching AI executions:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: 500 }
+    );
+  }
+}
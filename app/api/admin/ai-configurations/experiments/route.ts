@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminDb } from '@/lib/firebase-admin';
+import { validateAdminAccess } from '@/lib/admin-auth';
+import { AIExperiments } from '@/lib/ai-experiments';
+import type { AIUseCaseConfig } from '@/types/ai-configuration-schema';
+
+// GET /api/admin/ai-configurations/experiments - Use case experiments with per-variant results
+export async function GET(request: NextRequest) {
+  try {
+    // Validate admin access
+    if (!validateAdminAccess(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized access' },
+        { status: 401 }
+      );
+    }
+
+    const snapshot = await adminDb.collection('aiUseCaseConfigs').get();
+    const configs = snapshot.docs
+      .map(doc => ({ useCaseId: doc.id, ...doc.data() }) as AIUseCaseConfig)
+      .filter(config => config.experimentConfig?.experimentId && config.experimentConfig.variants?.length);
+
+    const experiments = await Promise.all(configs.map(async config => {
+      const experiment = config.experimentConfig!;
+      return {
+        useCaseId: config.useCaseId,
+        displayName: config.displayName,
+        experimentId: experiment.experimentId,
+        name: experiment.name,
+        enabled: experiment.enabled,
+        startedAt: experiment.startedAt,
+        endedAt: experiment.endedAt,
+        winnerVariantId: experiment.winnerVariantId,
+        variants: experiment.variants.map(variant => ({
+          variantId: variant.variantId,
+          description: variant.description,
+          primaryModel: variant.modelConfig?.primaryModel || config.modelConfig?.primaryModel
+        })),
+        results: await AIExperiments.getVariantStats(experiment)
+      };
+    }));
+
+    // Running experiments first
+    experiments.sort((a, b) => Number(b.enabled) - Number(a.enabled));
+
+    return NextResponse.json({
+      experiments,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error fetching AI experiments:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/ai-configurations/experiments - Promote the winning variant of an experiment
+export async function POST(request: NextRequest) {
+  try {
+    // Validate admin access
+    if (!validateAdminAccess(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized access' },
+        { status: 401 }
+      );
+    }
+
+    const { useCaseId, variantId } = await request.json();
+    if (!useCaseId || !variantId) {
+      return NextResponse.json(
+        { error: 'useCaseId and variantId are required' },
+        { status: 400 }
+      );
+    }
+
+    const configuration = await AIExperiments.promoteVariant(useCaseId, variantId);
+
+    return NextResponse.json({
+      success: true,
+      configuration,
+      message: `Promoted variant ${variantId} for ${useCaseId}`
+    });
+
+  } catch (error) {
+    console.error('Error promoting experiment variant:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: 500 }
+    );
+  }
+}
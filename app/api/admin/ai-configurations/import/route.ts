@@ -1,7 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getFirebaseAdmin } from '@/lib/firebase-admin';
+import { aiConfigurationService } from '@/lib/ai-configuration-service';
 import type { AIUseCaseConfig } from '@/types/ai-configuration-schema';
 
+// Sections merged field by field into an existing configuration
+const CONFIG_SECTIONS = [
+  'modelConfig',
+  'generationConfig',
+  'promptConfig',
+  'performanceConfig',
+  'qualityConfig',
+  'monitoringConfig',
+  'experimentConfig'
+] as const;
+
+// Metadata an import may set; versions, history and statistics belong to the stored document
+const IMPORTABLE_METADATA = ['isActive', 'isDeprecated', 'deprecationReason', 'replacedBy', 'owner', 'contact', 'documentation'];
+
 // Admin API key validation - disabled to match other admin routes
 function validateAdminKey(request: NextRequest): boolean {
   // TODO: Implement proper Firebase-based admin authentication
@@ -9,6 +24,62 @@ function validateAdminKey(request: NextRequest): boolean {
   return true;
 }
 
+// Firestore rejects undefined values; Timestamps and other class instances are left as they are
+function removeUndefinedValues(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(removeUndefinedValues);
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entry]) => entry !== undefined)
+        .map(([key, entry]) => [key, removeUndefinedValues(entry)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Update for an existing configuration from the fields present in an import payload.
+ * Sections are merged over the stored ones so a partial section doesn't reset the rest.
+ */
+function buildImportUpdate(configData: any, existing: AIUseCaseConfig): Partial<AIUseCaseConfig> {
+  const { useCaseId, metadata, ...fields } = configData;
+  const update: Record<string, any> = { ...fields };
+
+  // Older export formats used different names for a few fields
+  if (update.performanceConfig) {
+    const { timeoutMs, rateLimitRpm, ...performanceConfig } = update.performanceConfig;
+    update.performanceConfig = {
+      ...performanceConfig,
+      ...(timeoutMs !== undefined && performanceConfig.timeout === undefined && { timeout: timeoutMs }),
+      ...(rateLimitRpm !== undefined && performanceConfig.rateLimitPerMinute === undefined && { rateLimitPerMinute: rateLimitRpm })
+    };
+  }
+  if (update.promptConfig) {
+    const { userPromptTemplate, ...promptConfig } = update.promptConfig;
+    update.promptConfig = {
+      ...promptConfig,
+      ...(userPromptTemplate !== undefined && promptConfig.promptTemplate === undefined && { promptTemplate: userPromptTemplate })
+    };
+  }
+
+  CONFIG_SECTIONS.forEach(section => {
+    if (update[section] && typeof update[section] === 'object') {
+      update[section] = { ...(existing[section] as Record<string, any> | undefined), ...update[section] };
+    }
+  });
+
+  const metadataUpdates = Object.fromEntries(
+    Object.entries(metadata || {}).filter(([key]) => IMPORTABLE_METADATA.includes(key))
+  );
+  if (Object.keys(metadataUpdates).length > 0) {
+    update.metadata = metadataUpdates;
+  }
+
+  return removeUndefinedValues(update);
+}
+
 export async function POST(request: NextRequest) {
   try {
     // Validate admin access
@@ -103,10 +174,24 @@ export async function POST(request: NextRequest) {
     const { db, Timestamp } = getFirebaseAdmin();
     
     let imported = 0;
+    let updated = 0;
     const batch = db.batch();
     const timestamp = Timestamp.now();
 
-    for (const configData of configurations) {
+    // Re-imports (e.g. a call-site scan moving a location) update the existing configuration in place
+    const configRefs = configurations.map((configData: any) => db.collection('aiUseCaseConfigs').doc(configData.useCaseId));
+    const existingDocs = await db.getAll(...configRefs);
+
+    for (const [index, configData] of configurations.entries()) {
+      const existing = existingDocs[index].exists ? existingDocs[index].data() as AIUseCaseConfig : null;
+      if (existing) {
+        // Only the fields in the payload change, recorded as a new configuration version
+        await aiConfigurationService.updateConfiguration(configData.useCaseId, buildImportUpdate(configData, existing));
+        updated++;
+        imported++;
+        continue;
+      }
+
       // Create complete configuration document with defaults
       const configDoc: Partial<AIUseCaseConfig> = {
         useCaseId: configData.useCaseId,
@@ -201,8 +286,9 @@ export async function POST(request: NextRequest) {
             rejectBelowScore: configData.qualityConfig?.outputValidation?.rejectBelowScore,
           },
           qualityChecks: {
-            checkCoherence: configData.qualityConfig?.qualityChecks?.checkCoherence ?? true,
-            checkRelevance: configData.qualityConfig?.qualityChecks?.checkRelevance ?? true,
+            // Coherence and relevance are scored by a paid LLM judge on every call, so they are opt-in
+            checkCoherence: configData.qualityConfig?.qualityChecks?.checkCoherence ?? false,
+            checkRelevance: configData.qualityConfig?.qualityChecks?.checkRelevance ?? false,
             checkCompleteness: configData.qualityConfig?.qualityChecks?.checkCompleteness ?? true,
             customChecks: configData.qualityConfig?.qualityChecks?.customChecks,
           },
@@ -214,6 +300,7 @@ export async function POST(request: NextRequest) {
           logResponses: configData.monitoringConfig?.logResponses ?? false,
           logPerformanceMetrics: configData.monitoringConfig?.logPerformanceMetrics ?? true,
           logLevel: configData.monitoringConfig?.logLevel || 'info',
+          ...(configData.monitoringConfig?.redaction && { redaction: configData.monitoringConfig.redaction }),
           collectUsageMetrics: configData.monitoringConfig?.collectUsageMetrics ?? true,
           collectCostMetrics: configData.monitoringConfig?.collectCostMetrics ?? true,
           collectQualityMetrics: configData.monitoringConfig?.collectQualityMetrics ?? false,
@@ -250,17 +337,21 @@ export async function POST(request: NextRequest) {
         },
       };
 
-      const configRef = db.collection('ai-configurations').doc(configData.useCaseId);
-      batch.set(configRef, configDoc, { merge: true });
+      batch.set(configRefs[index], removeUndefinedValues(configDoc));
       imported++;
     }
 
-    // Commit all configuration imports
-    await batch.commit();
+    // Commit all new configurations
+    if (imported > updated) {
+      await batch.commit();
+      await aiConfigurationService.refreshCache();
+    }
 
     return NextResponse.json({
       success: true,
       imported,
+      created: imported - updated,
+      updated,
       message: `Successfully imported ${imported} AI configurations`
     });
 
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminAccess } from '@/lib/admin-auth';
+import { AIRateLimiter } from '@/lib/ai-rate-limiter';
+
+// GET /api/admin/ai-configurations/rate-limits - Current rate limit and concurrency utilization
+export async function GET(request: NextRequest) {
+  try {
+    // Validate admin access
+    if (!validateAdminAccess(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized access' },
+        { status: 401 }
+      );
+    }
+
+    const limiters = AIRateLimiter.getStatus();
+
+    return NextResponse.json({
+      useCases: limiters.filter(limiter => limiter.scope === 'use-case'),
+      providers: limiters.filter(limiter => limiter.scope === 'provider'),
+      totals: {
+        active: limiters.reduce((sum, limiter) => sum + (limiter.concurrency?.active || 0), 0),
+        waiting: limiters.reduce((sum, limiter) => sum + limiter.waiting, 0),
+        rejected: limiters.reduce((sum, limiter) => sum + limiter.rejected, 0)
+      },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error fetching AI rate limit status:', error);
+    return NextResponse.json(
+      { 
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: 500 }
+    );
+  }
+}
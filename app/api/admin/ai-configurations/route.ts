@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase-admin';
 import { validateAdminAccess } from '@/lib/admin-auth';
+import { AIResponseCache } from '@/lib/ai-response-cache';
+import { aiConfigurationService } from '@/lib/ai-configuration-service';
 import { 
   AIUseCaseConfig, 
   AIUseCaseCategory,
@@ -120,6 +122,7 @@ export async function GET(request: NextRequest) {
 
     // Fetch usage statistics from aiUsageStats collection
     const usageStatsMap = await fetchUsageStats();
+    const cacheStatsMap = includeStats ? await AIResponseCache.getStats() : new Map();
 
     // Convert Firestore documents to configuration objects
     const configurations: AIUseCaseConfig[] = [];
@@ -149,6 +152,23 @@ export async function GET(request: NextRequest) {
         };
       }
 
+      // Populate response cache stats if available
+      const cacheStats = cacheStatsMap.get(config.useCaseId);
+      if (cacheStats) {
+        if (!config.metadata) {
+          config.metadata = {} as any;
+        }
+
+        config.metadata.cacheStats = {
+          hits: cacheStats.hits,
+          misses: cacheStats.misses,
+          hitRate: cacheStats.hitRate,
+          savedCostUSD: cacheStats.savedCostUSD,
+          lastHitAt: cacheStats.lastHitAt,
+          invalidatedAt: cacheStats.invalidatedAt
+        };
+      }
+
       configurations.push(config);
     });
 
@@ -256,30 +276,25 @@ export async function PUT(request: NextRequest) {
     const { action, configurations } = body;
 
     if (action === 'bulk-update' && Array.isArray(configurations)) {
-      const batch = adminDb.batch();
       const updatedConfigs: string[] = [];
+      const notFound: string[] = [];
 
-      configurations.forEach((config: Partial<AIUseCaseConfig> & { useCaseId: string }) => {
-        if (!config.useCaseId) return;
-
-        const docRef = adminDb.collection('aiUseCaseConfigs').doc(config.useCaseId);
-        
-        // Add update timestamp
-        const updateData = {
-          ...config,
-          'metadata.updatedAt': new Date(),
-          'metadata.updatedBy': 'admin' // TODO: Get actual user from auth
-        };
+      // One update at a time through the service so each change is versioned and can be rolled back
+      for (const config of configurations as Array<Partial<AIUseCaseConfig> & { useCaseId: string }>) {
+        if (!config.useCaseId) continue;
 
-        batch.update(docRef, updateData);
+        if (!(await aiConfigurationService.findConfiguration(config.useCaseId))) {
+          notFound.push(config.useCaseId);
+          continue;
+        }
+        await aiConfigurationService.updateConfiguration(config.useCaseId, config);
         updatedConfigs.push(config.useCaseId);
-      });
-
-      await batch.commit();
+      }
 
       return NextResponse.json({
         success: true,
         updated: updatedConfigs,
+        ...(notFound.length > 0 && { notFound }),
         message: `Successfully updated ${updatedConfigs.length} configurations`
       });
     }
@@ -322,21 +337,24 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    const batch = adminDb.batch();
     const deletedConfigs: string[] = [];
+    const notFound: string[] = [];
 
-    useCaseIds.forEach(useCaseId => {
-      const docRef = adminDb.collection('aiUseCaseConfigs').doc(useCaseId.trim());
-      batch.delete(docRef);
-      deletedConfigs.push(useCaseId.trim());
-    });
-
-    await batch.commit();
+    // Each delete leaves a tombstone so the configuration can be restored
+    for (const useCaseId of useCaseIds.map(id => id.trim()).filter(Boolean)) {
+      if (!(await aiConfigurationService.findConfiguration(useCaseId))) {
+        notFound.push(useCaseId);
+        continue;
+      }
+      await aiConfigurationService.deleteConfiguration(useCaseId);
+      deletedConfigs.push(useCaseId);
+    }
 
     return NextResponse.json({
       success: true,
       deleted: deletedConfigs,
-      message: `Successfully deleted ${deletedConfigs.length} configurations`
+      ...(notFound.length > 0 && { notFound }),
+      message: `Successfully deleted ${deletedConfigs.length} configurations (restorable from deleted configurations)`
     });
 
   } catch (error) {
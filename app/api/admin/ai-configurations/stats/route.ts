@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase-admin';
 import { AIUseCaseConfig, AIUseCaseCategory } from '@/types/ai-configuration-schema';
+import { AIUsageRollups } from '@/lib/ai-usage-rollups';
+import { AIAlerts } from '@/lib/ai-alerts';
+
+const MAX_ROLLUP_BACKFILL_DAYS = 90;
 
 // Admin API key validation
 function validateAdminKey(request: NextRequest): boolean {
@@ -57,6 +61,13 @@ interface UsageStatsOverview {
     calls: number;
   }>;
   
+  // Cost by where it was priced from (aiExecutions.pricingSource), last 30 days
+  pricingSources: Array<{
+    pricingSource: string; // catalog | default-table | self-hosted | unrecorded
+    calls: number;
+    cost: number;
+  }>;
+
   // Performance alerts
   performanceAlerts: Array<{
     useCaseId: string;
@@ -67,6 +78,37 @@ interface UsageStatsOverview {
   }>;
 }
 
+const PRICING_SOURCE_WINDOW_DAYS = 30;
+
+// Aggregate recent execution cost by pricing source, so router costs can be reconciled with the model catalog
+async function getPricingSourceBreakdown(): Promise<UsageStatsOverview['pricingSources']> {
+  try {
+    const since = new Date(Date.now() - PRICING_SOURCE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const snapshot = await adminDb.collection('aiExecutions')
+      .where('timestamp', '>=', since)
+      .select('pricingSource', 'costUSD')
+      .get();
+
+    const totals = new Map<string, { calls: number; cost: number }>();
+    snapshot.forEach(doc => {
+      const data = doc.data();
+      // Executions tracked before pricing sources were recorded
+      const source = data.pricingSource || 'unrecorded';
+      const entry = totals.get(source) || { calls: 0, cost: 0 };
+      entry.calls++;
+      entry.cost += data.costUSD || 0;
+      totals.set(source, entry);
+    });
+
+    return Array.from(totals.entries())
+      .map(([pricingSource, entry]) => ({ pricingSource, ...entry }))
+      .sort((a, b) => b.cost - a.cost);
+  } catch (error) {
+    console.warn('Could not aggregate pricing sources from aiExecutions:', error);
+    return [];
+  }
+}
+
 // GET /api/admin/ai-configurations/stats - Get comprehensive usage statistics
 export async function GET(request: NextRequest) {
   try {
@@ -121,6 +163,7 @@ export async function GET(request: NextRequest) {
       topByUsage: [],
       topByCost: [],
       recentlyUsed: [],
+      pricingSources: await getPricingSourceBreakdown(),
       performanceAlerts: []
     };
 
@@ -338,13 +381,31 @@ export async function POST(request: NextRequest) {
     }
 
     if (action === 'refresh-all') {
-      // Trigger a refresh of all usage statistics
-      // In a real implementation, this would trigger a background job
-      // For now, we'll just return a success message
+      // Recompute the usage rollups (and the usageStats summaries built from them), then
+      // evaluate alert thresholds against them; run it on a schedule, e.g. hourly
+      const since = body.since ? new Date(body.since) : undefined;
+      if (since && isNaN(since.getTime())) {
+        return NextResponse.json(
+          { error: 'since must be a valid date' },
+          { status: 400 }
+        );
+      }
+      // Each day of the window is re-read from aiExecutions, so backfills are limited
+      if (since && Date.now() - since.getTime() > MAX_ROLLUP_BACKFILL_DAYS * 24 * 60 * 60 * 1000) {
+        return NextResponse.json(
+          { error: `since can be at most ${MAX_ROLLUP_BACKFILL_DAYS} days ago` },
+          { status: 400 }
+        );
+      }
+
+      const result = await AIUsageRollups.rollup({ since });
+      const alerts = await AIAlerts.evaluate();
+
       return NextResponse.json({
         success: true,
-        message: 'Usage statistics refresh initiated',
-        note: 'This would typically trigger a background job to recalculate all usage statistics'
+        message: `Rolled up ${result.executions} executions into ${result.buckets} usage buckets`,
+        ...result,
+        alerts
       });
     }
 
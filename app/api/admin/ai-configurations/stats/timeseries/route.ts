@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminAccess } from '@/lib/admin-auth';
+import { AIUsageRollups, type AIUsageGranularity } from '@/lib/ai-usage-rollups';
+
+const DEFAULT_RANGE_DAYS = 7;
+const MAX_HOURLY_RANGE_DAYS = 14;
+const MAX_RANGE_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// GET /api/admin/ai-configurations/stats/timeseries - Usage trends from the hourly/daily rollups
+// (?from=&to= ISO dates, granularity=hour|day, optional useCaseId, model, provider)
+export async function GET(request: NextRequest) {
+  try {
+    // Validate admin access
+    if (!validateAdminAccess(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized access' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const to = searchParams.get('to') ? new Date(searchParams.get('to')!) : new Date();
+    const from = searchParams.get('from')
+      ? new Date(searchParams.get('from')!)
+      : new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      return NextResponse.json(
+        { error: 'from and to must be valid dates with from before to' },
+        { status: 400 }
+      );
+    }
+
+    const rangeDays = (to.getTime() - from.getTime()) / DAY_MS;
+    if (rangeDays > MAX_RANGE_DAYS) {
+      return NextResponse.json(
+        { error: `Date range cannot exceed ${MAX_RANGE_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    // Hourly for short ranges unless asked otherwise
+    const granularity = (searchParams.get('granularity') || (rangeDays <= 3 ? 'hour' : 'day')) as AIUsageGranularity;
+    if (granularity !== 'hour' && granularity !== 'day') {
+      return NextResponse.json(
+        { error: 'granularity must be hour or day' },
+        { status: 400 }
+      );
+    }
+    if (granularity === 'hour' && rangeDays > MAX_HOURLY_RANGE_DAYS) {
+      return NextResponse.json(
+        { error: `Hourly granularity is limited to ${MAX_HOURLY_RANGE_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    const series = await AIUsageRollups.getSeries({
+      from,
+      to,
+      granularity,
+      useCaseId: searchParams.get('useCaseId') || undefined,
+      model: searchParams.get('model') || undefined,
+      provider: searchParams.get('provider') || undefined
+    });
+
+    return NextResponse.json({
+      series,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error fetching AI usage time series:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: 500 }
+    );
+  }
+}
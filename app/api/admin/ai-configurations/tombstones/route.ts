@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminDb } from '@/lib/firebase-admin';
+import { validateAdminAccess } from '@/lib/admin-auth';
+import { TOMBSTONE_COLLECTION } from '@/lib/ai-config-history';
+import type { AIUseCaseConfig, AIUseCaseConfigTombstone } from '@/types/ai-configuration-schema';
+
+// GET /api/admin/ai-configurations/tombstones - Deleted configurations that can be restored
+export async function GET(request: NextRequest) {
+  try {
+    // Validate admin access
+    if (!validateAdminAccess(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized access' },
+        { status: 401 }
+      );
+    }
+
+    const snapshot = await adminDb.collection(TOMBSTONE_COLLECTION).orderBy('deletedAt', 'desc').get();
+    const tombstones = snapshot.docs.map(doc => {
+      const data = doc.data() as AIUseCaseConfigTombstone;
+      return {
+        useCaseId: doc.id,
+        displayName: data.configuration?.displayName,
+        category: data.configuration?.category,
+        version: data.configuration?.metadata?.version,
+        deletedAt: data.deletedAt?.toDate?.().toISOString(),
+        deletedBy: data.deletedBy
+      };
+    });
+
+    return NextResponse.json({
+      tombstones,
+      total: tombstones.length,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error fetching deleted AI configurations:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/ai-configurations/tombstones - Restore a deleted configuration
+export async function POST(request: NextRequest) {
+  try {
+    // Validate admin access
+    if (!validateAdminAccess(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized access' },
+        { status: 401 }
+      );
+    }
+
+    const { useCaseId } = await request.json();
+    if (!useCaseId) {
+      return NextResponse.json(
+        { error: 'Use case ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const tombstoneRef = adminDb.collection(TOMBSTONE_COLLECTION).doc(useCaseId);
+    const configRef = adminDb.collection('aiUseCaseConfigs').doc(useCaseId);
+    const [tombstone, existing] = await Promise.all([tombstoneRef.get(), configRef.get()]);
+
+    if (!tombstone.exists) {
+      return NextResponse.json(
+        { error: 'Deleted configuration not found' },
+        { status: 404 }
+      );
+    }
+    if (existing.exists) {
+      return NextResponse.json(
+        { error: `A configuration with ID ${useCaseId} already exists` },
+        { status: 409 }
+      );
+    }
+
+    const { configuration } = tombstone.data() as AIUseCaseConfigTombstone;
+    const restored: AIUseCaseConfig = {
+      ...configuration,
+      metadata: {
+        ...configuration.metadata,
+        updatedAt: new Date() as any,
+        updatedBy: 'admin' // TODO: Get actual user from auth
+      }
+    };
+
+    const batch = adminDb.batch();
+    batch.set(configRef, restored);
+    batch.delete(tombstoneRef);
+    await batch.commit();
+
+    console.log(`Restored deleted AI configuration: ${useCaseId}`);
+
+    return NextResponse.json({
+      success: true,
+      configuration: { ...restored, useCaseId },
+      message: `Configuration ${useCaseId} restored`
+    });
+
+  } catch (error) {
+    console.error('Error restoring AI configuration:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: 500 }
+    );
+  }
+}
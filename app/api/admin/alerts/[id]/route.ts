@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminAccess } from '@/lib/admin-auth';
+import { AIAlerts } from '@/lib/ai-alerts';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+const ALERT_ACTIONS = ['acknowledge', 'silence', 'unsilence'];
+
+// PATCH /api/admin/alerts/[id] - Acknowledge or silence an alert
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Validate admin access
+    if (!validateAdminAccess(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized access' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { action, durationMinutes } = await request.json();
+
+    if (!ALERT_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${ALERT_ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const alert = await AIAlerts.get(id);
+    if (!alert) {
+      return NextResponse.json(
+        { error: 'Alert not found' },
+        { status: 404 }
+      );
+    }
+
+    if (action === 'acknowledge') {
+      if (alert.status !== 'firing') {
+        return NextResponse.json(
+          { error: `Alert is ${alert.status}, only firing alerts can be acknowledged` },
+          { status: 409 }
+        );
+      }
+      await AIAlerts.acknowledge(id);
+    } else if (action === 'silence') {
+      const minutes = Number(durationMinutes);
+      if (!Number.isFinite(minutes) || minutes <= 0) {
+        return NextResponse.json(
+          { error: 'durationMinutes must be a positive number' },
+          { status: 400 }
+        );
+      }
+      await AIAlerts.silence(id, minutes);
+    } else {
+      await AIAlerts.silence(id, 0);
+    }
+
+    return NextResponse.json({
+      success: true,
+      alert: await AIAlerts.get(id)
+    });
+
+  } catch (error) {
+    const { id: errorId } = await params;
+    console.error(`Error updating alert ${errorId}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: 500 }
+    );
+  }
+}
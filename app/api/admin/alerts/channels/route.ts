@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminAccess } from '@/lib/admin-auth';
+import { AIAlerts, type AIAlertChannelType } from '@/lib/ai-alerts';
+
+const CHANNEL_TYPES: AIAlertChannelType[] = ['webhook', 'slack', 'email'];
+
+// GET /api/admin/alerts/channels - List notification channels
+export async function GET(request: NextRequest) {
+  try {
+    // Validate admin access
+    if (!validateAdminAccess(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized access' },
+        { status: 401 }
+      );
+    }
+
+    const channels = await AIAlerts.getChannels();
+
+    return NextResponse.json({
+      channels,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error fetching alert channels:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/alerts/channels - Create a channel, or update it when an id is given
+export async function POST(request: NextRequest) {
+  try {
+    // Validate admin access
+    if (!validateAdminAccess(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized access' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { id, name, type, enabled = true, url, recipients, useCaseIds, metrics } = body;
+
+    if (!name || !CHANNEL_TYPES.includes(type)) {
+      return NextResponse.json(
+        { error: `name and type (${CHANNEL_TYPES.join(', ')}) are required` },
+        { status: 400 }
+      );
+    }
+    if (type !== 'email' && !/^https?:\/\//.test(url || '')) {
+      return NextResponse.json(
+        { error: `A valid url is required for ${type} channels` },
+        { status: 400 }
+      );
+    }
+    if (type === 'email' && (!Array.isArray(recipients) || recipients.length === 0)) {
+      return NextResponse.json(
+        { error: 'recipients are required for email channels' },
+        { status: 400 }
+      );
+    }
+
+    const channel = await AIAlerts.saveChannel({
+      ...(id && { id }),
+      name,
+      type,
+      enabled: Boolean(enabled),
+      ...(type !== 'email' && { url }),
+      ...(type === 'email' && { recipients }),
+      ...(Array.isArray(useCaseIds) && { useCaseIds }),
+      ...(Array.isArray(metrics) && { metrics })
+    });
+
+    return NextResponse.json({
+      success: true,
+      channel
+    });
+
+  } catch (error) {
+    console.error('Error saving alert channel:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/alerts/channels?id=... - Remove a channel
+export async function DELETE(request: NextRequest) {
+  try {
+    // Validate admin access
+    if (!validateAdminAccess(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized access' },
+        { status: 401 }
+      );
+    }
+
+    const id = new URL(request.url).searchParams.get('id');
+    if (!id) {
+      return NextResponse.json(
+        { error: 'id is required' },
+        { status: 400 }
+      );
+    }
+
+    await AIAlerts.deleteChannel(id);
+
+    return NextResponse.json({
+      success: true
+    });
+
+  } catch (error) {
+    console.error('Error deleting alert channel:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: 500 }
+    );
+  }
+}
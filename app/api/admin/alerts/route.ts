@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminAccess } from '@/lib/admin-auth';
+import { AIAlerts, type AIAlertStatus } from '@/lib/ai-alerts';
+
+const ALERT_STATUSES: AIAlertStatus[] = ['firing', 'acknowledged', 'resolved'];
+
+// GET /api/admin/alerts - Alert inbox (?status=firing)
+export async function GET(request: NextRequest) {
+  try {
+    // Validate admin access
+    if (!validateAdminAccess(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized access' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') as AIAlertStatus | null;
+
+    if (status && !ALERT_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${ALERT_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const alerts = await AIAlerts.list(status || undefined);
+
+    return NextResponse.json({
+      alerts,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error fetching alerts:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/alerts - { action: 'evaluate' } checks every alert-enabled use case now
+export async function POST(request: NextRequest) {
+  try {
+    // Validate admin access
+    if (!validateAdminAccess(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized access' },
+        { status: 401 }
+      );
+    }
+
+    const { action } = await request.json();
+
+    if (action !== 'evaluate') {
+      return NextResponse.json(
+        { error: 'Invalid action' },
+        { status: 400 }
+      );
+    }
+
+    const result = await AIAlerts.evaluate();
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    });
+
+  } catch (error) {
+    console.error('Error evaluating alerts:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: 500 }
+    );
+  }
+}
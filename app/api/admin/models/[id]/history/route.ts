@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ModelHistory } from '@/lib/model-history';
+
+// Note: This is an admin-only interface running server-side
+// In production, you should add proper authentication middleware
+
+// GET - Change history and per-field provenance for a model (?limit=50)
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const { searchParams } = new URL(request.url);
+    const limit = Number(searchParams.get('limit')) || undefined;
+
+    const [entries, provenance] = await Promise.all([
+      ModelHistory.list(id, limit),
+      ModelHistory.getProvenance(id)
+    ]);
+
+    return NextResponse.json({
+      // Snapshots stay server-side; reverting only needs the entry ID
+      entries: entries.map(({ snapshot, ...entry }) => ({
+        ...entry,
+        createdAt: entry.createdAt?.toDate?.().toISOString()
+      })),
+      provenance: Object.fromEntries(
+        Object.entries(provenance).map(([path, field]) => [
+          path,
+          { ...field, changedAt: field.changedAt?.toDate?.().toISOString() }
+        ])
+      )
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching model history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch model history', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ModelHistory } from '@/lib/model-history';
+
+// Note: This is an admin-only interface running server-side
+// In production, you should add proper authentication middleware
+
+// POST - Restore a model to the snapshot of a history entry ({ entryId })
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const { entryId } = await request.json();
+
+    if (!entryId) {
+      return NextResponse.json({ error: 'History entry ID is required' }, { status: 400 });
+    }
+
+    let changedPaths: string[];
+    try {
+      changedPaths = await ModelHistory.revert(id, entryId, 'admin'); // TODO: Get actual user from auth
+    } catch (error: any) {
+      // Unknown model or history entry
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      changedPaths,
+      message: changedPaths.length > 0
+        ? `Reverted ${changedPaths.length} fields`
+        : 'Model already matched the selected version'
+    });
+
+  } catch (error: any) {
+    console.error('Error reverting model:', error);
+    return NextResponse.json(
+      { error: 'Failed to revert model', details: error.message },
+      { status: 500 }
+    );
+  }
+}
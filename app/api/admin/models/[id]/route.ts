@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase-admin';
+import { ModelHistory } from '@/lib/model-history';
 import type { ModelDocument } from '@/types/model-schema';
 
 // Note: This is an admin-only interface running server-side
@@ -51,7 +52,14 @@ export async function PUT(
       updatedAt: new Date(),
     };
 
-    await adminDb.collection('models').doc(id).update(updateData);
+    const modelRef = adminDb.collection('models').doc(id);
+    const batch = adminDb.batch();
+    batch.update(modelRef, updateData);
+    await ModelHistory.record(batch, modelRef, modelDoc.data() || null, { ...modelDoc.data(), ...updateData }, {
+      source: 'manual',
+      actor: 'admin' // TODO: Get actual user from auth
+    });
+    await batch.commit();
     
     // Get updated model
     const updatedDoc = await adminDb.collection('models').doc(id).get();
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getFirebaseAdmin } from '@/lib/firebase-admin';
+import { ModelHistory, mergeModel } from '@/lib/model-history';
 import type { ModelDocument } from '@/types/model-schema';
 
 // Admin validation - disabled to match other admin routes
@@ -103,8 +104,9 @@ export async function POST(request: NextRequest) {
     let imported = 0;
     const batch = db.batch();
     const timestamp = Timestamp.now();
+    const existingDocs = await db.getAll(...models.map(modelData => db.collection('models').doc(modelData.id)));
 
-    for (const modelData of models) {
+    for (const [index, modelData] of models.entries()) {
       // Create complete model document with defaults
       const modelDoc: Partial<ModelDocument> = {
         id: modelData.id,
@@ -260,6 +262,11 @@ export async function POST(request: NextRequest) {
 
       const modelRef = db.collection('models').doc(modelData.id);
       batch.set(modelRef, modelDoc, { merge: true });
+      const before = existingDocs[index].data() || null;
+      await ModelHistory.record(batch, modelRef, before, mergeModel(before || {}, modelDoc), {
+        source: 'import',
+        actor: 'admin' // TODO: Get actual user from auth
+      });
       imported++;
     }
 
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase-admin';
 import { Timestamp } from 'firebase-admin/firestore';
+import { ModelHistory } from '@/lib/model-history';
 import type { ModelDocument } from '@/types/model-schema';
 
 // Note: This is an admin-only interface running server-side
@@ -192,7 +193,14 @@ export async function POST(request: NextRequest) {
       updatedAt: Timestamp.now(),
     } as ModelDocument;
 
-    await adminDb.collection('models').doc(modelData.id).set(newModel);
+    const modelRef = adminDb.collection('models').doc(modelData.id);
+    const batch = adminDb.batch();
+    batch.set(modelRef, newModel);
+    await ModelHistory.record(batch, modelRef, null, newModel, {
+      source: 'manual',
+      actor: 'admin' // TODO: Get actual user from auth
+    });
+    await batch.commit();
 
     return NextResponse.json({ 
       success: true, 
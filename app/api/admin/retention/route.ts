@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminAccess } from '@/lib/admin-auth';
+import { RetentionWorker, type RetentionMode, type RetentionTarget } from '@/lib/retention-worker';
+
+const RETENTION_TARGETS: RetentionTarget[] = ['aiExecutions', 'promptExecutions', 'workflowExecutions'];
+const RETENTION_MODES: RetentionMode[] = ['delete', 'archive'];
+
+// GET /api/admin/retention - Recent retention runs
+export async function GET(request: NextRequest) {
+  try {
+    // Validate admin access
+    if (!validateAdminAccess(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized access' },
+        { status: 401 }
+      );
+    }
+
+    const limit = Number(new URL(request.url).searchParams.get('limit')) || 20;
+    const runs = await RetentionWorker.listRuns(Math.min(limit, 100));
+
+    return NextResponse.json({
+      runs,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error fetching retention runs:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/retention - Run retention: { dryRun?, mode?: 'delete' | 'archive', targets?, maxDocsPerTarget? }
+export async function POST(request: NextRequest) {
+  try {
+    // Validate admin access
+    if (!validateAdminAccess(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized access' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { dryRun = false, mode, targets, maxDocsPerTarget } = body;
+
+    if (mode && !RETENTION_MODES.includes(mode)) {
+      return NextResponse.json(
+        { error: `mode must be one of: ${RETENTION_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (targets && (!Array.isArray(targets) || targets.some((target: any) => !RETENTION_TARGETS.includes(target)))) {
+      return NextResponse.json(
+        { error: `targets must be a list of: ${RETENTION_TARGETS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const run = await RetentionWorker.run({
+      dryRun: Boolean(dryRun),
+      mode,
+      targets,
+      ...(Number(maxDocsPerTarget) > 0 && { maxDocsPerTarget: Number(maxDocsPerTarget) })
+    });
+
+    return NextResponse.json({
+      success: true,
+      run
+    });
+
+  } catch (error) {
+    console.error('Error running retention:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: 500 }
+    );
+  }
+}
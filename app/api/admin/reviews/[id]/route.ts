@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminAccess } from '@/lib/admin-auth';
+import { AIReviewQueue, type AIReviewAction } from '@/lib/ai-review-queue';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+const REVIEW_ACTIONS: AIReviewAction[] = ['approve', 'reject', 'edit'];
+
+// GET /api/admin/reviews/[id] - Get a single review
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Validate admin access
+    if (!validateAdminAccess(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized access' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const review = await AIReviewQueue.get(id);
+
+    if (!review) {
+      return NextResponse.json(
+        { error: 'Review not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      review,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const { id: errorId } = await params;
+    console.error(`Error fetching review ${errorId}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/admin/reviews/[id] - Approve, reject or edit a pending review
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Validate admin access
+    if (!validateAdminAccess(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized access' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { action, notes, editedOutput, score, saveAsExample } = await request.json();
+
+    if (!REVIEW_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${REVIEW_ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (action === 'edit' && !editedOutput?.trim()) {
+      return NextResponse.json(
+        { error: 'editedOutput is required to edit a review' },
+        { status: 400 }
+      );
+    }
+
+    const review = await AIReviewQueue.get(id);
+    if (!review) {
+      return NextResponse.json(
+        { error: 'Review not found' },
+        { status: 404 }
+      );
+    }
+    if (review.status !== 'pending') {
+      return NextResponse.json(
+        { error: `Review was already ${review.status}` },
+        { status: 409 }
+      );
+    }
+
+    const updated = await AIReviewQueue.decide(id, {
+      action,
+      notes,
+      editedOutput,
+      ...(score !== undefined && score !== null && score !== '' && { score: Number(score) }),
+      saveAsExample: !!saveAsExample
+    });
+    // Another reviewer decided it since it was read above
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Review was already decided' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      review: updated,
+      message: `Review ${updated.status}`
+    });
+
+  } catch (error) {
+    const { id: errorId } = await params;
+    console.error(`Error updating review ${errorId}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminAccess } from '@/lib/admin-auth';
+import { AIReviewQueue } from '@/lib/ai-review-queue';
+import type { AIOutputReviewStatus } from '@/types/ai-configuration-schema';
+
+const REVIEW_STATUSES: AIOutputReviewStatus[] = ['pending', 'approved', 'rejected', 'edited'];
+
+// GET /api/admin/reviews - Outputs queued for human review (?status=pending&useCaseId=...)
+export async function GET(request: NextRequest) {
+  try {
+    // Validate admin access
+    if (!validateAdminAccess(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized access' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') as AIOutputReviewStatus | null;
+    const useCaseId = searchParams.get('useCaseId');
+    const limit = Number(searchParams.get('limit')) || undefined;
+
+    if (status && !REVIEW_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${REVIEW_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const [reviews, counts] = await Promise.all([
+      AIReviewQueue.list({
+        ...(status && { status }),
+        ...(useCaseId && { useCaseId }),
+        limit
+      }),
+      AIReviewQueue.countByStatus()
+    ]);
+
+    return NextResponse.json({
+      reviews: reviews.map(review => ({
+        ...review,
+        createdAt: review.createdAt?.toDate?.().toISOString(),
+        reviewedAt: review.reviewedAt?.toDate?.().toISOString()
+      })),
+      counts,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error fetching AI output reviews:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: 500 }
+    );
+  }
+}
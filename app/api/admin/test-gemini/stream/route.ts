@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AIAPIRouter } from '@/lib/ai-api-router';
+import { createServerSentEventsResponse } from '@/lib/server-sent-events';
+
+// Note: This is an admin-only interface running server-side
+// In production, you should add proper authentication middleware
+
+/**
+ * Streaming API key check: 'delta' events with Gemini's reply, then 'done'
+ */
+export async function POST(request: NextRequest) {
+
+  try {
+    const { geminiApiKey } = await request.json();
+
+    if (!geminiApiKey) {
+      return NextResponse.json({ error: 'Gemini API key required' }, { status: 400 });
+    }
+
+    console.log('Streaming Gemini API test with key:', geminiApiKey.substring(0, 10) + '...');
+
+    return createServerSentEventsResponse(
+      AIAPIRouter.executeStreamingRequest({
+        modelName: 'gemini-1.5-flash-latest',
+        prompt: 'Say hello',
+        apiKey: geminiApiKey
+      })
+    );
+
+  } catch (error: any) {
+    console.error('Test error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error.message
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ModelChangeSets } from '@/lib/model-change-sets';
+
+// Note: This is an admin-only interface running server-side
+// In production, you should add proper authentication middleware
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// GET /api/admin/workflows/change-sets/[id] - Get a single change set
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const changeSet = await ModelChangeSets.get(id);
+
+    if (!changeSet) {
+      return NextResponse.json({ error: 'Change set not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ changeSet });
+
+  } catch (error: any) {
+    console.error('Error fetching model change set:', error);
+    return NextResponse.json({
+      error: error.message || 'Failed to fetch model change set',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+// PATCH /api/admin/workflows/change-sets/[id] - Accept all or selected fields, or reject a pending change set
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const { action, paths, notes } = await request.json();
+
+    if (action !== 'accept' && action !== 'reject') {
+      return NextResponse.json({ error: 'action must be one of: accept, reject' }, { status: 400 });
+    }
+    if (paths !== undefined && (!Array.isArray(paths) || paths.some(path => typeof path !== 'string'))) {
+      return NextResponse.json({ error: 'paths must be an array of field paths' }, { status: 400 });
+    }
+
+    const changeSet = await ModelChangeSets.get(id);
+    if (!changeSet) {
+      return NextResponse.json({ error: 'Change set not found' }, { status: 404 });
+    }
+    if (changeSet.status !== 'pending') {
+      return NextResponse.json({ error: `Change set was already ${changeSet.status}` }, { status: 409 });
+    }
+
+    let updated;
+    try {
+      updated = action === 'accept'
+        ? await ModelChangeSets.accept(changeSet, paths, notes)
+        : await ModelChangeSets.reject(changeSet, notes);
+    } catch (error: any) {
+      // No fields selected, or the model was deleted since staging
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      changeSet: {
+        ...updated,
+        createdAt: updated.createdAt?.toDate?.().toISOString(),
+        reviewedAt: updated.reviewedAt?.toDate?.().toISOString()
+      },
+      message: `Change set ${updated.status}`
+    });
+
+  } catch (error: any) {
+    console.error('Error reviewing model change set:', error);
+    return NextResponse.json({
+      error: error.message || 'Failed to review model change set',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
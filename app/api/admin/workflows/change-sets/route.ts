@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ModelChangeSets } from '@/lib/model-change-sets';
+import type { ModelChangeSet } from '@/types/model-schema';
+
+// Note: This is an admin-only interface running server-side
+// In production, you should add proper authentication middleware
+
+const CHANGE_SET_STATUSES: ModelChangeSet['status'][] = ['pending', 'applied', 'partially-applied', 'rejected'];
+
+// GET /api/admin/workflows/change-sets - Staged enrichment results (?status=pending&modelId=...&executionId=...)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') as ModelChangeSet['status'] | null;
+    const modelId = searchParams.get('modelId');
+    const executionId = searchParams.get('executionId');
+    const limit = Number(searchParams.get('limit')) || undefined;
+
+    if (status && !CHANGE_SET_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${CHANGE_SET_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const changeSets = await ModelChangeSets.list({
+      ...(status && { status }),
+      ...(modelId && { modelId }),
+      ...(executionId && { executionId }),
+      limit
+    });
+
+    return NextResponse.json({
+      changeSets: changeSets.map(changeSet => ({
+        ...changeSet,
+        createdAt: changeSet.createdAt?.toDate?.().toISOString(),
+        reviewedAt: changeSet.reviewedAt?.toDate?.().toISOString()
+      })),
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching model change sets:', error);
+    return NextResponse.json({
+      error: error.message || 'Failed to fetch model change sets',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AIEnrichmentService } from '@/lib/ai-enrichment-service';
+
+// Note: This is an admin-only interface running server-side
+// In production, you should add proper authentication middleware
+
+// POST /api/admin/workflows/execution/pause - Pause a running or queued execution after its current model
+export async function POST(request: NextRequest) {
+
+  try {
+    const { executionId } = await request.json();
+
+    if (!executionId) {
+      return NextResponse.json({ error: 'Execution ID required' }, { status: 400 });
+    }
+
+    const execution = await AIEnrichmentService.getExecution(executionId);
+    if (!execution) {
+      return NextResponse.json({ error: 'Execution not found' }, { status: 404 });
+    }
+
+    console.log(`⏸️ Pause requested for execution: ${executionId}`);
+
+    try {
+      await AIEnrichmentService.pauseExecution(executionId);
+    } catch (error: any) {
+      // The job is not in a state that allows this
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json({ 
+      success: true, 
+      message: 'Pause requested',
+      executionId 
+    });
+
+  } catch (error: any) {
+    console.error('Error pausing execution:', error);
+    return NextResponse.json({
+      error: error.message || 'Failed to pause execution',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AIEnrichmentService } from '@/lib/ai-enrichment-service';
+
+// Note: This is an admin-only interface running server-side
+// In production, you should add proper authentication middleware
+
+// POST /api/admin/workflows/execution/resume - Resume a paused execution from its first unprocessed model
+export async function POST(request: NextRequest) {
+
+  try {
+    const { executionId } = await request.json();
+
+    if (!executionId) {
+      return NextResponse.json({ error: 'Execution ID required' }, { status: 400 });
+    }
+
+    const execution = await AIEnrichmentService.getExecution(executionId);
+    if (!execution) {
+      return NextResponse.json({ error: 'Execution not found' }, { status: 404 });
+    }
+
+    console.log(`▶️ Resume requested for execution: ${executionId}`);
+
+    try {
+      await AIEnrichmentService.resumeExecution(executionId);
+    } catch (error: any) {
+      // The job is not in a state that allows this
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json({ 
+      success: true, 
+      message: 'Execution resumed',
+      executionId 
+    });
+
+  } catch (error: any) {
+    console.error('Error resuming execution:', error);
+    return NextResponse.json({
+      error: error.message || 'Failed to resume execution',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
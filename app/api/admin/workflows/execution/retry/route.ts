@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AIEnrichmentService } from '@/lib/ai-enrichment-service';
+
+// Note: This is an admin-only interface running server-side
+// In production, you should add proper authentication middleware
+
+// POST /api/admin/workflows/execution/retry - Start a child execution for a finished execution's failed models
+export async function POST(request: NextRequest) {
+
+  try {
+    const { executionId } = await request.json();
+
+    if (!executionId) {
+      return NextResponse.json({ error: 'Execution ID required' }, { status: 400 });
+    }
+
+    const execution = await AIEnrichmentService.getExecution(executionId);
+    if (!execution) {
+      return NextResponse.json({ error: 'Execution not found' }, { status: 404 });
+    }
+
+    console.log(`🔁 Retry of failed models requested for execution: ${executionId}`);
+
+    let child;
+    try {
+      child = await AIEnrichmentService.retryFailedModels(executionId);
+    } catch (error: any) {
+      // Still running, or nothing failed
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json(child);
+
+  } catch (error: any) {
+    console.error('Error retrying failed models:', error);
+    return NextResponse.json({
+      error: error.message || 'Failed to retry failed models',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { adminDb as db } from '@/lib/firebase-admin';
 import { FieldValue } from 'firebase-admin/firestore';
+import { EnrichmentJobQueue } from '@/lib/enrichment-job-queue';
 
 // Note: This is an admin-only interface running server-side
 // In production, you should add proper authentication middleware
@@ -10,9 +11,9 @@ export async function POST(request: NextRequest) {
   try {
     console.log('🛑🛑🛑 EMERGENCY STOP ALL - Finding and stopping all running executions');
 
-    // Find all running executions
+    // Find all unfinished executions (paused ones would otherwise be resumable)
     const runningExecutions = await db.collection('workflow_executions')
-      .where('status', 'in', ['running', 'pending'])
+      .where('status', 'in', ['running', 'pending', 'paused'])
       .get();
 
     console.log(`Found ${runningExecutions.size} running executions to stop`);
@@ -26,12 +27,12 @@ export async function POST(request: NextRequest) {
       
       const docRef = db.collection('workflow_executions').doc(executionId);
       batch.update(docRef, {
-        status: 'failed',
+        status: 'cancelled',
         completedAt: new Date().toISOString(),
         logs: FieldValue.arrayUnion({
           id: `log_${Date.now()}_emergency_stop_all`,
           timestamp: new Date().toISOString(),
-          level: 'error',
+          level: 'warning',
           message: '🛑🛑🛑 EMERGENCY STOP ALL - All workflows terminated to prevent runaway API calls'
         })
       });
@@ -40,6 +41,9 @@ export async function POST(request: NextRequest) {
     // Execute batch update
     await batch.commit();
 
+    // Cancel their queued jobs; workers holding one stop at their next heartbeat
+    await Promise.all(stoppedExecutions.map(executionId => EnrichmentJobQueue.cancel(executionId)));
+
     console.log(`✅ Stopped ${stoppedExecutions.length} executions:`, stoppedExecutions);
 
     return NextResponse.json({ 
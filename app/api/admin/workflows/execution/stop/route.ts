@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { adminDb as db } from '@/lib/firebase-admin';
 import { FieldValue } from 'firebase-admin/firestore';
+import { EnrichmentJobQueue } from '@/lib/enrichment-job-queue';
 
 // Note: This is an admin-only interface running server-side
 // In production, you should add proper authentication middleware
@@ -16,19 +17,22 @@ export async function POST(request: NextRequest) {
 
     console.log(`🛑 EMERGENCY STOP requested for execution: ${executionId}`);
 
-    // Update execution status to 'failed' to stop processing
+    // Update execution status to 'cancelled' to stop processing
     await db.collection('workflow_executions').doc(executionId).update({
-      status: 'failed',
+      status: 'cancelled',
       completedAt: new Date().toISOString(),
       logs: FieldValue.arrayUnion({
         id: `log_${Date.now()}_emergency_stop`,
         timestamp: new Date().toISOString(),
-        level: 'error',
+        level: 'warning',
         message: '🛑 EMERGENCY STOP - Execution manually terminated to prevent runaway API calls'
       })
     });
 
-    console.log(`✅ Execution ${executionId} marked as failed/stopped`);
+    // Cancel the queued job too, so a worker never picks it up again
+    await EnrichmentJobQueue.cancel(executionId);
+
+    console.log(`✅ Execution ${executionId} marked as cancelled`);
 
     return NextResponse.json({ 
       success: true, 
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkflowScheduler } from '@/lib/workflow-scheduler';
+
+// Note: This is an admin-only interface running server-side
+// In production, you should add proper authentication middleware
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// PUT /api/admin/workflows/schedules/[id] - Replace a schedule's settings
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const input = await request.json();
+
+    try {
+      WorkflowScheduler.validate(input);
+    } catch (error: any) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    const schedule = await WorkflowScheduler.update(id, input);
+    if (!schedule) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, schedule });
+
+  } catch (error: any) {
+    console.error('Error updating workflow schedule:', error);
+    return NextResponse.json({
+      error: error.message || 'Failed to update workflow schedule',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/workflows/schedules/[id] - Delete a schedule
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    if (!(await WorkflowScheduler.delete(id))) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, message: 'Schedule deleted' });
+
+  } catch (error: any) {
+    console.error('Error deleting workflow schedule:', error);
+    return NextResponse.json({
+      error: error.message || 'Failed to delete workflow schedule',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
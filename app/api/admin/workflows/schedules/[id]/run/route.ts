@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkflowScheduler } from '@/lib/workflow-scheduler';
+
+// Note: This is an admin-only interface running server-side
+// In production, you should add proper authentication middleware
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// POST /api/admin/workflows/schedules/[id]/run - Run a schedule now, even if it isn't due or is disabled
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    if (!(await WorkflowScheduler.get(id))) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+    }
+
+    const result = await WorkflowScheduler.runNow(id);
+    if (!result) {
+      return NextResponse.json({ error: 'Schedule is already running' }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: result.status !== 'failed', result });
+
+  } catch (error: any) {
+    console.error('Error running workflow schedule:', error);
+    return NextResponse.json({
+      error: error.message || 'Failed to run workflow schedule',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
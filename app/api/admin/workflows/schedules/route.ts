@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkflowScheduler } from '@/lib/workflow-scheduler';
+
+// Note: This is an admin-only interface running server-side
+// In production, you should add proper authentication middleware
+
+// GET /api/admin/workflows/schedules - All recurring workflow schedules
+export async function GET() {
+  try {
+    const schedules = await WorkflowScheduler.list();
+    return NextResponse.json({ schedules, timestamp: new Date().toISOString() });
+
+  } catch (error: any) {
+    console.error('Error fetching workflow schedules:', error);
+    return NextResponse.json({
+      error: error.message || 'Failed to fetch workflow schedules',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+// POST /api/admin/workflows/schedules - Create a schedule
+export async function POST(request: NextRequest) {
+  try {
+    const input = await request.json();
+
+    try {
+      WorkflowScheduler.validate(input);
+    } catch (error: any) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    const schedule = await WorkflowScheduler.create(input);
+    return NextResponse.json({ success: true, schedule });
+
+  } catch (error: any) {
+    console.error('Error creating workflow schedule:', error);
+    return NextResponse.json({
+      error: error.message || 'Failed to create workflow schedule',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
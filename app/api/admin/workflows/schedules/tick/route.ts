@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkflowScheduler } from '@/lib/workflow-scheduler';
+
+// Note: This is an admin-only interface running server-side
+// In production, you should add proper authentication middleware
+
+// POST /api/admin/workflows/schedules/tick - Run every enabled schedule that is due: { runnerId? }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const results = await WorkflowScheduler.tick({
+      ...(typeof body.runnerId === 'string' && { runnerId: body.runnerId })
+    });
+
+    return NextResponse.json({ results, timestamp: new Date().toISOString() });
+
+  } catch (error: any) {
+    console.error('Error running scheduler tick:', error);
+    return NextResponse.json({
+      error: error.message || 'Failed to run scheduler tick',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
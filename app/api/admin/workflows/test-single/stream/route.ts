@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AIEnrichmentService } from '@/lib/ai-enrichment-service';
+import { createServerSentEventsResponse } from '@/lib/server-sent-events';
+
+// Note: This is an admin-only interface running server-side
+// In production, you should add proper authentication middleware
+
+/**
+ * Streaming variant of test-single: sends the AI output as 'delta' events while
+ * it is generated, then a 'result' event with the parsed research (no DB update).
+ */
+export async function POST(request: NextRequest) {
+
+  try {
+    const body = await request.json();
+    const { modelId, config } = body;
+
+    // Validate inputs
+    if (!modelId) {
+      return NextResponse.json(
+        { error: 'Model ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Configuration is required' },
+        { status: 400 }
+      );
+    }
+
+    // Validate Gemini API key
+    if (!config.geminiApiKey) {
+      return NextResponse.json(
+        { error: 'Gemini API key is required' },
+        { status: 400 }
+      );
+    }
+
+    const { geminiApiKey, ...enrichmentConfig } = config;
+    return createServerSentEventsResponse(
+      AIEnrichmentService.streamModelResearch(modelId, { ...enrichmentConfig, testMode: true }, geminiApiKey)
+    );
+
+  } catch (error: any) {
+    console.error('Error streaming single model test:', error);
+    
+    return NextResponse.json({
+      error: error.message || 'Failed to test model',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
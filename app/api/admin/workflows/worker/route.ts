@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EnrichmentJobQueue } from '@/lib/enrichment-job-queue';
+import { EnrichmentWorker } from '@/lib/enrichment-worker';
+
+// Note: This is an admin-only interface running server-side
+// In production, you should add proper authentication middleware
+
+const MAX_BUDGET_MS = 5 * 60 * 1000;
+
+// GET /api/admin/workflows/worker - Enrichment job queue overview
+export async function GET(request: NextRequest) {
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.max(1, Math.min(100, parseInt(searchParams.get('limit') || '50')));
+
+    const jobs = await EnrichmentJobQueue.listJobs(limit);
+
+    return NextResponse.json({
+      jobs,
+      count: jobs.length,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching enrichment jobs:', error);
+    
+    return NextResponse.json({
+      error: error.message || 'Failed to fetch enrichment jobs',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+// POST /api/admin/workflows/worker - Run one worker tick: { workerId?, budgetMs? }
+export async function POST(request: NextRequest) {
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const budgetMs = typeof body.budgetMs === 'number' ? Math.max(0, Math.min(MAX_BUDGET_MS, body.budgetMs)) : undefined;
+
+    const result = await EnrichmentWorker.tick({
+      ...(typeof body.workerId === 'string' && { workerId: body.workerId }),
+      ...(budgetMs !== undefined && { budgetMs })
+    });
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    });
+
+  } catch (error: any) {
+    console.error('Error running enrichment worker:', error);
+    
+    return NextResponse.json({
+      error: error.message || 'Failed to run enrichment worker',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
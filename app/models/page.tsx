@@ -1716,6 +1716,7 @@ export default function ModelsPage() {
             setShowViewModal(false);
             setSelectedModel(null);
           }}
+          onReverted={fetchModels}
         />
         
         <ModelEditModal
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { AdminLayout } from '@/components/AdminLayout';
+import { AlertInbox } from '@/components/AlertInbox';
 import { Database, Users, Activity, TrendingUp } from 'lucide-react';
 
 // No API key needed - this is a server-side admin interface
@@ -152,6 +153,9 @@ export default function AdminDashboard() {
           </div>
         ) : null}
 
+        {/* Alerts */}
+        <AlertInbox />
+
         {/* Quick Actions */}
         <div className="bg-white rounded-lg shadow">
           <div className="px-6 py-4 border-b border-gray-200">
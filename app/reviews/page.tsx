@@ -0,0 +1,432 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { AdminLayout } from '@/components/AdminLayout';
+import {
+  ClipboardCheck,
+  CheckCircle,
+  XCircle,
+  Edit,
+  Clock,
+  RefreshCw,
+  ChevronDown,
+  ChevronRight,
+  AlertCircle,
+  Loader2
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+type ReviewStatus = 'pending' | 'approved' | 'rejected' | 'edited';
+
+interface OutputReview {
+  id: string;
+  executionId: string;
+  useCaseId: string;
+  configurationVersion: string;
+  model: string;
+  prompt: string;
+  systemPrompt?: string;
+  output: string;
+  qualityScore: number;
+  qualityChecks: Array<{ checkName: string; score: number; passed: boolean; details?: string }>;
+  validationResults: Array<{ rule: string; passed: boolean; message?: string; severity: string }>;
+  rejected: boolean;
+  status: ReviewStatus;
+  createdAt?: string;
+  reviewedAt?: string;
+  reviewerNotes?: string;
+  reviewerScore?: number;
+  editedOutput?: string;
+  savedAsExample?: boolean;
+}
+
+interface ReviewDraft {
+  notes: string;
+  editedOutput: string;
+  score: string;
+  saveAsExample: boolean;
+}
+
+const STATUS_STYLES: Record<ReviewStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  edited: 'bg-blue-100 text-blue-800'
+};
+
+const getScoreColor = (score: number) => {
+  if (score >= 80) return 'text-green-600';
+  if (score >= 60) return 'text-yellow-600';
+  return 'text-red-600';
+};
+
+export default function ReviewsPage() {
+  const [reviews, setReviews] = useState<OutputReview[]>([]);
+  const [counts, setCounts] = useState<Record<ReviewStatus, number>>({ pending: 0, approved: 0, rejected: 0, edited: 0 });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<ReviewStatus | 'all'>('pending');
+  const [useCaseFilter, setUseCaseFilter] = useState('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, ReviewDraft>>({});
+  const [submittingId, setSubmittingId] = useState<string | null>(null);
+
+  const fetchReviews = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const params = new URLSearchParams();
+      if (statusFilter !== 'all') params.set('status', statusFilter);
+      if (useCaseFilter !== 'all') params.set('useCaseId', useCaseFilter);
+
+      const response = await fetch(`/api/admin/reviews?${params.toString()}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to fetch reviews');
+      }
+      setReviews(data.reviews || []);
+      setCounts(data.counts || { pending: 0, approved: 0, rejected: 0, edited: 0 });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch reviews');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReviews();
+  }, [statusFilter, useCaseFilter]);
+
+  const getDraft = (review: OutputReview): ReviewDraft =>
+    drafts[review.id] || { notes: '', editedOutput: review.output, score: '', saveAsExample: false };
+
+  const updateDraft = (review: OutputReview, changes: Partial<ReviewDraft>) => {
+    setDrafts(prev => ({ ...prev, [review.id]: { ...getDraft(review), ...changes } }));
+  };
+
+  const handleDecision = async (review: OutputReview, action: 'approve' | 'reject' | 'edit') => {
+    const draft = getDraft(review);
+    try {
+      setSubmittingId(review.id);
+      const response = await fetch(`/api/admin/reviews/${review.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action,
+          notes: draft.notes || undefined,
+          ...(action === 'edit' && { editedOutput: draft.editedOutput }),
+          ...(draft.score !== '' && { score: Number(draft.score) }),
+          saveAsExample: draft.saveAsExample
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to save review');
+      }
+      setExpandedId(null);
+      await fetchReviews();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save review');
+    } finally {
+      setSubmittingId(null);
+    }
+  };
+
+  const useCaseIds = Array.from(new Set(reviews.map(review => review.useCaseId))).sort();
+  const decided = counts.approved + counts.rejected + counts.edited;
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Output Reviews</h1>
+            <p className="mt-2 text-gray-600">
+              AI outputs flagged for human review by their use case quality settings
+            </p>
+          </div>
+          <button
+            onClick={fetchReviews}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <RefreshCw className={cn('w-4 h-4 mr-2', loading && 'animate-spin')} />
+            Refresh
+          </button>
+        </div>
+
+        {/* Statistics Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          {[
+            { label: 'Pending', value: counts.pending, icon: Clock, color: 'text-yellow-600', bg: 'bg-yellow-100' },
+            { label: 'Approved', value: counts.approved, icon: CheckCircle, color: 'text-green-600', bg: 'bg-green-100' },
+            { label: 'Edited', value: counts.edited, icon: Edit, color: 'text-blue-600', bg: 'bg-blue-100' },
+            { label: 'Rejected', value: counts.rejected, icon: XCircle, color: 'text-red-600', bg: 'bg-red-100' }
+          ].map(card => (
+            <div key={card.label} className="bg-white overflow-hidden shadow rounded-lg">
+              <div className="p-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-600">{card.label}</p>
+                    <p className={cn('text-2xl font-bold', card.color)}>{card.value}</p>
+                  </div>
+                  <div className={cn('h-8 w-8 rounded-lg flex items-center justify-center', card.bg)}>
+                    <card.icon className={cn('h-4 w-4', card.color)} />
+                  </div>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+        {decided > 0 && (
+          <p className="text-sm text-gray-500">
+            Approval rate: {Math.round(((counts.approved + counts.edited) / decided) * 100)}% of {decided} reviewed outputs
+            ({counts.edited} needed corrections)
+          </p>
+        )}
+
+        {/* Filters */}
+        <div className="bg-white shadow rounded-lg p-6 flex flex-col md:flex-row gap-4">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as ReviewStatus | 'all')}
+            className="block w-48 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="pending">Pending</option>
+            <option value="approved">Approved</option>
+            <option value="edited">Edited</option>
+            <option value="rejected">Rejected</option>
+            <option value="all">All Statuses</option>
+          </select>
+          <select
+            value={useCaseFilter}
+            onChange={(e) => setUseCaseFilter(e.target.value)}
+            className="block w-64 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="all">All Use Cases</option>
+            {useCaseIds.map(useCaseId => (
+              <option key={useCaseId} value={useCaseId}>{useCaseId}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Review List */}
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg leading-6 font-medium text-gray-900">
+              Reviews ({reviews.length})
+            </h3>
+          </div>
+          <div className="p-6">
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin" />
+                <span className="ml-2">Loading reviews...</span>
+              </div>
+            ) : error ? (
+              <div className="flex items-center text-red-600 py-8 justify-center">
+                <AlertCircle className="w-5 h-5 mr-2" />
+                {error}
+              </div>
+            ) : reviews.length === 0 ? (
+              <div className="text-center py-8">
+                <ClipboardCheck className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No reviews found</h3>
+                <p className="text-gray-600">
+                  Outputs are queued here when a use case sets requireHumanReview and scores under its review threshold.
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {reviews.map(review => {
+                  const expanded = expandedId === review.id;
+                  const draft = getDraft(review);
+                  const submitting = submittingId === review.id;
+
+                  return (
+                    <div key={review.id} className="border border-gray-200 rounded-lg">
+                      <button
+                        onClick={() => setExpandedId(expanded ? null : review.id)}
+                        className="w-full flex items-start justify-between p-4 text-left hover:bg-gray-50"
+                      >
+                        <div className="flex items-start gap-2 min-w-0">
+                          {expanded
+                            ? <ChevronDown className="w-4 h-4 mt-1 text-gray-400 flex-shrink-0" />
+                            : <ChevronRight className="w-4 h-4 mt-1 text-gray-400 flex-shrink-0" />}
+                          <div className="min-w-0">
+                            <div className="flex items-center gap-2 mb-1">
+                              <span className="font-semibold text-gray-900">{review.useCaseId}</span>
+                              <span className={cn('inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium', STATUS_STYLES[review.status])}>
+                                {review.status}
+                              </span>
+                              {review.rejected && (
+                                <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-50 text-red-700">
+                                  auto-rejected
+                                </span>
+                              )}
+                            </div>
+                            <p className="text-sm text-gray-600 truncate">{review.prompt}</p>
+                          </div>
+                        </div>
+                        <div className="text-right text-sm ml-4 flex-shrink-0">
+                          <div className={cn('font-bold', getScoreColor(review.qualityScore))}>
+                            {review.qualityScore}/100
+                          </div>
+                          <div className="text-gray-500">{review.model} · v{review.configurationVersion}</div>
+                          {review.createdAt && (
+                            <div className="text-gray-400 text-xs">{new Date(review.createdAt).toLocaleString()}</div>
+                          )}
+                        </div>
+                      </button>
+
+                      {expanded && (
+                        <div className="border-t border-gray-200 p-4 space-y-4">
+                          {review.systemPrompt && (
+                            <div>
+                              <h4 className="text-sm font-medium text-gray-700 mb-1">System Prompt</h4>
+                              <pre className="text-xs bg-gray-50 rounded p-3 whitespace-pre-wrap max-h-40 overflow-y-auto">{review.systemPrompt}</pre>
+                            </div>
+                          )}
+                          <div>
+                            <h4 className="text-sm font-medium text-gray-700 mb-1">Prompt</h4>
+                            <pre className="text-xs bg-gray-50 rounded p-3 whitespace-pre-wrap max-h-60 overflow-y-auto">{review.prompt}</pre>
+                          </div>
+                          <div>
+                            <h4 className="text-sm font-medium text-gray-700 mb-1">Output</h4>
+                            <pre className="text-xs bg-gray-50 rounded p-3 whitespace-pre-wrap max-h-80 overflow-y-auto">{review.output}</pre>
+                          </div>
+
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                              <h4 className="text-sm font-medium text-gray-700 mb-1">Quality Checks</h4>
+                              {review.qualityChecks.length === 0 ? (
+                                <p className="text-xs text-gray-500">No quality checks ran</p>
+                              ) : (
+                                <ul className="space-y-1">
+                                  {review.qualityChecks.map(check => (
+                                    <li key={check.checkName} className="text-xs">
+                                      <span className={cn('font-medium', check.passed ? 'text-green-700' : 'text-red-700')}>
+                                        {check.checkName}: {check.score}
+                                      </span>
+                                      {check.details && <span className="text-gray-500"> — {check.details}</span>}
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                            </div>
+                            <div>
+                              <h4 className="text-sm font-medium text-gray-700 mb-1">Validation</h4>
+                              {review.validationResults.length === 0 ? (
+                                <p className="text-xs text-gray-500">No validation rules</p>
+                              ) : (
+                                <ul className="space-y-1">
+                                  {review.validationResults.map((result, index) => (
+                                    <li key={index} className="text-xs">
+                                      <span className={cn('font-medium', result.passed ? 'text-green-700' : 'text-red-700')}>
+                                        {result.passed ? '✓' : '✗'} {result.rule}
+                                      </span>
+                                      {result.message && <span className="text-gray-500"> — {result.message}</span>}
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                            </div>
+                          </div>
+
+                          {review.status === 'pending' ? (
+                            <div className="space-y-3 border-t border-gray-100 pt-4">
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Corrected Output (for Save Edit)</label>
+                                <textarea
+                                  value={draft.editedOutput}
+                                  onChange={(e) => updateDraft(review, { editedOutput: e.target.value })}
+                                  rows={6}
+                                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                />
+                              </div>
+                              <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                                <div className="md:col-span-3">
+                                  <label className="block text-sm font-medium text-gray-700 mb-1">Reviewer Notes</label>
+                                  <input
+                                    type="text"
+                                    value={draft.notes}
+                                    onChange={(e) => updateDraft(review, { notes: e.target.value })}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                  />
+                                </div>
+                                <div>
+                                  <label className="block text-sm font-medium text-gray-700 mb-1">Score (0-100)</label>
+                                  <input
+                                    type="number"
+                                    min={0}
+                                    max={100}
+                                    value={draft.score}
+                                    onChange={(e) => updateDraft(review, { score: e.target.value })}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                  />
+                                </div>
+                              </div>
+                              <label className="flex items-center gap-2 text-sm text-gray-700">
+                                <input
+                                  type="checkbox"
+                                  checked={draft.saveAsExample}
+                                  onChange={(e) => updateDraft(review, { saveAsExample: e.target.checked })}
+                                  className="rounded border-gray-300"
+                                />
+                                Save approved/edited output as a reference example for this use case
+                              </label>
+                              <div className="flex gap-2">
+                                <button
+                                  onClick={() => handleDecision(review, 'approve')}
+                                  disabled={submitting}
+                                  className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+                                >
+                                  <CheckCircle className="w-4 h-4 mr-1" />
+                                  Approve
+                                </button>
+                                <button
+                                  onClick={() => handleDecision(review, 'edit')}
+                                  disabled={submitting || draft.editedOutput === review.output}
+                                  className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                                >
+                                  <Edit className="w-4 h-4 mr-1" />
+                                  Save Edit
+                                </button>
+                                <button
+                                  onClick={() => handleDecision(review, 'reject')}
+                                  disabled={submitting}
+                                  className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+                                >
+                                  <XCircle className="w-4 h-4 mr-1" />
+                                  Reject
+                                </button>
+                                {submitting && <Loader2 className="w-5 h-5 animate-spin text-gray-400 self-center" />}
+                              </div>
+                            </div>
+                          ) : (
+                            <div className="border-t border-gray-100 pt-4 text-sm text-gray-600 space-y-1">
+                              <p>
+                                Marked <span className="font-medium">{review.status}</span>
+                                {review.reviewedAt && ` on ${new Date(review.reviewedAt).toLocaleString()}`}
+                                {review.reviewerScore !== undefined && ` · reviewer score ${review.reviewerScore}`}
+                                {review.savedAsExample && ' · saved as example'}
+                              </p>
+                              {review.reviewerNotes && <p>Notes: {review.reviewerNotes}</p>}
+                              {review.editedOutput && (
+                                <pre className="text-xs bg-blue-50 rounded p-3 whitespace-pre-wrap max-h-60 overflow-y-auto">{review.editedOutput}</pre>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </AdminLayout>
+  );
+}
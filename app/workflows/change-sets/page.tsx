@@ -0,0 +1,410 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { AdminLayout } from '@/components/AdminLayout';
+import {
+  GitCompare,
+  CheckCircle,
+  XCircle,
+  RefreshCw,
+  ChevronDown,
+  ChevronRight,
+  AlertCircle,
+  ExternalLink,
+  Loader2,
+  X
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+type ChangeSetStatus = 'pending' | 'applied' | 'partially-applied' | 'rejected';
+
+interface FieldChange {
+  path: string;
+  before: any;
+  after: any;
+}
+
+interface ModelChangeSet {
+  id: string;
+  modelId: string;
+  modelName: string;
+  executionId?: string;
+  source: 'enrichment' | 'test';
+  status: ChangeSetStatus;
+  changes: FieldChange[];
+  confidence: string;
+  confidenceScore: number;
+  sources: string[];
+  aiModel?: string;
+  cost: number;
+  acceptedPaths?: string[];
+  reviewerNotes?: string;
+  createdAt?: string;
+  reviewedAt?: string;
+}
+
+const STATUS_STYLES: Record<ChangeSetStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  applied: 'bg-green-100 text-green-800',
+  'partially-applied': 'bg-blue-100 text-blue-800',
+  rejected: 'bg-red-100 text-red-800'
+};
+
+const getScoreColor = (score: number) => {
+  if (score >= 80) return 'text-green-600';
+  if (score >= 60) return 'text-yellow-600';
+  return 'text-red-600';
+};
+
+const formatValue = (value: any) => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value, null, 2);
+};
+
+export default function ModelChangeSetsPage() {
+  const [changeSets, setChangeSets] = useState<ModelChangeSet[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<ChangeSetStatus | 'all'>('pending');
+  const [executionFilter, setExecutionFilter] = useState<string | null>(null);
+  const [filtersReady, setFiltersReady] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [selections, setSelections] = useState<Record<string, string[]>>({});
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [submittingId, setSubmittingId] = useState<string | null>(null);
+
+  // Links from the workflows page open the review filtered to one execution
+  useEffect(() => {
+    setExecutionFilter(new URLSearchParams(window.location.search).get('executionId'));
+    setFiltersReady(true);
+  }, []);
+
+  const fetchChangeSets = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const params = new URLSearchParams();
+      if (statusFilter !== 'all') params.set('status', statusFilter);
+      if (executionFilter) params.set('executionId', executionFilter);
+
+      const response = await fetch(`/api/admin/workflows/change-sets?${params.toString()}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to fetch change sets');
+      }
+      setChangeSets(data.changeSets || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch change sets');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (filtersReady) fetchChangeSets();
+  }, [statusFilter, executionFilter, filtersReady]);
+
+  const clearExecutionFilter = () => {
+    setExecutionFilter(null);
+    window.history.replaceState(null, '', window.location.pathname);
+  };
+
+  // Every field starts selected; unchecking leaves it out of Accept Selected
+  const getSelection = (changeSet: ModelChangeSet) =>
+    selections[changeSet.id] || changeSet.changes.map(change => change.path);
+
+  const toggleField = (changeSet: ModelChangeSet, path: string) => {
+    const selected = getSelection(changeSet);
+    setSelections(prev => ({
+      ...prev,
+      [changeSet.id]: selected.includes(path) ? selected.filter(p => p !== path) : [...selected, path]
+    }));
+  };
+
+  const handleDecision = async (changeSet: ModelChangeSet, action: 'accept' | 'reject', paths?: string[]) => {
+    try {
+      setSubmittingId(changeSet.id);
+      const response = await fetch(`/api/admin/workflows/change-sets/${changeSet.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action,
+          ...(paths && { paths }),
+          notes: notes[changeSet.id] || undefined
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to save review');
+      }
+      setExpandedId(null);
+      await fetchChangeSets();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save review');
+    } finally {
+      setSubmittingId(null);
+    }
+  };
+
+  const pendingFields = changeSets
+    .filter(changeSet => changeSet.status === 'pending')
+    .reduce((total, changeSet) => total + changeSet.changes.length, 0);
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Model Change Review</h1>
+            <p className="mt-2 text-gray-600">
+              AI enrichment results staged as field-by-field diffs. Nothing reaches the model until it is accepted.
+            </p>
+          </div>
+          <button
+            onClick={fetchChangeSets}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <RefreshCw className={cn('w-4 h-4 mr-2', loading && 'animate-spin')} />
+            Refresh
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white shadow rounded-lg p-6 flex flex-col md:flex-row md:items-center gap-4">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as ChangeSetStatus | 'all')}
+            className="block w-48 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="pending">Pending</option>
+            <option value="applied">Applied</option>
+            <option value="partially-applied">Partially Applied</option>
+            <option value="rejected">Rejected</option>
+            <option value="all">All Statuses</option>
+          </select>
+          {executionFilter && (
+            <span className="inline-flex items-center px-3 py-1 rounded-full text-sm bg-indigo-50 text-indigo-700">
+              Execution {executionFilter}
+              <button onClick={clearExecutionFilter} className="ml-2 text-indigo-400 hover:text-indigo-700">
+                <X className="w-4 h-4" />
+              </button>
+            </span>
+          )}
+          {statusFilter === 'pending' && pendingFields > 0 && (
+            <span className="text-sm text-gray-500">{pendingFields} field changes awaiting review</span>
+          )}
+        </div>
+
+        {/* Change Set List */}
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg leading-6 font-medium text-gray-900">
+              Change Sets ({changeSets.length})
+            </h3>
+          </div>
+          <div className="p-6">
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin" />
+                <span className="ml-2">Loading change sets...</span>
+              </div>
+            ) : error ? (
+              <div className="flex items-center text-red-600 py-8 justify-center">
+                <AlertCircle className="w-5 h-5 mr-2" />
+                {error}
+              </div>
+            ) : changeSets.length === 0 ? (
+              <div className="text-center py-8">
+                <GitCompare className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No change sets found</h3>
+                <p className="text-gray-600">
+                  Enrichment runs and single-model tests stage their results here unless auto-apply is enabled.
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {changeSets.map(changeSet => {
+                  const expanded = expandedId === changeSet.id;
+                  const selected = getSelection(changeSet);
+                  const submitting = submittingId === changeSet.id;
+                  const pending = changeSet.status === 'pending';
+
+                  return (
+                    <div key={changeSet.id} className="border border-gray-200 rounded-lg">
+                      <button
+                        onClick={() => setExpandedId(expanded ? null : changeSet.id)}
+                        className="w-full flex items-start justify-between p-4 text-left hover:bg-gray-50"
+                      >
+                        <div className="flex items-start gap-2 min-w-0">
+                          {expanded
+                            ? <ChevronDown className="w-4 h-4 mt-1 text-gray-400 flex-shrink-0" />
+                            : <ChevronRight className="w-4 h-4 mt-1 text-gray-400 flex-shrink-0" />}
+                          <div className="min-w-0">
+                            <div className="flex items-center gap-2 mb-1">
+                              <span className="font-semibold text-gray-900">{changeSet.modelName}</span>
+                              <span className={cn('inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium', STATUS_STYLES[changeSet.status])}>
+                                {changeSet.status}
+                              </span>
+                              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                                {changeSet.source}
+                              </span>
+                            </div>
+                            <p className="text-sm text-gray-600 truncate">
+                              {changeSet.changes.length} field changes
+                              {changeSet.changes.length > 0 && `: ${changeSet.changes.map(change => change.path).join(', ')}`}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="text-right text-sm ml-4 flex-shrink-0">
+                          <div className={cn('font-bold', getScoreColor(changeSet.confidenceScore))}>
+                            {changeSet.confidenceScore}/100
+                          </div>
+                          <div className="text-gray-500">
+                            {changeSet.confidence} confidence{changeSet.aiModel && ` · ${changeSet.aiModel}`} · ${changeSet.cost.toFixed(4)}
+                          </div>
+                          {changeSet.createdAt && (
+                            <div className="text-gray-400 text-xs">{new Date(changeSet.createdAt).toLocaleString()}</div>
+                          )}
+                        </div>
+                      </button>
+
+                      {expanded && (
+                        <div className="border-t border-gray-200 p-4 space-y-4">
+                          {changeSet.changes.length === 0 ? (
+                            <p className="text-sm text-gray-500">The research matched the current model; there is nothing to apply.</p>
+                          ) : (
+                            <div className="overflow-x-auto">
+                              <table className="min-w-full divide-y divide-gray-200 text-xs">
+                                <thead className="bg-gray-50">
+                                  <tr>
+                                    {pending && <th className="px-3 py-2 w-8"></th>}
+                                    <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Field</th>
+                                    <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Current</th>
+                                    <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Proposed</th>
+                                  </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-100">
+                                  {changeSet.changes.map(change => {
+                                    const applied = changeSet.acceptedPaths?.includes(change.path);
+                                    return (
+                                      <tr key={change.path} className={cn(!pending && !applied && 'opacity-50')}>
+                                        {pending && (
+                                          <td className="px-3 py-2 align-top">
+                                            <input
+                                              type="checkbox"
+                                              checked={selected.includes(change.path)}
+                                              onChange={() => toggleField(changeSet, change.path)}
+                                              className="rounded border-gray-300"
+                                            />
+                                          </td>
+                                        )}
+                                        <td className="px-3 py-2 align-top font-mono text-gray-900 whitespace-nowrap">
+                                          {change.path}
+                                          {applied && <CheckCircle className="inline w-3 h-3 ml-1 text-green-600" />}
+                                        </td>
+                                        <td className="px-3 py-2 align-top">
+                                          <pre className="bg-red-50 text-red-900 rounded p-2 whitespace-pre-wrap max-h-40 overflow-y-auto">{formatValue(change.before)}</pre>
+                                        </td>
+                                        <td className="px-3 py-2 align-top">
+                                          <pre className="bg-green-50 text-green-900 rounded p-2 whitespace-pre-wrap max-h-40 overflow-y-auto">{formatValue(change.after)}</pre>
+                                        </td>
+                                      </tr>
+                                    );
+                                  })}
+                                </tbody>
+                              </table>
+                            </div>
+                          )}
+
+                          <div>
+                            <h4 className="text-sm font-medium text-gray-700 mb-1">Sources</h4>
+                            {changeSet.sources.length === 0 ? (
+                              <p className="text-xs text-gray-500">The research cited no sources</p>
+                            ) : (
+                              <ul className="space-y-1">
+                                {changeSet.sources.map(source => (
+                                  <li key={source} className="text-xs">
+                                    <a href={source} target="_blank" rel="noopener noreferrer" className="inline-flex items-center text-indigo-600 hover:text-indigo-800 break-all">
+                                      {source}
+                                      <ExternalLink className="w-3 h-3 ml-1 flex-shrink-0" />
+                                    </a>
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </div>
+
+                          {changeSet.executionId && (
+                            <p className="text-xs text-gray-500">
+                              From execution{' '}
+                              <Link href={`/workflows/change-sets?executionId=${changeSet.executionId}`} onClick={() => setExecutionFilter(changeSet.executionId!)} className="text-indigo-600 hover:text-indigo-800">
+                                {changeSet.executionId}
+                              </Link>
+                            </p>
+                          )}
+
+                          {pending ? (
+                            <div className="space-y-3 border-t border-gray-100 pt-4">
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Reviewer Notes</label>
+                                <input
+                                  type="text"
+                                  value={notes[changeSet.id] || ''}
+                                  onChange={(e) => setNotes(prev => ({ ...prev, [changeSet.id]: e.target.value }))}
+                                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                />
+                              </div>
+                              <div className="flex gap-2">
+                                <button
+                                  onClick={() => handleDecision(changeSet, 'accept')}
+                                  disabled={submitting || changeSet.changes.length === 0}
+                                  className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+                                >
+                                  <CheckCircle className="w-4 h-4 mr-1" />
+                                  Accept All
+                                </button>
+                                <button
+                                  onClick={() => handleDecision(changeSet, 'accept', selected)}
+                                  disabled={submitting || selected.length === 0 || selected.length === changeSet.changes.length}
+                                  className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                                >
+                                  <CheckCircle className="w-4 h-4 mr-1" />
+                                  Accept Selected ({selected.length})
+                                </button>
+                                <button
+                                  onClick={() => handleDecision(changeSet, 'reject')}
+                                  disabled={submitting}
+                                  className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+                                >
+                                  <XCircle className="w-4 h-4 mr-1" />
+                                  Reject
+                                </button>
+                                {submitting && <Loader2 className="w-5 h-5 animate-spin text-gray-400 self-center" />}
+                              </div>
+                            </div>
+                          ) : (
+                            <div className="border-t border-gray-100 pt-4 text-sm text-gray-600 space-y-1">
+                              <p>
+                                Marked <span className="font-medium">{changeSet.status}</span>
+                                {changeSet.reviewedAt && ` on ${new Date(changeSet.reviewedAt).toLocaleString()}`}
+                                {changeSet.acceptedPaths && ` · ${changeSet.acceptedPaths.length} of ${changeSet.changes.length} fields applied`}
+                              </p>
+                              {changeSet.reviewerNotes && <p>Notes: {changeSet.reviewerNotes}</p>}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </AdminLayout>
+  );
+}
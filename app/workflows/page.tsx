@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { AdminLayout } from '@/components/AdminLayout';
 import { 
   Play, 
@@ -17,15 +18,24 @@ import {
   TrendingUp,
   FileText,
   DollarSign,
-  X
+  X,
+  XCircle,
+  RotateCcw,
+  CornerDownRight,
+  GitCompare,
+  CalendarClock
 } from 'lucide-react';
+import { readServerSentEvents } from '@/lib/server-sent-events';
+import { WorkflowSchedulesPanel } from '@/components/WorkflowSchedulesPanel';
 
 interface WorkflowExecution {
   id: string;
   workflowId: string;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'paused';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'paused' | 'cancelled';
   startedAt: string;
   completedAt?: string;
+  parentExecutionId?: string;
+  retryExecutionIds?: string[];
   totalModels: number;
   processedModels: number;
   successfulModels: number;
@@ -62,6 +72,7 @@ interface ModelEnrichmentConfig {
   targetDataQuality: 'basic' | 'enhanced' | 'premium';
   testMode: boolean;
   testModelId?: string;
+  autoApply?: boolean; // Apply results without staging them for review
   providerId?: string; // Optional provider filter
   // Filtering options
   filterByRecency?: boolean; // Enable recency filtering
@@ -81,8 +92,40 @@ interface TestResult {
   timestamp: string;
 }
 
+/**
+ * POST to a streaming route and hand each SSE event to onEvent; 'error' events throw
+ */
+async function postEventStream(url: string, body: unknown, onEvent: (event: any) => void): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok || !response.body) {
+    const errorText = await response.text();
+    let message = errorText;
+    try {
+      message = JSON.parse(errorText).error || errorText;
+    } catch {
+      // Plain-text error body
+    }
+    throw new Error(message);
+  }
+
+  for await (const message of readServerSentEvents(response.body)) {
+    const event = JSON.parse(message.data);
+    if (event.type === 'error') {
+      throw new Error(event.error);
+    }
+    onEvent(event);
+  }
+}
+
 export default function WorkflowsPage() {
-  const [activeTab, setActiveTab] = useState<'overview' | 'enrichment' | 'test' | 'history'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'enrichment' | 'test' | 'history' | 'schedules'>('overview');
   const [currentExecution, setCurrentExecution] = useState<WorkflowExecution | null>(null);
   const [executionHistory, setExecutionHistory] = useState<WorkflowExecution[]>([]);
   const [workflowStats, setWorkflowStats] = useState<WorkflowStats>({
@@ -134,6 +177,8 @@ export default function WorkflowsPage() {
   const [testResult, setTestResult] = useState<TestResult | null>(null);
   const [showConfigDetails, setShowConfigDetails] = useState(false);
   const [isTestRunning, setIsTestRunning] = useState(false);
+  const [streamingOutput, setStreamingOutput] = useState('');
+  const [apiKeyTestOutput, setApiKeyTestOutput] = useState<string | null>(null);
   const [currentPollInterval, setCurrentPollInterval] = useState<NodeJS.Timeout | null>(null);
 
   // Available AI models for research (using Gemini only)
@@ -237,8 +282,8 @@ export default function WorkflowsPage() {
         const data = await response.json();
         const executions = data.executions || [];
         
-        // Find the most recent running execution
-        const runningExecution = executions.find((exec: any) => exec.status === 'running');
+        // Find the most recent running (or paused) execution
+        const runningExecution = executions.find((exec: any) => exec.status === 'running' || exec.status === 'paused');
         
         if (runningExecution) {
           console.log('🔄 Found running execution on page load:', runningExecution.id);
@@ -294,6 +339,38 @@ export default function WorkflowsPage() {
     }
   };
 
+  // Pause, resume, or retry the failed models of an execution
+  const controlExecution = async (action: 'pause' | 'resume' | 'retry', executionId: string) => {
+    try {
+      const response = await fetch(`/api/admin/workflows/execution/${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ executionId })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        alert(`Failed to ${action} execution: ${data.error}`);
+        return;
+      }
+
+      if (action === 'retry') {
+        // The response is the new child execution
+        setCurrentExecution(data);
+        setActiveTab('overview');
+        fetchAvailableModels(enrichmentConfig.providerId);
+      }
+      if (currentPollInterval) clearInterval(currentPollInterval);
+      const intervalId = startPollingExecution(action === 'retry' ? data.id : executionId);
+      setCurrentPollInterval(intervalId);
+      fetchExecutionHistory();
+    } catch (error: any) {
+      alert(`Error trying to ${action} execution: ${error.message}`);
+    }
+  };
+
   // Poll for execution updates with automatic cleanup
   const startPollingExecution = (executionId: string) => {
     let pollCount = 0;
@@ -318,8 +395,8 @@ export default function WorkflowsPage() {
           const execution = await response.json();
           setCurrentExecution(execution);
           
-          // Stop polling if execution is complete
-          if (execution.status === 'completed' || execution.status === 'failed') {
+          // Stop polling if execution is complete or paused
+          if (['completed', 'failed', 'cancelled', 'paused'].includes(execution.status)) {
             clearInterval(pollInterval);
             setCurrentPollInterval(null);
             fetchWorkflowStats(); // Refresh stats
@@ -458,6 +535,28 @@ export default function WorkflowsPage() {
     };
   }, [currentExecution?.status, enrichmentConfig.providerId]);
 
+  // Execution history in lineage order: each retry is listed under the execution it retried
+  const historyEntries = (() => {
+    const ids = new Set(executionHistory.map(execution => execution.id));
+    const retriesOf = new Map<string, WorkflowExecution[]>();
+    executionHistory.forEach(execution => {
+      if (execution.parentExecutionId && ids.has(execution.parentExecutionId)) {
+        retriesOf.set(execution.parentExecutionId, [...(retriesOf.get(execution.parentExecutionId) || []), execution]);
+      }
+    });
+
+    const entries: Array<{ execution: WorkflowExecution; depth: number }> = [];
+    const visit = (execution: WorkflowExecution, depth: number) => {
+      entries.push({ execution, depth });
+      // History is newest first; list retries oldest first under their parent
+      [...(retriesOf.get(execution.id) || [])].reverse().forEach(retry => visit(retry, depth + 1));
+    };
+    executionHistory
+      .filter(execution => !execution.parentExecutionId || !ids.has(execution.parentExecutionId))
+      .forEach(execution => visit(execution, 0));
+    return entries;
+  })();
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'running':
@@ -468,6 +567,8 @@ export default function WorkflowsPage() {
         return <AlertTriangle className="h-5 w-5 text-red-500" />;
       case 'paused':
         return <Pause className="h-5 w-5 text-yellow-500" />;
+      case 'cancelled':
+        return <XCircle className="h-5 w-5 text-gray-500" />;
       default:
         return <Clock className="h-5 w-5 text-gray-500" />;
     }
@@ -602,6 +703,17 @@ export default function WorkflowsPage() {
               <FileText className="h-4 w-4 mr-2 inline" />
               Execution History
             </button>
+            <button
+              onClick={() => setActiveTab('schedules')}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'schedules'
+                  ? 'border-indigo-500 text-indigo-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              <CalendarClock className="h-4 w-4 mr-2 inline" />
+              Schedules
+            </button>
           </nav>
         </div>
 
@@ -677,11 +789,49 @@ export default function WorkflowsPage() {
                           `Completed: ${currentExecution.successfulModels} successful, ${currentExecution.failedModels} failed`
                         }
                         {currentExecution.status === 'failed' && 'Workflow failed - check logs for details'}
+                        {currentExecution.status === 'paused' && 
+                          `Paused after ${currentExecution.processedModels}/${currentExecution.totalModels} models`
+                        }
+                        {currentExecution.status === 'cancelled' && 
+                          `Cancelled after ${currentExecution.processedModels}/${currentExecution.totalModels} models`
+                        }
                       </p>
+                      {currentExecution.parentExecutionId && (
+                        <p className="text-xs opacity-75 mt-1">
+                          Retry of {currentExecution.parentExecutionId}
+                        </p>
+                      )}
                     </div>
                   </div>
                   <div className="text-right">
                     <div className="flex items-center justify-end space-x-2 mb-2">
+                      {currentExecution.status === 'running' && (
+                        <button
+                          onClick={() => controlExecution('pause', currentExecution.id)}
+                          className="inline-flex items-center px-2 py-1 text-xs font-medium text-yellow-800 bg-yellow-100 border border-yellow-200 rounded hover:bg-yellow-200"
+                        >
+                          <Pause className="h-3 w-3 mr-1" />
+                          Pause
+                        </button>
+                      )}
+                      {currentExecution.status === 'paused' && (
+                        <button
+                          onClick={() => controlExecution('resume', currentExecution.id)}
+                          className="inline-flex items-center px-2 py-1 text-xs font-medium text-blue-700 bg-blue-100 border border-blue-200 rounded hover:bg-blue-200"
+                        >
+                          <Play className="h-3 w-3 mr-1" />
+                          Resume
+                        </button>
+                      )}
+                      {['completed', 'failed', 'cancelled'].includes(currentExecution.status) && currentExecution.failedModels > 0 && (
+                        <button
+                          onClick={() => controlExecution('retry', currentExecution.id)}
+                          className="inline-flex items-center px-2 py-1 text-xs font-medium text-indigo-700 bg-indigo-100 border border-indigo-200 rounded hover:bg-indigo-200"
+                        >
+                          <RotateCcw className="h-3 w-3 mr-1" />
+                          Retry {currentExecution.failedModels} Failed
+                        </button>
+                      )}
                       {currentExecution.status === 'running' && (
                         <button
                           onClick={() => {
@@ -724,58 +874,16 @@ export default function WorkflowsPage() {
                   </div>
                 )}
 
-                {/* Batch Results Display */}
-                {currentExecution && currentExecution.status === 'completed' && (currentExecution as any).config?.testMode && (
+                {/* Staged Results */}
+                {currentExecution && currentExecution.status !== 'running' && ((currentExecution as any).config?.testMode || !(currentExecution as any).config?.autoApply) && currentExecution.processedModels > 0 && (
                   <div className="mt-6">
-                    <h4 className="text-sm font-medium text-gray-900 mb-3">Test Results Summary</h4>
-                    <div className="space-y-3">
-                      {currentExecution.logs
-                        .filter(log => log.message.startsWith('Test Results:'))
-                        .map(log => {
-                          try {
-                            const testData = JSON.parse(log.message.replace('Test Results: ', ''));
-                            return (
-                              <div key={log.id} className="bg-gray-50 rounded-lg p-4">
-                                <div className="flex items-start justify-between mb-3">
-                                  <h5 className="font-medium text-gray-900">{testData.modelName}</h5>
-                                  <div className="flex items-center space-x-4 text-sm">
-                                    <span>Confidence: <span className="font-medium">{testData.confidence}</span></span>
-                                    <span>Cost: <span className="font-medium">${testData.cost}</span></span>
-                                  </div>
-                                </div>
-                                
-                                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
-                                  <div>
-                                    <h6 className="font-medium text-gray-700 mb-2">Use Cases ({testData.useCases?.length || 0})</h6>
-                                    <ul className="space-y-1">
-                                      {testData.useCases?.slice(0, 3).map((useCase: string, idx: number) => (
-                                        <li key={idx} className="text-gray-600 text-xs">• {useCase}</li>
-                                      ))}
-                                      {testData.useCases?.length > 3 && (
-                                        <li className="text-gray-500 text-xs">+ {testData.useCases.length - 3} more</li>
-                                      )}
-                                    </ul>
-                                  </div>
-                                  
-                                  <div>
-                                    <h6 className="font-medium text-gray-700 mb-2">Key Strengths ({testData.strengths?.length || 0})</h6>
-                                    <ul className="space-y-1">
-                                      {testData.strengths?.slice(0, 3).map((strength: string, idx: number) => (
-                                        <li key={idx} className="text-gray-600 text-xs">• {strength}</li>
-                                      ))}
-                                      {testData.strengths?.length > 3 && (
-                                        <li className="text-gray-500 text-xs">+ {testData.strengths.length - 3} more</li>
-                                      )}
-                                    </ul>
-                                  </div>
-                                </div>
-                              </div>
-                            );
-                          } catch (error) {
-                            return null;
-                          }
-                        })}
-                    </div>
+                    <Link
+                      href={`/workflows/change-sets?executionId=${currentExecution.id}`}
+                      className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50"
+                    >
+                      <GitCompare className="h-4 w-4 mr-2" />
+                      Review Staged Changes
+                    </Link>
                   </div>
                 )}
 
@@ -796,10 +904,8 @@ export default function WorkflowsPage() {
                               }`}></span>
                               <div className="flex-1">
                                 <span className="text-gray-900">
-                                  {log.message.length > 100 && !log.message.startsWith('Test Results:') 
-                                    ? `${log.message.substring(0, 100)}...` 
-                                    : log.message.startsWith('Test Results:') 
-                                    ? 'Test results generated (see above)' 
+                                  {log.message.length > 100
+                                    ? `${log.message.substring(0, 100)}...`
                                     : log.message}
                                 </span>
                                 {log.modelId && (
@@ -977,6 +1083,24 @@ export default function WorkflowsPage() {
                           <span className="font-medium text-orange-700">Test Mode</span> - Research only, don't update models
                         </label>
                       </div>
+
+                      <div className="flex items-center">
+                        <input
+                          id="batch-auto-apply"
+                          type="checkbox"
+                          checked={!!enrichmentConfig.autoApply}
+                          disabled={enrichmentConfig.testMode}
+                          onChange={(e) => setEnrichmentConfig(prev => ({ 
+                            ...prev, 
+                            autoApply: e.target.checked 
+                          }))}
+                          className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded disabled:opacity-50"
+                        />
+                        <label htmlFor="batch-auto-apply" className="ml-2 block text-sm text-gray-900">
+                          Auto-apply results without review (otherwise changes are staged in{' '}
+                          <Link href="/workflows/change-sets" className="text-indigo-600 hover:text-indigo-800">Model Change Review</Link>)
+                        </label>
+                      </div>
                     </div>
                   </div>
 
@@ -1393,25 +1517,21 @@ export default function WorkflowsPage() {
                         {enrichmentConfig.geminiApiKey && (
                           <button
                             onClick={async () => {
+                              setApiKeyTestOutput('');
                               try {
-                                const response = await fetch('/api/admin/test-gemini', {
-                                  method: 'POST',
-                                  headers: {
-                                    'Content-Type': 'application/json'
-                                  },
-                                  body: JSON.stringify({
-                                    geminiApiKey: enrichmentConfig.geminiApiKey
-                                  })
-                                });
-                                
-                                const result = await response.json();
-                                if (result.success) {
-                                  alert(`✅ API Key Valid! Response: ${result.response}`);
-                                } else {
-                                  alert(`❌ API Key Invalid: ${result.error}\n\nDetails: ${result.details}`);
-                                }
+                                await postEventStream(
+                                  '/api/admin/test-gemini/stream',
+                                  { geminiApiKey: enrichmentConfig.geminiApiKey },
+                                  (event) => {
+                                    if (event.type === 'delta') {
+                                      setApiKeyTestOutput(prev => (prev || '') + event.text);
+                                    } else if (event.type === 'done') {
+                                      setApiKeyTestOutput(`✅ API Key Valid! Response: ${event.response.content}`);
+                                    }
+                                  }
+                                );
                               } catch (error: any) {
-                                alert(`❌ Test failed: ${error.message}`);
+                                setApiKeyTestOutput(`❌ API Key Invalid: ${error.message}`);
                               }
                             }}
                             className="mt-2 inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50"
@@ -1419,6 +1539,11 @@ export default function WorkflowsPage() {
                             Test API Key
                           </button>
                         )}
+                        {apiKeyTestOutput !== null && (
+                          <p className="mt-2 text-xs text-gray-700 whitespace-pre-wrap">
+                            {apiKeyTestOutput || 'Waiting for Gemini...'}
+                          </p>
+                        )}
                       </div>
 
                       <div>
@@ -1585,40 +1710,29 @@ export default function WorkflowsPage() {
                       try {
                         setIsTestRunning(true);
                         setTestResult(null); // Clear previous results
-                        console.log('Making API request...');
-                        const response = await fetch('/api/admin/workflows/test-single', {
-                          method: 'POST',
-                          headers: {
-                            'Content-Type': 'application/json'
-                          },
-                          body: JSON.stringify({
+                        setStreamingOutput('');
+                        console.log('Streaming test research...');
+                        await postEventStream(
+                          '/api/admin/workflows/test-single/stream',
+                          {
                             modelId: selectedTestModel,
                             config: {
                               ...enrichmentConfig,
                               testMode: true
                             }
-                          })
-                        });
-
-                        console.log('Response status:', response.status);
-                        
-                        if (response.ok) {
-                          const result = await response.json();
-                          console.log('Test result:', result);
-                          setTestResult(result);
-                        } else {
-                          const errorText = await response.text();
-                          console.error('API error:', errorText);
-                          try {
-                            const error = JSON.parse(errorText);
-                            alert(`Test failed: ${error.error}`);
-                          } catch {
-                            alert(`Test failed: ${errorText}`);
+                          },
+                          (event) => {
+                            if (event.type === 'delta') {
+                              setStreamingOutput(prev => prev + event.text);
+                            } else if (event.type === 'result') {
+                              console.log('Test result:', event.result);
+                              setTestResult(event.result);
+                            }
                           }
-                        }
+                        );
                       } catch (error: any) {
                         console.error('Request error:', error);
-                        alert(`Error: ${error.message}`);
+                        alert(`Test failed: ${error.message}`);
                       } finally {
                         setIsTestRunning(false);
                       }
@@ -1648,7 +1762,9 @@ export default function WorkflowsPage() {
                         `Are you sure you want to update the model "${availableModels.find(m => m.id === selectedTestModel)?.name}"?\n\n` +
                         `This will:\n` +
                         `• Research the model using AI\n` +
-                        `• Update the database with enriched data\n` +
+                        (enrichmentConfig.autoApply
+                          ? `• Update the database with enriched data\n`
+                          : `• Stage the changes for review before they reach the database\n`) +
                         `• Cost approximately $${enrichmentConfig.targetDataQuality === 'premium' ? '0.05' : enrichmentConfig.targetDataQuality === 'enhanced' ? '0.03' : '0.02'}\n\n` +
                         `Click OK to proceed with the update.`
                       );
@@ -1672,7 +1788,12 @@ export default function WorkflowsPage() {
                         if (result.error) {
                           alert(`Update failed: ${result.error}`);
                         } else {
-                          alert(`✅ Model update started successfully!\n\nModel: ${result.modelName}\nExecution ID: ${result.execution.id}\nEstimated Cost: $${result.estimatedCost.toFixed(2)}\n\nThe model will be updated in the background. Check the History tab to monitor progress.`);
+                          alert(
+                            `✅ Model update started successfully!\n\nModel: ${result.modelName}\nExecution ID: ${result.execution.id}\nEstimated Cost: $${result.estimatedCost.toFixed(2)}\n\n` +
+                            (enrichmentConfig.autoApply
+                              ? 'The model will be updated in the background. Check the History tab to monitor progress.'
+                              : 'The research runs in the background and its changes are staged in Model Change Review. Check the History tab to monitor progress.')
+                          );
                           
                           // Refresh available models to show updated data quality
                           fetchAvailableModels();
@@ -1706,6 +1827,27 @@ export default function WorkflowsPage() {
               </div>
             </div>
 
+            {/* Live AI output while the test research streams in */}
+            {streamingOutput && !testResult && (
+              <div className="bg-white rounded-lg shadow">
+                <div className="px-6 py-4 border-b border-gray-200">
+                  <h2 className="text-lg font-medium text-gray-900 flex items-center">
+                    {isTestRunning ? (
+                      <RefreshCw className="h-5 w-5 mr-2 text-orange-600 animate-spin" />
+                    ) : (
+                      <AlertTriangle className="h-5 w-5 mr-2 text-yellow-600" />
+                    )}
+                    {isTestRunning ? 'Live AI Output' : 'AI Output (incomplete)'}
+                  </h2>
+                </div>
+                <div className="p-6">
+                  <pre className="text-xs text-gray-800 bg-gray-50 rounded-md p-4 max-h-96 overflow-auto whitespace-pre-wrap">
+                    {streamingOutput}
+                  </pre>
+                </div>
+              </div>
+            )}
+
             {/* Test Results */}
             {testResult && (
               <div className="bg-white rounded-lg shadow">
@@ -1897,18 +2039,6 @@ export default function WorkflowsPage() {
                         onClick={async () => {
                           if (!testResult) return;
                           
-                          const confirmApply = confirm(
-                            `Apply these test results to ${testResult.modelName}?\n\n` +
-                            `This will:\n` +
-                            `• Update the model with AI research data\n` +
-                            `• Change data quality to "verified"\n` +
-                            `• Add enrichment tags\n` +
-                            `• Cost: $${testResult.cost.toFixed(4)}\n\n` +
-                            `The changes will be permanent. Continue?`
-                          );
-                          
-                          if (!confirmApply) return;
-                          
                           try {
                             const response = await fetch('/api/admin/workflows/apply-test-results', {
                               method: 'POST',
@@ -1918,31 +2048,32 @@ export default function WorkflowsPage() {
                               body: JSON.stringify({
                                 modelId: testResult.modelId,
                                 parsedData: testResult.parsedData,
-                                confidence: testResult.confidence,
-                                aiResponse: testResult.aiResponse,
-                                cost: testResult.cost
+                                cost: testResult.cost,
+                                aiModel: enrichmentConfig.aiModel
                               })
                             });
                             
                             const result = await response.json();
                             if (result.error) {
-                              alert(`Failed to apply results: ${result.error}`);
+                              alert(`Failed to stage results: ${result.error}`);
                             } else {
-                              alert(`✅ Test results applied successfully!\n\nModel: ${result.modelName}\nUpdated fields: ${result.updatedFields.join(', ')}\nNew data quality: verified\n\nThe model has been enriched with AI research data.`);
-                              
-                              // Clear test results and refresh models
+                              // Review and apply the field changes on the change set page
                               setTestResult(null);
-                              fetchAvailableModels();
+                              if (result.changeSet.changes.length === 0) {
+                                alert(`${result.message}\n\nThe research matched the current model data.`);
+                              } else if (confirm(`✅ ${result.message}\n\nOpen Model Change Review to accept or reject them?`)) {
+                                window.location.href = '/workflows/change-sets';
+                              }
                             }
                           } catch (error: any) {
-                            console.error('Error applying test results:', error);
+                            console.error('Error staging test results:', error);
                             alert(`Error: ${error.message}`);
                           }
                         }}
                         className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-green-600 hover:bg-green-700"
                       >
-                        <Database className="h-4 w-4 mr-2" />
-                        Apply Results to Database
+                        <GitCompare className="h-4 w-4 mr-2" />
+                        Stage for Review
                       </button>
                     </div>
                   </div>
@@ -1952,6 +2083,11 @@ export default function WorkflowsPage() {
           </div>
         )}
 
+        {/* Schedules Tab */}
+        {activeTab === 'schedules' && (
+          <WorkflowSchedulesPanel providers={providers} />
+        )}
+
         {/* Execution History Tab */}
         {activeTab === 'history' && (
           <div className="bg-white rounded-lg shadow">
@@ -1981,9 +2117,10 @@ export default function WorkflowsPage() {
                 </div>
               ) : (
                 <div className="space-y-4">
-                  {executionHistory.map((execution) => (
+                  {historyEntries.map(({ execution, depth }) => (
                     <div 
                       key={execution.id} 
+                      style={{ marginLeft: `${depth * 1.5}rem` }}
                       className={`border rounded-lg p-4 hover:shadow-md transition-shadow ${
                         execution.status === 'completed' ? 'border-green-200 bg-green-50' :
                         execution.status === 'failed' ? 'border-red-200 bg-red-50' :
@@ -2007,6 +2144,12 @@ export default function WorkflowsPage() {
                               {execution.status}
                             </span>
                           </div>
+                          {execution.parentExecutionId && (
+                            <p className="mt-1 text-sm text-gray-600 flex items-center">
+                              <CornerDownRight className="h-4 w-4 mr-1" />
+                              Retry of failed models from {execution.parentExecutionId}
+                            </p>
+                          )}
                           <p className="mt-1 text-sm text-gray-600">
                             Started: {new Date(execution.startedAt).toLocaleString()}
                             {execution.completedAt && (
@@ -2058,8 +2201,8 @@ export default function WorkflowsPage() {
                         </div>
                       )}
                       
-                      {/* View details button */}
-                      <div className="mt-3">
+                      {/* View details / retry buttons */}
+                      <div className="mt-3 flex space-x-4">
                         <button
                           onClick={() => {
                             setCurrentExecution(execution);
@@ -2070,6 +2213,15 @@ export default function WorkflowsPage() {
                           <Eye className="h-4 w-4 mr-1" />
                           View Details
                         </button>
+                        {['completed', 'failed', 'cancelled'].includes(execution.status) && execution.failedModels > 0 && (
+                          <button
+                            onClick={() => controlExecution('retry', execution.id)}
+                            className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-800"
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Retry {execution.failedModels} Failed
+                          </button>
+                        )}
                       </div>
                     </div>
                   ))}
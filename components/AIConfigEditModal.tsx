@@ -15,9 +15,12 @@ import {
   Cpu,
   Clock,
   DollarSign,
-  Activity
+  Activity,
+  History,
+  RotateCcw
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { diffConfigurations, toHistoryDate } from '@/lib/ai-config-history';
 import type { 
   AIUseCaseConfig, 
   AIUseCaseCategory,
@@ -36,6 +39,7 @@ interface AIConfigEditModalProps {
   onClose: () => void;
   configuration: AIUseCaseConfig | null;
   onSave: (config: AIUseCaseConfig) => Promise<void>;
+  onRollback?: (config: AIUseCaseConfig) => void; // Called with the configuration after a rollback
   mode: 'create' | 'edit';
 }
 
@@ -54,14 +58,190 @@ const tabs = [
   { id: 'prompt', name: 'Prompt Config', icon: Settings },
   { id: 'performance', name: 'Performance', icon: Activity },
   { id: 'quality', name: 'Quality & Safety', icon: Shield },
-  { id: 'monitoring', name: 'Monitoring', icon: BarChart3 }
+  { id: 'monitoring', name: 'Monitoring', icon: BarChart3 },
+  { id: 'history', name: 'History', icon: History, editOnly: true }
 ];
 
+interface VersionOption {
+  key: string;
+  label: string;
+  snapshot: Record<string, any>;
+}
+
+function formatDiffValue(value: unknown): string {
+  return value === undefined ? '—' : JSON.stringify(value, null, 2);
+}
+
+/**
+ * Version timeline with a side-by-side diff between any two versions and rollback
+ */
+function ConfigurationHistoryTab({
+  configuration,
+  onRollback
+}: {
+  configuration: AIUseCaseConfig;
+  onRollback?: (config: AIUseCaseConfig) => void;
+}) {
+  const history = configuration.metadata?.configurationHistory || [];
+  const versions: VersionOption[] = [
+    {
+      key: 'current',
+      label: `v${configuration.metadata?.version || '1.0.0'} (current)`,
+      snapshot: configuration
+    },
+    ...history
+      .map((entry, index) => ({
+        key: `history-${index}`,
+        label: `v${entry.version} (${toHistoryDate(entry.timestamp)?.toLocaleString() || 'unknown date'})`,
+        snapshot: entry.rollbackData || {}
+      }))
+      .reverse()
+  ];
+
+  const [leftKey, setLeftKey] = useState(versions[1]?.key || 'current');
+  const [rightKey, setRightKey] = useState('current');
+  const [rollingBack, setRollingBack] = useState<string | null>(null);
+  const [rollbackError, setRollbackError] = useState<string | null>(null);
+
+  const left = versions.find(version => version.key === leftKey) || versions[0];
+  const right = versions.find(version => version.key === rightKey) || versions[0];
+  const diff = diffConfigurations(left.snapshot, right.snapshot);
+
+  const handleRollback = async (version: string) => {
+    if (!confirm(`Restore version ${version}? It will be saved as a new version.`)) {
+      return;
+    }
+
+    try {
+      setRollingBack(version);
+      setRollbackError(null);
+      const response = await fetch(`/api/admin/ai-configurations/${encodeURIComponent(configuration.useCaseId)}/rollback`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || result.error || `Rollback failed: ${response.status}`);
+      }
+      onRollback?.(result.configuration);
+    } catch (error) {
+      setRollbackError(error instanceof Error ? error.message : 'Rollback failed');
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  if (history.length === 0) {
+    return (
+      <div className="text-center py-8 text-sm text-gray-500">
+        No previous versions yet. Every saved change is recorded here.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {rollbackError && (
+        <div className="flex items-center text-red-600 text-sm">
+          <AlertCircle className="w-4 h-4 mr-1" />
+          {rollbackError}
+        </div>
+      )}
+
+      {/* Timeline */}
+      <div>
+        <h4 className="text-md font-medium text-gray-900 mb-3">Timeline</h4>
+        <ol className="border-l border-gray-200 space-y-4">
+          {history.slice().reverse().map((entry, index) => (
+            <li key={`${entry.version}-${index}`} className="ml-4">
+              <div className="flex items-center justify-between">
+                <div className="text-sm">
+                  <span className="font-medium text-gray-900">v{entry.version}</span>
+                  <span className="ml-2 text-gray-500">
+                    replaced {toHistoryDate(entry.timestamp)?.toLocaleString() || ''} by {entry.changedBy}
+                  </span>
+                </div>
+                {entry.rollbackData && (
+                  <button
+                    type="button"
+                    disabled={rollingBack !== null}
+                    onClick={() => handleRollback(entry.version)}
+                    className="inline-flex items-center px-2 py-1 text-xs border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <RotateCcw className={cn('w-3 h-3 mr-1', rollingBack === entry.version && 'animate-spin')} />
+                    Restore
+                  </button>
+                )}
+              </div>
+              <ul className="mt-1 text-xs text-gray-600 font-mono space-y-0.5">
+                {entry.changes.map((change, changeIndex) => (
+                  <li key={changeIndex}>{change}</li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      {/* Side-by-side diff */}
+      <div className="border-t pt-4">
+        <h4 className="text-md font-medium text-gray-900 mb-3">Compare Versions</h4>
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 mb-3">
+          {[
+            { value: leftKey, onChange: setLeftKey },
+            { value: rightKey, onChange: setRightKey }
+          ].map((select, index) => (
+            <select
+              key={index}
+              value={select.value}
+              onChange={(event) => select.onChange(event.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+            >
+              {versions.map(version => (
+                <option key={version.key} value={version.key}>{version.label}</option>
+              ))}
+            </select>
+          ))}
+        </div>
+
+        {diff.length === 0 ? (
+          <p className="text-sm text-gray-500">No differences between these versions.</p>
+        ) : (
+          <table className="min-w-full text-xs border border-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Field</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">{left.label}</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">{right.label}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {diff.map(change => (
+                <tr key={change.path} className="align-top">
+                  <td className="px-3 py-2 font-mono text-gray-900">{change.path}</td>
+                  <td className="px-3 py-2 font-mono bg-red-50 text-red-800 whitespace-pre-wrap break-all">
+                    {formatDiffValue(change.before)}
+                  </td>
+                  <td className="px-3 py-2 font-mono bg-green-50 text-green-800 whitespace-pre-wrap break-all">
+                    {formatDiffValue(change.after)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
 export function AIConfigEditModal({ 
   isOpen, 
   onClose, 
   configuration, 
   onSave, 
+  onRollback,
   mode 
 }: AIConfigEditModalProps) {
   const [activeTab, setActiveTab] = useState('basic');
@@ -252,7 +432,7 @@ export function AIConfigEditModal({
             {/* Tabs */}
             <div className="border-b border-gray-200">
               <nav className="-mb-px flex space-x-8 px-6" aria-label="Tabs">
-                {tabs.map((tab) => {
+                {tabs.filter(tab => !tab.editOnly || mode === 'edit').map((tab) => {
                   const Icon = tab.icon;
                   return (
                     <button
@@ -744,6 +924,15 @@ export function AIConfigEditModal({
                 </div>
               )}
 
+              {/* History Tab */}
+              {activeTab === 'history' && mode === 'edit' && configuration && (
+                <ConfigurationHistoryTab
+                  key={configuration.metadata?.version}
+                  configuration={configuration}
+                  onRollback={onRollback}
+                />
+              )}
+
               {/* Additional tabs would continue here... */}
             </div>
 
@@ -17,7 +17,9 @@ import {
   CreditCard,
   Brain,
   FileCode,
-  FileText
+  FileText,
+  ClipboardCheck,
+  GitCompare
 } from 'lucide-react';
 
 const navigationItems = [
@@ -31,6 +33,11 @@ const navigationItems = [
     href: '/ai-configurations',
     icon: Brain,
   },
+  {
+    name: 'Reviews',
+    href: '/reviews',
+    icon: ClipboardCheck,
+  },
   {
     name: 'Models',
     href: '/models',
@@ -41,6 +48,11 @@ const navigationItems = [
     href: '/workflows',
     icon: Bot,
   },
+  {
+    name: 'Model Changes',
+    href: '/workflows/change-sets',
+    icon: GitCompare,
+  },
   {
     name: 'Templates',
     href: '/templates',
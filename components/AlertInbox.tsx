@@ -0,0 +1,203 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { AlertTriangle, BellOff, Bell, CheckCircle, RefreshCw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface AlertItem {
+  id: string;
+  useCaseId: string;
+  displayName: string;
+  metric: string;
+  status: 'firing' | 'acknowledged' | 'resolved';
+  message: string;
+  firstFiredAt: string;
+  silencedUntil?: string;
+  acknowledgedBy?: string;
+}
+
+const SILENCE_OPTIONS = [
+  { label: '1h', minutes: 60 },
+  { label: '4h', minutes: 240 },
+  { label: '24h', minutes: 1440 }
+];
+
+export function AlertInbox() {
+  const [alerts, setAlerts] = useState<AlertItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [evaluating, setEvaluating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchAlerts = async () => {
+    try {
+      setError(null);
+      const response = await fetch('/api/admin/alerts', {
+        headers: {}
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch alerts');
+      }
+
+      const result = await response.json();
+      setAlerts((result.alerts as AlertItem[]).filter(alert => alert.status !== 'resolved'));
+    } catch (error: any) {
+      console.error('Error fetching alerts:', error);
+      setError(error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchAlerts();
+  }, []);
+
+  const updateAlert = async (id: string, body: Record<string, unknown>) => {
+    try {
+      setBusyId(id);
+      const response = await fetch(`/api/admin/alerts/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to update alert');
+      }
+
+      await fetchAlerts();
+    } catch (error: any) {
+      console.error('Error updating alert:', error);
+      setError(error.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const evaluateNow = async () => {
+    try {
+      setEvaluating(true);
+      const response = await fetch('/api/admin/alerts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'evaluate' })
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to evaluate alerts');
+      }
+
+      await fetchAlerts();
+    } catch (error: any) {
+      console.error('Error evaluating alerts:', error);
+      setError(error.message);
+    } finally {
+      setEvaluating(false);
+    }
+  };
+
+  const isSilenced = (alert: AlertItem) =>
+    !!alert.silencedUntil && new Date(alert.silencedUntil) > new Date();
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-lg font-medium text-gray-900 flex items-center">
+          <AlertTriangle className="h-5 w-5 text-red-500 mr-2" />
+          Alerts
+          {alerts.length > 0 && (
+            <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-700">
+              {alerts.length}
+            </span>
+          )}
+        </h2>
+        <button
+          onClick={evaluateNow}
+          disabled={evaluating}
+          className="inline-flex items-center px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          <RefreshCw className={cn('h-4 w-4 mr-1', evaluating && 'animate-spin')} />
+          Evaluate Now
+        </button>
+      </div>
+
+      {error && (
+        <div className="px-6 py-3 text-sm text-red-700 bg-red-50 border-b border-red-100">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="p-6 text-sm text-gray-500">Loading alerts...</div>
+      ) : alerts.length === 0 ? (
+        <div className="p-6 text-sm text-gray-500 flex items-center">
+          <CheckCircle className="h-5 w-5 text-green-500 mr-2" />
+          No open alerts
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {alerts.map(alert => (
+            <li key={alert.id} className="px-6 py-4 flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className={cn(
+                    'px-2 py-0.5 text-xs font-medium rounded-full',
+                    alert.status === 'firing' ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-800'
+                  )}>
+                    {alert.status}
+                  </span>
+                  <span className="font-medium text-gray-900 truncate">{alert.displayName}</span>
+                  {isSilenced(alert) && (
+                    <span className="inline-flex items-center text-xs text-gray-500">
+                      <BellOff className="h-3 w-3 mr-1" />
+                      until {new Date(alert.silencedUntil!).toLocaleString()}
+                    </span>
+                  )}
+                </div>
+                <p className="mt-1 text-sm text-gray-600">{alert.message}</p>
+                <p className="mt-1 text-xs text-gray-400">
+                  Since {new Date(alert.firstFiredAt).toLocaleString()}
+                  {alert.acknowledgedBy && ` · acknowledged by ${alert.acknowledgedBy}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                {alert.status === 'firing' && (
+                  <button
+                    onClick={() => updateAlert(alert.id, { action: 'acknowledge' })}
+                    disabled={busyId === alert.id}
+                    className="px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                  >
+                    Acknowledge
+                  </button>
+                )}
+                {isSilenced(alert) ? (
+                  <button
+                    onClick={() => updateAlert(alert.id, { action: 'unsilence' })}
+                    disabled={busyId === alert.id}
+                    className="inline-flex items-center px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <Bell className="h-4 w-4 mr-1" />
+                    Unsilence
+                  </button>
+                ) : (
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && updateAlert(alert.id, { action: 'silence', durationMinutes: Number(e.target.value) })}
+                    disabled={busyId === alert.id}
+                    className="px-2 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 disabled:opacity-50"
+                  >
+                    <option value="">Silence...</option>
+                    {SILENCE_OPTIONS.map(option => (
+                      <option key={option.minutes} value={option.minutes}>{option.label}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,19 +1,128 @@
 "use client";
 
-import { Fragment } from 'react';
+import { Fragment, useEffect, useState } from 'react';
 import { Dialog, Transition } from '@headlessui/react';
-import { X, Calendar, DollarSign, Zap, Database, Globe, Shield } from 'lucide-react';
-import type { ModelDocument } from '@/types/model-schema';
+import { X, Calendar, DollarSign, Zap, Database, Globe, Shield, History, RotateCcw, Loader2 } from 'lucide-react';
+import type { ModelDocument, ModelWriteSource } from '@/types/model-schema';
 
 interface ModelViewModalProps {
   model: ModelDocument | null;
   isOpen: boolean;
   onClose: () => void;
+  onReverted?: () => void;
 }
 
-export function ModelViewModal({ model, isOpen, onClose }: ModelViewModalProps) {
+interface FieldProvenance {
+  source: ModelWriteSource;
+  executionId?: string;
+  actor: string;
+  entryId: string;
+  changedAt?: string;
+}
+
+interface HistoryEntry {
+  id: string;
+  source: ModelWriteSource;
+  executionId?: string;
+  changeSetId?: string;
+  revertedFrom?: string;
+  actor: string;
+  changedPaths: string[];
+  createdAt?: string;
+}
+
+const SOURCE_STYLES: Record<ModelWriteSource, string> = {
+  sync: 'bg-blue-100 text-blue-800',
+  seed: 'bg-gray-100 text-gray-800',
+  enrichment: 'bg-purple-100 text-purple-800',
+  manual: 'bg-yellow-100 text-yellow-800',
+  import: 'bg-green-100 text-green-800'
+};
+
+function ProvenanceBadge({ field }: { field?: FieldProvenance }) {
+  if (!field) return null;
+  const details = [
+    `${field.source} by ${field.actor}`,
+    field.changedAt && new Date(field.changedAt).toLocaleString(),
+    field.executionId && `execution ${field.executionId}`
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <span title={details} className={`ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium uppercase ${SOURCE_STYLES[field.source]}`}>
+      {field.source}
+    </span>
+  );
+}
+
+export function ModelViewModal({ model, isOpen, onClose, onReverted }: ModelViewModalProps) {
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [provenance, setProvenance] = useState<Record<string, FieldProvenance>>({});
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+
+  const fetchHistory = async (modelId: string) => {
+    try {
+      setHistoryLoading(true);
+      const response = await fetch(`/api/admin/models/${modelId}/history`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch model history');
+      }
+      setHistory(data.entries || []);
+      setProvenance(data.provenance || {});
+    } catch (error) {
+      console.error('Error fetching model history:', error);
+      setHistory([]);
+      setProvenance({});
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (model && isOpen) fetchHistory(model.id);
+  }, [model?.id, isOpen]);
+
   if (!model) return null;
 
+  // The latest write to a field, or to any field inside it, or to the object that contains it
+  const provenanceFor = (path: string): FieldProvenance | undefined => {
+    if (provenance[path]) return provenance[path];
+    const nested = Object.entries(provenance)
+      .filter(([fieldPath]) => fieldPath.startsWith(`${path}.`))
+      .map(([, field]) => field)
+      .sort((a, b) => (b.changedAt || '').localeCompare(a.changedAt || ''))[0];
+    if (nested) return nested;
+    const parent = path.split('.').slice(0, -1).join('.');
+    return parent ? provenance[parent] : undefined;
+  };
+
+  const handleRevert = async (entry: HistoryEntry) => {
+    if (!confirm(`Revert ${model.name} to the version from ${entry.createdAt ? new Date(entry.createdAt).toLocaleString() : entry.id}?\n\nFields changed since then are restored, and fields added since then are removed.`)) {
+      return;
+    }
+
+    try {
+      setRevertingId(entry.id);
+      const response = await fetch(`/api/admin/models/${model.id}/revert`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ entryId: entry.id })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to revert model');
+      }
+      alert(data.message);
+      onReverted?.();
+      onClose();
+    } catch (error: any) {
+      alert(`Error reverting model: ${error.message}`);
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
   const formatDate = (date: any) => {
     if (!date) return '—';
     const d = date.toDate ? date.toDate() : new Date(date);
@@ -79,15 +188,15 @@ export function ModelViewModal({ model, isOpen, onClose }: ModelViewModalProps)
                       </h3>
                       <div className="bg-gray-50 rounded-lg p-4 space-y-3">
                         <div>
-                          <label className="block text-sm font-medium text-gray-700">Provider</label>
+                          <label className="block text-sm font-medium text-gray-700">Provider<ProvenanceBadge field={provenanceFor('providerId')} /></label>
                           <p className="text-sm text-gray-900">{model.providerId}</p>
                         </div>
                         <div>
-                          <label className="block text-sm font-medium text-gray-700">Full Model Path</label>
+                          <label className="block text-sm font-medium text-gray-700">Full Model Path<ProvenanceBadge field={provenanceFor('fullModelPath')} /></label>
                           <p className="text-sm text-gray-900">{model.fullModelPath}</p>
                         </div>
                         <div>
-                          <label className="block text-sm font-medium text-gray-700">Status</label>
+                          <label className="block text-sm font-medium text-gray-700">Status<ProvenanceBadge field={provenanceFor('status')} /></label>
                           <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
                             model.status === 'active' ? 'bg-green-100 text-green-800' :
                             model.status === 'deprecated' ? 'bg-red-100 text-red-800' :
@@ -98,7 +207,7 @@ export function ModelViewModal({ model, isOpen, onClose }: ModelViewModalProps)
                           </span>
                         </div>
                         <div>
-                          <label className="block text-sm font-medium text-gray-700">Categories</label>
+                          <label className="block text-sm font-medium text-gray-700">Categories<ProvenanceBadge field={provenanceFor('categories')} /></label>
                           <div className="flex flex-wrap gap-1 mt-1">
                             {model.categories?.map(cat => (
                               <span key={cat} className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-blue-100 text-blue-800">
@@ -108,7 +217,7 @@ export function ModelViewModal({ model, isOpen, onClose }: ModelViewModalProps)
                           </div>
                         </div>
                         <div>
-                          <label className="block text-sm font-medium text-gray-700">Description</label>
+                          <label className="block text-sm font-medium text-gray-700">Description<ProvenanceBadge field={provenanceFor('description')} /></label>
                           <p className="text-sm text-gray-900">{model.description || '—'}</p>
                         </div>
                       </div>
@@ -122,23 +231,23 @@ export function ModelViewModal({ model, isOpen, onClose }: ModelViewModalProps)
                       </h3>
                       <div className="bg-gray-50 rounded-lg p-4 space-y-3">
                         <div>
-                          <label className="block text-sm font-medium text-gray-700">Version</label>
+                          <label className="block text-sm font-medium text-gray-700">Version<ProvenanceBadge field={provenanceFor('specifications.version')} /></label>
                           <p className="text-sm text-gray-900">{model.specifications?.version || '—'}</p>
                         </div>
                         <div>
-                          <label className="block text-sm font-medium text-gray-700">Release Date</label>
+                          <label className="block text-sm font-medium text-gray-700">Release Date<ProvenanceBadge field={provenanceFor('specifications.releaseDate')} /></label>
                           <p className="text-sm text-gray-900">{formatDate(model.specifications?.releaseDate)}</p>
                         </div>
                         <div>
-                          <label className="block text-sm font-medium text-gray-700">Training Cutoff</label>
+                          <label className="block text-sm font-medium text-gray-700">Training Cutoff<ProvenanceBadge field={provenanceFor('specifications.trainingCutoff')} /></label>
                           <p className="text-sm text-gray-900">{model.specifications?.trainingCutoff || '—'}</p>
                         </div>
                         <div>
-                          <label className="block text-sm font-medium text-gray-700">Model Size</label>
+                          <label className="block text-sm font-medium text-gray-700">Model Size<ProvenanceBadge field={provenanceFor('specifications.modelSize')} /></label>
                           <p className="text-sm text-gray-900">{model.specifications?.modelSize || '—'}</p>
                         </div>
                         <div>
-                          <label className="block text-sm font-medium text-gray-700">Architecture</label>
+                          <label className="block text-sm font-medium text-gray-700">Architecture<ProvenanceBadge field={provenanceFor('specifications.architecture')} /></label>
                           <p className="text-sm text-gray-900">{model.specifications?.architecture || '—'}</p>
                         </div>
                       </div>
@@ -149,6 +258,7 @@ export function ModelViewModal({ model, isOpen, onClose }: ModelViewModalProps)
                       <h3 className="text-lg font-semibold text-gray-900 flex items-center">
                         <Shield className="h-5 w-5 mr-2" />
                         Capabilities
+                        <ProvenanceBadge field={provenanceFor('capabilities')} />
                       </h3>
                       <div className="bg-gray-50 rounded-lg p-4 space-y-3">
                         <div className="grid grid-cols-2 gap-2 text-sm">
@@ -178,15 +288,15 @@ export function ModelViewModal({ model, isOpen, onClose }: ModelViewModalProps)
                           </div>
                         </div>
                         <div>
-                          <label className="block text-sm font-medium text-gray-700">Context Window</label>
+                          <label className="block text-sm font-medium text-gray-700">Context Window<ProvenanceBadge field={provenanceFor('capabilities.contextWindow')} /></label>
                           <p className="text-sm text-gray-900">{model.capabilities?.contextWindow?.toLocaleString() || '—'} tokens</p>
                         </div>
                         <div>
-                          <label className="block text-sm font-medium text-gray-700">Max Tokens</label>
+                          <label className="block text-sm font-medium text-gray-700">Max Tokens<ProvenanceBadge field={provenanceFor('capabilities.maxTokens')} /></label>
                           <p className="text-sm text-gray-900">{model.capabilities?.maxTokens?.toLocaleString() || '—'}</p>
                         </div>
                         <div>
-                          <label className="block text-sm font-medium text-gray-700">Special Features</label>
+                          <label className="block text-sm font-medium text-gray-700">Special Features<ProvenanceBadge field={provenanceFor('capabilities.specialFeatures')} /></label>
                           <div className="flex flex-wrap gap-1 mt-1">
                             {model.capabilities?.specialFeatures?.map(feature => (
                               <span key={feature} className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-purple-100 text-purple-800">
@@ -206,21 +316,21 @@ export function ModelViewModal({ model, isOpen, onClose }: ModelViewModalProps)
                       </h3>
                       <div className="bg-gray-50 rounded-lg p-4 space-y-3">
                         <div>
-                          <label className="block text-sm font-medium text-gray-700">Input Cost (per 1M tokens)</label>
+                          <label className="block text-sm font-medium text-gray-700">Input Cost (per 1M tokens)<ProvenanceBadge field={provenanceFor('pricing.inputTokenCost')} /></label>
                           <p className="text-sm text-gray-900">{formatCurrency((model.pricing?.inputTokenCost || 0) * 1000, 2)}</p>
                         </div>
                         <div>
-                          <label className="block text-sm font-medium text-gray-700">Output Cost (per 1M tokens)</label>
+                          <label className="block text-sm font-medium text-gray-700">Output Cost (per 1M tokens)<ProvenanceBadge field={provenanceFor('pricing.outputTokenCost')} /></label>
                           <p className="text-sm text-gray-900">{formatCurrency((model.pricing?.outputTokenCost || 0) * 1000, 2)}</p>
                         </div>
                         {model.pricing?.imageInputCost && (
                           <div>
-                            <label className="block text-sm font-medium text-gray-700">Image Input Cost</label>
+                            <label className="block text-sm font-medium text-gray-700">Image Input Cost<ProvenanceBadge field={provenanceFor('pricing.imageInputCost')} /></label>
                             <p className="text-sm text-gray-900">{formatCurrency(model.pricing.imageInputCost)}</p>
                           </div>
                         )}
                         <div>
-                          <label className="block text-sm font-medium text-gray-700">Source</label>
+                          <label className="block text-sm font-medium text-gray-700">Source<ProvenanceBadge field={provenanceFor('pricing.source')} /></label>
                           <p className="text-sm text-gray-900">{model.pricing?.source || '—'}</p>
                         </div>
                         <div>
@@ -239,6 +349,7 @@ export function ModelViewModal({ model, isOpen, onClose }: ModelViewModalProps)
                       <h3 className="text-lg font-semibold text-gray-900 flex items-center">
                         <Zap className="h-5 w-5 mr-2" />
                         Performance
+                        <ProvenanceBadge field={provenanceFor('performance')} />
                       </h3>
                       <div className="bg-gray-50 rounded-lg p-4 space-y-3">
                         <div className="grid grid-cols-3 gap-4 text-sm">
@@ -256,11 +367,11 @@ export function ModelViewModal({ model, isOpen, onClose }: ModelViewModalProps)
                           </div>
                         </div>
                         <div>
-                          <label className="block text-sm font-medium text-gray-700">Reliability Score</label>
+                          <label className="block text-sm font-medium text-gray-700">Reliability Score<ProvenanceBadge field={provenanceFor('performance.reliabilityScore')} /></label>
                           <p className="text-sm text-gray-900">{model.performance?.reliabilityScore || '—'}/100</p>
                         </div>
                         <div>
-                          <label className="block text-sm font-medium text-gray-700">Average Latency</label>
+                          <label className="block text-sm font-medium text-gray-700">Average Latency<ProvenanceBadge field={provenanceFor('performance.averageLatencyMs')} /></label>
                           <p className="text-sm text-gray-900">{model.performance?.averageLatencyMs || '—'}ms</p>
                         </div>
                       </div>
@@ -274,11 +385,11 @@ export function ModelViewModal({ model, isOpen, onClose }: ModelViewModalProps)
                       </h3>
                       <div className="bg-gray-50 rounded-lg p-4 space-y-3">
                         <div>
-                          <label className="block text-sm font-medium text-gray-700">Access Level</label>
+                          <label className="block text-sm font-medium text-gray-700">Access Level<ProvenanceBadge field={provenanceFor('availability.accessLevel')} /></label>
                           <p className="text-sm text-gray-900">{model.availability?.accessLevel || '—'}</p>
                         </div>
                         <div>
-                          <label className="block text-sm font-medium text-gray-700">Regions</label>
+                          <label className="block text-sm font-medium text-gray-700">Regions<ProvenanceBadge field={provenanceFor('availability.regions')} /></label>
                           <div className="flex flex-wrap gap-1 mt-1">
                             {model.availability?.regions?.map(region => (
                               <span key={region} className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-green-100 text-green-800">
@@ -303,6 +414,59 @@ export function ModelViewModal({ model, isOpen, onClose }: ModelViewModalProps)
                     </div>
 
                   </div>
+
+                  {/* Change History */}
+                  <div className="space-y-4 mt-6">
+                    <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                      <History className="h-5 w-5 mr-2" />
+                      Change History
+                    </h3>
+                    {historyLoading ? (
+                      <div className="flex items-center text-sm text-gray-500">
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        Loading history...
+                      </div>
+                    ) : history.length === 0 ? (
+                      <p className="text-sm text-gray-500">No recorded writes yet. History starts with the next sync, enrichment or edit.</p>
+                    ) : (
+                      <div className="bg-gray-50 rounded-lg divide-y divide-gray-200">
+                        {history.map((entry, index) => (
+                          <div key={entry.id} className="flex items-start justify-between p-3 text-sm">
+                            <div className="min-w-0">
+                              <div className="flex items-center gap-2">
+                                <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${SOURCE_STYLES[entry.source]}`}>
+                                  {entry.source}
+                                </span>
+                                <span className="text-gray-900">{entry.actor}</span>
+                                <span className="text-gray-500">{entry.createdAt ? new Date(entry.createdAt).toLocaleString() : '—'}</span>
+                              </div>
+                              <p className="text-xs text-gray-600 mt-1 truncate" title={entry.changedPaths.join(', ')}>
+                                {entry.changedPaths.length} fields: {entry.changedPaths.join(', ')}
+                              </p>
+                              {(entry.executionId || entry.revertedFrom) && (
+                                <p className="text-xs text-gray-500 mt-0.5">
+                                  {entry.executionId && `Execution ${entry.executionId}`}
+                                  {entry.revertedFrom && `Revert to version ${entry.revertedFrom}`}
+                                </p>
+                              )}
+                            </div>
+                            {index > 0 && (
+                              <button
+                                onClick={() => handleRevert(entry)}
+                                disabled={revertingId !== null}
+                                className="ml-4 inline-flex items-center px-2 py-1 border border-gray-300 rounded text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 flex-shrink-0"
+                              >
+                                {revertingId === entry.id
+                                  ? <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                                  : <RotateCcw className="h-3 w-3 mr-1" />}
+                                Revert to this version
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
                 </div>
 
                 {/* Footer */}
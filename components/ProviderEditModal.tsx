@@ -26,6 +26,7 @@ export function ProviderEditModal({ provider, isOpen, onClose, onSave }: Provide
         website: provider.website,
         apiBaseUrl: provider.apiBaseUrl,
         authTypes: provider.authTypes || ['api-key'],
+        directAccess: provider.directAccess ?? false,
         supportLevels: provider.supportLevels || ['developer'],
         reliability: provider.reliability || 95,
         defaultSettings: provider.defaultSettings || {
@@ -318,6 +319,21 @@ export function ProviderEditModal({ provider, isOpen, onClose, onSave }: Provide
                           </label>
                         </div>
 
+                        <div>
+                          <label className="flex items-center">
+                            <input
+                              type="checkbox"
+                              checked={formData.directAccess ?? false}
+                              onChange={(e) => updateField('directAccess', e.target.checked)}
+                              className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                            />
+                            <span className="ml-2 text-sm text-gray-700">Call this provider's API directly instead of OpenRouter</span>
+                          </label>
+                          <p className="mt-1 ml-6 text-xs text-gray-500">
+                            Requires the provider's API key in the environment. Model IDs are sent without the provider prefix.
+                          </p>
+                        </div>
+
                         <div>
                           <label className="block text-sm font-medium text-gray-700 mb-2">
                             Tags (comma-separated)
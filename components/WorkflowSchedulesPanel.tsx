@@ -0,0 +1,530 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { CalendarClock, Play, Plus, RefreshCw, Trash2, Edit, Loader2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+type ScheduleType = 'openrouter-sync' | 'stale-model-enrichment';
+type RunStatus = 'succeeded' | 'failed' | 'skipped';
+
+interface EnrichmentSettings {
+  aiModel: string;
+  batchSize: number;
+  maxCostPerBatch: number;
+  targetDataQuality: 'basic' | 'enhanced' | 'premium';
+  includeValidation: boolean;
+  autoApply: boolean;
+  providerId?: string;
+  maxModels: number;
+}
+
+interface WorkflowSchedule {
+  id: string;
+  name: string;
+  type: ScheduleType;
+  cronExpression: string;
+  enabled: boolean;
+  enrichment?: EnrichmentSettings;
+  nextRunAt: string;
+  lastRunAt?: string;
+  lastRunStatus?: RunStatus;
+  lastRunMessage?: string;
+  lastExecutionId?: string;
+  leaseOwner?: string;
+  leaseExpiresAt?: string;
+}
+
+interface ScheduleDraft {
+  id?: string;
+  name: string;
+  type: ScheduleType;
+  cronExpression: string;
+  enabled: boolean;
+  enrichment: EnrichmentSettings;
+}
+
+const TYPE_LABELS: Record<ScheduleType, string> = {
+  'openrouter-sync': 'OpenRouter Sync',
+  'stale-model-enrichment': 'Stale Model Enrichment'
+};
+
+const RUN_STATUS_STYLES: Record<RunStatus, string> = {
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  skipped: 'bg-gray-100 text-gray-800'
+};
+
+const CRON_PRESETS = [
+  { label: 'Hourly', expression: '0 * * * *' },
+  { label: 'Daily 03:00', expression: '0 3 * * *' },
+  { label: 'Weekly (Sun 04:00)', expression: '0 4 * * 0' },
+  { label: 'Monthly', expression: '0 5 1 * *' }
+];
+
+const DEFAULT_ENRICHMENT: EnrichmentSettings = {
+  aiModel: 'gemini-1.5-flash-latest',
+  batchSize: 10,
+  maxCostPerBatch: 5.00,
+  targetDataQuality: 'enhanced',
+  includeValidation: false,
+  autoApply: false,
+  providerId: '',
+  maxModels: 50
+};
+
+const emptyDraft = (): ScheduleDraft => ({
+  name: '',
+  type: 'openrouter-sync',
+  cronExpression: '0 3 * * *',
+  enabled: true,
+  enrichment: { ...DEFAULT_ENRICHMENT }
+});
+
+const inputClass = 'mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+export function WorkflowSchedulesPanel({ providers = [] }: { providers?: Array<{ id: string; displayName: string }> }) {
+  const [schedules, setSchedules] = useState<WorkflowSchedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ScheduleDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchSchedules = async () => {
+    try {
+      setError(null);
+      const response = await fetch('/api/admin/workflows/schedules');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch schedules');
+      }
+      setSchedules(data.schedules || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch schedules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSchedules();
+  }, []);
+
+  const editSchedule = (schedule: WorkflowSchedule) => {
+    setDraft({
+      id: schedule.id,
+      name: schedule.name,
+      type: schedule.type,
+      cronExpression: schedule.cronExpression,
+      enabled: schedule.enabled,
+      enrichment: { ...DEFAULT_ENRICHMENT, ...schedule.enrichment }
+    });
+  };
+
+  const updateEnrichment = (changes: Partial<EnrichmentSettings>) => {
+    setDraft(prev => prev && { ...prev, enrichment: { ...prev.enrichment, ...changes } });
+  };
+
+  const saveDraft = async () => {
+    if (!draft) return;
+    try {
+      setSaving(true);
+      const response = await fetch(
+        draft.id ? `/api/admin/workflows/schedules/${draft.id}` : '/api/admin/workflows/schedules',
+        {
+          method: draft.id ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: draft.name,
+            type: draft.type,
+            cronExpression: draft.cronExpression,
+            enabled: draft.enabled,
+            ...(draft.type === 'stale-model-enrichment' && { enrichment: draft.enrichment })
+          })
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save schedule');
+      }
+      setDraft(null);
+      await fetchSchedules();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleEnabled = async (schedule: WorkflowSchedule) => {
+    try {
+      setBusyId(schedule.id);
+      const { name, type, cronExpression, enrichment } = schedule;
+      const response = await fetch(`/api/admin/workflows/schedules/${schedule.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, type, cronExpression, enrichment, enabled: !schedule.enabled })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update schedule');
+      }
+      await fetchSchedules();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update schedule');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const runNow = async (schedule: WorkflowSchedule) => {
+    try {
+      setBusyId(schedule.id);
+      const response = await fetch(`/api/admin/workflows/schedules/${schedule.id}/run`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to run schedule');
+      }
+      alert(`${schedule.name}: ${data.result.status}\n\n${data.result.message}`);
+      await fetchSchedules();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to run schedule');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const deleteSchedule = async (schedule: WorkflowSchedule) => {
+    if (!confirm(`Delete the schedule "${schedule.name}"?`)) return;
+    try {
+      setBusyId(schedule.id);
+      const response = await fetch(`/api/admin/workflows/schedules/${schedule.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete schedule');
+      }
+      await fetchSchedules();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete schedule');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const isRunning = (schedule: WorkflowSchedule) =>
+    !!schedule.leaseOwner && !!schedule.leaseExpiresAt && new Date(schedule.leaseExpiresAt) > new Date();
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900 flex items-center">
+              <CalendarClock className="h-5 w-5 mr-2" />
+              Scheduled Workflows
+            </h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Recurring OpenRouter syncs and enrichment of models past their update frequency. Cron times are UTC.
+            </p>
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={fetchSchedules}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <RefreshCw className={cn('h-4 w-4 mr-1', loading && 'animate-spin')} />
+              Refresh
+            </button>
+            <button
+              onClick={() => setDraft(emptyDraft())}
+              className="inline-flex items-center px-3 py-1.5 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              New Schedule
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6">
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin" />
+              <span className="ml-2">Loading schedules...</span>
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-600 text-center py-8">{error}</p>
+          ) : schedules.length === 0 ? (
+            <div className="text-center py-8">
+              <CalendarClock className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No schedules yet</h3>
+              <p className="text-gray-600">Schedules run when the workflow scheduler ticks (scripts/workflow-scheduler.js).</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Schedule</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cron</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Next Run</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Run</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {schedules.map(schedule => (
+                    <tr key={schedule.id} className={cn(!schedule.enabled && 'opacity-60')}>
+                      <td className="px-4 py-3 text-sm">
+                        <div className="font-medium text-gray-900">{schedule.name}</div>
+                        <div className="text-gray-500">
+                          {TYPE_LABELS[schedule.type]}
+                          {schedule.enrichment && ` · up to ${schedule.enrichment.maxModels} models${schedule.enrichment.autoApply ? ' · auto-apply' : ''}`}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm font-mono text-gray-700">{schedule.cronExpression}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {!schedule.enabled ? 'Disabled' : isRunning(schedule) ? (
+                          <span className="inline-flex items-center text-indigo-600">
+                            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                            Running
+                          </span>
+                        ) : new Date(schedule.nextRunAt).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        {schedule.lastRunAt ? (
+                          <div>
+                            <span className={cn('inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium', RUN_STATUS_STYLES[schedule.lastRunStatus || 'skipped'])}>
+                              {schedule.lastRunStatus}
+                            </span>
+                            <span className="ml-2 text-gray-500">{new Date(schedule.lastRunAt).toLocaleString()}</span>
+                            {schedule.lastRunMessage && (
+                              <div className="text-xs text-gray-500 mt-1">{schedule.lastRunMessage}</div>
+                            )}
+                          </div>
+                        ) : (
+                          <span className="text-gray-400">Never</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right whitespace-nowrap">
+                        <div className="inline-flex items-center space-x-2">
+                          <button
+                            onClick={() => toggleEnabled(schedule)}
+                            disabled={busyId === schedule.id}
+                            className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                          >
+                            {schedule.enabled ? 'Disable' : 'Enable'}
+                          </button>
+                          <button
+                            onClick={() => runNow(schedule)}
+                            disabled={busyId === schedule.id || isRunning(schedule)}
+                            title="Run now"
+                            className="text-green-600 hover:text-green-800 disabled:opacity-50"
+                          >
+                            {busyId === schedule.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+                          </button>
+                          <button onClick={() => editSchedule(schedule)} title="Edit" className="text-indigo-600 hover:text-indigo-800">
+                            <Edit className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => deleteSchedule(schedule)}
+                            disabled={busyId === schedule.id}
+                            title="Delete"
+                            className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Schedule Editor */}
+      {draft && (
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+            <h2 className="text-lg font-medium text-gray-900">{draft.id ? 'Edit Schedule' : 'New Schedule'}</h2>
+            <button onClick={() => setDraft(null)} className="text-gray-400 hover:text-gray-600">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+          <div className="p-6 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Name</label>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Nightly OpenRouter sync"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Workflow</label>
+                <select
+                  value={draft.type}
+                  onChange={(e) => setDraft({ ...draft, type: e.target.value as ScheduleType })}
+                  className={inputClass}
+                >
+                  {Object.entries(TYPE_LABELS).map(([type, label]) => (
+                    <option key={type} value={type}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Cron Expression (UTC)</label>
+                <input
+                  type="text"
+                  value={draft.cronExpression}
+                  onChange={(e) => setDraft({ ...draft, cronExpression: e.target.value })}
+                  className={cn(inputClass, 'font-mono')}
+                />
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {CRON_PRESETS.map(preset => (
+                    <button
+                      key={preset.expression}
+                      onClick={() => setDraft({ ...draft, cronExpression: preset.expression })}
+                      className="px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-700 hover:bg-gray-200"
+                    >
+                      {preset.label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">minute hour day-of-month month day-of-week, e.g. */30 * * * * or @daily</p>
+              </div>
+              <div className="flex items-center md:pt-6">
+                <input
+                  id="schedule-enabled"
+                  type="checkbox"
+                  checked={draft.enabled}
+                  onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+                  className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                />
+                <label htmlFor="schedule-enabled" className="ml-2 block text-sm text-gray-900">Enabled</label>
+              </div>
+            </div>
+
+            {draft.type === 'stale-model-enrichment' && (
+              <div className="border-t border-gray-200 pt-4 space-y-4">
+                <p className="text-sm text-gray-600">
+                  Each run enriches the most overdue models whose last successful update is older than their update frequency.
+                  Models with results still waiting for review are skipped.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">AI Model</label>
+                    <input
+                      type="text"
+                      value={draft.enrichment.aiModel}
+                      onChange={(e) => updateEnrichment({ aiModel: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Provider</label>
+                    <select
+                      value={draft.enrichment.providerId || ''}
+                      onChange={(e) => updateEnrichment({ providerId: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="">All providers</option>
+                      {providers.map(provider => (
+                        <option key={provider.id} value={provider.id}>{provider.displayName}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Target Data Quality</label>
+                    <select
+                      value={draft.enrichment.targetDataQuality}
+                      onChange={(e) => updateEnrichment({ targetDataQuality: e.target.value as EnrichmentSettings['targetDataQuality'] })}
+                      className={inputClass}
+                    >
+                      <option value="basic">Basic</option>
+                      <option value="enhanced">Enhanced</option>
+                      <option value="premium">Premium</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Max Models per Run</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={draft.enrichment.maxModels}
+                      onChange={(e) => updateEnrichment({ maxModels: parseInt(e.target.value) || 0 })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Batch Size</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={draft.enrichment.batchSize}
+                      onChange={(e) => updateEnrichment({ batchSize: parseInt(e.target.value) || 0 })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Max Cost per Batch ($)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={draft.enrichment.maxCostPerBatch}
+                      onChange={(e) => updateEnrichment({ maxCostPerBatch: parseFloat(e.target.value) || 0 })}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+                <div className="flex flex-col space-y-2">
+                  <label className="flex items-center text-sm text-gray-900">
+                    <input
+                      type="checkbox"
+                      checked={draft.enrichment.includeValidation}
+                      onChange={(e) => updateEnrichment({ includeValidation: e.target.checked })}
+                      className="h-4 w-4 mr-2 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                    />
+                    Include validation research (higher accuracy, increased cost)
+                  </label>
+                  <label className="flex items-center text-sm text-gray-900">
+                    <input
+                      type="checkbox"
+                      checked={draft.enrichment.autoApply}
+                      onChange={(e) => updateEnrichment({ autoApply: e.target.checked })}
+                      className="h-4 w-4 mr-2 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                    />
+                    Auto-apply results without review
+                  </label>
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-2 border-t border-gray-200 pt-4">
+              <button
+                onClick={() => setDraft(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveDraft}
+                disabled={saving || !draft.name.trim() || !draft.cronExpression.trim()}
+                className="inline-flex items-center px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {draft.id ? 'Save Schedule' : 'Create Schedule'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+// Runs once when a server instance starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  // Recover enrichment runs interrupted by a restart and keep processing queued jobs
+  const { EnrichmentWorker } = await import('./lib/enrichment-worker');
+  EnrichmentWorker.startInline();
+}
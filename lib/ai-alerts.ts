@@ -0,0 +1,462 @@
+/**
+ * AI Alerts - Admin Panel Version
+ *
+ * Evaluates each use case's monitoringConfig.alertThresholds against the usage rollups and keeps
+ * one alert per use case and metric in aiAlerts (firing -> acknowledged -> resolved). Notifications
+ * go out when an alert starts firing and when it resolves, to the channels in aiAlertChannels:
+ * - webhook: JSON POST of { event, alert }
+ * - slack: Slack-compatible incoming webhook payload
+ * - email: through the email transport (SMTP_* settings by default, replaceable with setEmailTransport)
+ * Silenced alerts keep their state up to date but don't notify.
+ */
+
+import type { AIUseCaseConfig } from '@/types/ai-configuration-schema';
+import { AIUsageRollups, type AIUsageTotals } from './ai-usage-rollups';
+import { SmtpTransport, type EmailTransport } from './smtp-transport';
+
+export const ALERT_COLLECTION = 'aiAlerts';
+export const ALERT_CHANNEL_COLLECTION = 'aiAlertChannels';
+
+const SHORT_WINDOW_MS = 60 * 60 * 1000; // Error rate and latency: the last hour
+const DAILY_WINDOW_MS = 24 * 60 * 60 * 1000; // Cost and quality: the last 24 hours
+const MIN_CALLS_FOR_RATES = 5; // Below this an error rate or p95 is too noisy to alert on
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+export type AIAlertMetric = 'errorRate' | 'latency' | 'cost' | 'qualityScore';
+export type AIAlertStatus = 'firing' | 'acknowledged' | 'resolved';
+export type AIAlertChannelType = 'webhook' | 'slack' | 'email';
+
+export interface AIAlert {
+  id: string; // `${useCaseId}_${metric}`: one alert per use case and metric
+  useCaseId: string;
+  displayName: string;
+  metric: AIAlertMetric;
+  status: AIAlertStatus;
+  value: number;
+  threshold: number;
+  message: string;
+  firstFiredAt: Date; // Start of the current episode
+  lastEvaluatedAt: Date;
+  resolvedAt?: Date;
+  acknowledgedAt?: Date;
+  acknowledgedBy?: string;
+  silencedUntil?: Date;
+  fireCount: number; // Episodes so far
+  lastDeliveries?: AIAlertDelivery[];
+}
+
+export interface AIAlertDelivery {
+  channelId: string;
+  type: AIAlertChannelType;
+  event: AIAlertEvent;
+  success: boolean;
+  error?: string;
+  at: Date;
+}
+
+export interface AIAlertChannel {
+  id: string;
+  name: string;
+  type: AIAlertChannelType;
+  enabled: boolean;
+  url?: string; // webhook / slack
+  recipients?: string[]; // email
+  useCaseIds?: string[]; // Only these use cases (all when empty)
+  metrics?: AIAlertMetric[]; // Only these metrics (all when empty)
+}
+
+export type AIAlertEvent = 'alert.firing' | 'alert.resolved';
+
+interface MetricReading {
+  metric: AIAlertMetric;
+  value: number | null; // null when there isn't enough data to judge
+  threshold: number;
+  breached: boolean;
+  message: string;
+}
+
+const METRIC_LABELS: Record<AIAlertMetric, string> = {
+  errorRate: 'Error rate',
+  latency: 'p95 latency',
+  cost: 'Daily cost',
+  qualityScore: 'Quality score'
+};
+
+function toDate(value: any): Date | undefined {
+  if (!value) return undefined;
+  if (value instanceof Date) return value;
+  if (typeof value.toDate === 'function') return value.toDate();
+  return new Date(value);
+}
+
+function formatValue(metric: AIAlertMetric, value: number): string {
+  switch (metric) {
+    case 'errorRate':
+      return `${value.toFixed(1)}%`;
+    case 'latency':
+      return `${Math.round(value)}ms`;
+    case 'cost':
+      return `$${value.toFixed(2)}`;
+    default:
+      return value.toFixed(1);
+  }
+}
+
+function fromDoc(doc: FirebaseFirestore.DocumentSnapshot): AIAlert {
+  const data = doc.data() || {};
+  return {
+    ...data,
+    id: doc.id,
+    firstFiredAt: toDate(data.firstFiredAt),
+    lastEvaluatedAt: toDate(data.lastEvaluatedAt),
+    resolvedAt: toDate(data.resolvedAt),
+    acknowledgedAt: toDate(data.acknowledgedAt),
+    silencedUntil: toDate(data.silencedUntil),
+    lastDeliveries: data.lastDeliveries?.map((delivery: any) => ({ ...delivery, at: toDate(delivery.at) }))
+  } as AIAlert;
+}
+
+// Firestore rejects undefined values, so drop the optional fields that aren't set
+function toRecord(alert: AIAlert): Record<string, unknown> {
+  const { id: _id, ...record } = alert;
+  return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined));
+}
+
+export class AIAlerts {
+  private static emailTransport: EmailTransport | null | undefined;
+
+  /**
+   * Replace the email transport (defaults to SmtpTransport.fromEnv())
+   */
+  static setEmailTransport(transport: EmailTransport | null): void {
+    this.emailTransport = transport;
+  }
+
+  private static getEmailTransport(): EmailTransport | null {
+    if (this.emailTransport === undefined) {
+      this.emailTransport = SmtpTransport.fromEnv();
+    }
+    return this.emailTransport;
+  }
+
+  // ==========================================================================
+  // Evaluation
+  // ==========================================================================
+
+  /**
+   * Compare every alert-enabled use case with its thresholds, update alert state and notify
+   */
+  static async evaluate(): Promise<{ evaluated: number; firing: number; fired: number; resolved: number }> {
+    const { adminDb } = await import('./firebase-admin');
+    const now = new Date();
+
+    const [configSnapshot, hourly, daily, alertSnapshot] = await Promise.all([
+      adminDb.collection('aiUseCaseConfigs').get(),
+      AIUsageRollups.getUseCaseTotals(new Date(now.getTime() - SHORT_WINDOW_MS), now),
+      AIUsageRollups.getUseCaseTotals(new Date(now.getTime() - DAILY_WINDOW_MS), now),
+      adminDb.collection(ALERT_COLLECTION).get()
+    ]);
+
+    const configs = configSnapshot.docs
+      .map(doc => ({ ...doc.data(), useCaseId: doc.id }) as AIUseCaseConfig)
+      .filter(config => config.monitoringConfig?.enableAlerts && config.metadata?.isActive !== false);
+    const existing = new Map(alertSnapshot.docs.map(doc => [doc.id, fromDoc(doc)]));
+
+    let fired = 0;
+    let resolved = 0;
+    const transitions: Array<{ alert: AIAlert; event: AIAlertEvent }> = [];
+
+    for (const config of configs) {
+      const readings = this.readMetrics(config, hourly.get(config.useCaseId), daily.get(config.useCaseId));
+
+      for (const reading of readings) {
+        const id = `${config.useCaseId}_${reading.metric}`;
+        const current = existing.get(id);
+        const active = current && current.status !== 'resolved';
+
+        if (reading.breached) {
+          const alert: AIAlert = {
+            ...(current || { fireCount: 0 }),
+            id,
+            useCaseId: config.useCaseId,
+            displayName: config.displayName,
+            metric: reading.metric,
+            status: active ? current!.status : 'firing',
+            value: reading.value!,
+            threshold: reading.threshold,
+            message: reading.message,
+            firstFiredAt: active ? current!.firstFiredAt : now,
+            lastEvaluatedAt: now,
+            fireCount: active ? current!.fireCount : (current?.fireCount || 0) + 1
+          } as AIAlert;
+          if (!active) {
+            // A new episode clears the previous acknowledgement
+            delete alert.resolvedAt;
+            delete alert.acknowledgedAt;
+            delete alert.acknowledgedBy;
+            transitions.push({ alert, event: 'alert.firing' });
+            fired++;
+          }
+          await adminDb.collection(ALERT_COLLECTION).doc(id).set(toRecord(alert));
+        } else if (active && reading.value !== null) {
+          const alert: AIAlert = {
+            ...current!,
+            status: 'resolved',
+            value: reading.value,
+            message: `${METRIC_LABELS[reading.metric]} back within threshold (${formatValue(reading.metric, reading.value)})`,
+            resolvedAt: now,
+            lastEvaluatedAt: now
+          };
+          transitions.push({ alert, event: 'alert.resolved' });
+          resolved++;
+          await adminDb.collection(ALERT_COLLECTION).doc(id).set(toRecord(alert));
+        }
+      }
+    }
+
+    if (transitions.length > 0) {
+      const channels = await this.getChannels();
+      for (const { alert, event } of transitions) {
+        const silenced = alert.silencedUntil && alert.silencedUntil > now;
+        if (silenced) continue;
+
+        const deliveries = await this.notify(channels, alert, event);
+        if (deliveries.length > 0) {
+          await adminDb.collection(ALERT_COLLECTION).doc(alert.id).update({ lastDeliveries: deliveries });
+        }
+      }
+    }
+
+    const firing = (await adminDb.collection(ALERT_COLLECTION).where('status', '==', 'firing').count().get()).data().count;
+    console.log(`🚨 Evaluated alerts for ${configs.length} use cases: ${fired} fired, ${resolved} resolved, ${firing} firing`);
+    return { evaluated: configs.length, firing, fired, resolved };
+  }
+
+  /**
+   * Threshold readings for one use case. Metrics without a threshold are skipped.
+   */
+  private static readMetrics(
+    config: AIUseCaseConfig,
+    hourly: AIUsageTotals | undefined,
+    daily: AIUsageTotals | undefined
+  ): MetricReading[] {
+    const thresholds = config.monitoringConfig.alertThresholds || {};
+    const readings: MetricReading[] = [];
+    const enoughCalls = !!hourly && hourly.calls >= MIN_CALLS_FOR_RATES;
+
+    if (thresholds.errorRateThreshold !== undefined) {
+      const value = enoughCalls ? hourly!.errorRate : null;
+      readings.push({
+        metric: 'errorRate',
+        value,
+        threshold: thresholds.errorRateThreshold,
+        breached: value !== null && value > thresholds.errorRateThreshold,
+        message: `Error rate ${value === null ? 'n/a' : formatValue('errorRate', value)} over the last hour exceeds ${thresholds.errorRateThreshold}%`
+      });
+    }
+
+    if (thresholds.latencyThreshold !== undefined) {
+      // Merged p95s are histogram bucket bounds (2100ms reads as 5000ms), so compare the exact per-bucket values
+      const value = enoughCalls ? hourly!.maxBucketLatencyP95 : null;
+      readings.push({
+        metric: 'latency',
+        value,
+        threshold: thresholds.latencyThreshold,
+        breached: value !== null && value > thresholds.latencyThreshold,
+        message: `p95 latency ${value === null ? 'n/a' : formatValue('latency', value)} over the last hour exceeds ${thresholds.latencyThreshold}ms`
+      });
+    }
+
+    if (thresholds.costThreshold !== undefined) {
+      const value = daily?.costUSD || 0;
+      readings.push({
+        metric: 'cost',
+        value,
+        threshold: thresholds.costThreshold,
+        breached: value > thresholds.costThreshold,
+        message: `Cost ${formatValue('cost', value)} over the last 24 hours exceeds $${thresholds.costThreshold}/day`
+      });
+    }
+
+    if (thresholds.qualityScoreThreshold !== undefined) {
+      const value = daily?.avgQualityScore ?? null;
+      readings.push({
+        metric: 'qualityScore',
+        value,
+        threshold: thresholds.qualityScoreThreshold,
+        breached: value !== null && value < thresholds.qualityScoreThreshold,
+        message: `Average quality score ${value === null ? 'n/a' : formatValue('qualityScore', value)} over the last 24 hours is below ${thresholds.qualityScoreThreshold}`
+      });
+    }
+
+    return readings;
+  }
+
+  // ==========================================================================
+  // Inbox actions
+  // ==========================================================================
+
+  static async list(status?: AIAlertStatus): Promise<AIAlert[]> {
+    const { adminDb } = await import('./firebase-admin');
+    let query: FirebaseFirestore.Query = adminDb.collection(ALERT_COLLECTION);
+    if (status) query = query.where('status', '==', status);
+    const snapshot = await query.orderBy('lastEvaluatedAt', 'desc').limit(200).get();
+    return snapshot.docs.map(fromDoc);
+  }
+
+  static async get(alertId: string): Promise<AIAlert | null> {
+    const { adminDb } = await import('./firebase-admin');
+    const doc = await adminDb.collection(ALERT_COLLECTION).doc(alertId).get();
+    return doc.exists ? fromDoc(doc) : null;
+  }
+
+  /**
+   * Acknowledge a firing alert; it stays acknowledged until it resolves
+   */
+  static async acknowledge(alertId: string): Promise<void> {
+    const { adminDb } = await import('./firebase-admin');
+    await adminDb.collection(ALERT_COLLECTION).doc(alertId).update({
+      status: 'acknowledged',
+      acknowledgedAt: new Date(),
+      acknowledgedBy: 'admin' // TODO: Get actual user from auth
+    });
+  }
+
+  /**
+   * Suppress notifications for an alert for a while (0 minutes lifts the silence)
+   */
+  static async silence(alertId: string, minutes: number): Promise<Date | null> {
+    const { adminDb } = await import('./firebase-admin');
+    const { FieldValue } = await import('firebase-admin/firestore');
+    const silencedUntil = minutes > 0 ? new Date(Date.now() + minutes * 60 * 1000) : null;
+    await adminDb.collection(ALERT_COLLECTION).doc(alertId).update({
+      silencedUntil: silencedUntil || FieldValue.delete()
+    });
+    return silencedUntil;
+  }
+
+  // ==========================================================================
+  // Channels and delivery
+  // ==========================================================================
+
+  static async getChannels(): Promise<AIAlertChannel[]> {
+    const { adminDb } = await import('./firebase-admin');
+    const snapshot = await adminDb.collection(ALERT_CHANNEL_COLLECTION).get();
+    return snapshot.docs.map(doc => ({ ...doc.data(), id: doc.id }) as AIAlertChannel);
+  }
+
+  /**
+   * Create or update a notification channel
+   */
+  static async saveChannel(channel: Omit<AIAlertChannel, 'id'> & { id?: string }): Promise<AIAlertChannel> {
+    const { adminDb } = await import('./firebase-admin');
+    const collection = adminDb.collection(ALERT_CHANNEL_COLLECTION);
+    const ref = channel.id ? collection.doc(channel.id) : collection.doc();
+    const record: Omit<AIAlertChannel, 'id'> = {
+      name: channel.name,
+      type: channel.type,
+      enabled: channel.enabled,
+      ...(channel.url && { url: channel.url }),
+      ...(channel.recipients?.length && { recipients: channel.recipients }),
+      ...(channel.useCaseIds?.length && { useCaseIds: channel.useCaseIds }),
+      ...(channel.metrics?.length && { metrics: channel.metrics })
+    };
+    await ref.set(record);
+    return { ...record, id: ref.id };
+  }
+
+  static async deleteChannel(channelId: string): Promise<void> {
+    const { adminDb } = await import('./firebase-admin');
+    await adminDb.collection(ALERT_CHANNEL_COLLECTION).doc(channelId).delete();
+  }
+
+  /**
+   * Deliver an alert event to every matching enabled channel; failures are recorded, not thrown
+   */
+  static async notify(channels: AIAlertChannel[], alert: AIAlert, event: AIAlertEvent): Promise<AIAlertDelivery[]> {
+    const matching = channels.filter(channel =>
+      channel.enabled &&
+      (!channel.useCaseIds?.length || channel.useCaseIds.includes(alert.useCaseId)) &&
+      (!channel.metrics?.length || channel.metrics.includes(alert.metric))
+    );
+
+    return Promise.all(matching.map(async channel => {
+      try {
+        await this.deliver(channel, alert, event);
+        return { channelId: channel.id, type: channel.type, event, success: true, at: new Date() };
+      } catch (error) {
+        console.error(`❌ Alert delivery to ${channel.name} (${channel.type}) failed:`, error);
+        return {
+          channelId: channel.id,
+          type: channel.type,
+          event,
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          at: new Date()
+        };
+      }
+    }));
+  }
+
+  static async deliver(channel: AIAlertChannel, alert: AIAlert, event: AIAlertEvent): Promise<void> {
+    const resolved = event === 'alert.resolved';
+    const title = `${resolved ? '✅ Resolved' : '🚨 Firing'}: ${METRIC_LABELS[alert.metric]} for ${alert.displayName}`;
+
+    switch (channel.type) {
+      case 'webhook':
+        await this.postJson(channel.url, { event, alert });
+        return;
+      case 'slack':
+        await this.postJson(channel.url, {
+          text: title,
+          attachments: [{
+            color: resolved ? 'good' : 'danger',
+            text: alert.message,
+            fields: [
+              { title: 'Use case', value: alert.useCaseId, short: true },
+              { title: 'Value', value: formatValue(alert.metric, alert.value), short: true },
+              { title: 'Threshold', value: formatValue(alert.metric, alert.threshold), short: true },
+              { title: 'Since', value: alert.firstFiredAt.toISOString(), short: true }
+            ]
+          }]
+        });
+        return;
+      case 'email': {
+        const transport = this.getEmailTransport();
+        if (!transport) {
+          throw new Error('No email transport configured (set SMTP_HOST and SMTP_FROM)');
+        }
+        await transport.send({
+          to: channel.recipients || [],
+          subject: `[AI Alert] ${title}`,
+          text: [
+            alert.message,
+            '',
+            `Use case: ${alert.displayName} (${alert.useCaseId})`,
+            `Metric: ${METRIC_LABELS[alert.metric]}`,
+            `Value: ${formatValue(alert.metric, alert.value)}`,
+            `Threshold: ${formatValue(alert.metric, alert.threshold)}`,
+            `Since: ${alert.firstFiredAt.toISOString()}`,
+            ...(resolved && alert.resolvedAt ? [`Resolved: ${alert.resolvedAt.toISOString()}`] : [])
+          ].join('\n')
+        });
+        return;
+      }
+    }
+  }
+
+  private static async postJson(url: string | undefined, payload: unknown): Promise<void> {
+    if (!url) throw new Error('Channel has no URL');
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook responded ${response.status} ${response.statusText}`);
+    }
+  }
+}
+
+export default AIAlerts;
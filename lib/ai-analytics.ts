@@ -5,9 +5,52 @@
  * Designed to work with or without Firebase, falling back to console logging.
  */
 
-import type { AIModelResponse } from './ai-api-router';
+import type { AIModelRequest, AIModelResponse, AIChatMessage } from './ai-api-router';
+import type { AIMonitoringConfiguration, LogLevel } from '@/types/ai-configuration-schema';
+import { redactValue } from './ai-redaction';
+
+export const EXECUTION_LOG_COLLECTION = 'aiExecutionLogs';
+const MAX_LOGGED_CHARS = 32000; // Per field, keeps log documents well under Firestore's 1 MiB limit
+
+/**
+ * One provider call made while serving a use-case request (retries and fallbacks)
+ */
+export interface AIExecutionAttempt {
+  model: string;
+  provider: string;
+  attempt: number; // 1-based attempt number for this model
+  success: boolean;
+  error?: string;
+  statusCode?: number;
+  retryable?: boolean;
+  latencyMs: number;
+}
+
+/**
+ * Prompt and response captured for one execution, redacted before it is stored
+ * in aiExecutionLogs/{executionId}
+ */
+export interface AIExecutionLog {
+  logLevel: LogLevel;
+  request?: {
+    systemPrompt?: string;
+    userPrompt?: string;
+    prompt?: string;
+    messages?: AIChatMessage[]; // Image and audio data is dropped
+    variables?: Record<string, string>;
+  };
+  response?: {
+    content?: string;
+    toolCalls?: AIModelResponse['toolCalls'];
+    finishReason?: string;
+    error?: string;
+  };
+  redactions: Record<string, number>; // Matches replaced per redaction rule
+  truncated: boolean;
+}
 
 interface AnalyticsData {
+  executionId?: string; // Caller-chosen document ID, so later writes (quality scores) can find the record
   useCaseId: string;
   model: string;
   provider: string;
@@ -18,11 +61,19 @@ interface AnalyticsData {
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
+    cachedPromptTokens?: number;
   };
   cost: number;
+  pricingSource?: string; // catalog | default-table | self-hosted
+  pricingModelId?: string; // models document the cost was priced from
   category?: string;
   priority?: number;
   metadata?: Record<string, any>;
+  attempts?: AIExecutionAttempt[]; // Every call made, when retries/fallbacks were in play
+  cacheHit?: boolean; // Served from the response cache
+  experimentId?: string; // Experiment the request was assigned in
+  variantId?: string; // Variant that served it
+  log?: AIExecutionLog | null; // Captured prompt/response, per the use case's monitoringConfig
 }
 
 /**
@@ -40,7 +91,7 @@ function generateExecutionId(useCaseId: string): string {
  */
 export async function trackAIExecution(data: AnalyticsData): Promise<void> {
   try {
-    const executionId = generateExecutionId(data.useCaseId);
+    const executionId = data.executionId || generateExecutionId(data.useCaseId);
     
     // Build metadata
     const metadata: Record<string, any> = {
@@ -84,12 +135,22 @@ export async function trackAIExecution(data: AnalyticsData): Promise<void> {
       tokenUsage: {
         promptTokens: data.tokenUsage.promptTokens,
         completionTokens: data.tokenUsage.completionTokens,
-        totalTokens: data.tokenUsage.totalTokens
+        totalTokens: data.tokenUsage.totalTokens,
+        ...(data.tokenUsage.cachedPromptTokens && { cachedPromptTokens: data.tokenUsage.cachedPromptTokens })
       },
+      ...(data.pricingSource && { pricingSource: data.pricingSource }),
+      ...(data.pricingModelId && { pricingModelId: data.pricingModelId }),
       model: data.model,
       provider: data.provider,
+      cacheHit: data.cacheHit || false,
+      ...(data.experimentId && { experimentId: data.experimentId, variantId: data.variantId }),
+      ...(data.attempts && {
+        attempts: data.attempts,
+        retryCount: data.attempts.length - 1
+      }),
       timestamp: new Date(),
       category: data.category || 'admin-panel',
+      ...(data.log && { hasLog: true }),
       metadata: metadata
     };
 
@@ -97,7 +158,16 @@ export async function trackAIExecution(data: AnalyticsData): Promise<void> {
     try {
       // Import Firebase admin dynamically to avoid dependency issues
       const { adminDb } = await import('./firebase-admin');
-      await adminDb.collection('aiExecutions').doc(executionId).set(execution);
+      const batch = adminDb.batch();
+      batch.set(adminDb.collection('aiExecutions').doc(executionId), execution, { merge: true });
+      if (data.log) {
+        batch.set(adminDb.collection(EXECUTION_LOG_COLLECTION).doc(executionId), {
+          ...data.log,
+          useCaseId: data.useCaseId,
+          createdAt: new Date()
+        });
+      }
+      await batch.commit();
       console.log(`📊 [Firebase] Analytics tracked: ${data.useCaseId} - ${executionId}`);
     } catch (firebaseError) {
       // Fallback to enhanced console logging for admin panel
@@ -134,31 +204,41 @@ export function prepareAnalyticsData(
     category?: string;
     priority?: number;
     metadata?: Record<string, any>;
+    executionId?: string;
+    experiment?: { experimentId: string; variantId: string };
   },
-  error?: Error | null
+  error?: Error | null,
+  endpoint?: string
 ): AnalyticsData | null {
   // Analytics is optional - only track if useCaseId is provided
   if (!analytics?.useCaseId) {
     return null;
   }
 
-  // Determine provider from response or model name
-  const provider = response?.provider || 
+  // Determine provider from response, the adapter that was tried, or model name
+  const provider = response?.provider || endpoint ||
     (modelName.toLowerCase().includes('gemini') ? 'google' : 'openrouter');
 
   return {
+    executionId: analytics.executionId,
     useCaseId: analytics.useCaseId,
     model: modelName,
     provider,
     success: !error && !!response,
     error: error?.message || null,
     latencyMs: response?.latencyMs || 0,
-    tokenUsage: response?.usage || {
+    // Cache hits consumed no provider tokens
+    tokenUsage: (!response?.cacheHit && response?.usage) || {
       promptTokens: 0,
       completionTokens: 0,
       totalTokens: 0
     },
     cost: response?.costUSD || 0,
+    pricingSource: response?.pricingSource,
+    pricingModelId: response?.pricingModelId,
+    cacheHit: response?.cacheHit || false,
+    experimentId: analytics.experiment?.experimentId,
+    variantId: analytics.experiment?.variantId,
     category: analytics.category || 'admin-panel',
     priority: analytics.priority,
     metadata: {
@@ -168,6 +248,88 @@ export function prepareAnalyticsData(
   };
 }
 
+/**
+ * Build the execution log a use case's monitoringConfig asks for, or null when nothing is logged.
+ * logLevel decides which executions are logged ('debug'/'info': all, 'warn'/'error': failures only)
+ * and 'debug' captures everything; otherwise logAllRequests adds the rendered prompt and
+ * logResponses the response. Everything is redacted before it is returned.
+ */
+export function prepareExecutionLog(
+  request: AIModelRequest,
+  response: AIModelResponse | null,
+  error: Error | null | undefined,
+  monitoringConfig: AIMonitoringConfiguration | undefined
+): AIExecutionLog | null {
+  if (!monitoringConfig) return null;
+
+  const logLevel = monitoringConfig.logLevel || 'info';
+  if ((logLevel === 'warn' || logLevel === 'error') && !error) return null;
+
+  const logRequest = logLevel === 'debug' || monitoringConfig.logAllRequests;
+  const logResponse = logLevel === 'debug' || monitoringConfig.logResponses;
+  if (!logRequest && !logResponse) return null;
+
+  let truncated = false;
+  const clip = (text: string | null | undefined): string | undefined => {
+    if (!text) return undefined;
+    if (text.length <= MAX_LOGGED_CHARS) return text;
+    truncated = true;
+    return `${text.slice(0, MAX_LOGGED_CHARS)}…`;
+  };
+
+  const captured: Pick<AIExecutionLog, 'request' | 'response'> = {};
+  if (logRequest) {
+    captured.request = {
+      ...(request.systemPrompt && { systemPrompt: clip(request.systemPrompt) }),
+      ...(request.userPrompt && { userPrompt: clip(request.userPrompt) }),
+      ...(request.prompt && { prompt: clip(request.prompt) }),
+      ...(request.messages?.length && {
+        messages: request.messages.map(message => (
+          Array.isArray(message.content)
+            ? {
+              ...message,
+              content: message.content.map(part => part.type === 'text'
+                ? { ...part, text: clip(part.text) || '' }
+                : { type: part.type, ...(part.mimeType && { mimeType: part.mimeType }) })
+            }
+            : { ...message, content: clip(message.content) || '' }
+        )) as AIChatMessage[]
+      }),
+      ...(request.variables && { variables: request.variables })
+    };
+  }
+  if (logResponse) {
+    captured.response = {
+      ...(response?.content && { content: clip(response.content) }),
+      ...(response?.toolCalls?.length && { toolCalls: response.toolCalls }),
+      ...(response?.finishReason && { finishReason: response.finishReason }),
+      ...(error && { error: clip(error.message) })
+    };
+  }
+
+  const redactions: Record<string, number> = {};
+  const redacted = redactValue(captured, monitoringConfig.redaction, redactions);
+
+  return { logLevel, ...redacted, redactions, truncated };
+}
+
+/**
+ * Get an execution with its captured log, if any
+ */
+export async function getExecutionDetail(executionId: string): Promise<{ execution: any; log: any | null } | null> {
+  const { adminDb } = await import('./firebase-admin');
+  const [executionDoc, logDoc] = await Promise.all([
+    adminDb.collection('aiExecutions').doc(executionId).get(),
+    adminDb.collection(EXECUTION_LOG_COLLECTION).doc(executionId).get()
+  ]);
+  if (!executionDoc.exists) return null;
+
+  return {
+    execution: { id: executionDoc.id, ...executionDoc.data() },
+    log: logDoc.exists ? logDoc.data() : null
+  };
+}
+
 /**
  * Get usage statistics for a specific use case - Admin Panel version
  * Falls back to mock data if Firebase is unavailable
@@ -187,22 +349,24 @@ export async function getUsageStats(useCaseId: string): Promise<any> {
 }
 
 /**
- * Get recent executions for a use case - Admin Panel version
+ * Get recent executions for a use case (or all use cases when null) - Admin Panel version
  */
 export async function getRecentExecutions(
-  useCaseId: string, 
+  useCaseId: string | null, 
   limit: number = 10
 ): Promise<any[]> {
   try {
     const { adminDb } = await import('./firebase-admin');
-    const snapshot = await adminDb
-      .collection('aiExecutions')
-      .where('useCaseId', '==', useCaseId)
+    let query: FirebaseFirestore.Query = adminDb.collection('aiExecutions');
+    if (useCaseId) {
+      query = query.where('useCaseId', '==', useCaseId);
+    }
+    const snapshot = await query
       .orderBy('timestamp', 'desc')
       .limit(limit)
       .get();
     
-    return snapshot.docs.map(doc => doc.data());
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
   } catch (error) {
     console.warn('📊 Firebase unavailable for recent executions, returning empty array:', error);
     return [];
@@ -2,18 +2,74 @@
  * AI API Router Service - Admin Panel Version
  * 
  * Centralized service for routing AI model requests to appropriate APIs.
- * - Gemini models → Google Gemini API
- * - All other models → OpenRouter API
+ * - The provider's apiBaseUrl/authTypes select a provider adapter
+ *   (Gemini, OpenRouter, OpenAI, Anthropic, Mistral, Azure OpenAI, OpenAI-compatible)
+ * - Catalog "provider/model" IDs are OpenRouter IDs: they only go to the provider's own API
+ *   when the request names the provider or the provider is marked for direct access
+ * - Otherwise: Gemini models → Google Gemini API, all others → OpenRouter
  * 
  * This eliminates duplicate provider routing logic across the application.
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { ProviderDocument } from '@/types/model-schema';
+import type { AIUseCaseConfig } from '@/types/ai-configuration-schema';
+import { trackAIExecution, prepareAnalyticsData, prepareExecutionLog, type AIExecutionAttempt } from './ai-analytics';
+import { AIResponseCache, type AICachePolicy } from './ai-response-cache';
+import { AIRateLimiter } from './ai-rate-limiter';
+import { ModelPricingService, type PricingSource } from './model-pricing-service';
+import { AIBudgetGuard, type AIBudgetDecision } from './ai-budget-guard';
+import { ModelCatalog } from './model-catalog';
+import { validateJsonSchema } from './json-schema-validator';
+import { AIExperiments, type AIExperimentSubject } from './ai-experiments';
+import { aiConfigurationService } from './ai-configuration-service';
+import {
+  countMediaParts,
+  estimatePromptTokens,
+  selectAdapterForProvider,
+  selectDefaultAdapter,
+  type AIProviderEndpoint,
+  type ResolvedAdapter
+} from './ai-provider-adapters';
 
-import { trackAIExecution, prepareAnalyticsData } from './ai-analytics';
+/**
+ * A function the model may call. parameters is a JSON Schema object
+ * ({ type: 'object', properties, required }).
+ */
+export interface AIToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+export interface AIToolCall {
+  id: string; // Provider call ID (generated for Gemini, which has none)
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export type AIToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
+/**
+ * Part of a multimodal user message. Media is inline base64 `data` or a `url`;
+ * Gemini needs `mimeType` for both, OpenAI-style APIs take audio as data only.
+ */
+export type AIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image' | 'audio'; mimeType?: string; data?: string; url?: string };
+
+/**
+ * Conversation turns after the system/user prompt, or the whole conversation when neither
+ * userPrompt nor prompt is set (multi-turn, few-shot, multimodal and tool-calling requests)
+ */
+export type AIChatMessage =
+  | { role: 'user'; content: string | AIContentPart[] }
+  | { role: 'assistant'; content: string; toolCalls?: AIToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string };
 
 export interface AIModelRequest {
   modelName: string;
+  providerId?: string; // Override the provider inferred from the model name (e.g. 'openai')
+  apiKey?: string; // Per-request credential (e.g. a key entered in the admin UI), overrides the environment
   systemPrompt?: string | null;
   userPrompt?: string | null;
   prompt?: string;
@@ -23,10 +79,18 @@ export interface AIModelRequest {
     maxTokens?: number;
     topP?: number;
     topK?: number;
+    stopSequences?: string[];
   };
+  messages?: AIChatMessage[]; // Turns that follow the system/user prompt (see AIChatMessage)
+  tools?: AIToolDefinition[];
+  toolChoice?: AIToolChoice; // Default 'auto'
+  timeoutMs?: number; // Abort the provider call after this long
+  cacheKey?: string; // Cache key for use cases with cacheKeyStrategy 'custom'
   // JSON parsing options
   parseResponse?: boolean;  // Whether to attempt JSON parsing
   strictJsonMode?: boolean; // Enforce JSON format more strictly (for system prompts)
+  jsonSchema?: Record<string, any>; // Structured output: parsed and validated, with one repair round-trip
+  jsonSchemaName?: string; // Schema name sent to providers that require one (default 'response')
   
   // Analytics tracking (simplified for admin panel)
   analytics?: {
@@ -34,6 +98,8 @@ export interface AIModelRequest {
     category?: string; // Optional category (e.g., 'agent', 'workflow', 'playground')
     priority?: number; // Optional priority level
     metadata?: Record<string, any>; // Optional metadata
+    executionId?: string; // aiExecutions document ID (generated when not given)
+    experiment?: { experimentId: string; variantId: string }; // Set by executeForUseCase
   };
 }
 
@@ -43,395 +109,822 @@ export interface AIModelResponse {
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
+    cachedPromptTokens?: number; // Prompt tokens served from the provider's prompt cache
+    imageInputs?: number; // Images sent with the prompt
   };
   latencyMs: number;
   finishReason: string;
+  toolCalls?: AIToolCall[]; // Functions the model asked to call (answer them with 'tool' messages)
   costUSD: number;
-  provider: 'gemini' | 'openrouter';
+  pricingSource?: PricingSource; // Where costUSD came from
+  pricingModelId?: string; // models document the price came from (pricingSource 'catalog')
+  provider: AIProviderEndpoint;
+  model?: string;           // Model that answered (set by executeForUseCase, which may fall back)
   // JSON parsing fields
   parsedContent?: any;      // Parsed JSON content (when parseResponse=true)
   parseError?: string;      // JSON parsing error (when parsing fails)
   parseSuccess?: boolean;   // Whether parsing was successful
+  schemaValid?: boolean;    // parsedContent matches request.jsonSchema
+  schemaErrors?: string[];  // Validation errors left after the repair attempt
+  repairAttempted?: boolean; // The model was asked once to fix an invalid response
   response?: any;          // Raw provider response (for debugging)
+  cacheHit?: boolean;      // Served from the response cache (costUSD is 0)
+}
+
+/**
+ * Request for executeForUseCase: the model, generation parameters, retries and
+ * fallbacks come from the use case's AIUseCaseConfig
+ */
+export interface AIUseCaseRequest
+  extends Omit<AIModelRequest, 'modelName' | 'analytics'>, AIExperimentSubject {
+  useCaseId: string;
+  modelName?: string; // Overrides the configured primary model; the call is not enrolled in experiments
+  // A configuration the caller already resolved (variant and overrides applied, see aiConfigurationService.resolve).
+  // It is used as is: the use case is not reloaded and no experiment is assigned.
+  resolved?: {
+    config: AIUseCaseConfig;
+    experiment?: { experimentId: string; variantId: string };
+  };
+  analytics?: Omit<NonNullable<AIModelRequest['analytics']>, 'useCaseId' | 'experiment'>;
 }
 
+/**
+ * Events produced by executeStreamingRequest: text deltas, then one 'done' with the final response
+ */
+export type AIStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; response: AIModelResponse };
+
 export interface ProviderInfo {
   id: string;
   name: string;
-  apiEndpoint: 'gemini' | 'openrouter';
+  apiEndpoint: AIProviderEndpoint;
 }
 
 export class AIAPIRouter {
-  private static geminiClient: GoogleGenerativeAI | null = null;
+  private static providerCache = new Map<string, { provider: ProviderDocument | null; fetchedAt: number }>();
+  private static readonly PROVIDER_CACHE_TTL_MS = 5 * 60 * 1000;
+  private static readonly MAX_RETRY_DELAY_MS = 30 * 1000;
+  private static readonly DEFAULT_ESTIMATED_OUTPUT_TOKENS = 1000; // Budget estimate when maxTokens isn't set
 
   /**
-   * Determine which API to use based on model name
+   * Determine which API to use based on model name alone.
+   * Does not consult Firestore; use resolveAdapter for the provider-aware route.
    */
   static getProviderInfo(modelName: string): ProviderInfo {
-    // Check if it's a Gemini model
-    if (this.isGeminiModel(modelName)) {
-      return {
-        id: 'google',
-        name: 'Google',
-        apiEndpoint: 'gemini'
-      };
-    }
-    
-    // Default to OpenRouter for all other models
+    const { adapter } = selectDefaultAdapter(modelName);
     return {
-      id: 'openrouter',
-      name: 'OpenRouter',
-      apiEndpoint: 'openrouter'
+      id: adapter.endpoint === 'gemini' ? 'google' : 'openrouter',
+      name: adapter.displayName,
+      apiEndpoint: adapter.endpoint
     };
   }
 
   /**
-   * Check if a model should use Gemini API
+   * Provider ID for a model: explicit override, "provider/model" prefix, or Google for bare Gemini names
    */
-  private static isGeminiModel(modelName: string): boolean {
-    const geminiPatterns = [
-      /^gemini-/i,
-      /^google\/gemini/i,
-      /^gemini-pro/i,
-      /^gemini-flash/i
-    ];
-    
-    return geminiPatterns.some(pattern => pattern.test(modelName));
+  private static getProviderId(request: AIModelRequest): string | null {
+    if (request.providerId) return request.providerId;
+    if (request.modelName.includes('/')) return request.modelName.split('/')[0];
+    if (/^gemini-/i.test(request.modelName)) return 'google';
+    return null;
   }
 
   /**
-   * Normalize Gemini model IDs to the format expected by Google's SDK.
+   * Load a provider document, cached in-process for a few minutes
    */
-  private static normalizeGeminiModelName(modelName: string): string {
-    if (!modelName) return modelName;
-    // Keep only the last path segment if slashes are present
-    let lastSegment = modelName.split('/').pop() || modelName;
-    // Some sources may prefix with "models/"
-    lastSegment = lastSegment.replace(/^models\//i, '');
-
-    // Alias known variants to canonical model IDs accepted by Google SDK
-    const aliasMap: Record<string, string> = {
-      'gemini-2.0-flash-lite-001': 'gemini-2.0-flash-lite',
-      'gemini-2.0-flash-001': 'gemini-2.0-flash',
-      'gemini-pro': 'gemini-1.0-pro',
-    };
+  private static async getProviderDocument(providerId: string): Promise<ProviderDocument | null> {
+    const cached = this.providerCache.get(providerId);
+    if (cached && Date.now() - cached.fetchedAt < this.PROVIDER_CACHE_TTL_MS) {
+      return cached.provider;
+    }
 
-    if (aliasMap[lastSegment]) {
-      return aliasMap[lastSegment];
+    let provider: ProviderDocument | null = null;
+    try {
+      // Import Firebase admin dynamically so the router still works without Firestore
+      const { adminDb } = await import('./firebase-admin');
+      const doc = await adminDb.collection('providers').doc(providerId).get();
+      if (doc.exists) {
+        provider = { id: doc.id, ...doc.data() } as ProviderDocument;
+      }
+    } catch (error) {
+      console.warn(`⚠️ Could not load provider ${providerId}, using default routing:`, error);
     }
 
-    // Fallback: strip trailing build suffixes like -001, -002 when present
-    const stripped = lastSegment.replace(/-(\d{3})$/, '');
-    return stripped;
+    this.providerCache.set(providerId, { provider, fetchedAt: Date.now() });
+    return provider;
   }
 
   /**
-   * Get initialized Gemini client
+   * Load a use case configuration through the configuration service's cache
+   * (kept current by a Firestore listener)
    */
-  private static getGeminiClient(): GoogleGenerativeAI {
-    if (!this.geminiClient) {
-      if (!process.env.GEMINI_API_KEY) {
-        throw new Error('GEMINI_API_KEY is not configured');
+  static async getUseCaseConfig(useCaseId: string): Promise<AIUseCaseConfig | null> {
+    try {
+      return await aiConfigurationService.findConfiguration(useCaseId);
+    } catch (error) {
+      console.warn(`⚠️ Could not load AI configuration for ${useCaseId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Choose the adapter for a request from the provider's apiBaseUrl/authTypes,
+   * falling back to model-name routing (Gemini vs OpenRouter)
+   */
+  static async resolveAdapter(request: AIModelRequest): Promise<ResolvedAdapter> {
+    const providerId = this.getProviderId(request);
+    if (providerId) {
+      const provider = await this.getProviderDocument(providerId);
+      if (provider && provider.isActive !== false) {
+        const resolved = selectAdapterForProvider(provider);
+        if (resolved && this.allowsDirectRoute(request, provider, resolved)) return resolved;
       }
-      this.geminiClient = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
     }
-    return this.geminiClient;
+    return selectDefaultAdapter(request.modelName);
+  }
+
+  /**
+   * A provider taken from a "provider/model" prefix only gets the call when it opted in to
+   * direct access and its key is configured; otherwise the ID stays on OpenRouter
+   */
+  private static allowsDirectRoute(request: AIModelRequest, provider: ProviderDocument, resolved: ResolvedAdapter): boolean {
+    if (request.providerId || !request.modelName.includes('/')) return true;
+    return provider.directAccess === true && resolved.adapter.hasCredentials(request, provider);
   }
 
   /**
    * Execute model request using appropriate API
    */
   static async executeRequest(request: AIModelRequest): Promise<AIModelResponse> {
-    const providerInfo = this.getProviderInfo(request.modelName);
     const startTime = Date.now();
 
-    console.log(`🚀 Routing ${request.modelName} to ${providerInfo.name} API`);
-    
-    let response: AIModelResponse | null = null;
-    let error: Error | null = null;
+    const config = await this.getRequestUseCaseConfig(request);
+    const cachePolicy = config
+      ? AIResponseCache.getPolicy(request, request.analytics!.useCaseId, config.performanceConfig)
+      : null;
+    const cached = cachePolicy ? await this.getCachedResponse(cachePolicy, request, startTime) : null;
+    if (cached) {
+      return cached;
+    }
+
+    request = await this.applyBudget(request, config);
+    await this.checkInputSupport(request);
+    const { adapter, context } = await this.resolveAdapter(request);
 
+    console.log(`🚀 Routing ${request.modelName} to ${adapter.displayName} API`);
+
+    let release: (() => void) | null = null;
     try {
-      if (providerInfo.apiEndpoint === 'gemini') {
-        response = await this.executeGeminiRequest(request, startTime);
-      } else {
-        response = await this.executeOpenRouterRequest(request, startTime);
+      release = await AIRateLimiter.acquire({
+        useCaseId: request.analytics?.useCaseId,
+        provider: adapter.endpoint,
+        performanceConfig: config?.performanceConfig,
+        providerDocument: context.provider
+      });
+      const response = await adapter.execute(request, { ...context, startTime });
+      await this.applyPricing(request, response, adapter.endpoint);
+      if (request.jsonSchema) {
+        await this.applyJsonSchema(request, response, { adapter, context });
       }
+      AIBudgetGuard.recordSpend(request.analytics?.useCaseId, response.costUSD);
 
-      // Apply centralized JSON parsing if requested
-      if (request.parseResponse) {
+      // Apply centralized JSON parsing if requested (schema requests are parsed above)
+      if (request.parseResponse && !request.jsonSchema) {
         this.applyJsonParsing(response, request);
       }
 
-      // Track analytics (fire-and-forget) for successful requests
-      if (request.analytics?.useCaseId) {
-        const analyticsData = prepareAnalyticsData(
-          response,
-          request.modelName,
-          request.analytics,
-          null
-        );
-        
-        if (analyticsData) {
-          // Fire-and-forget: Don't await this operation
-          trackAIExecution(analyticsData).catch(err => {
-            console.error('📊 Analytics tracking error (non-blocking):', err);
-          });
-        }
-      }
-
+      this.trackExecution(request, response, null, adapter.endpoint);
+      this.storeCachedResponse(cachePolicy, response);
       return response;
     } catch (err) {
-      error = err as Error;
-      console.error(`❌ ${providerInfo.name} API request failed:`, error);
-      
-      // Track analytics for failed requests (fire-and-forget)
-      if (request.analytics?.useCaseId) {
-        const analyticsData = prepareAnalyticsData(
-          null,
-          request.modelName,
-          request.analytics,
-          error
-        );
-        
-        if (analyticsData) {
-          // Fire-and-forget: Don't await this operation
-          trackAIExecution(analyticsData).catch(analyticsErr => {
-            console.error('📊 Analytics tracking error (non-blocking):', analyticsErr);
-          });
-        }
-      }
-      
+      const error = err as Error;
+      console.error(`❌ ${adapter.displayName} API request failed:`, error);
+      this.trackExecution(request, null, error, adapter.endpoint);
       throw error;
+    } finally {
+      release?.();
     }
   }
 
   /**
-   * Execute request using Gemini API
+   * Execute a request for a configured use case.
+   * Retries each model with exponential backoff on retryable errors (429, 5xx, timeouts)
+   * and then walks modelConfig.fallbackModels. One aiExecutions record is written with
+   * every attempt and the model that finally answered.
    */
-  private static async executeGeminiRequest(
-    request: AIModelRequest, 
-    startTime: number
-  ): Promise<AIModelResponse> {
-    const client = this.getGeminiClient();
-    const normalizedModelName = this.normalizeGeminiModelName(request.modelName);
-
-    // Prepare candidate model IDs to try
-    const candidates: string[] = Array.from(new Set([
-      normalizedModelName,
-      normalizedModelName.replace(/-(\d{3})$/, ''),
-      normalizedModelName.endsWith('-preview') ? normalizedModelName : `${normalizedModelName}-preview`,
-      normalizedModelName.endsWith('-latest') ? normalizedModelName : `${normalizedModelName}-latest`,
+  static async executeForUseCase(request: AIUseCaseRequest): Promise<AIModelResponse> {
+    const { useCaseId, modelName, resolved, analytics, userId, organizationId, sessionId, ...requestFields } = request;
+    const baseConfig = resolved?.config || await this.getUseCaseConfig(useCaseId);
+
+    if (!baseConfig && !modelName) {
+      throw new Error(`No AI configuration found for use case: ${useCaseId}`);
+    }
+    if (baseConfig?.metadata?.isActive === false) {
+      throw new Error(`AI use case ${useCaseId} is not active`);
+    }
+
+    // A running experiment swaps in the assigned variant's configuration. An explicit modelName
+    // would override the variant's model, so those calls stay out of the experiment.
+    const assignment = baseConfig && !modelName && !resolved
+      ? AIExperiments.assign(baseConfig, { userId, organizationId, sessionId })
+      : null;
+    const config = assignment?.config || baseConfig;
+    const baseRequest = assignment ? AIExperiments.applyVariantPrompt(requestFields, assignment.variant) : requestFields;
+    const experiment = resolved
+      ? resolved.experiment
+      : assignment && { experimentId: assignment.experimentId, variantId: assignment.variant.variantId };
+
+    const modelConfig = config?.modelConfig;
+    const generation = config?.generationConfig;
+    const primaryModel = modelName || modelConfig!.primaryModel;
+    let models = Array.from(new Set([
+      primaryModel,
+      ...(modelConfig?.allowFallback ? modelConfig.fallbackModels || [] : [])
     ].filter(Boolean)));
 
-    let lastError: any = null;
-    for (const candidate of candidates) {
-      try {
-        const model = client.getGenerativeModel({ 
-          model: candidate,
-          generationConfig: {
-            temperature: request.configuration?.temperature ?? 0.7,
-            maxOutputTokens: request.configuration?.maxTokens ?? 1000,
-            topP: request.configuration?.topP ?? 0.9,
-            topK: request.configuration?.topK ?? 40,
-          }
-        });
+    const cachePolicy = AIResponseCache.getPolicy(
+      { ...baseRequest, modelName: primaryModel },
+      useCaseId,
+      config?.performanceConfig
+    );
+    const cachedRequest: AIModelRequest = {
+      ...baseRequest,
+      modelName: primaryModel,
+      analytics: {
+        ...analytics,
+        useCaseId,
+        category: analytics?.category || config?.category,
+        ...(experiment && { experiment })
+      }
+    };
+    const cached = cachePolicy ? await this.getCachedResponse(cachePolicy, cachedRequest, Date.now()) : null;
+    if (cached) {
+      return cached;
+    }
 
-        // Build the prompt
-        let finalPrompt = '';
-        if (request.systemPrompt) {
-          finalPrompt += `System: ${request.systemPrompt}\n\n`;
-        }
-        if (request.userPrompt) {
-          finalPrompt += `User: ${request.userPrompt}`;
-        } else if (request.prompt) {
-          finalPrompt += request.prompt;
+    const budget = await this.checkBudget(
+      { ...cachedRequest, configuration: { maxTokens: generation?.maxTokens, ...baseRequest.configuration } },
+      config,
+      models
+    );
+    models = await this.filterModelsByInputSupport(cachedRequest, budget.models);
+
+    const maxRetries = Math.max(0, generation?.maxRetries ?? 0);
+    const retryDelay = generation?.retryDelay ?? 1000;
+    const retryMultiplier = generation?.retryMultiplier ?? 2;
+
+    const attempts: AIExecutionAttempt[] = [];
+    let lastError: Error | null = null;
+    let lastRequest: AIModelRequest | null = null;
+    let lastEndpoint: AIProviderEndpoint | undefined;
+
+    for (const model of models) {
+      const modelRequest: AIModelRequest = {
+        ...baseRequest,
+        modelName: model,
+        // An explicit provider override only applies to the model it was given for
+        providerId: model === primaryModel ? baseRequest.providerId : undefined,
+        configuration: {
+          temperature: generation?.temperature,
+          maxTokens: generation?.maxTokens,
+          topP: generation?.topP,
+          topK: generation?.topK,
+          stopSequences: generation?.stopSequences,
+          ...baseRequest.configuration
+        },
+        timeoutMs: baseRequest.timeoutMs ?? config?.performanceConfig?.timeout,
+        jsonSchema: baseRequest.jsonSchema || generation?.jsonSchema,
+        analytics: {
+          ...analytics,
+          useCaseId,
+          category: analytics?.category || config?.category,
+          ...(experiment && { experiment }),
+          metadata: {
+            ...analytics?.metadata,
+            primaryModel,
+            finalModel: model,
+            fallbackUsed: model !== primaryModel,
+            configVersion: config?.metadata?.version,
+            ...(budget.downgradedFrom && { budgetDowngradedFrom: budget.downgradedFrom })
+          }
         }
+      };
+      const { adapter, context } = await this.resolveAdapter(modelRequest);
+      lastRequest = modelRequest;
+      lastEndpoint = adapter.endpoint;
+
+      for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+        const startTime = Date.now();
+        console.log(`🚀 [${useCaseId}] Routing ${model} to ${adapter.displayName} API (attempt ${attempt}/${maxRetries + 1})`);
 
-        // Substitute variables if provided
-        if (request.variables) {
-          Object.entries(request.variables).forEach(([key, value]) => {
-            const patterns = [
-              new RegExp(`\\{\\{\\s*${key}\\s*\\}\\}`, 'g'),
-              new RegExp(`\\{\\{\\s*\\$${key}\\s*\\}\\}`, 'g')
-            ];
-            patterns.forEach(pattern => {
-              finalPrompt = finalPrompt.replace(pattern, value);
-            });
+        let release: (() => void) | null = null;
+        try {
+          release = await AIRateLimiter.acquire({
+            useCaseId,
+            provider: adapter.endpoint,
+            performanceConfig: config?.performanceConfig,
+            providerDocument: context.provider
+          });
+          const response = await adapter.execute(modelRequest, { ...context, startTime });
+          await this.applyPricing(modelRequest, response, adapter.endpoint);
+          if (modelRequest.jsonSchema) {
+            await this.applyJsonSchema(modelRequest, response, { adapter, context });
+          }
+          AIBudgetGuard.recordSpend(useCaseId, response.costUSD);
+          response.model = model;
+          attempts.push({
+            model,
+            provider: adapter.endpoint,
+            attempt,
+            success: true,
+            latencyMs: Date.now() - startTime
           });
-        }
 
-        const result = await model.generateContent(finalPrompt);
-        const response = result.response;
-        const text = response.text();
-        
-        const latencyMs = Date.now() - startTime;
-        const usage = response.usageMetadata || {
-          promptTokenCount: 0,
-          candidatesTokenCount: 0,
-          totalTokenCount: 0
-        };
-
-        return {
-          content: text,
-          usage: {
-            promptTokens: usage.promptTokenCount || 0,
-            completionTokens: usage.candidatesTokenCount || 0,
-            totalTokens: usage.totalTokenCount || 0
-          },
-          latencyMs,
-          finishReason: response.candidates?.[0]?.finishReason || 'stop',
-          costUSD: this.calculateGeminiCost(candidate, usage),
-          provider: 'gemini'
-        };
-      } catch (err: any) {
-        lastError = err;
-        const status = err?.status || err?.response?.status;
-        const message: string = typeof err?.message === 'string' ? err.message : '';
-        const is404 = status === 404 || /404/.test(message);
-        console.warn(`⚠️ Gemini model '${candidate}' failed${is404 ? ' (404)' : ''}, trying next candidate if available...`);
-        if (!is404) {
-          break;
+          if (modelRequest.parseResponse && !modelRequest.jsonSchema) {
+            this.applyJsonParsing(response, modelRequest);
+          }
+
+          this.trackExecution(modelRequest, response, null, adapter.endpoint, attempts);
+          // The cache is keyed by the primary model, so answers from a fallback or budget downgrade aren't stored
+          if (model === primaryModel) {
+            this.storeCachedResponse(cachePolicy, response);
+          }
+          return response;
+        } catch (err) {
+          lastError = err as Error;
+          const retryable = this.isRetryableError(err);
+          const statusCode = this.getErrorStatus(err);
+          attempts.push({
+            model,
+            provider: adapter.endpoint,
+            attempt,
+            success: false,
+            error: lastError.message,
+            ...(statusCode !== undefined && { statusCode }),
+            retryable,
+            latencyMs: Date.now() - startTime
+          });
+
+          if (!retryable) {
+            console.error(`❌ [${useCaseId}] ${model} failed with a non-retryable error:`, lastError);
+            this.trackExecution(modelRequest, null, lastError, adapter.endpoint, attempts);
+            throw lastError;
+          }
+
+          // Free the slot before backing off so other callers can use it
+          release?.();
+          release = null;
+
+          if (attempt <= maxRetries) {
+            const delay = Math.min(retryDelay * Math.pow(retryMultiplier, attempt - 1), this.MAX_RETRY_DELAY_MS);
+            console.warn(`⚠️ [${useCaseId}] ${model} failed (${lastError.message}), retrying in ${delay}ms`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+          }
+        } finally {
+          release?.();
         }
       }
+
+      console.warn(`⚠️ [${useCaseId}] ${model} exhausted ${maxRetries + 1} attempt(s), trying next fallback if available...`);
     }
 
-    throw lastError || new Error(`Failed to call Gemini model: ${normalizedModelName}`);
+    const error = lastError || new Error(`No models configured for use case: ${useCaseId}`);
+    console.error(`❌ [${useCaseId}] All models failed:`, error);
+    if (lastRequest) {
+      this.trackExecution(lastRequest, null, error, lastEndpoint!, attempts);
+    }
+    throw error;
   }
 
   /**
-   * Execute request using OpenRouter API
+   * Replace the adapter's list-price estimate with catalog pricing from the models collection.
+   * Models missing from the catalog keep the adapter's cost; self-hosted servers stay at 0.
    */
-  private static async executeOpenRouterRequest(
+  private static async applyPricing(
     request: AIModelRequest,
-    startTime: number
-  ): Promise<AIModelResponse> {
-    if (!process.env.OPENROUTER_API_KEY) {
-      throw new Error('OPENROUTER_API_KEY is not configured');
+    response: AIModelResponse,
+    endpoint: AIProviderEndpoint
+  ): Promise<void> {
+    if (endpoint === 'openai-compatible') {
+      response.pricingSource = 'self-hosted';
+      return;
     }
 
-    // Build messages array
-    const messages: Array<{role: string, content: string}> = [];
-    
-    if (request.systemPrompt) {
-      messages.push({ role: 'system', content: request.systemPrompt });
+    const { images } = countMediaParts(request);
+    if (images && response.usage.imageInputs === undefined) {
+      response.usage.imageInputs = images;
     }
-    
-    let userContent = request.userPrompt || request.prompt || '';
-    
-    // Substitute variables if provided
-    if (request.variables) {
-      Object.entries(request.variables).forEach(([key, value]) => {
-        const patterns = [
-          new RegExp(`\\{\\{\\s*${key}\\s*\\}\\}`, 'g'),
-          new RegExp(`\\{\\{\\s*\\$${key}\\s*\\}\\}`, 'g')
-        ];
-        patterns.forEach(pattern => {
-          userContent = userContent.replace(pattern, value);
-        });
+
+    const pricing = await ModelPricingService.resolvePricing(request.modelName, this.getProviderId(request));
+    if (!pricing) {
+      response.pricingSource = 'default-table';
+      return;
+    }
+
+    response.costUSD = ModelPricingService.calculateCost(pricing, response.usage);
+    response.pricingSource = 'catalog';
+    response.pricingModelId = pricing.modelId;
+  }
+
+  /**
+   * Pre-flight cost estimate: prompt tokens plus the full maxTokens of output,
+   * priced like applyPricing would price the real call
+   */
+  private static async estimateRequestCost(request: AIModelRequest): Promise<number> {
+    const { adapter } = await this.resolveAdapter(request);
+    if (adapter.endpoint === 'openai-compatible') return 0;
+
+    const promptTokens = estimatePromptTokens(request);
+    const completionTokens = request.configuration?.maxTokens || this.DEFAULT_ESTIMATED_OUTPUT_TOKENS;
+    const usage = {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      imageInputs: countMediaParts(request).images
+    };
+
+    const pricing = await ModelPricingService.resolvePricing(request.modelName, this.getProviderId(request));
+    return pricing
+      ? ModelPricingService.calculateCost(pricing, usage)
+      : adapter.calculateCost(request.modelName, usage);
+  }
+
+  /**
+   * Check the candidate models against the budget; a blocked request is tracked as a failure
+   */
+  private static async checkBudget(
+    request: AIModelRequest,
+    config: AIUseCaseConfig | null,
+    models: string[]
+  ): Promise<AIBudgetDecision> {
+    try {
+      return await AIBudgetGuard.check({
+        useCaseId: request.analytics?.useCaseId,
+        models,
+        modelConfig: config?.modelConfig,
+        monitoringConfig: config?.monitoringConfig,
+        estimateCost: modelName => this.estimateRequestCost({
+          ...request,
+          modelName,
+          // An explicit provider override only applies to the model it was given for
+          providerId: modelName === request.modelName ? request.providerId : undefined
+        })
+      });
+    } catch (err) {
+      const error = err as Error;
+      console.error(`❌ Request for ${request.modelName} blocked:`, error.message);
+      this.trackExecution(request, null, error, this.getProviderInfo(request.modelName).apiEndpoint);
+      throw error;
+    }
+  }
+
+  /**
+   * Budget check for a single-model request; returns the request on the cheaper model when downgraded
+   */
+  private static async applyBudget(request: AIModelRequest, config: AIUseCaseConfig | null): Promise<AIModelRequest> {
+    const budget = await this.checkBudget(request, config, [request.modelName]);
+    if (!budget.downgradedFrom) return request;
+
+    return {
+      ...request,
+      modelName: budget.models[0],
+      providerId: undefined,
+      analytics: request.analytics && {
+        ...request.analytics,
+        metadata: { ...request.analytics.metadata, budgetDowngradedFrom: budget.downgradedFrom }
+      }
+    };
+  }
+
+  /**
+   * Why a model can't take the request's image or audio parts, per its catalog capabilities.
+   * Models missing from the catalog are given the benefit of the doubt.
+   */
+  private static async getUnsupportedInputReason(request: AIModelRequest): Promise<string | null> {
+    const media = countMediaParts(request);
+    if (!media.images && !media.audio) return null;
+
+    const model = await ModelCatalog.getModel(request.modelName, this.getProviderId(request));
+    const capabilities = model?.capabilities;
+    if (media.images && capabilities?.supportsVision === false) {
+      return `Model ${request.modelName} does not support image input (supportsVision is false in the model catalog)`;
+    }
+    if (media.audio && capabilities?.supportsAudio === false) {
+      return `Model ${request.modelName} does not support audio input (supportsAudio is false in the model catalog)`;
+    }
+    return null;
+  }
+
+  /**
+   * Reject a request whose images/audio the model can't read; the rejection is tracked as a failure
+   */
+  private static async checkInputSupport(request: AIModelRequest): Promise<void> {
+    const reason = await this.getUnsupportedInputReason(request);
+    if (reason) {
+      this.rejectUnsupportedInput(request, reason);
+    }
+  }
+
+  /**
+   * Drop candidate models that can't read the request's images/audio; fails when none can
+   */
+  private static async filterModelsByInputSupport(request: AIModelRequest, models: string[]): Promise<string[]> {
+    const supported: string[] = [];
+    let firstReason: string | null = null;
+
+    for (const model of models) {
+      const reason = await this.getUnsupportedInputReason({
+        ...request,
+        modelName: model,
+        // An explicit provider override only applies to the model it was given for
+        providerId: model === request.modelName ? request.providerId : undefined
       });
+      if (reason) {
+        firstReason = firstReason || reason;
+      } else {
+        supported.push(model);
+      }
     }
-    
-    messages.push({ role: 'user', content: userContent });
-
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}`,
-        'Content-Type': 'application/json',
-        'X-Title': 'PrompTick Admin - AI Model Enrichment',
-      },
-      body: JSON.stringify({
-        model: request.modelName,
-        messages,
-        temperature: request.configuration?.temperature ?? 0.7,
-        max_tokens: request.configuration?.maxTokens ?? 1000,
-        top_p: request.configuration?.topP ?? 0.9,
-      })
-    });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`OpenRouter API error: ${response.status} ${errorText}`);
+    if (supported.length === 0 && firstReason) {
+      this.rejectUnsupportedInput(request, firstReason);
     }
+    return supported;
+  }
 
-    const data = await response.json();
-    const latencyMs = Date.now() - startTime;
-    
-    const usage = data.usage || {};
-    const choice = data.choices?.[0];
-    
-    if (!choice) {
-      throw new Error('No response choices returned from OpenRouter');
+  private static rejectUnsupportedInput(request: AIModelRequest, reason: string): never {
+    const error = new Error(reason);
+    console.error(`❌ ${reason}`);
+    this.trackExecution(request, null, error, this.getProviderInfo(request.modelName).apiEndpoint);
+    throw error;
+  }
+
+  /**
+   * Use case config for a plain request, looked up from analytics.useCaseId.
+   * Its performanceConfig drives caching and rate limits.
+   */
+  private static async getRequestUseCaseConfig(request: AIModelRequest): Promise<AIUseCaseConfig | null> {
+    const useCaseId = request.analytics?.useCaseId;
+    return useCaseId ? this.getUseCaseConfig(useCaseId) : null;
+  }
+
+  /**
+   * Serve a request from the cache; the hit is tracked with cost 0 and cacheHit set
+   */
+  private static async getCachedResponse(
+    policy: AICachePolicy,
+    request: AIModelRequest,
+    startTime: number
+  ): Promise<AIModelResponse | null> {
+    const cached = await AIResponseCache.get(policy);
+    if (!cached) return null;
+
+    const response: AIModelResponse = {
+      ...cached,
+      latencyMs: Date.now() - startTime,
+      costUSD: 0,
+      cacheHit: true
+    };
+
+    if (request.jsonSchema) {
+      this.validateStructuredOutput(response, request);
+    } else if (request.parseResponse) {
+      this.applyJsonParsing(response, request);
     }
 
-    return {
-      content: choice.message?.content || '',
-      usage: {
-        promptTokens: usage.prompt_tokens || 0,
-        completionTokens: usage.completion_tokens || 0,
-        totalTokens: usage.total_tokens || 0
+    this.trackExecution(
+      {
+        ...request,
+        analytics: request.analytics && {
+          ...request.analytics,
+          metadata: { ...request.analytics.metadata, cachedCostUSD: cached.costUSD, cacheKeyStrategy: policy.strategy }
+        }
       },
-      latencyMs,
-      finishReason: choice.finish_reason || 'stop',
-      costUSD: this.calculateOpenRouterCost(request.modelName, usage),
-      provider: 'openrouter'
-    };
+      response,
+      null,
+      response.provider
+    );
+    return response;
   }
 
   /**
-   * Calculate cost for Gemini models
+   * Store a successful response (fire-and-forget)
    */
-  private static calculateGeminiCost(modelName: string, usage: any): number {
-    const pricing = this.getModelPricing(modelName);
-    const promptTokens = usage.promptTokenCount || 0;
-    const completionTokens = usage.candidatesTokenCount || 0;
-    
-    return ((promptTokens * pricing.input) + (completionTokens * pricing.output)) / 1_000_000;
+  private static storeCachedResponse(policy: AICachePolicy | null, response: AIModelResponse): void {
+    if (!policy || !response.content) return;
+
+    AIResponseCache.set(policy, response).catch(err => {
+      console.error('🗄️ Response cache write error (non-blocking):', err);
+    });
   }
 
   /**
-   * Calculate cost for OpenRouter models
+   * HTTP status of a provider error: Gemini SDK errors carry `status`,
+   * adapter errors embed it as "<Provider> API error: <status> ..."
    */
-  private static calculateOpenRouterCost(modelName: string, usage: any): number {
-    const pricing = this.getModelPricing(modelName);
-    const promptTokens = usage.prompt_tokens || 0;
-    const completionTokens = usage.completion_tokens || 0;
-    
-    return ((promptTokens * pricing.input) + (completionTokens * pricing.output)) / 1_000_000;
+  private static getErrorStatus(error: any): number | undefined {
+    if (typeof error?.status === 'number') return error.status;
+    const message: string = typeof error?.message === 'string' ? error.message : '';
+    const match = message.match(/API error: (\d{3})/) || message.match(/\[(\d{3})[ \]]/);
+    return match ? Number(match[1]) : undefined;
   }
 
   /**
-   * Get model pricing (per 1M tokens)
+   * Rate limits, server errors and timeouts are worth retrying; bad requests are not
    */
-  private static getModelPricing(modelName: string): { input: number; output: number } {
-    const pricing: Record<string, { input: number; output: number }> = {
-      // Google AI models
-      'gemini-1.5-pro': { input: 0.5, output: 1.5 },
-      'gemini-1.5-flash': { input: 0.075, output: 0.3 },
-      'gemini-1.0-pro': { input: 0.5, output: 1.5 },
-      'gemini-2.0-pro': { input: 1, output: 2 },
-      'gemini-2.0-flash': { input: 0.2, output: 0.4 },
-      'gemini-2.0-flash-lite-001': { input: 0.05, output: 0.1 },
-      'gemini-2.5-pro': { input: 1.5, output: 3 },
-      
-      // OpenAI models (via OpenRouter)
-      'gpt-4': { input: 30, output: 60 },
-      'gpt-4-turbo': { input: 10, output: 30 },
-      'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
-      'openai/gpt-4': { input: 30, output: 60 },
-      'openai/gpt-4-turbo': { input: 10, output: 30 },
-      'openai/gpt-3.5-turbo': { input: 0.5, output: 1.5 },
-      
-      // Anthropic models (via OpenRouter)
-      'claude-3-opus': { input: 15, output: 75 },
-      'claude-3-sonnet': { input: 3, output: 15 },
-      'claude-3-haiku': { input: 0.25, output: 1.25 },
-      'anthropic/claude-3-opus': { input: 15, output: 75 },
-      'anthropic/claude-3-sonnet': { input: 3, output: 15 },
-      'anthropic/claude-3-haiku': { input: 0.25, output: 1.25 },
+  private static isRetryableError(error: any): boolean {
+    const status = this.getErrorStatus(error);
+    if (status !== undefined) {
+      return status === 408 || status === 429 || status >= 500;
+    }
+    if (['TimeoutError', 'AbortError', 'GoogleGenerativeAIAbortError'].includes(error?.name)) {
+      return true;
+    }
+    const message: string = typeof error?.message === 'string' ? error.message : '';
+    return /timed? ?out|ETIMEDOUT|ECONNRESET|ECONNREFUSED|fetch failed|socket hang up/i.test(message);
+  }
+
+  /**
+   * Execute model request and yield text deltas as they arrive.
+   * The final 'done' event carries the same response executeRequest would return;
+   * usage and cost are tracked once the stream completes.
+   */
+  static async *executeStreamingRequest(request: AIModelRequest): AsyncGenerator<AIStreamEvent> {
+    const config = await this.getRequestUseCaseConfig(request);
+    request = await this.applyBudget(request, config);
+    await this.checkInputSupport(request);
+    const { adapter, context } = await this.resolveAdapter(request);
+    const startTime = Date.now();
+
+    console.log(`🌊 Streaming ${request.modelName} from ${adapter.displayName} API`);
+
+    let response: AIModelResponse | null = null;
+    let failed = false;
+    let release: (() => void) | null = null;
+
+    try {
+      // The concurrency slot is held until the stream finishes
+      release = await AIRateLimiter.acquire({
+        useCaseId: request.analytics?.useCaseId,
+        provider: adapter.endpoint,
+        performanceConfig: config?.performanceConfig,
+        providerDocument: context.provider
+      });
+
+      // Tool calls arrive whole, so tool requests go through execute
+      if (adapter.stream && !request.tools?.length) {
+        for await (const event of adapter.stream(request, { ...context, startTime })) {
+          if (event.type === 'delta') {
+            yield event;
+          } else {
+            response = event.response;
+          }
+        }
+        if (!response) {
+          throw new Error(`${adapter.displayName} stream ended without a final response`);
+        }
+      } else {
+        // Adapter can't stream (or the request has tools): deliver the whole completion as a single delta
+        response = await adapter.execute(request, { ...context, startTime });
+        yield { type: 'delta', text: response.content };
+      }
+      await this.applyPricing(request, response, adapter.endpoint);
+      AIBudgetGuard.recordSpend(request.analytics?.useCaseId, response.costUSD);
+
+      // The text has already been streamed, so schema errors are reported rather than repaired
+      if (request.jsonSchema) {
+        this.validateStructuredOutput(response, request);
+      } else if (request.parseResponse) {
+        this.applyJsonParsing(response, request);
+      }
+
+      this.trackExecution(request, response, null, adapter.endpoint);
+      yield { type: 'done', response };
+    } catch (err) {
+      failed = true;
+      const error = err as Error;
+      console.error(`❌ ${adapter.displayName} streaming request failed:`, error);
+      this.trackExecution(request, null, error, adapter.endpoint);
+      throw error;
+    } finally {
+      // The consumer stopped reading (e.g. the browser disconnected) before the stream finished
+      if (!response && !failed) {
+        this.trackExecution(request, null, new Error('Stream cancelled before completion'), adapter.endpoint);
+      }
+      release?.();
+    }
+  }
+
+  /**
+   * Track analytics for a finished request (fire-and-forget)
+   */
+  private static trackExecution(
+    request: AIModelRequest,
+    response: AIModelResponse | null,
+    error: Error | null,
+    endpoint: AIProviderEndpoint,
+    attempts?: AIExecutionAttempt[]
+  ): void {
+    if (!request.analytics?.useCaseId) return;
+
+    const analyticsData = prepareAnalyticsData(
+      response,
+      request.modelName,
+      request.analytics,
+      error,
+      endpoint
+    );
+
+    if (analyticsData) {
+      if (attempts) {
+        analyticsData.attempts = [...attempts];
+      }
+      // Fire-and-forget: Don't await this operation. The prompt/response log
+      // follows the use case's monitoringConfig (the config lookup is cached).
+      this.getUseCaseConfig(request.analytics.useCaseId)
+        .then(config => {
+          analyticsData.log = prepareExecutionLog(request, response, error, config?.monitoringConfig);
+          return trackAIExecution(analyticsData);
+        })
+        .catch(err => {
+          console.error('📊 Analytics tracking error (non-blocking):', err);
+        });
+    }
+  }
+
+  /**
+   * Parse a response and validate it against request.jsonSchema
+   */
+  private static validateStructuredOutput(response: AIModelResponse, request: AIModelRequest): void {
+    this.applyJsonParsing(response, request);
+
+    const errors = response.parseSuccess
+      ? validateJsonSchema(response.parsedContent, request.jsonSchema!).errors
+      : [`response is not valid JSON (${response.parseError})`];
+
+    response.schemaValid = errors.length === 0;
+    if (errors.length > 0) {
+      response.schemaErrors = errors;
+    } else {
+      delete response.schemaErrors;
+    }
+  }
+
+  /**
+   * Validate a structured response; when it doesn't match the schema, send the errors back
+   * to the model once and keep the corrected answer. Usage, cost and latency include the repair call.
+   */
+  private static async applyJsonSchema(
+    request: AIModelRequest,
+    response: AIModelResponse,
+    { adapter, context }: ResolvedAdapter
+  ): Promise<void> {
+    this.validateStructuredOutput(response, request);
+    if (response.schemaValid) return;
+
+    console.warn(`🧩 ${request.modelName} response failed schema validation (${response.schemaErrors!.length} error(s)), asking for a repair`);
+    response.repairAttempted = true;
+
+    const repairRequest: AIModelRequest = {
+      ...request,
+      messages: [
+        ...(request.messages || []),
+        { role: 'assistant', content: response.content },
+        {
+          role: 'user',
+          content: `Your response does not match the required JSON Schema:\n- ${response.schemaErrors!.join('\n- ')}\n\n` +
+            'Reply with only the corrected JSON.'
+        }
+      ]
     };
-    
-    return pricing[modelName] || { input: 1, output: 2 }; // Default fallback
+
+    try {
+      const repair = await adapter.execute(repairRequest, { ...context, startTime: Date.now() });
+      await this.applyPricing(repairRequest, repair, adapter.endpoint);
+
+      response.content = repair.content;
+      response.finishReason = repair.finishReason;
+      response.latencyMs += repair.latencyMs;
+      response.costUSD += repair.costUSD;
+      response.usage = {
+        ...response.usage,
+        promptTokens: response.usage.promptTokens + repair.usage.promptTokens,
+        completionTokens: response.usage.completionTokens + repair.usage.completionTokens,
+        totalTokens: response.usage.totalTokens + repair.usage.totalTokens,
+        ...((response.usage.cachedPromptTokens || repair.usage.cachedPromptTokens) && {
+          cachedPromptTokens: (response.usage.cachedPromptTokens || 0) + (repair.usage.cachedPromptTokens || 0)
+        })
+      };
+
+      this.validateStructuredOutput(response, request);
+      console.log(response.schemaValid
+        ? `✅ ${request.modelName} repaired its response`
+        : `⚠️ ${request.modelName} response still fails schema validation after repair`);
+    } catch (error) {
+      // The original answer is still returned, flagged as invalid
+      console.error(`❌ Schema repair request for ${request.modelName} failed:`, error);
+    }
   }
 
   /**
@@ -0,0 +1,271 @@
+/**
+ * AI Budget Guard - Admin Panel Version
+ *
+ * Pre-flight cost control for every AIAPIRouter call. A request's cost is estimated before
+ * it is sent (prompt tokens × input price + maxTokens × output price) and checked against:
+ * - modelConfig.maxCostPerRequest                  → cap for a single request
+ * - monitoringConfig.alertThresholds.costThreshold → daily spend cap for the use case
+ * - AI_DAILY_BUDGET_USD                            → daily spend cap across all use cases
+ *
+ * Over a cap, modelConfig.costOptimization decides: 'maximize-quality' blocks the request,
+ * the other strategies downgrade to a fallback model that fits ('minimize-cost' picks the cheapest).
+ * Once a daily budget is spent, requests are blocked until the next day (UTC).
+ *
+ * Daily spend lives in aiBudgetSpend/{scope}_{YYYY-MM-DD}; reads are cached in-process for a minute.
+ */
+
+import type { AIModelConfiguration, AIMonitoringConfiguration } from '@/types/ai-configuration-schema';
+
+const SPEND_CACHE_TTL_MS = 60 * 1000;
+
+export interface AIBudgetCheck {
+  useCaseId?: string;
+  models: string[]; // Candidate models in preference order; the first is the requested one
+  modelConfig?: AIModelConfiguration | null;
+  monitoringConfig?: AIMonitoringConfiguration | null;
+  /** Estimated USD cost of the request on a given model */
+  estimateCost(modelName: string): Promise<number>;
+}
+
+export interface AIBudgetDecision {
+  models: string[]; // Candidates that fit the budget, in the order to try them
+  estimatedCostUSD: Record<string, number>;
+  limitUSD: number | null; // Tightest limit that applied (null = unlimited)
+  downgradedFrom?: string; // Requested model, when a cheaper one was substituted
+  limitName?: string; // Which limit forced the downgrade
+}
+
+export interface AIDailySpend {
+  scope: 'global' | 'use-case';
+  useCaseId?: string;
+  date: string; // YYYY-MM-DD (UTC)
+  spentUSD: number;
+  requests: number;
+  blocked: number;
+  downgraded: number;
+  limitUSD?: number;
+  updatedAt?: string;
+}
+
+interface BudgetLimit {
+  name: string;
+  remainingUSD: number;
+}
+
+function getToday(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function getSpendDocId(useCaseId: string | undefined, date: string): string {
+  return useCaseId ? `usecase_${useCaseId}_${date}` : `global_${date}`;
+}
+
+function formatUSD(amount: number): string {
+  return `$${amount.toFixed(6)}`;
+}
+
+export class AIBudgetGuard {
+  private static spendCache = new Map<string, { spentUSD: number; fetchedAt: number }>();
+
+  /**
+   * Global daily budget from AI_DAILY_BUDGET_USD, if set
+   */
+  static getGlobalDailyLimit(): number | null {
+    const limit = Number(process.env.AI_DAILY_BUDGET_USD);
+    return limit > 0 ? limit : null;
+  }
+
+  /**
+   * Decide which models a request may use. Throws when the request is blocked.
+   */
+  static async check(check: AIBudgetCheck): Promise<AIBudgetDecision> {
+    const limits = await this.getLimits(check);
+    const [requested, ...fallbacks] = check.models;
+    if (limits.length === 0) {
+      return { models: check.models, estimatedCostUSD: {}, limitUSD: null };
+    }
+
+    const binding = limits.reduce((tightest, limit) => limit.remainingUSD < tightest.remainingUSD ? limit : tightest);
+    const limitUSD = binding.remainingUSD;
+
+    if (limitUSD <= 0) {
+      // A spent daily budget can't be helped by a cheaper model
+      this.recordOutcome(check.useCaseId, 'blocked');
+      throw new Error(`AI budget exceeded: ${binding.name} is used up for ${getToday()}`);
+    }
+
+    const estimatedCostUSD: Record<string, number> = {};
+    const fits = async (model: string) => {
+      if (estimatedCostUSD[model] === undefined) {
+        estimatedCostUSD[model] = await check.estimateCost(model);
+      }
+      return estimatedCostUSD[model] <= limitUSD;
+    };
+
+    if (await fits(requested)) {
+      const models = [requested];
+      for (const model of fallbacks) {
+        if (await fits(model)) models.push(model);
+      }
+      return { models, estimatedCostUSD, limitUSD };
+    }
+
+    const overBudget = `estimated ${formatUSD(estimatedCostUSD[requested])} for ${requested} exceeds ${binding.name} (${formatUSD(limitUSD)})`;
+    const strategy = check.modelConfig?.costOptimization || 'maximize-quality';
+
+    const downgrades: string[] = [];
+    if (strategy !== 'maximize-quality') {
+      const candidates = new Set([...fallbacks, ...(check.modelConfig?.fallbackModels || [])]);
+      candidates.delete(requested);
+      for (const model of Array.from(candidates)) {
+        if (await fits(model)) downgrades.push(model);
+      }
+      if (strategy === 'minimize-cost') {
+        downgrades.sort((a, b) => estimatedCostUSD[a] - estimatedCostUSD[b]);
+      }
+    }
+
+    if (downgrades.length === 0) {
+      this.recordOutcome(check.useCaseId, 'blocked');
+      throw new Error(`AI budget exceeded: ${overBudget}${strategy === 'maximize-quality' ? '' : ' and no fallback model fits'}`);
+    }
+
+    console.warn(`💸 [${check.useCaseId || 'request'}] ${overBudget}; downgrading to ${downgrades[0]} (${strategy})`);
+    this.recordOutcome(check.useCaseId, 'downgraded');
+    return {
+      models: downgrades,
+      estimatedCostUSD,
+      limitUSD,
+      downgradedFrom: requested,
+      limitName: binding.name
+    };
+  }
+
+  private static async getLimits(check: AIBudgetCheck): Promise<BudgetLimit[]> {
+    const limits: BudgetLimit[] = [];
+
+    const maxCostPerRequest = check.modelConfig?.maxCostPerRequest;
+    if (maxCostPerRequest && maxCostPerRequest > 0) {
+      limits.push({ name: 'maxCostPerRequest', remainingUSD: maxCostPerRequest });
+    }
+
+    const useCaseDailyLimit = check.monitoringConfig?.alertThresholds?.costThreshold;
+    if (check.useCaseId && useCaseDailyLimit && useCaseDailyLimit > 0) {
+      const spent = await this.getSpent(check.useCaseId);
+      limits.push({
+        name: `the daily budget for ${check.useCaseId}`,
+        remainingUSD: useCaseDailyLimit - spent
+      });
+    }
+
+    const globalDailyLimit = this.getGlobalDailyLimit();
+    if (globalDailyLimit) {
+      const spent = await this.getSpent();
+      limits.push({ name: 'the global daily budget', remainingUSD: globalDailyLimit - spent });
+    }
+
+    return limits;
+  }
+
+  /**
+   * Today's spend for a use case (or globally), cached briefly
+   */
+  private static async getSpent(useCaseId?: string): Promise<number> {
+    const docId = getSpendDocId(useCaseId, getToday());
+    const cached = this.spendCache.get(docId);
+    if (cached && Date.now() - cached.fetchedAt < SPEND_CACHE_TTL_MS) {
+      return cached.spentUSD;
+    }
+
+    let spentUSD = 0;
+    try {
+      const { adminDb } = await import('./firebase-admin');
+      const doc = await adminDb.collection('aiBudgetSpend').doc(docId).get();
+      spentUSD = doc.exists ? doc.data()?.spentUSD || 0 : 0;
+    } catch (error) {
+      console.warn(`⚠️ Could not load budget spend ${docId}:`, error);
+      // Keep counting locally rather than forgetting what this instance has spent
+      spentUSD = cached?.spentUSD || 0;
+    }
+
+    this.spendCache.set(docId, { spentUSD, fetchedAt: Date.now() });
+    return spentUSD;
+  }
+
+  /**
+   * Add a completed call's cost to today's use case and global spend (fire-and-forget)
+   */
+  static recordSpend(useCaseId: string | undefined, costUSD: number): void {
+    if (!(costUSD > 0)) return;
+
+    const date = getToday();
+    const scopes = useCaseId ? [useCaseId, undefined] : [undefined];
+    for (const scope of scopes) {
+      const cached = this.spendCache.get(getSpendDocId(scope, date));
+      if (cached) cached.spentUSD += costUSD;
+    }
+
+    (async () => {
+      const { adminDb } = await import('./firebase-admin');
+      const { FieldValue } = await import('firebase-admin/firestore');
+      await Promise.all(scopes.map(scope =>
+        adminDb.collection('aiBudgetSpend').doc(getSpendDocId(scope, date)).set({
+          scope: scope ? 'use-case' : 'global',
+          ...(scope && { useCaseId: scope }),
+          date,
+          spentUSD: FieldValue.increment(costUSD),
+          requests: FieldValue.increment(1),
+          updatedAt: new Date()
+        }, { merge: true })
+      ));
+    })().catch(error => {
+      console.error('💸 Budget spend write error (non-blocking):', error);
+    });
+  }
+
+  /**
+   * Count a blocked or downgraded request against today's spend document (fire-and-forget)
+   */
+  private static recordOutcome(useCaseId: string | undefined, outcome: 'blocked' | 'downgraded'): void {
+    const date = getToday();
+    (async () => {
+      const { adminDb } = await import('./firebase-admin');
+      const { FieldValue } = await import('firebase-admin/firestore');
+      await adminDb.collection('aiBudgetSpend').doc(getSpendDocId(useCaseId, date)).set({
+        scope: useCaseId ? 'use-case' : 'global',
+        ...(useCaseId && { useCaseId }),
+        date,
+        [outcome]: FieldValue.increment(1),
+        updatedAt: new Date()
+      }, { merge: true });
+    })().catch(error => {
+      console.error('💸 Budget outcome write error (non-blocking):', error);
+    });
+  }
+
+  /**
+   * Spend documents for a day (default today), global first
+   */
+  static async getDailySpend(date: string = getToday()): Promise<AIDailySpend[]> {
+    const { adminDb } = await import('./firebase-admin');
+    const snapshot = await adminDb.collection('aiBudgetSpend').where('date', '==', date).get();
+
+    return snapshot.docs
+      .map(doc => {
+        const data = doc.data();
+        return {
+          scope: data.scope,
+          ...(data.useCaseId && { useCaseId: data.useCaseId }),
+          date,
+          spentUSD: data.spentUSD || 0,
+          requests: data.requests || 0,
+          blocked: data.blocked || 0,
+          downgraded: data.downgraded || 0,
+          updatedAt: data.updatedAt?.toDate?.().toISOString()
+        } as AIDailySpend;
+      })
+      .sort((a, b) => (a.scope === 'global' ? -1 : b.scope === 'global' ? 1 : b.spentUSD - a.spentUSD));
+  }
+}
+
+export default AIBudgetGuard;
@@ -0,0 +1,393 @@
+/**
+ * AI Call Site Scanner - Admin Panel Version
+ *
+ * Parses TypeScript/JavaScript sources with the TypeScript compiler API and finds AI calls:
+ * - ai-router: AIAPIRouter.executeRequest / executeForUseCase / executeStreamingRequest
+ * - ai-service: aiConfigurationService.execute
+ * - genkit: ai.generate / generateStream, or generate() imported from genkit
+ * - direct-api: provider SDK calls (generateContent, chat.completions.create, messages.create)
+ *   and fetch() to provider endpoints
+ * Each call site gets a useCaseId (from a useCaseId property, else the enclosing function name),
+ * a parentWorkflow (from a parentWorkflow/workflow property or an enclosing defineFlow) and its
+ * location. reconcile() compares the call sites with the stored configurations and produces
+ * configurations that /api/admin/ai-configurations/import accepts.
+ */
+
+import type * as TS from 'typescript';
+import type { AICallPattern, AIUseCaseCategory, AIUseCaseConfig } from '@/types/ai-configuration-schema';
+
+export interface AISourceFile {
+  path: string; // Relative to the scanned root
+  content: string;
+}
+
+export interface AICallSite {
+  file: string;
+  line: number; // 1-based
+  function: string; // e.g. 'analyzePrompt()' or 'QualityAgent.run()'
+  callPattern: Exclude<AICallPattern, 'mixed'>;
+  callee: string; // Source text of the called expression
+  useCaseId: string;
+  useCaseIdSource: 'literal' | 'function-name' | 'file-name';
+  parentWorkflow?: string;
+  model?: string; // Literal model name passed to the call, if any
+}
+
+export interface AICallSiteMove {
+  useCaseId: string;
+  from: AIUseCaseConfig['location'];
+  to: AIUseCaseConfig['location'];
+}
+
+export interface AICallSiteReport {
+  scannedFiles: number;
+  callSites: AICallSite[];
+  matched: string[]; // Use cases whose stored location is still accurate
+  unconfigured: Array<{ useCaseId: string; callSites: AICallSite[] }>; // Call sites with no configuration
+  orphaned: Array<{ useCaseId: string; location: AIUseCaseConfig['location']; fileScanned: boolean }>; // Configurations with no call site
+  moved: AICallSiteMove[]; // Configurations whose call site changed file, function or line
+  configurations: Array<Partial<AIUseCaseConfig>>; // New and relocated configurations, ready for the import route
+  generatedAt: string;
+}
+
+const SOURCE_EXTENSIONS = /\.(ts|tsx|js|jsx|mjs|cjs)$/;
+const ROUTER_METHODS = new Set(['executeRequest', 'executeForUseCase', 'executeStreamingRequest']);
+const GENKIT_METHODS = new Set(['generate', 'generateStream']);
+const GENKIT_MODULES = /^(genkit|@genkit-ai\/)/;
+const HTTP_HANDLERS = new Set(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'handler']);
+const FLOW_DEFINERS = new Set(['defineFlow', 'defineWorkflow', 'defineStreamingFlow']);
+const PROVIDER_URLS = /api\.openai\.com|openrouter\.ai\/api|api\.anthropic\.com|generativelanguage\.googleapis\.com|api\.mistral\.ai|api\.groq\.com/;
+
+// Quick pre-filter so only files that might contain a call are parsed (and uploaded by the CLI)
+export const CANDIDATE_PATTERN = /executeRequest|executeForUseCase|executeStreamingRequest|aiConfigurationService|generate(Stream|Content)?\s*\(|completions\.create|messages\.create|api\.openai\.com|openrouter\.ai|api\.anthropic\.com|generativelanguage\.googleapis\.com/;
+
+function toKebabCase(name: string): string {
+  return name
+    .replace(/\(\)$/, '')
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/[^A-Za-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase();
+}
+
+function toDisplayName(useCaseId: string): string {
+  return useCaseId.split('-').filter(Boolean).map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+}
+
+/**
+ * Category from where the call lives (same categories the import route accepts)
+ */
+function inferCategory(file: string, functionName: string): AIUseCaseCategory {
+  if (/(^|\/)agents?\//.test(file) || /agent/i.test(functionName)) return 'agent';
+  if (/(^|\/)(workflows?|flows?)\//.test(file)) return 'workflow';
+  if (/(^|\/)(app|pages)\/api\/|\/route\.[jt]s$/.test(file)) return 'api-endpoint';
+  if (/middleware/.test(file)) return 'middleware';
+  if (/(^|\/)hooks\//.test(file) || /^use[A-Z]/.test(functionName)) return 'hook';
+  return 'service';
+}
+
+export class AICallSiteScanner {
+  /**
+   * Find AI call sites in the given files
+   */
+  static async scan(files: AISourceFile[]): Promise<AICallSite[]> {
+    const ts = await import('typescript');
+    const callSites: AICallSite[] = [];
+
+    for (const file of files) {
+      if (!SOURCE_EXTENSIONS.test(file.path) || /\.d\.ts$/.test(file.path)) continue;
+      if (!CANDIDATE_PATTERN.test(file.content)) continue;
+
+      const path = file.path.replace(/\\/g, '/').replace(/^\.\//, '');
+      const kind = /\.tsx$/.test(path) ? ts.ScriptKind.TSX : /\.jsx$/.test(path) ? ts.ScriptKind.JSX : undefined;
+      const source = ts.createSourceFile(path, file.content, ts.ScriptTarget.Latest, true, kind);
+      callSites.push(...this.scanSourceFile(ts, source, path));
+    }
+
+    return callSites.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+  }
+
+  private static scanSourceFile(ts: typeof TS, source: TS.SourceFile, path: string): AICallSite[] {
+    const callSites: AICallSite[] = [];
+    const genkitImports = new Set<string>(); // Local names bound to genkit's generate/generateStream
+    const constants = new Map<string, string>(); // Top-level const NAME = 'literal', so useCaseId: NAME resolves
+
+    source.statements.forEach(statement => {
+      if (ts.isVariableStatement(statement) && statement.declarationList.flags & ts.NodeFlags.Const) {
+        statement.declarationList.declarations.forEach(declaration => {
+          if (ts.isIdentifier(declaration.name) && declaration.initializer && ts.isStringLiteralLike(declaration.initializer)) {
+            constants.set(declaration.name.text, declaration.initializer.text);
+          }
+        });
+      }
+      if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) return;
+      if (!GENKIT_MODULES.test(statement.moduleSpecifier.text)) return;
+      const bindings = statement.importClause?.namedBindings;
+      if (bindings && ts.isNamedImports(bindings)) {
+        bindings.elements.forEach(element => {
+          const imported = (element.propertyName || element.name).text;
+          if (GENKIT_METHODS.has(imported)) genkitImports.add(element.name.text);
+        });
+      }
+    });
+
+    const visit = (node: TS.Node) => {
+      if (ts.isCallExpression(node)) {
+        const callPattern = this.classifyCall(ts, node, genkitImports);
+        if (callPattern) {
+          callSites.push(this.describeCallSite(ts, source, path, node, callPattern, constants));
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(source);
+
+    return callSites;
+  }
+
+  private static classifyCall(
+    ts: typeof TS,
+    call: TS.CallExpression,
+    genkitImports: Set<string>
+  ): AICallSite['callPattern'] | null {
+    const callee = call.expression;
+
+    if (ts.isIdentifier(callee)) {
+      if (genkitImports.has(callee.text)) return 'genkit';
+      if (callee.text === 'fetch' && call.arguments[0] && PROVIDER_URLS.test(call.arguments[0].getText())) return 'direct-api';
+      return null;
+    }
+    if (!ts.isPropertyAccessExpression(callee)) return null;
+
+    const method = callee.name.text;
+    const target = callee.expression.getText();
+
+    if (ROUTER_METHODS.has(method) && /AIAPIRouter$/.test(target)) return 'ai-router';
+    if (method === 'execute' && /aiConfigurationService$/i.test(target)) return 'ai-service';
+    if (GENKIT_METHODS.has(method) && /(^|\.)(ai|genkit)$/.test(target)) return 'genkit';
+    if (method === 'generateContent' || method === 'generateContentStream') return 'direct-api';
+    if (method === 'create' && /(chat\.completions|\.messages|\.responses)$/.test(target)) return 'direct-api';
+    return null;
+  }
+
+  private static describeCallSite(
+    ts: typeof TS,
+    source: TS.SourceFile,
+    path: string,
+    call: TS.CallExpression,
+    callPattern: AICallSite['callPattern'],
+    constants: Map<string, string>
+  ): AICallSite {
+    const line = source.getLineAndCharacterOfPosition(call.getStart(source)).line + 1;
+    const functionName = this.enclosingFunctionName(ts, call);
+    const literals = this.collectLiteralProperties(ts, call.arguments, constants);
+
+    // Without a literal useCaseId, name the use case after the function, or the file for
+    // module-level calls and route handlers (GET/POST say nothing about the use case)
+    const member = functionName.split('.').pop()!;
+    const namedByFunction = functionName !== '<module>' && !HTTP_HANDLERS.has(member);
+    const segments = path.replace(SOURCE_EXTENSIONS, '').split('/');
+    const fileName = segments[segments.length - 1] === 'route' || segments[segments.length - 1] === 'index'
+      ? segments[segments.length - 2] || segments[segments.length - 1]
+      : segments[segments.length - 1];
+    const useCaseId = literals.useCaseId || toKebabCase(namedByFunction ? member : fileName);
+    const parentWorkflow = literals.parentWorkflow || literals.workflow || this.enclosingFlowName(ts, call)
+      || path.match(/(?:^|\/)workflows?\/([^/]+)\//)?.[1];
+
+    return {
+      file: path,
+      line,
+      function: functionName === '<module>' ? functionName : `${functionName}()`,
+      callPattern,
+      callee: call.expression.getText(source),
+      useCaseId,
+      useCaseIdSource: literals.useCaseId ? 'literal' : namedByFunction ? 'function-name' : 'file-name',
+      ...(parentWorkflow && { parentWorkflow }),
+      ...((literals.modelName || literals.model) && { model: literals.modelName || literals.model })
+    };
+  }
+
+  /**
+   * String literal properties anywhere in the call's object-literal arguments (first one wins)
+   */
+  private static collectLiteralProperties(
+    ts: typeof TS,
+    args: TS.NodeArray<TS.Expression>,
+    constants: Map<string, string> = new Map()
+  ): Record<string, string> {
+    const found: Record<string, string> = {};
+    const visit = (node: TS.Node) => {
+      if (ts.isPropertyAssignment(node) && (ts.isIdentifier(node.name) || ts.isStringLiteral(node.name))) {
+        const key = node.name.text;
+        if (!(key in found) && ts.isStringLiteralLike(node.initializer)) {
+          found[key] = node.initializer.text;
+        } else if (!(key in found) && ts.isIdentifier(node.initializer) && constants.has(node.initializer.text)) {
+          found[key] = constants.get(node.initializer.text)!;
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    args.forEach(arg => {
+      if (ts.isObjectLiteralExpression(arg)) visit(arg);
+    });
+    return found;
+  }
+
+  /**
+   * Name of the function containing a node: 'name', 'Class.method', or '<module>'
+   */
+  private static enclosingFunctionName(ts: typeof TS, node: TS.Node): string {
+    for (let current = node.parent; current; current = current.parent) {
+      let name: string | undefined;
+
+      if ((ts.isFunctionDeclaration(current) || ts.isMethodDeclaration(current)) && current.name) {
+        name = current.name.getText();
+      } else if ((ts.isArrowFunction(current) || ts.isFunctionExpression(current)) && current.parent) {
+        const parent = current.parent;
+        if (ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent)) {
+          name = parent.name.getText();
+        }
+      }
+      if (!name) continue;
+
+      // Methods and arrow-function properties of a class are reported as Class.member
+      const container = ts.isMethodDeclaration(current)
+        ? current.parent
+        : ts.isPropertyDeclaration(current.parent) ? current.parent.parent : undefined;
+      const owner = container && (ts.isClassDeclaration(container) || ts.isClassExpression(container)) ? container.name?.text : undefined;
+      return owner ? `${owner}.${name}` : name;
+    }
+    return '<module>';
+  }
+
+  /**
+   * Name given to an enclosing ai.defineFlow({ name: '...' }, ...) or defineFlow('name', ...)
+   */
+  private static enclosingFlowName(ts: typeof TS, node: TS.Node): string | undefined {
+    for (let current = node.parent; current; current = current.parent) {
+      if (!ts.isCallExpression(current)) continue;
+      const callee = current.expression;
+      const method = ts.isPropertyAccessExpression(callee) ? callee.name.text : ts.isIdentifier(callee) ? callee.text : '';
+      if (!FLOW_DEFINERS.has(method)) continue;
+
+      const [first] = current.arguments;
+      if (first && ts.isStringLiteral(first)) return first.text;
+      if (first && ts.isObjectLiteralExpression(first)) {
+        return this.collectLiteralProperties(ts, current.arguments).name;
+      }
+    }
+    return undefined;
+  }
+
+  // ==========================================================================
+  // Reconciliation
+  // ==========================================================================
+
+  /**
+   * Compare call sites with stored configurations
+   */
+  static reconcile(
+    callSites: AICallSite[],
+    configs: AIUseCaseConfig[],
+    scannedFiles: string[]
+  ): AICallSiteReport {
+    const scanned = new Set(scannedFiles.map(file => file.replace(/\\/g, '/').replace(/^\.\//, '')));
+    const byUseCase = new Map<string, AICallSite[]>();
+    callSites.forEach(site => {
+      byUseCase.set(site.useCaseId, [...(byUseCase.get(site.useCaseId) || []), site]);
+    });
+    const configsById = new Map(configs.map(config => [config.useCaseId, config]));
+
+    const report: AICallSiteReport = {
+      scannedFiles: scanned.size,
+      callSites,
+      matched: [],
+      unconfigured: [],
+      orphaned: [],
+      moved: [],
+      configurations: [],
+      generatedAt: new Date().toISOString()
+    };
+
+    for (const [useCaseId, sites] of byUseCase) {
+      const config = configsById.get(useCaseId);
+      const location = this.locationFor(sites, config?.location);
+
+      if (!config) {
+        report.unconfigured.push({ useCaseId, callSites: sites });
+        report.configurations.push(this.draftConfiguration(useCaseId, sites, location));
+        continue;
+      }
+
+      const current = config.location;
+      if (current?.file === location.file && current?.function === location.function &&
+          current?.line === location.line && current?.callPattern === location.callPattern) {
+        report.matched.push(useCaseId);
+        continue;
+      }
+
+      report.moved.push({ useCaseId, from: current, to: location });
+      // The import route only writes the fields it is sent, so a relocation changes nothing else
+      report.configurations.push({
+        useCaseId,
+        displayName: config.displayName,
+        description: config.description,
+        category: config.category,
+        location,
+        ...(!config.parentWorkflow && sites[0].parentWorkflow && { parentWorkflow: sites[0].parentWorkflow })
+      });
+    }
+
+    for (const config of configs) {
+      if (byUseCase.has(config.useCaseId)) continue;
+      const file = config.location?.file?.replace(/^\.\//, '');
+      report.orphaned.push({
+        useCaseId: config.useCaseId,
+        location: config.location,
+        fileScanned: !!file && scanned.has(file)
+      });
+    }
+
+    return report;
+  }
+
+  /**
+   * Location for a use case: the call site nearest the stored one, 'mixed' when patterns differ
+   */
+  private static locationFor(sites: AICallSite[], current?: AIUseCaseConfig['location']): AIUseCaseConfig['location'] {
+    const site = (current && (
+      sites.find(candidate => candidate.file === current.file && candidate.function === current.function) ||
+      sites.find(candidate => candidate.file === current.file)
+    )) || sites[0];
+    const patterns = new Set(sites.map(candidate => candidate.callPattern));
+
+    return {
+      file: site.file,
+      function: site.function,
+      callPattern: patterns.size > 1 ? 'mixed' : site.callPattern,
+      line: site.line
+    };
+  }
+
+  private static draftConfiguration(
+    useCaseId: string,
+    sites: AICallSite[],
+    location: AIUseCaseConfig['location']
+  ): Partial<AIUseCaseConfig> {
+    const site = sites[0];
+    const elsewhere = sites.length > 1 ? ` (and ${sites.length - 1} other call site${sites.length > 2 ? 's' : ''})` : '';
+
+    return {
+      useCaseId,
+      displayName: toDisplayName(useCaseId),
+      description: `Discovered ${location.callPattern} call in ${location.file} ${location.function}${elsewhere}. Review before relying on it.`,
+      category: inferCategory(site.file, site.function),
+      subcategory: 'discovered',
+      ...(site.parentWorkflow && { parentWorkflow: site.parentWorkflow }),
+      location,
+      ...(site.model && { modelConfig: { primaryModel: site.model } as AIUseCaseConfig['modelConfig'] })
+    };
+  }
+}
+
+export default AICallSiteScanner;
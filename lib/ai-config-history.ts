@@ -0,0 +1,144 @@
+/**
+ * AI Configuration History - Admin Panel Version
+ *
+ * Version snapshots and field-level diffs for aiUseCaseConfigs. Every save that changes a
+ * configuration appends a ConfigurationVersion to metadata.configurationHistory holding the
+ * version it replaced (rollbackData) and the changed fields; a rollback restores a snapshot
+ * as a new version. Deleted configurations are kept in aiUseCaseConfigTombstones.
+ *
+ * Pure helpers, shared by the configuration API routes and the edit modal's history timeline.
+ */
+
+import type { AIUseCaseConfig, AIUseCaseMetadata, ConfigurationVersion } from '@/types/ai-configuration-schema';
+
+export const MAX_CONFIGURATION_HISTORY = 50;
+export const TOMBSTONE_COLLECTION = 'aiUseCaseConfigTombstones';
+
+// Bookkeeping fields that change on every save (or are system-populated) and aren't part of a version
+const UNVERSIONED_METADATA = [
+  'version',
+  'createdAt',
+  'createdBy',
+  'updatedAt',
+  'updatedBy',
+  'configurationHistory',
+  'usageStats',
+  'cacheStats',
+  'reviewStats'
+];
+
+export interface ConfigurationFieldChange {
+  path: string; // Dot path, e.g. "generationConfig.temperature"
+  before?: unknown; // undefined = field added
+  after?: unknown; // undefined = field removed
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Date for a Firestore Timestamp, its JSON form ({ _seconds }), a Date or an ISO string
+ */
+export function toHistoryDate(value: any): Date | null {
+  if (!value) return null;
+  if (typeof value.toDate === 'function') return value.toDate();
+  if (typeof value._seconds === 'number') return new Date(value._seconds * 1000);
+  if (typeof value.seconds === 'number') return new Date(value.seconds * 1000);
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Comparable form of a value: timestamps become ISO strings, objects are compared structurally
+ */
+function normalizeValue(value: unknown): unknown {
+  if (value && typeof value === 'object' && !Array.isArray(value) && !isPlainObject(value)) {
+    return toHistoryDate(value)?.toISOString() ?? value;
+  }
+  if (isPlainObject(value) && (typeof value._seconds === 'number' || typeof value.seconds === 'number')) {
+    return toHistoryDate(value)?.toISOString() ?? value;
+  }
+  return value;
+}
+
+function stripUndefined(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(stripUndefined);
+  if (!isPlainObject(value)) return value;
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .map(([key, entry]) => [key, stripUndefined(entry)])
+  );
+}
+
+/**
+ * Configuration as stored in a history entry: no nested history or system statistics,
+ * and no undefined values (Firestore rejects them)
+ */
+export function toConfigurationSnapshot(config: Partial<AIUseCaseConfig>): Partial<AIUseCaseConfig> {
+  const { configurationHistory: _history, usageStats: _usage, cacheStats: _cache, reviewStats: _reviews, ...metadata } =
+    (config.metadata || {}) as AIUseCaseMetadata;
+  return stripUndefined({ ...config, ...(config.metadata && { metadata }) }) as Partial<AIUseCaseConfig>;
+}
+
+/**
+ * Field-level differences between two configurations, ignoring save bookkeeping
+ */
+export function diffConfigurations(
+  before: Record<string, any> | undefined,
+  after: Record<string, any> | undefined,
+  prefix = ''
+): ConfigurationFieldChange[] {
+  const changes: ConfigurationFieldChange[] = [];
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const key of Array.from(keys).sort()) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (path === 'useCaseId' || (prefix === 'metadata' && UNVERSIONED_METADATA.includes(key))) continue;
+
+    const beforeValue = normalizeValue(before?.[key]);
+    const afterValue = normalizeValue(after?.[key]);
+
+    if (isPlainObject(beforeValue) && isPlainObject(afterValue)) {
+      changes.push(...diffConfigurations(beforeValue, afterValue, path));
+    } else if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes.push({ path, before: beforeValue, after: afterValue });
+    }
+  }
+
+  return changes;
+}
+
+function formatValue(value: unknown): string {
+  const text = JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+/**
+ * One-line description of a change, as stored in ConfigurationVersion.changes
+ */
+export function formatConfigurationChange(change: ConfigurationFieldChange): string {
+  if (change.before === undefined) return `${change.path}: added ${formatValue(change.after)}`;
+  if (change.after === undefined) return `${change.path}: removed (was ${formatValue(change.before)})`;
+  return `${change.path}: ${formatValue(change.before)} → ${formatValue(change.after)}`;
+}
+
+/**
+ * Next automatic version: bump the last number ("1.2.3" → "1.2.4", "v2" → "v3")
+ */
+export function getNextVersion(version?: string): string {
+  if (!version) return '1.0.1';
+  const match = version.match(/^(.*?)(\d+)(\D*)$/);
+  return match ? `${match[1]}${Number(match[2]) + 1}${match[3]}` : `${version}.1`;
+}
+
+/**
+ * Append an entry, keeping the most recent MAX_CONFIGURATION_HISTORY versions
+ */
+export function appendConfigurationHistory(
+  history: ConfigurationVersion[] | undefined,
+  entry: ConfigurationVersion
+): ConfigurationVersion[] {
+  return [...(history || []), entry].slice(-MAX_CONFIGURATION_HISTORY);
+}
@@ -0,0 +1,646 @@
+/**
+ * AI Configuration Service - Admin Panel Version
+ *
+ * Server-side implementation of AIConfigurationService on top of aiUseCaseConfigs.
+ * - Configurations are cached in-process; a Firestore snapshot listener keeps the cache current
+ *   (when the listener can't attach, the collection is re-read every few minutes instead)
+ * - resolve() merges AIConfiguredRequest.overrides and assembles the prompt from promptTemplate,
+ *   promptPrefix/promptSuffix and defaultVariables using the configured variableFormat
+ * - execute()/testConfiguration() run through AIAPIRouter.executeForUseCase and return an AIConfiguredResponse,
+ *   with the output evaluated against qualityConfig (see ai-quality-evaluator)
+ * - updates record a configuration version and deletes leave a tombstone (see ai-config-history)
+ */
+
+import type {
+  AIConfigurationService,
+  AIConfiguredRequest,
+  AIConfiguredResponse,
+  AIPromptConfiguration,
+  AIUseCaseCategory,
+  AIUseCaseConfig,
+  AIUseCaseRegistry,
+  ValidationResult,
+  VariableFormat
+} from '@/types/ai-configuration-schema';
+import { AIExperiments, type AIExperimentSubject } from './ai-experiments';
+import { AIQualityEvaluator, type AIQualityEvaluation } from './ai-quality-evaluator';
+import {
+  TOMBSTONE_COLLECTION,
+  appendConfigurationHistory,
+  diffConfigurations,
+  formatConfigurationChange,
+  getNextVersion,
+  toConfigurationSnapshot
+} from './ai-config-history';
+
+const CONFIG_COLLECTION = 'aiUseCaseConfigs';
+const FALLBACK_CACHE_TTL_MS = 5 * 60 * 1000;
+
+export interface AIResolvedRequest {
+  config: AIUseCaseConfig; // Configuration with the experiment variant and request overrides applied
+  experimentId?: string;
+  variantId?: string;
+  systemPrompt?: string;
+  userPrompt: string;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Placeholder pattern for a variable; 'custom' templates use the double-curly syntax
+ */
+function getVariablePattern(name: string, format: VariableFormat): RegExp {
+  const key = `\\s*${escapeRegExp(name)}\\s*`;
+  switch (format) {
+    case 'curly':
+      return new RegExp(`\\{${key}\\}`, 'g');
+    case 'square':
+      return new RegExp(`\\[${key}\\]`, 'g');
+    default:
+      return new RegExp(`\\{\\{${key}\\}\\}`, 'g');
+  }
+}
+
+/**
+ * Substitute variables into a template written in the given format
+ */
+export function renderPromptTemplate(
+  template: string,
+  variables: Record<string, string>,
+  format: VariableFormat = 'double-curly'
+): string {
+  return Object.entries(variables).reduce(
+    (text, [name, value]) => text.replace(getVariablePattern(name, format), () => value),
+    template
+  );
+}
+
+function toVariableValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+export class ServerAIConfigurationService implements AIConfigurationService {
+  private cache = new Map<string, AIUseCaseConfig>();
+  private loadedAt = 0;
+  private listening = false;
+  private loading: Promise<void> | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  // ==========================================================================
+  // Cache
+  // ==========================================================================
+
+  private async ensureLoaded(): Promise<void> {
+    // While the listener is attached the cache is always current
+    if (this.listening) return;
+    if (this.loadedAt && Date.now() - this.loadedAt < FALLBACK_CACHE_TTL_MS) return;
+
+    if (!this.loading) {
+      this.loading = this.load().finally(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    const { adminDb } = await import('./firebase-admin');
+    const collection = adminDb.collection(CONFIG_COLLECTION);
+
+    if (!this.unsubscribe) {
+      try {
+        await new Promise<void>((resolve, reject) => {
+          let settled = false;
+          this.unsubscribe = collection.onSnapshot(snapshot => {
+            this.replaceCache(snapshot.docs);
+            this.listening = true;
+            if (!settled) {
+              settled = true;
+              resolve();
+            }
+          }, error => {
+            console.warn('⚠️ AI configuration listener stopped, falling back to timed refresh:', error);
+            this.listening = false;
+            this.unsubscribe = null;
+            if (!settled) {
+              settled = true;
+              reject(error);
+            }
+          });
+        });
+        return;
+      } catch {
+        // Read the collection once below; the listener is retried on the next refresh
+      }
+    }
+
+    const snapshot = await collection.get();
+    this.replaceCache(snapshot.docs);
+  }
+
+  private replaceCache(docs: FirebaseFirestore.QueryDocumentSnapshot[]): void {
+    this.cache = new Map(docs.map(doc => [doc.id, { ...doc.data(), useCaseId: doc.id } as AIUseCaseConfig]));
+    this.loadedAt = Date.now();
+  }
+
+  /**
+   * Cache a document written by this instance without waiting for the listener
+   */
+  private async reloadOne(useCaseId: string): Promise<AIUseCaseConfig | null> {
+    const { adminDb } = await import('./firebase-admin');
+    const doc = await adminDb.collection(CONFIG_COLLECTION).doc(useCaseId).get();
+    if (!doc.exists) {
+      this.cache.delete(useCaseId);
+      return null;
+    }
+    const config = { ...doc.data(), useCaseId: doc.id } as AIUseCaseConfig;
+    this.cache.set(useCaseId, config);
+    return config;
+  }
+
+  async refreshCache(): Promise<void> {
+    const { adminDb } = await import('./firebase-admin');
+    const snapshot = await adminDb.collection(CONFIG_COLLECTION).get();
+    this.replaceCache(snapshot.docs);
+  }
+
+  async clearCache(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.listening = false;
+    this.cache.clear();
+    this.loadedAt = 0;
+  }
+
+  // ==========================================================================
+  // Configuration management
+  // ==========================================================================
+
+  /**
+   * Configuration for a use case, or null when none exists
+   */
+  async findConfiguration(useCaseId: string): Promise<AIUseCaseConfig | null> {
+    await this.ensureLoaded();
+    return this.cache.get(useCaseId) || null;
+  }
+
+  async getConfiguration(useCaseId: string): Promise<AIUseCaseConfig> {
+    const config = await this.findConfiguration(useCaseId);
+    if (!config) {
+      throw new Error(`No AI configuration found for use case: ${useCaseId}`);
+    }
+    return config;
+  }
+
+  async getAllConfigurations(): Promise<AIUseCaseRegistry> {
+    await this.ensureLoaded();
+    return Object.fromEntries(this.cache.entries());
+  }
+
+  async getConfigurationsByCategory(category: AIUseCaseCategory): Promise<AIUseCaseConfig[]> {
+    await this.ensureLoaded();
+    return Array.from(this.cache.values()).filter(config => config.category === category);
+  }
+
+  async createConfiguration(config: AIUseCaseConfig): Promise<void> {
+    const { adminDb } = await import('./firebase-admin');
+    const docRef = adminDb.collection(CONFIG_COLLECTION).doc(config.useCaseId);
+    if ((await docRef.get()).exists) {
+      throw new Error(`Configuration with this useCaseId already exists: ${config.useCaseId}`);
+    }
+
+    const now = new Date();
+    await docRef.set({
+      ...config,
+      metadata: {
+        ...config.metadata,
+        createdAt: now,
+        updatedAt: now,
+        createdBy: 'admin', // TODO: Get actual user from auth
+        updatedBy: 'admin'
+      }
+    });
+    await this.reloadOne(config.useCaseId);
+  }
+
+  /**
+   * Apply an update. Sections are replaced whole, metadata fields are merged, and any
+   * change is recorded as a new version (auto-bumped unless metadata.version is set by hand).
+   * The read, diff and write run in one transaction so concurrent saves can't share a version.
+   */
+  async updateConfiguration(useCaseId: string, updates: Partial<AIUseCaseConfig>): Promise<void> {
+    const { adminDb } = await import('./firebase-admin');
+    const docRef = adminDb.collection(CONFIG_COLLECTION).doc(useCaseId);
+
+    // useCaseId can't change; history is only written below, so a client can't overwrite it
+    const { metadata, useCaseId: _useCaseId, ...otherUpdates } = updates;
+    const updateData: Record<string, any> = {
+      ...otherUpdates,
+      'metadata.updatedAt': new Date(),
+      'metadata.updatedBy': 'admin' // TODO: Get actual user from auth
+    };
+
+    // Metadata fields use dot notation to avoid replacing the whole map
+    const metadataUpdates: Record<string, any> = {};
+    Object.entries(metadata || {}).forEach(([key, value]) => {
+      if (key !== 'updatedAt' && key !== 'updatedBy' && key !== 'configurationHistory') {
+        updateData[`metadata.${key}`] = value;
+        metadataUpdates[key] = value;
+      }
+    });
+
+    await adminDb.runTransaction(async transaction => {
+      const doc = await transaction.get(docRef);
+      if (!doc.exists) {
+        throw new Error(`No AI configuration found for use case: ${useCaseId}`);
+      }
+
+      // Built per attempt, since the transaction may run more than once
+      const write = { ...updateData };
+      const existing = doc.data() as AIUseCaseConfig;
+      const currentVersion = existing.metadata?.version || '1.0.0';
+      const versionChanged = !!metadata?.version && metadata.version !== currentVersion;
+      const changes = diffConfigurations(
+        toConfigurationSnapshot(existing),
+        toConfigurationSnapshot({
+          ...existing,
+          ...otherUpdates,
+          metadata: { ...existing.metadata, ...metadataUpdates }
+        })
+      ).map(formatConfigurationChange);
+
+      if (changes.length > 0 || versionChanged) {
+        write['metadata.version'] = versionChanged ? metadata!.version : getNextVersion(currentVersion);
+        write['metadata.configurationHistory'] = appendConfigurationHistory(
+          existing.metadata?.configurationHistory,
+          {
+            version: currentVersion,
+            timestamp: new Date() as any,
+            changes: changes.length > 0 ? changes : ['Version update'],
+            changedBy: 'admin',
+            rollbackData: toConfigurationSnapshot(existing)
+          }
+        );
+      }
+
+      transaction.update(docRef, write);
+    });
+    await this.reloadOne(useCaseId);
+  }
+
+  /**
+   * Restore a version from the configuration history as a new version. Returns null when
+   * the history has no snapshot for that version. Runs in a transaction, like updateConfiguration.
+   */
+  async rollbackConfiguration(useCaseId: string, version: string): Promise<{ newVersion: string; changes: string[] } | null> {
+    const { adminDb } = await import('./firebase-admin');
+    const docRef = adminDb.collection(CONFIG_COLLECTION).doc(useCaseId);
+    const result = await adminDb.runTransaction(async transaction => {
+      const doc = await transaction.get(docRef);
+      if (!doc.exists) {
+        throw new Error(`No AI configuration found for use case: ${useCaseId}`);
+      }
+
+      const current = doc.data() as AIUseCaseConfig;
+      const history = current.metadata?.configurationHistory || [];
+      // Versions can repeat after earlier rollbacks; the most recent entry wins
+      const entry = history.slice().reverse().find(candidate => candidate.version === version);
+      if (!entry?.rollbackData) return null;
+
+      const restored = toConfigurationSnapshot(entry.rollbackData);
+      const currentVersion = current.metadata?.version || '1.0.0';
+      const newVersion = getNextVersion(currentVersion);
+      const changes = diffConfigurations(toConfigurationSnapshot(current), restored).map(formatConfigurationChange);
+
+      // Bookkeeping and system statistics stay with the live document
+      const { metadata: currentMetadata } = current;
+      transaction.set(docRef, {
+        ...restored,
+        metadata: {
+          ...restored.metadata,
+          ...(currentMetadata?.createdAt && { createdAt: currentMetadata.createdAt }),
+          ...(currentMetadata?.createdBy && { createdBy: currentMetadata.createdBy }),
+          ...(currentMetadata?.usageStats && { usageStats: currentMetadata.usageStats }),
+          ...(currentMetadata?.cacheStats && { cacheStats: currentMetadata.cacheStats }),
+          ...(currentMetadata?.reviewStats && { reviewStats: currentMetadata.reviewStats }),
+          version: newVersion,
+          updatedAt: new Date(),
+          updatedBy: 'admin', // TODO: Get actual user from auth
+          configurationHistory: appendConfigurationHistory(history, {
+            version: currentVersion,
+            timestamp: new Date() as any,
+            changes: [`Rolled back to version ${version}`, ...changes],
+            changedBy: 'admin',
+            rollbackData: toConfigurationSnapshot(current)
+          })
+        }
+      });
+
+      return { newVersion, changes };
+    });
+    if (result) {
+      await this.reloadOne(useCaseId);
+    }
+    return result;
+  }
+
+  /**
+   * Delete a configuration, keeping a tombstone (with its history) so it can be restored
+   */
+  async deleteConfiguration(useCaseId: string): Promise<void> {
+    const { adminDb } = await import('./firebase-admin');
+    const docRef = adminDb.collection(CONFIG_COLLECTION).doc(useCaseId);
+    const doc = await docRef.get();
+    if (!doc.exists) {
+      throw new Error(`No AI configuration found for use case: ${useCaseId}`);
+    }
+
+    const batch = adminDb.batch();
+    batch.set(adminDb.collection(TOMBSTONE_COLLECTION).doc(useCaseId), {
+      useCaseId,
+      configuration: doc.data(),
+      deletedAt: new Date(),
+      deletedBy: 'admin' // TODO: Get actual user from auth
+    });
+    batch.delete(docRef);
+    await batch.commit();
+    this.cache.delete(useCaseId);
+  }
+
+  // ==========================================================================
+  // Validation
+  // ==========================================================================
+
+  validateConfiguration(config: AIUseCaseConfig): ValidationResult[] {
+    const results: ValidationResult[] = [];
+    const error = (rule: string, message: string) => results.push({ rule, passed: false, message, severity: 'error' });
+    const warning = (rule: string, message: string) => results.push({ rule, passed: false, message, severity: 'warning' });
+
+    if (!config.useCaseId || !/^[a-z0-9][a-z0-9-]*$/.test(config.useCaseId)) {
+      error('useCaseId', 'useCaseId is required and must be lowercase kebab-case');
+    }
+    if (!config.displayName) error('displayName', 'displayName is required');
+    if (!config.category) error('category', 'category is required');
+
+    const model = config.modelConfig;
+    if (!model?.primaryModel) {
+      error('modelConfig.primaryModel', 'A primary model is required');
+    }
+    if (model?.allowFallback && !model.fallbackModels?.length) {
+      warning('modelConfig.fallbackModels', 'Fallback is allowed but no fallback models are configured');
+    }
+    if (model?.maxCostPerRequest !== undefined && !(model.maxCostPerRequest > 0)) {
+      error('modelConfig.maxCostPerRequest', 'maxCostPerRequest must be greater than 0');
+    }
+
+    const generation = config.generationConfig;
+    if (generation) {
+      if (!(generation.temperature >= 0 && generation.temperature <= 2)) {
+        error('generationConfig.temperature', 'temperature must be between 0 and 2');
+      }
+      if (!(generation.maxTokens > 0)) {
+        error('generationConfig.maxTokens', 'maxTokens must be greater than 0');
+      }
+      if (generation.topP !== undefined && !(generation.topP >= 0 && generation.topP <= 1)) {
+        error('generationConfig.topP', 'topP must be between 0 and 1');
+      }
+      if (generation.maxRetries !== undefined && generation.maxRetries < 0) {
+        error('generationConfig.maxRetries', 'maxRetries cannot be negative');
+      }
+      if (generation.responseFormat === 'structured' && !generation.jsonSchema) {
+        warning('generationConfig.jsonSchema', "responseFormat 'structured' without a jsonSchema is not validated");
+      }
+    }
+
+    const prompt = config.promptConfig;
+    if (prompt?.promptTemplate) {
+      for (const name of prompt.requiredVariables || []) {
+        if (!getVariablePattern(name, prompt.variableFormat).test(prompt.promptTemplate)) {
+          warning('promptConfig.requiredVariables', `Required variable "${name}" does not appear in promptTemplate`);
+        }
+      }
+    }
+
+    const performance = config.performanceConfig;
+    if (performance) {
+      if (!(performance.timeout > 0)) error('performanceConfig.timeout', 'timeout must be greater than 0');
+      if (!(performance.rateLimitPerMinute > 0)) {
+        warning('performanceConfig.rateLimitPerMinute', 'rateLimitPerMinute should be greater than 0');
+      }
+    }
+
+    const experiment = config.experimentConfig;
+    if (experiment?.enabled) {
+      const ids = experiment.variants.map(variant => variant.variantId);
+      if (!experiment.experimentId) error('experimentConfig.experimentId', 'An experiment needs an experimentId');
+      if (!experiment.variants.some(variant => variant.weight > 0)) {
+        error('experimentConfig.variants', 'At least one variant needs a weight above 0');
+      }
+      if (new Set(ids).size !== ids.length) {
+        error('experimentConfig.variants', 'Variant IDs must be unique');
+      }
+    }
+
+    if (config.metadata?.isDeprecated && config.metadata?.isActive) {
+      warning('metadata.isDeprecated', 'Configuration is deprecated but still active');
+    }
+
+    return results;
+  }
+
+  // ==========================================================================
+  // Request resolution and execution
+  // ==========================================================================
+
+  /**
+   * Merge request overrides over a configuration (section by section)
+   */
+  applyOverrides(config: AIUseCaseConfig, overrides?: AIConfiguredRequest['overrides']): AIUseCaseConfig {
+    if (!overrides) return config;
+    return {
+      ...config,
+      modelConfig: { ...config.modelConfig, ...overrides.modelConfig },
+      generationConfig: { ...config.generationConfig, ...overrides.generationConfig },
+      promptConfig: { ...config.promptConfig, ...overrides.promptConfig }
+    };
+  }
+
+  /**
+   * Build the system and user prompts for a request.
+   * With a promptTemplate the request prompt is available as the `prompt` variable
+   * (and appended when the template doesn't use it).
+   */
+  buildPrompts(
+    promptConfig: Partial<AIPromptConfiguration> | undefined,
+    request: AIConfiguredRequest
+  ): { systemPrompt?: string; userPrompt: string } {
+    const format = promptConfig?.variableFormat || 'double-curly';
+    const variables: Record<string, string> = { ...promptConfig?.defaultVariables };
+    Object.entries(request.variables || {}).forEach(([name, value]) => {
+      if (value !== undefined && value !== null) variables[name] = toVariableValue(value);
+    });
+
+    const missing = (promptConfig?.requiredVariables || []).filter(name => !variables[name]);
+    if (missing.length > 0) {
+      throw new Error(`Missing required variables for ${request.useCaseId}: ${missing.join(', ')}`);
+    }
+
+    let body: string;
+    if (promptConfig?.promptTemplate) {
+      body = renderPromptTemplate(promptConfig.promptTemplate, { ...variables, prompt: request.prompt || '' }, format);
+      if (request.prompt && !getVariablePattern('prompt', format).test(promptConfig.promptTemplate)) {
+        body = `${body}\n\n${request.prompt}`;
+      }
+    } else {
+      body = renderPromptTemplate(request.prompt || '', variables, format);
+    }
+
+    if (promptConfig?.includeContext && request.context) {
+      const contextVariables = Object.fromEntries(
+        Object.entries(request.context).map(([name, value]) => [name, toVariableValue(value)])
+      );
+      let contextText = promptConfig.contextTemplate
+        ? renderPromptTemplate(promptConfig.contextTemplate, contextVariables, format)
+        : JSON.stringify(request.context, null, 2);
+      if (promptConfig.maxContextLength && contextText.length > promptConfig.maxContextLength) {
+        contextText = contextText.slice(0, promptConfig.maxContextLength);
+      }
+      body = `${contextText}\n\n${body}`;
+    }
+
+    const userPrompt = [promptConfig?.promptPrefix, body, promptConfig?.promptSuffix]
+      .filter(Boolean)
+      .map(part => renderPromptTemplate(part!, variables, format))
+      .join('\n\n');
+
+    let systemPrompt = request.systemPrompt || promptConfig?.systemPrompt;
+    if (systemPrompt) {
+      systemPrompt = renderPromptTemplate(systemPrompt, variables, format);
+    }
+    if (promptConfig?.includeInstructions && promptConfig.customInstructions) {
+      systemPrompt = [systemPrompt, promptConfig.customInstructions].filter(Boolean).join('\n\n');
+    }
+
+    return { ...(systemPrompt && { systemPrompt }), userPrompt };
+  }
+
+  /**
+   * Resolve a configured request: experiment variant, overrides and assembled prompts
+   */
+  async resolve(request: AIConfiguredRequest, subject: AIExperimentSubject = request): Promise<AIResolvedRequest> {
+    const base = await this.getConfiguration(request.useCaseId);
+    // A primaryModel override would replace the variant's model, so those requests stay out of experiments
+    const assignment = request.overrides?.modelConfig?.primaryModel ? null : AIExperiments.assign(base, subject);
+    const config = this.applyOverrides(assignment?.config || base, request.overrides);
+
+    return {
+      config,
+      ...(assignment && { experimentId: assignment.experimentId, variantId: assignment.variant.variantId }),
+      ...this.buildPrompts(config.promptConfig, request)
+    };
+  }
+
+  /**
+   * Execute a configured request through AIAPIRouter
+   */
+  async execute(request: AIConfiguredRequest, analyticsMetadata?: Record<string, any>): Promise<AIConfiguredResponse> {
+    const requestId = request.requestId || `${request.useCaseId}-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`;
+    // Requests without a user are keyed by request ID so the router assigns the same variant
+    const subject: AIExperimentSubject = {
+      userId: request.userId,
+      organizationId: request.organizationId,
+      sessionId: request.sessionId || requestId
+    };
+    const { config, experimentId, variantId, systemPrompt, userPrompt } = await this.resolve(request, subject);
+
+    const { AIAPIRouter } = await import('./ai-api-router');
+    const { Timestamp } = await import('firebase-admin/firestore');
+    const startTime = Date.now();
+
+    // The router runs the resolved configuration as is, so every override applies
+    // (fallbacks, retries, stop sequences, timeout and caching included)
+    const response = await AIAPIRouter.executeForUseCase({
+      useCaseId: request.useCaseId,
+      resolved: {
+        config,
+        ...(experimentId && variantId && { experiment: { experimentId, variantId } })
+      },
+      systemPrompt,
+      userPrompt,
+      ...subject,
+      analytics: { executionId: requestId, metadata: { ...analyticsMetadata, requestId } }
+    });
+    const endTime = Date.now();
+
+    const validationResults: ValidationResult[] = response.schemaValid === undefined ? [] : [{
+      rule: 'jsonSchema',
+      passed: response.schemaValid,
+      ...(response.schemaErrors?.length && { message: response.schemaErrors.join('; ') }),
+      severity: response.schemaValid ? 'info' : 'error'
+    }];
+
+    let evaluation: AIQualityEvaluation | null = null;
+    if (AIQualityEvaluator.isEnabled(config.qualityConfig)) {
+      const qualityInput = {
+        useCaseId: request.useCaseId,
+        prompt: userPrompt,
+        ...(systemPrompt && { systemPrompt }),
+        content: response.content,
+        ...(response.parsedContent !== undefined && { parsedContent: response.parsedContent }),
+        finishReason: response.finishReason
+      };
+      evaluation = await AIQualityEvaluator.evaluate(config, qualityInput);
+      validationResults.push(...evaluation.validationResults);
+
+      // Fire-and-forget: the score lands on the aiExecutions record, flagged outputs in the review queue
+      AIQualityEvaluator.record(requestId, config, { ...qualityInput, model: response.model || config.modelConfig.primaryModel }, evaluation);
+
+      if (evaluation.rejected) {
+        throw new Error(`AI output for ${request.useCaseId} was rejected: ${evaluation.rejectionReason}`);
+      }
+    }
+
+    return {
+      content: response.content,
+      useCaseId: request.useCaseId,
+      modelUsed: response.model || config.modelConfig.primaryModel,
+      configurationVersion: config.metadata?.version || '1.0.0',
+      usage: {
+        inputTokens: response.usage.promptTokens,
+        outputTokens: response.usage.completionTokens,
+        totalTokens: response.usage.totalTokens,
+        cost: response.costUSD
+      },
+      performance: {
+        latency: response.latencyMs,
+        startTime: Timestamp.fromMillis(startTime),
+        endTime: Timestamp.fromMillis(endTime)
+      },
+      ...((evaluation || validationResults.length > 0) && {
+        quality: {
+          ...(evaluation && {
+            confidenceScore: evaluation.confidenceScore,
+            qualityChecks: evaluation.qualityChecks
+          }),
+          validationResults
+        }
+      }),
+      requestId,
+      responseId: `${requestId}-response`,
+      timestamp: Timestamp.now()
+    };
+  }
+
+  /**
+   * Run a test prompt against a configuration (tracked with metadata.test)
+   */
+  async testConfiguration(useCaseId: string, testPrompt: string): Promise<AIConfiguredResponse> {
+    return this.execute({ useCaseId, prompt: testPrompt }, { test: true });
+  }
+}
+
+export const aiConfigurationService = new ServerAIConfigurationService();
+
+export default aiConfigurationService;
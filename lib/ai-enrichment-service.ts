@@ -3,7 +3,24 @@
 
 import { adminDb as db } from '@/lib/firebase-admin';
 import { Timestamp, FieldValue } from 'firebase-admin/firestore';
-import type { ModelDocument } from '@/types/model-schema';
+import type { ModelChangeSet, ModelDataSource, ModelDocument } from '@/types/model-schema';
+import type { AIModelRequest, AIModelResponse } from '@/lib/ai-api-router';
+import { EnrichmentJobQueue, type EnrichmentJobItem, type EnrichmentJobStatus } from '@/lib/enrichment-job-queue';
+import { CHANGE_SET_COLLECTION, ModelChangeSets } from '@/lib/model-change-sets';
+
+const BATCH_DELAY_MS = 30000;
+const HEARTBEAT_INTERVAL_MS = 60000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// How long model data stays fresh for each updateFrequency. Research can't keep up with 'realtime', so it is hourly.
+const UPDATE_FREQUENCY_MS: Record<ModelDataSource['updateFrequency'], number> = {
+  realtime: HOUR_MS,
+  hourly: HOUR_MS,
+  daily: 24 * HOUR_MS,
+  weekly: 7 * 24 * HOUR_MS,
+  monthly: 30 * 24 * HOUR_MS
+};
+const DEFAULT_UPDATE_FREQUENCY: ModelDataSource['updateFrequency'] = 'weekly';
 
 interface AIResearchResponse {
   useCaseAnalysis: {
@@ -76,6 +93,124 @@ interface AIResearchResponse {
   lastResearched: string;
 }
 
+const stringArray = { type: 'array', items: { type: 'string' } };
+const tier = { type: 'integer', minimum: 1, maximum: 5 };
+
+// JSON Schema for AIResearchResponse, sent with research requests so the router validates (and repairs) the output
+const AI_RESEARCH_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    useCaseAnalysis: {
+      type: 'object',
+      properties: {
+        idealUseCases: stringArray,
+        strengths: stringArray,
+        industries: stringArray,
+        limitations: stringArray
+      },
+      required: ['idealUseCases', 'strengths', 'industries', 'limitations']
+    },
+    promptOptimization: {
+      type: 'object',
+      properties: {
+        bestPractices: stringArray,
+        effectiveTechniques: stringArray,
+        avoidTechniques: stringArray,
+        temperatureRecommendations: {
+          type: 'object',
+          properties: {
+            creative: { type: 'number' },
+            analytical: { type: 'number' },
+            factual: { type: 'number' },
+            conversational: { type: 'number' }
+          }
+        },
+        examplePrompts: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              useCase: { type: 'string' },
+              prompt: { type: 'string' },
+              explanation: { type: 'string' }
+            },
+            required: ['useCase', 'prompt']
+          }
+        }
+      },
+      required: ['bestPractices', 'effectiveTechniques']
+    },
+    templateContext: {
+      type: 'object',
+      properties: {
+        preferredPromptFormats: stringArray,
+        communicationStyles: stringArray,
+        variableSyntaxPreferences: stringArray,
+        structuralPatterns: stringArray,
+        optimalPromptLengths: {
+          type: 'object',
+          properties: {
+            simple: { type: 'string' },
+            moderate: { type: 'string' },
+            complex: { type: 'string' }
+          }
+        },
+        contextHandlingStyle: stringArray,
+        effectiveInstructionTypes: stringArray,
+        templateCompatibilityNotes: stringArray
+      }
+    },
+    performanceInsights: {
+      type: 'object',
+      properties: {
+        benchmarkResults: stringArray,
+        userFeedback: stringArray,
+        reliabilityAssessment: {
+          type: 'object',
+          properties: {
+            consistentAt: stringArray,
+            inconsistentAt: stringArray,
+            commonFailures: stringArray
+          }
+        }
+      }
+    },
+    performanceAnalysis: {
+      type: 'object',
+      properties: {
+        qualityTier: tier,
+        speedTier: tier,
+        costTier: tier,
+        reliabilityScore: { type: 'number', minimum: 0, maximum: 100 },
+        averageLatencyMs: { type: 'number', minimum: 0 },
+        throughputRequestsPerMin: { type: 'number', minimum: 0 }
+      },
+      required: ['qualityTier', 'speedTier', 'costTier']
+    },
+    technicalDetails: {
+      type: 'object',
+      properties: {
+        actualVersion: { type: 'string' },
+        releaseDate: { type: 'string' },
+        trainingCutoff: { type: 'string' },
+        specialCapabilities: stringArray,
+        languageSupport: stringArray,
+        contextHandling: {
+          type: 'object',
+          properties: {
+            effectiveLength: { type: 'string' },
+            recommendations: { type: 'string' }
+          }
+        }
+      }
+    },
+    sources: stringArray,
+    confidence: { type: 'string', enum: ['high', 'medium', 'low'] },
+    lastResearched: { type: 'string' }
+  },
+  required: ['useCaseAnalysis', 'promptOptimization', 'performanceAnalysis', 'technicalDetails', 'confidence']
+};
+
 // Template Discovery Types
 interface TemplateDiscoveryRequest {
   category: string;              // "content-writing", "code-generation", etc.
@@ -190,7 +325,7 @@ interface ModelTemplateGenerationResponse {
   cost: number;
 }
 
-interface EnrichmentConfig {
+export interface EnrichmentConfig {
   aiModel: string;
   configuration?: {
     temperature?: number;
@@ -204,6 +339,7 @@ interface EnrichmentConfig {
   targetDataQuality: 'basic' | 'enhanced' | 'premium';
   testMode: boolean;
   testModelId?: string;
+  autoApply?: boolean; // Production runs: apply results without review
   providerId?: string; // Optional provider filter
   // Filtering options
   filterByRecency?: boolean; // Enable recency filtering
@@ -212,12 +348,33 @@ interface EnrichmentConfig {
   allowedDataQualities?: ('unknown' | 'estimated' | 'outdated' | 'verified')[]; // Allowed data qualities
 }
 
+/**
+ * Events streamed while researching a single model without saving (workflow test panel)
+ */
+export type ModelResearchStreamEvent =
+  | { type: 'delta'; text: string }
+  | {
+      type: 'result';
+      result: {
+        modelId: string;
+        modelName: string;
+        promptUsed: string;
+        aiResponse: string;
+        parsedData: AIResearchResponse;
+        confidence: string;
+        cost: number;
+        timestamp: string;
+      };
+    };
+
 interface EnrichmentExecution {
   id: string;
   workflowId: string;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'paused';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'paused' | 'cancelled';
   startedAt: string;
   completedAt?: string;
+  parentExecutionId?: string; // Set on "retry failed models" executions
+  retryExecutionIds?: string[]; // Retries started from this execution
   totalModels: number;
   processedModels: number;
   successfulModels: number;
@@ -227,6 +384,7 @@ interface EnrichmentExecution {
   logs: EnrichmentLog[];
   config: EnrichmentConfig;
   modelIds?: string[];
+  updatedAt?: string;
 }
 
 interface EnrichmentLog {
@@ -245,7 +403,8 @@ export class AIEnrichmentService {
    */
   static async startEnrichment(
     config: EnrichmentConfig, 
-    modelIds?: string[]
+    modelIds?: string[],
+    options: { parentExecutionId?: string } = {}
   ): Promise<EnrichmentExecution> {
     console.log(`🚀 Starting AI model enrichment workflow${config.testMode ? ' (TEST MODE)' : ''}...`);
     
@@ -268,143 +427,285 @@ export class AIEnrichmentService {
       logs: [],
       config,
       // Always store modelIds - either the provided ones or all models being enriched
-      modelIds: modelIds && modelIds.length > 0 ? modelIds : modelsToEnrich.map(m => m.id)
+      modelIds: modelIds && modelIds.length > 0 ? modelIds : modelsToEnrich.map(m => m.id),
+      ...(options.parentExecutionId && { parentExecutionId: options.parentExecutionId })
     };
     
     // Store execution in database
     await this.saveExecution(execution);
     
-    // Start processing models asynchronously
-    this.processModelsAsync(execution, modelsToEnrich);
+    // Queue one work item per model; a worker (inline below, or scripts/enrichment-worker.js) processes them
+    await EnrichmentJobQueue.enqueue(execution.id, modelsToEnrich.map(model => model.id));
+    this.runInline(execution.id);
     
     return execution;
   }
+
+  /**
+   * Pause an execution. A worker that is processing it stops after the current model.
+   */
+  static async pauseExecution(executionId: string): Promise<void> {
+    const previous = await EnrichmentJobQueue.setStatus(executionId, 'paused', ['queued', 'running']);
+    if (!previous) {
+      throw new Error(`Execution ${executionId} has no enrichment job`);
+    }
+
+    if (previous === 'queued') {
+      // No worker holds it, so the execution can be marked paused right away
+      await this.updateExecutionStatus(executionId, 'paused', 'info', '⏸️ Execution paused');
+    } else {
+      await this.updateExecutionStatus(executionId, null, 'info', '⏸️ Pause requested - stopping after the current model');
+    }
+  }
+
+  /**
+   * Resume a paused execution from its first unprocessed model
+   */
+  static async resumeExecution(executionId: string): Promise<void> {
+    const previous = await EnrichmentJobQueue.setStatus(executionId, 'queued', ['paused']);
+    if (!previous) {
+      throw new Error(`Execution ${executionId} has no enrichment job`);
+    }
+
+    await this.updateExecutionStatus(executionId, 'running', 'info', '▶️ Execution resumed');
+    this.runInline(executionId);
+  }
+
+  /**
+   * Start a child execution for the models that failed in a finished execution. Failed models are
+   * those whose work item failed or that have an error in the execution's logs.
+   */
+  static async retryFailedModels(executionId: string): Promise<EnrichmentExecution> {
+    const parent = await this.getExecution(executionId);
+    if (!parent) {
+      throw new Error(`Execution not found: ${executionId}`);
+    }
+    if (!['completed', 'failed', 'cancelled'].includes(parent.status)) {
+      throw new Error(`Execution ${executionId} is still ${parent.status}`);
+    }
+
+    const failedModelIds = new Set<string>();
+    const items = await EnrichmentJobQueue.getItems(executionId);
+    items.filter(item => item.status === 'failed').forEach(item => failedModelIds.add(item.modelId));
+    (parent.logs || [])
+      .filter(log => log.level === 'error' && log.modelId)
+      .forEach(log => failedModelIds.add(log.modelId!));
+
+    if (failedModelIds.size === 0) {
+      throw new Error(`Execution ${executionId} has no failed models to retry`);
+    }
+
+    const child = await this.startEnrichment(parent.config, Array.from(failedModelIds), { parentExecutionId: executionId });
+
+    await db.collection('workflow_executions').doc(executionId).update({
+      retryExecutionIds: FieldValue.arrayUnion(child.id),
+      logs: FieldValue.arrayUnion({
+        id: `log_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+        timestamp: new Date().toISOString(),
+        level: 'info',
+        message: `🔁 Retrying ${failedModelIds.size} failed models in ${child.id}`
+      })
+    });
+
+    return child;
+  }
+
+  /**
+   * Keep processing a job in this process until it is finished, paused, stopped or claimed elsewhere.
+   * Skipped when ENRICHMENT_WORKER_MODE=external, where only the standalone worker processes jobs.
+   */
+  private static async runInline(jobId: string): Promise<void> {
+    if (process.env.ENRICHMENT_WORKER_MODE === 'external') return;
+
+    const workerId = `inline_${process.pid}_${Math.random().toString(36).substr(2, 6)}`;
+
+    try {
+      while (true) {
+        const job = await EnrichmentJobQueue.getJob(jobId);
+        if (!job || job.status !== 'queued') return;
+
+        // Wait out the delay between batches; pausing or stopping meanwhile makes the claim fail
+        const waitMs = Date.parse(job.availableAt) - Date.now();
+        if (waitMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, waitMs));
+        }
+
+        const claimed = await EnrichmentJobQueue.claim(workerId, { jobId });
+        if (!claimed) return;
+        await this.processJob(jobId, workerId);
+      }
+    } catch (error) {
+      // The lease expires and the job is recovered by the next worker tick
+      console.error(`❌ Inline enrichment worker for ${jobId} failed:`, error);
+    }
+  }
   
   /**
-   * Process models asynchronously
+   * Process a claimed job until it finishes, is paused or stopped, reaches the end of a batch
+   * (the job is requeued after the delay between batches) or passes the deadline.
+   * Returns the job status the lease was released with.
    */
-  private static async processModelsAsync(
-    execution: EnrichmentExecution, 
-    models: ModelDocument[]
-  ): Promise<void> {
+  static async processJob(
+    jobId: string,
+    workerId: string,
+    deadline: number = Infinity
+  ): Promise<EnrichmentJobStatus | null> {
+
+    const execution = await this.getExecution(jobId);
+    if (!execution) {
+      return EnrichmentJobQueue.release(jobId, workerId, 'failed');
+    }
+
+    // Renew the lease while a long model research call is in flight
+    const heartbeatTimer = setInterval(() => {
+      EnrichmentJobQueue.heartbeat(jobId, workerId).catch(error => console.warn(`⚠️ Heartbeat failed for ${jobId}:`, error));
+    }, HEARTBEAT_INTERVAL_MS);
+
     try {
-      let totalCost = 0;
-      
-      // Process in batches
-      for (let i = 0; i < models.length; i += execution.config.batchSize) {
-        // CRITICAL: Check if execution has been stopped before starting each batch
-        const currentExecution = await this.getExecution(execution.id);
-        if (currentExecution?.status === 'failed') {
-          await this.addLog(execution, 'error', '🛑 Execution stopped by user - terminating workflow immediately');
-          return; // Exit immediately
+      const items = await EnrichmentJobQueue.getItems(jobId);
+      const pending = items.filter(item => item.status === 'pending');
+      const batchSize = execution.config.batchSize || 1;
+      let currentBatch: number | null = null;
+      let costLimitedBatch: number | null = null;
+
+      for (const item of pending) {
+        const batchNumber = Math.floor(item.index / batchSize);
+
+        if (currentBatch !== null && batchNumber !== currentBatch) {
+          // Add delay between batches to respect rate limits; any worker can pick the job up afterwards
+          await this.addLog(execution, 'info', `Waiting ${BATCH_DELAY_MS / 1000} seconds before next batch...`);
+          return EnrichmentJobQueue.release(jobId, workerId, 'queued', { delayMs: BATCH_DELAY_MS });
         }
 
-        const batch = models.slice(i, i + execution.config.batchSize);
-        
-        await this.addLog(execution, 'info', `Processing batch ${Math.floor(i / execution.config.batchSize) + 1}...`);
-        
-        for (const model of batch) {
-          try {
-            // Check if execution has been stopped
-            const currentExecution = await this.getExecution(execution.id);
-            if (currentExecution?.status === 'failed') {
-              await this.addLog(execution, 'error', '🛑 Execution stopped by user - terminating workflow immediately');
-              return; // Exit immediately
-            }
-
-            const actionText = execution.config.testMode ? 'Testing research for' : 'Enriching model';
-            await this.addLog(execution, 'info', `${actionText}: ${model.name}`, model.id);
-            
-            // Research model using AI (with stop status check)
-            const researchResult = await this.researchModelWithAI(model, execution.config, execution.id);
-            totalCost += researchResult.cost;
-            
-            if (execution.config.testMode) {
-              // Test mode: Log the research results but don't update the model
-              await this.addLog(execution, 'info', 
-                `Test research completed for ${model.name}. Confidence: ${researchResult.data.confidence}. ` +
-                `Found ${researchResult.data.useCaseAnalysis.idealUseCases.length} use cases, ` +
-                `${researchResult.data.promptOptimization.bestPractices.length} best practices.`,
-                model.id
-              );
-              
-              // Store test results in execution logs for review
-              await this.addLog(execution, 'info', 
-                `Test Results: ${JSON.stringify({
-                  modelId: model.id,
-                  modelName: model.name,
-                  confidence: researchResult.data.confidence,
-                  useCases: researchResult.data.useCaseAnalysis.idealUseCases,
-                  strengths: researchResult.data.useCaseAnalysis.strengths,
-                  bestPractices: researchResult.data.promptOptimization.bestPractices.slice(0, 3), // First 3 only
-                  cost: researchResult.cost.toFixed(4)
-                }, null, 2)}`,
-                model.id
-              );
-            } else {
-              // Production mode: Update model with enriched data
-              await this.updateModelWithEnrichment(model, researchResult.data);
-            }
-            
-            execution.successfulModels++;
-            const successText = execution.config.testMode ? 'Successfully tested' : 'Successfully enriched';
-            await this.addLog(execution, 'success', `${successText}: ${model.name}`, model.id);
-            
-          } catch (error: any) {
-            execution.failedModels++;
-            const errorText = execution.config.testMode ? 'Failed to test' : 'Failed to enrich';
-            await this.addLog(execution, 'error', `${errorText} ${model.name}: ${error.message}`, model.id);
-          }
-          
-          execution.processedModels++;
-          execution.actualCost = totalCost;
-          
-          // Update execution progress
-          await this.saveExecution(execution);
-          
-          // Check cost limit
-          if (totalCost > execution.config.maxCostPerBatch) {
-            await this.addLog(execution, 'warning', 'Cost limit reached, stopping batch processing');
-            break;
-          }
+        if (costLimitedBatch === batchNumber) {
+          const itemRef = await EnrichmentJobQueue.itemRef(jobId, item.id);
+          await itemRef.update({ status: 'skipped', completedAt: new Date().toISOString() });
+          continue;
         }
-        
-        // Add delay between batches to respect rate limits
-        if (i + execution.config.batchSize < models.length) {
-          await this.addLog(execution, 'info', 'Waiting 30 seconds before next batch...');
-          
-          // CRITICAL: Check for stop status during wait period (every 5 seconds)
-          for (let waitTime = 0; waitTime < 30000; waitTime += 5000) {
-            await new Promise(resolve => setTimeout(resolve, Math.min(5000, 30000 - waitTime)));
-            
-            // Check if execution has been stopped during wait
-            const currentExecution = await this.getExecution(execution.id);
-            if (currentExecution?.status === 'failed') {
-              await this.addLog(execution, 'error', '🛑 Execution stopped by user during wait - terminating workflow immediately');
-              return; // Exit immediately
-            }
-          }
+
+        if (Date.now() > deadline) {
+          return EnrichmentJobQueue.release(jobId, workerId, 'queued');
+        }
+
+        // CRITICAL: Check whether the execution has been paused or stopped before each model
+        const jobStatus = await EnrichmentJobQueue.heartbeat(jobId, workerId);
+        if (jobStatus !== 'running') {
+          return this.stopProcessing(execution, jobId, workerId, jobStatus);
+        }
+
+        if (currentBatch === null) {
+          await this.addLog(execution, 'info', `Processing batch ${batchNumber + 1}...`);
+        }
+        currentBatch = batchNumber;
+        await this.processJobItem(execution, jobId, item);
+
+        // Check cost limit
+        if (execution.actualCost > execution.config.maxCostPerBatch) {
+          await this.addLog(execution, 'warning', 'Cost limit reached, stopping batch processing');
+          costLimitedBatch = batchNumber;
         }
       }
-      
+
       // Mark execution as completed
-      execution.status = 'completed';
-      execution.completedAt = new Date().toISOString();
-      await this.saveExecution(execution);
-      
       const completionText = execution.config.testMode ? 'Testing completed!' : 'Enrichment completed!';
       const actionText = execution.config.testMode ? 'tested' : 'enriched';
-      await this.addLog(execution, 'success', 
-        `${completionText} ${execution.successfulModels} successfully ${actionText}, ${execution.failedModels} failed. Total cost: $${totalCost.toFixed(2)}`
+      await this.finishExecution(execution, 'completed', 'success', 
+        `${completionText} ${execution.successfulModels} successfully ${actionText}, ${execution.failedModels} failed. Total cost: $${execution.actualCost.toFixed(2)}`
       );
+      return EnrichmentJobQueue.release(jobId, workerId, 'completed');
       
     } catch (error: any) {
-      execution.status = 'failed';
-      execution.completedAt = new Date().toISOString();
-      await this.saveExecution(execution);
-      await this.addLog(execution, 'error', `Workflow failed: ${error.message}`);
+      await this.finishExecution(execution, 'failed', 'error', `Workflow failed: ${error.message}`);
+      return EnrichmentJobQueue.release(jobId, workerId, 'failed');
+    } finally {
+      clearInterval(heartbeatTimer);
     }
   }
+
+  /**
+   * Research (and in production mode, apply) one model, recording the result on its work item
+   * and the execution's counters in the same write
+   */
+  private static async processJobItem(
+    execution: EnrichmentExecution,
+    jobId: string,
+    item: EnrichmentJobItem
+  ): Promise<void> {
+    const itemRef = await EnrichmentJobQueue.itemRef(jobId, item.id);
+    await itemRef.update({ status: 'processing', attempts: item.attempts + 1, startedAt: new Date().toISOString() });
+
+    const doc = await db.collection('models').doc(item.modelId).get();
+    const model = doc.exists ? ({ id: doc.id, ...doc.data() } as ModelDocument) : null;
+    let itemUpdate: Partial<EnrichmentJobItem>;
+
+    try {
+      if (!model) {
+        throw new Error(`Model ${item.modelId} no longer exists`);
+      }
+
+      const actionText = execution.config.testMode ? 'Testing research for' : 'Enriching model';
+      await this.addLog(execution, 'info', `${actionText}: ${model.name}`, model.id);
+      
+      // Research model using AI (with stop status check)
+      const researchResult = await this.researchModelWithAI(model, execution.config, execution.id);
+      execution.actualCost += researchResult.cost;
+      
+      // Results are staged as change sets for review; production runs with autoApply write them straight away
+      const autoApply = !execution.config.testMode && !!execution.config.autoApply;
+      const changeSet = await this.stageEnrichmentResult(model, researchResult.data, {
+        source: execution.config.testMode ? 'test' : 'enrichment',
+        executionId: execution.id,
+        aiModel: execution.config.aiModel,
+        cost: researchResult.cost,
+        autoApply
+      });
+      await this.addLog(execution, 'info', 
+        `${execution.config.testMode ? 'Test research' : 'Research'} completed for ${model.name}. Confidence: ${researchResult.data.confidence}. ` +
+        `${changeSet.changes.length} field changes ${autoApply ? 'applied' : 'staged for review'} (change set ${changeSet.id}).`,
+        model.id
+      );
+      
+      execution.successfulModels++;
+      const successText = execution.config.testMode ? 'Successfully tested' : 'Successfully enriched';
+      await this.addLog(execution, 'success', `${successText}: ${model.name}`, model.id);
+      itemUpdate = { status: 'succeeded', cost: researchResult.cost };
+      
+    } catch (error: any) {
+      execution.failedModels++;
+      const errorText = execution.config.testMode ? 'Failed to test' : 'Failed to enrich';
+      await this.addLog(execution, 'error', `${errorText} ${model?.name || item.modelId}: ${error.message}`, item.modelId);
+      itemUpdate = { status: 'failed', error: error.message };
+    }
+    
+    execution.processedModels++;
+    
+    // Update execution progress together with the work item, so a resumed run never repeats or skips a model
+    const batch = db.batch();
+    batch.update(itemRef, { ...itemUpdate, completedAt: new Date().toISOString() });
+    batch.update(db.collection('workflow_executions').doc(execution.id), this.progressFields(execution));
+    await batch.commit();
+  }
+
+  /**
+   * Wind down after the job was paused or stopped from outside, or its lease was lost
+   */
+  private static async stopProcessing(
+    execution: EnrichmentExecution,
+    jobId: string,
+    workerId: string,
+    jobStatus: EnrichmentJobStatus | null
+  ): Promise<EnrichmentJobStatus | null> {
+
+    if (jobStatus === 'paused') {
+      await this.updateExecutionStatus(execution.id, 'paused', 'info', `⏸️ Execution paused after ${execution.processedModels} of ${execution.totalModels} models`);
+    } else if (jobStatus === 'cancelled') {
+      // The stop routes already set the status and completedAt
+      await this.updateExecutionStatus(execution.id, null, 'warning', '🛑 Execution cancelled by user - terminating workflow immediately');
+    }
+    // null: another worker owns the job now, so leave the execution to it
+
+    return jobStatus ? EnrichmentJobQueue.release(jobId, workerId, jobStatus) : null;
+  }
   
   /**
    * Research model using AI (Gemini)
@@ -419,7 +720,7 @@ export class AIEnrichmentService {
     // CRITICAL: Final check before expensive API call
     if (executionId) {
       const currentExecution = await this.getExecution(executionId);
-      if (currentExecution?.status === 'failed') {
+      if (currentExecution?.status === 'cancelled' || currentExecution?.status === 'failed') {
         throw new Error('🛑 Execution stopped by user - canceling API call');
       }
     }
@@ -427,7 +728,69 @@ export class AIEnrichmentService {
     // Use centralized AI API Router (MANDATORY - no hardcoded API calls)
     const { AIAPIRouter } = await import('./ai-api-router');
     
-    const response = await AIAPIRouter.executeRequest({
+    const response = await AIAPIRouter.executeRequest(
+      this.buildResearchRequest(model, config, prompt, { executionId })
+    );
+    
+    // Parse AI response
+    const parsedData = this.getResearchData(response, model.name);
+    
+    return { data: parsedData, cost: response.costUSD };
+  }
+
+  /**
+   * Research a single model and stream the AI output as it is generated (no DB update)
+   */
+  static async *streamModelResearch(
+    modelId: string,
+    config: EnrichmentConfig,
+    apiKey?: string // Gemini API key, used only when the research model routes to Gemini
+  ): AsyncGenerator<ModelResearchStreamEvent> {
+    const model = await this.getModelDocument(modelId) as ModelDocument | null;
+    if (!model) {
+      throw new Error(`Model not found in database: ${modelId}`);
+    }
+
+    const prompt = this.buildResearchPrompt(model, config.targetDataQuality);
+    const { AIAPIRouter } = await import('./ai-api-router');
+
+    const request = this.buildResearchRequest(model, config, prompt, { testMode: true });
+    // The key entered in the test UI is a Gemini key; other providers keep their own
+    const { adapter } = await AIAPIRouter.resolveAdapter(request);
+    const streamRequest = adapter.endpoint === 'gemini' && apiKey ? { ...request, apiKey } : request;
+    for await (const event of AIAPIRouter.executeStreamingRequest(streamRequest)) {
+      if (event.type === 'delta') {
+        yield event;
+        continue;
+      }
+
+      const parsedData = this.getResearchData(event.response, model.name);
+      yield {
+        type: 'result',
+        result: {
+          modelId: model.id,
+          modelName: model.name,
+          promptUsed: prompt,
+          aiResponse: event.response.content,
+          parsedData,
+          confidence: parsedData.confidence || 'unknown',
+          cost: event.response.costUSD,
+          timestamp: new Date().toISOString()
+        }
+      };
+    }
+  }
+
+  /**
+   * Router request for model research, shared by batch enrichment and the streaming test
+   */
+  private static buildResearchRequest(
+    model: ModelDocument,
+    config: EnrichmentConfig,
+    prompt: string,
+    metadata: Record<string, any>
+  ): AIModelRequest {
+    return {
       modelName: config.aiModel,
       prompt: prompt,
       configuration: {
@@ -437,6 +800,8 @@ export class AIEnrichmentService {
         topK: config.configuration?.topK || 40,
       },
       parseResponse: true,
+      jsonSchema: AI_RESEARCH_RESPONSE_SCHEMA,
+      jsonSchemaName: 'model_research',
       analytics: {
         useCaseId: 'ai-model-enrichment',
         category: 'service',
@@ -444,15 +809,10 @@ export class AIEnrichmentService {
           targetModelId: model.id,
           targetModelName: model.name,
           dataQuality: config.targetDataQuality,
-          executionId: executionId
+          ...metadata
         }
       }
-    });
-    
-    // Parse AI response
-    const parsedData = this.parseAIResponse(response.content, model.name);
-    
-    return { data: parsedData, cost: response.costUSD };
+    };
   }
   
   /**
@@ -731,6 +1091,26 @@ PRICING: DO NOT OVERRIDE OpenRouter pricing data - it's deterministic and accura
 Return ONLY valid JSON - no additional text or explanations.`;
   }
   
+  /**
+   * Research data from a router response: the schema-validated JSON when available,
+   * otherwise the best-effort parse of the raw text
+   */
+  private static getResearchData(response: AIModelResponse, modelName: string): AIResearchResponse {
+    if (!response.schemaValid) {
+      if (response.schemaErrors?.length) {
+        console.warn(`⚠️ Research response for ${modelName} does not match the schema:`, response.schemaErrors);
+      }
+      return this.parseAIResponse(response.content, modelName);
+    }
+
+    return {
+      ...response.parsedContent,
+      processedAt: new Date().toISOString(),
+      modelName,
+      aiProvider: response.provider
+    };
+  }
+
   /**
    * Parse AI response
    */
@@ -762,15 +1142,47 @@ Return ONLY valid JSON - no additional text or explanations.`;
   }
   
   /**
-   * Update model with enriched data - SCHEMA COMPLIANT VERSION
+   * Stage a research result as a model change set for review; with autoApply every field is accepted right away
    */
-  private static async updateModelWithEnrichment(
+  static async stageEnrichmentResult(
+    model: ModelDocument,
+    aiData: AIResearchResponse,
+    options: {
+      source: ModelChangeSet['source'];
+      executionId?: string;
+      aiModel?: string;
+      cost: number;
+      autoApply?: boolean;
+    }
+  ): Promise<ModelChangeSet> {
+    const changeSet = await ModelChangeSets.stage({
+      model,
+      updates: this.buildEnrichmentUpdates(model, aiData),
+      source: options.source,
+      executionId: options.executionId,
+      confidence: aiData.confidence || 'unknown',
+      confidenceScore: this.calculateConfidenceScore(aiData),
+      sources: (aiData.sources || []).filter((source): source is string => typeof source === 'string'),
+      aiModel: options.aiModel,
+      cost: options.cost
+    });
+
+    if (options.autoApply && changeSet.changes.length > 0) {
+      return ModelChangeSets.accept(changeSet, undefined, 'Auto-applied by enrichment run');
+    }
+    return changeSet;
+  }
+  
+  /**
+   * Model fields an enrichment result would update - SCHEMA COMPLIANT VERSION
+   */
+  private static buildEnrichmentUpdates(
     model: ModelDocument, 
     aiData: AIResearchResponse
-  ): Promise<void> {
+  ): Partial<ModelDocument> {
     const updates: Partial<ModelDocument> = {};
     
-    console.log(`🔄 Updating model in database: ${model.name} (${model.id})`);
+    console.log(`🔄 Building enrichment updates for model: ${model.name} (${model.id})`);
     
     // Update use cases and strengths
     if (aiData.useCaseAnalysis) {
@@ -885,6 +1297,7 @@ Return ONLY valid JSON - no additional text or explanations.`;
         inputTokenCost: aiPricing.inputTokenCost || model.pricing?.inputTokenCost,
         outputTokenCost: aiPricing.outputTokenCost || model.pricing?.outputTokenCost,
         imageInputCost: aiPricing.imageInputCost || model.pricing?.imageInputCost,
+        unit: 'per-1k-tokens' as const,
         currency: 'USD',
         source: 'third-party' as const,
         lastUpdated: Timestamp.now(),
@@ -989,16 +1402,7 @@ Return ONLY valid JSON - no additional text or explanations.`;
     
     updates.updatedAt = Timestamp.now();
     
-    console.log(`💾 Attempting database update for model: ${model.id}`);
-    
-    try {
-      // Save to database
-      await db.collection('models').doc(model.id).update(updates);
-      console.log(`✅ Successfully updated model in database: ${model.name}`);
-    } catch (error: any) {
-      console.error(`❌ Database update failed for ${model.name}:`, error);
-      throw new Error(`Database update failed: ${error.message}`);
-    }
+    return updates;
   }
   
   /**
@@ -1044,6 +1448,41 @@ Return ONLY valid JSON - no additional text or explanations.`;
     }
   }
 
+  /**
+   * Models whose lastSuccessfulUpdate is older than their updateFrequency allows, most overdue first.
+   * Models never updated count as most overdue. Discontinued models and models with a change set
+   * still waiting for review are left out, so unreviewed research isn't paid for twice.
+   */
+  static async findStaleModels(options: { providerId?: string; limit?: number } = {}): Promise<ModelDocument[]> {
+    const now = Date.now();
+
+    let query: FirebaseFirestore.Query = db.collection('models');
+    if (options.providerId) {
+      query = query.where('providerId', '==', options.providerId);
+    }
+
+    const [modelsSnapshot, pendingSnapshot] = await Promise.all([
+      query.get(),
+      db.collection(CHANGE_SET_COLLECTION).where('status', '==', 'pending').select('modelId').get()
+    ]);
+    const pendingReview = new Set(pendingSnapshot.docs.map(doc => doc.get('modelId') as string));
+
+    const stale = modelsSnapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as ModelDocument))
+      .filter(model => model.status !== 'discontinued' && !pendingReview.has(model.id))
+      .map(model => {
+        const lastUpdate = model.dataSource?.lastSuccessfulUpdate?.toDate?.()?.getTime();
+        const maxAge = UPDATE_FREQUENCY_MS[model.dataSource?.updateFrequency || DEFAULT_UPDATE_FREQUENCY] ?? UPDATE_FREQUENCY_MS[DEFAULT_UPDATE_FREQUENCY];
+        return { model, overdueMs: lastUpdate ? now - lastUpdate - maxAge : Infinity };
+      })
+      .filter(item => item.overdueMs > 0)
+      .sort((a, b) => b.overdueMs - a.overdueMs)
+      .map(item => item.model);
+
+    console.log(`🕰️ Found ${stale.length} stale models${options.providerId ? ` from provider ${options.providerId}` : ''}`);
+    return options.limit ? stale.slice(0, options.limit) : stale;
+  }
+
   /** 
    * Intelligent model selection prioritizing models that need enrichment most
    */
@@ -1232,14 +1671,42 @@ Return ONLY valid JSON - no additional text or explanations.`;
   }
   
   /**
-   * Save execution to database
+   * Create the execution document. Afterwards the worker only writes its progress fields and appends
+   * logs, because the pause, resume and stop routes change status and logs while a job runs.
    */
   private static async saveExecution(execution: EnrichmentExecution): Promise<void> {
     await db.collection('workflow_executions').doc(execution.id).set(execution, { merge: true });
   }
+
+  /**
+   * The counters and cost the worker owns on the execution document
+   */
+  private static progressFields(execution: EnrichmentExecution): Partial<EnrichmentExecution> {
+    return {
+      processedModels: execution.processedModels,
+      successfulModels: execution.successfulModels,
+      failedModels: execution.failedModels,
+      actualCost: execution.actualCost,
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Build a log entry for the execution and echo it to the console
+   */
+  private static buildLog(level: EnrichmentLog['level'], message: string, modelId?: string): EnrichmentLog {
+    console.log(`[${level.toUpperCase()}] ${message}${modelId ? ` (${modelId})` : ''}`);
+    return {
+      id: `log_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+      timestamp: new Date().toISOString(),
+      level,
+      message,
+      ...(modelId && { modelId }) // Only include modelId if it's defined
+    };
+  }
   
   /**
-   * Add log entry
+   * Append a log entry to the execution
    */
   private static async addLog(
     execution: EnrichmentExecution, 
@@ -1247,23 +1714,47 @@ Return ONLY valid JSON - no additional text or explanations.`;
     message: string, 
     modelId?: string
   ): Promise<void> {
-    const log: EnrichmentLog = {
-      id: `log_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
-      timestamp: new Date().toISOString(),
-      level,
-      message,
-      ...(modelId && { modelId }) // Only include modelId if it's defined
-    };
-    
-    execution.logs.push(log);
-    console.log(`[${level.toUpperCase()}] ${message}${modelId ? ` (${modelId})` : ''}`);
-    
-    // Keep only last 100 logs to prevent document size issues
-    if (execution.logs.length > 100) {
-      execution.logs = execution.logs.slice(-100);
-    }
-    
-    await this.saveExecution(execution);
+    await db.collection('workflow_executions').doc(execution.id).update({
+      logs: FieldValue.arrayUnion(this.buildLog(level, message, modelId))
+    });
+  }
+  
+  /**
+   * Set an execution's status (null keeps it) and append a log entry without rewriting the document
+   */
+  private static async updateExecutionStatus(
+    executionId: string,
+    status: EnrichmentExecution['status'] | null,
+    level: EnrichmentLog['level'],
+    message: string
+  ): Promise<void> {
+    await db.collection('workflow_executions').doc(executionId).update({
+      ...(status && { status }),
+      logs: FieldValue.arrayUnion(this.buildLog(level, message))
+    });
+  }
+
+  /**
+   * Record the final progress and mark the execution completed or failed, unless it was paused or
+   * cancelled meanwhile
+   */
+  private static async finishExecution(
+    execution: EnrichmentExecution,
+    status: 'completed' | 'failed',
+    level: EnrichmentLog['level'],
+    message: string
+  ): Promise<void> {
+    const executionRef = db.collection('workflow_executions').doc(execution.id);
+    const log = this.buildLog(level, message);
+
+    await db.runTransaction(async transaction => {
+      const current = await transaction.get(executionRef);
+      transaction.update(executionRef, {
+        ...this.progressFields(execution),
+        ...(current.get('status') === 'running' && { status, completedAt: new Date().toISOString() }),
+        logs: FieldValue.arrayUnion(log)
+      });
+    });
   }
   
   /**
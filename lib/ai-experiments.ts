@@ -0,0 +1,227 @@
+/**
+ * AI Experiments - Admin Panel Version
+ *
+ * A/B experiments and staged rollouts for use case configurations. When a use case has an
+ * enabled experimentConfig, executeForUseCase assigns each request to a weighted variant and
+ * merges the variant's model, generation and prompt overrides over the base configuration.
+ *
+ * Assignment is sticky: the same userId (or organizationId) always lands in the same variant
+ * of an experiment. Requests without either are assigned at random.
+ * The experiment and variant IDs are recorded on every aiExecutions document.
+ */
+
+import { createHash } from 'crypto';
+import type {
+  AIConfiguredRequest,
+  AIExperimentConfiguration,
+  AIExperimentVariant,
+  AIUseCaseConfig
+} from '@/types/ai-configuration-schema';
+import type { AIModelRequest } from './ai-api-router';
+import {
+  appendConfigurationHistory,
+  diffConfigurations,
+  formatConfigurationChange,
+  getNextVersion,
+  toConfigurationSnapshot
+} from './ai-config-history';
+
+const VARIANT_STATS_LIMIT = 5000; // Most recent executions per experiment used for the comparison
+
+export type AIExperimentSubject = Pick<AIConfiguredRequest, 'userId' | 'organizationId' | 'sessionId'>;
+
+export interface AIExperimentAssignment {
+  experimentId: string;
+  variant: AIExperimentVariant;
+  config: AIUseCaseConfig; // Base configuration with the variant's overrides applied
+}
+
+export interface AIExperimentVariantStats {
+  variantId: string;
+  weight: number;
+  requests: number;
+  successRate: number; // Percentage
+  avgLatencyMs: number;
+  avgCostUSD: number;
+  totalCostUSD: number;
+  avgQualityScore: number | null; // Mean qualityScore of evaluated executions
+  qualitySamples: number;
+}
+
+/**
+ * Stable position in [0, 1) for an assignment key within an experiment
+ */
+function getBucket(experimentId: string, key: string): number {
+  const digest = createHash('sha256').update(`${experimentId}:${key}`).digest('hex');
+  return parseInt(digest.slice(0, 8), 16) / 0x100000000;
+}
+
+function getAssignmentKey(experiment: AIExperimentConfiguration, subject: AIExperimentSubject): string | undefined {
+  return experiment.stickyBy === 'organizationId'
+    ? subject.organizationId || subject.userId || subject.sessionId
+    : subject.userId || subject.organizationId || subject.sessionId;
+}
+
+export class AIExperiments {
+  /**
+   * Variant for a request, or null when the use case has no running experiment
+   */
+  static assign(config: AIUseCaseConfig, subject: AIExperimentSubject = {}): AIExperimentAssignment | null {
+    const experiment = config.experimentConfig;
+    const variants = (experiment?.variants || []).filter(variant => variant.weight > 0);
+    if (!experiment?.enabled || variants.length === 0) return null;
+
+    const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+    const key = getAssignmentKey(experiment, subject);
+    let position = (key ? getBucket(experiment.experimentId, key) : Math.random()) * totalWeight;
+
+    let variant = variants[variants.length - 1];
+    for (const candidate of variants) {
+      if (position < candidate.weight) {
+        variant = candidate;
+        break;
+      }
+      position -= candidate.weight;
+    }
+
+    return { experimentId: experiment.experimentId, variant, config: this.applyVariant(config, variant) };
+  }
+
+  /**
+   * Merge a variant's overrides over the base configuration
+   */
+  static applyVariant(config: AIUseCaseConfig, variant: AIExperimentVariant): AIUseCaseConfig {
+    return {
+      ...config,
+      modelConfig: { ...config.modelConfig, ...variant.modelConfig },
+      generationConfig: { ...config.generationConfig, ...variant.generationConfig },
+      promptConfig: { ...config.promptConfig, ...variant.promptConfig }
+    };
+  }
+
+  /**
+   * Apply a variant's prompt overrides to a request: systemPrompt replaces the caller's,
+   * promptTemplate replaces the user prompt when the caller supplies template variables
+   */
+  static applyVariantPrompt<T extends Partial<AIModelRequest>>(request: T, variant: AIExperimentVariant): T {
+    const { systemPrompt, promptTemplate } = variant.promptConfig || {};
+    return {
+      ...request,
+      ...(systemPrompt && { systemPrompt }),
+      ...(promptTemplate && request.variables && { userPrompt: promptTemplate, prompt: undefined })
+    };
+  }
+
+  /**
+   * Cost, latency, success rate and quality per variant, from the experiment's recent executions.
+   * Cache hits are left out since they don't exercise the variant.
+   */
+  static async getVariantStats(experiment: AIExperimentConfiguration): Promise<AIExperimentVariantStats[]> {
+    const { adminDb } = await import('./firebase-admin');
+    const snapshot = await adminDb
+      .collection('aiExecutions')
+      .where('experimentId', '==', experiment.experimentId)
+      .orderBy('timestamp', 'desc')
+      .limit(VARIANT_STATS_LIMIT)
+      .select('variantId', 'success', 'latencyMs', 'costUSD', 'qualityScore', 'cacheHit')
+      .get();
+
+    const totals = new Map<string, {
+      requests: number;
+      successes: number;
+      latencyMs: number;
+      costUSD: number;
+      qualityScore: number;
+      qualitySamples: number;
+    }>();
+    for (const variant of experiment.variants) {
+      totals.set(variant.variantId, { requests: 0, successes: 0, latencyMs: 0, costUSD: 0, qualityScore: 0, qualitySamples: 0 });
+    }
+
+    snapshot.forEach(doc => {
+      const data = doc.data();
+      if (data.cacheHit || !data.variantId) return;
+
+      const total = totals.get(data.variantId) ||
+        { requests: 0, successes: 0, latencyMs: 0, costUSD: 0, qualityScore: 0, qualitySamples: 0 };
+      total.requests++;
+      if (data.success) total.successes++;
+      total.latencyMs += data.latencyMs || 0;
+      total.costUSD += data.costUSD || 0;
+      if (typeof data.qualityScore === 'number') {
+        total.qualityScore += data.qualityScore;
+        total.qualitySamples++;
+      }
+      totals.set(data.variantId, total);
+    });
+
+    return Array.from(totals.entries()).map(([variantId, total]) => ({
+      variantId,
+      weight: experiment.variants.find(variant => variant.variantId === variantId)?.weight ?? 0,
+      requests: total.requests,
+      successRate: total.requests ? Math.round((total.successes / total.requests) * 1000) / 10 : 0,
+      avgLatencyMs: total.requests ? Math.round(total.latencyMs / total.requests) : 0,
+      avgCostUSD: total.requests ? total.costUSD / total.requests : 0,
+      totalCostUSD: total.costUSD,
+      avgQualityScore: total.qualitySamples ? Math.round((total.qualityScore / total.qualitySamples) * 10) / 10 : null,
+      qualitySamples: total.qualitySamples
+    }));
+  }
+
+  /**
+   * Make a variant's overrides the base configuration and end the experiment.
+   * The promotion is saved as a new configuration version.
+   */
+  static async promoteVariant(useCaseId: string, variantId: string): Promise<AIUseCaseConfig> {
+    const { adminDb } = await import('./firebase-admin');
+    const docRef = adminDb.collection('aiUseCaseConfigs').doc(useCaseId);
+    const doc = await docRef.get();
+    if (!doc.exists) {
+      throw new Error(`Configuration not found: ${useCaseId}`);
+    }
+
+    const current = doc.data() as AIUseCaseConfig;
+    const experiment = current.experimentConfig;
+    const variant = experiment?.variants.find(candidate => candidate.variantId === variantId);
+    if (!experiment || !variant) {
+      throw new Error(`Variant ${variantId} not found in the experiment for ${useCaseId}`);
+    }
+
+    const promoted = this.applyVariant(current, variant);
+    const endedExperiment: AIExperimentConfiguration = {
+      ...experiment,
+      enabled: false,
+      endedAt: new Date().toISOString(),
+      winnerVariantId: variantId
+    };
+    const currentVersion = current.metadata?.version || '1.0.0';
+    const changes = diffConfigurations(
+      toConfigurationSnapshot(current),
+      toConfigurationSnapshot({ ...promoted, experimentConfig: endedExperiment })
+    ).map(formatConfigurationChange);
+
+    await docRef.update({
+      modelConfig: promoted.modelConfig,
+      generationConfig: promoted.generationConfig,
+      promptConfig: promoted.promptConfig,
+      experimentConfig: endedExperiment,
+      'metadata.version': getNextVersion(currentVersion),
+      'metadata.configurationHistory': appendConfigurationHistory(current.metadata?.configurationHistory, {
+        version: currentVersion,
+        timestamp: new Date() as any,
+        changes: [`Promoted variant ${variantId} of experiment ${experiment.experimentId}`, ...changes],
+        changedBy: 'admin',
+        rollbackData: toConfigurationSnapshot(current)
+      }),
+      'metadata.updatedAt': new Date(),
+      'metadata.updatedBy': 'admin'
+    });
+
+    console.log(`🧪 Promoted variant ${variantId} of ${experiment.experimentId} for ${useCaseId}`);
+
+    const updatedDoc = await docRef.get();
+    return { useCaseId, ...updatedDoc.data() } as AIUseCaseConfig;
+  }
+}
+
+export default AIExperiments;
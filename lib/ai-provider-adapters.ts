@@ -0,0 +1,1213 @@
+/**
+ * AI Provider Adapters - Admin Panel Version
+ *
+ * Each adapter knows how to call one kind of API endpoint and how to turn that
+ * endpoint's usage payload into token counts and cost. AIAPIRouter picks the
+ * adapter from the provider's ProviderDocument (apiBaseUrl / authTypes) and only
+ * falls back to the model-name heuristic when the provider has no usable URL.
+ *
+ * Supported endpoints:
+ * - gemini             → Google Gemini API (SDK)
+ * - openrouter         → OpenRouter chat completions
+ * - openai             → OpenAI chat completions
+ * - anthropic          → Anthropic messages API
+ * - mistral            → Mistral chat completions
+ * - azure-openai       → Azure OpenAI deployments
+ * - openai-compatible  → self-hosted OpenAI-compatible servers (vLLM, Ollama, ...)
+ */
+
+import {
+  FunctionCallingMode,
+  GoogleGenerativeAI,
+  type Content,
+  type EnhancedGenerateContentResponse,
+  type FunctionDeclarationSchema,
+  type GenerateContentRequest,
+  type Part,
+  type ResponseSchema,
+  type ToolConfig
+} from '@google/generative-ai';
+
+import type { ProviderDocument } from '@/types/model-schema';
+import type {
+  AIChatMessage,
+  AIContentPart,
+  AIModelRequest,
+  AIModelResponse,
+  AIStreamEvent,
+  AIToolCall
+} from './ai-api-router';
+import { readServerSentEvents } from './server-sent-events';
+
+export type AIProviderEndpoint =
+  | 'gemini'
+  | 'openrouter'
+  | 'openai'
+  | 'anthropic'
+  | 'mistral'
+  | 'azure-openai'
+  | 'openai-compatible';
+
+export type AIModelUsage = AIModelResponse['usage'];
+
+/**
+ * Everything an adapter needs to know about where it is sending a request
+ */
+export interface AIProviderContext {
+  provider: ProviderDocument | null;
+  baseUrl: string;
+  startTime: number;
+}
+
+export interface AIProviderAdapter {
+  endpoint: AIProviderEndpoint;
+  displayName: string;
+  defaultBaseUrl: string;
+
+  /** Whether this adapter should serve the given provider document */
+  matches(provider: ProviderDocument): boolean;
+
+  /** Whether a key for this adapter is available (from the request or the environment) */
+  hasCredentials(request: AIModelRequest, provider: ProviderDocument | null): boolean;
+
+  execute(request: AIModelRequest, context: AIProviderContext): Promise<AIModelResponse>;
+
+  /** Yield text deltas as they arrive, then a single 'done' event with final usage and cost */
+  stream?(request: AIModelRequest, context: AIProviderContext): AsyncGenerator<AIStreamEvent>;
+
+  /** Cost in USD for a completed call */
+  calculateCost(modelName: string, usage: AIModelUsage): number;
+}
+
+// ============================================================================
+// SHARED HELPERS
+// ============================================================================
+
+/**
+ * Substitute {{variable}} and {{$variable}} placeholders
+ */
+export function applyPromptVariables(text: string, variables?: Record<string, string>): string {
+  if (!variables) return text;
+
+  let result = text;
+  Object.entries(variables).forEach(([key, value]) => {
+    const patterns = [
+      new RegExp(`\\{\\{\\s*${key}\\s*\\}\\}`, 'g'),
+      new RegExp(`\\{\\{\\s*\\$${key}\\s*\\}\\}`, 'g')
+    ];
+    patterns.forEach(pattern => {
+      result = result.replace(pattern, value);
+    });
+  });
+  return result;
+}
+
+/**
+ * Hostname of a provider base URL, or null when the URL is missing or a placeholder
+ */
+function getBaseUrlHost(apiBaseUrl?: string): string | null {
+  if (!apiBaseUrl || apiBaseUrl === 'unknown') return null;
+  try {
+    return new URL(apiBaseUrl).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Default pricing table (USD per 1M tokens), used until the model catalog is consulted
+ */
+const DEFAULT_PRICING: Record<string, { input: number; output: number }> = {
+  // Google AI models
+  'gemini-1.5-pro': { input: 0.5, output: 1.5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.0-pro': { input: 0.5, output: 1.5 },
+  'gemini-2.0-pro': { input: 1, output: 2 },
+  'gemini-2.0-flash': { input: 0.2, output: 0.4 },
+  'gemini-2.0-flash-lite-001': { input: 0.05, output: 0.1 },
+  'gemini-2.5-pro': { input: 1.5, output: 3 },
+
+  // OpenAI models
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'openai/gpt-4': { input: 30, output: 60 },
+  'openai/gpt-4-turbo': { input: 10, output: 30 },
+  'openai/gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+
+  // Anthropic models
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-sonnet': { input: 3, output: 15 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'anthropic/claude-3-opus': { input: 15, output: 75 },
+  'anthropic/claude-3-sonnet': { input: 3, output: 15 },
+  'anthropic/claude-3-haiku': { input: 0.25, output: 1.25 },
+
+  // Mistral models
+  'mistral-large-latest': { input: 2, output: 6 },
+  'mistral-small-latest': { input: 0.2, output: 0.6 },
+  'open-mistral-nemo': { input: 0.15, output: 0.15 },
+};
+
+function getDefaultPricing(modelName: string): { input: number; output: number } {
+  return DEFAULT_PRICING[modelName] || { input: 1, output: 2 }; // Default fallback
+}
+
+function tokenCost(modelName: string, usage: AIModelUsage): number {
+  const pricing = getDefaultPricing(modelName);
+  return ((usage.promptTokens * pricing.input) + (usage.completionTokens * pricing.output)) / 1_000_000;
+}
+
+/**
+ * Strip an OpenRouter-style "provider/" prefix for APIs that expect bare model IDs
+ */
+function stripProviderPrefix(modelName: string): string {
+  return modelName.split('/').pop() || modelName;
+}
+
+function getUserContent(request: AIModelRequest): string {
+  return applyPromptVariables(request.userPrompt || request.prompt || '', request.variables);
+}
+
+/**
+ * Whether the request opens with a user prompt; message-only requests start straight from `messages`
+ */
+function hasUserPrompt(request: AIModelRequest): boolean {
+  return !!(request.userPrompt || request.prompt) || !request.messages?.length;
+}
+
+/**
+ * Text of a message, ignoring media parts
+ */
+export function getMessageText(content: AIChatMessage['content']): string {
+  if (typeof content === 'string') return content;
+  return content.map(part => (part.type === 'text' ? part.text : '')).join('');
+}
+
+/**
+ * Number of image and audio parts across a request's messages
+ */
+export function countMediaParts(request: AIModelRequest): { images: number; audio: number } {
+  const counts = { images: 0, audio: 0 };
+  for (const message of request.messages || []) {
+    if (typeof message.content === 'string') continue;
+    for (const part of message.content) {
+      if (part.type === 'image') counts.images++;
+      if (part.type === 'audio') counts.audio++;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Rough token count (~4 characters per token) for streams that don't report usage
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Rough prompt token count for a request (system prompt, user prompt with variables applied,
+ * and any later conversation turns)
+ */
+export function estimatePromptTokens(request: AIModelRequest): number {
+  const turns = (request.messages || []).map(message => getMessageText(message.content)).join('');
+  return estimateTokens(`${request.systemPrompt || ''}${getUserContent(request)}${turns}`);
+}
+
+/**
+ * Abort signal for request.timeoutMs, if set
+ */
+function getTimeoutSignal(request: AIModelRequest): AbortSignal | undefined {
+  return request.timeoutMs ? AbortSignal.timeout(request.timeoutMs) : undefined;
+}
+
+/**
+ * Tool call arguments arrive as a JSON string from OpenAI-style APIs
+ */
+function parseToolArguments(raw: unknown, toolName: string): Record<string, any> {
+  if (raw && typeof raw === 'object') return raw as Record<string, any>;
+  if (typeof raw !== 'string' || !raw.trim()) return {};
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    console.warn(`⚠️ Could not parse arguments for tool ${toolName}:`, raw);
+    return {};
+  }
+}
+
+/**
+ * Tool results as an object, for APIs that only accept structured results (Gemini)
+ */
+function toToolResultObject(content: string): Record<string, any> {
+  try {
+    const parsed = JSON.parse(content);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : { result: parsed };
+  } catch (error) {
+    return { result: content };
+  }
+}
+
+async function throwForStatus(response: Response, displayName: string): Promise<void> {
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`${displayName} API error: ${response.status} ${errorText}`);
+  }
+}
+
+// ============================================================================
+// GEMINI
+// ============================================================================
+
+class GeminiAdapter implements AIProviderAdapter {
+  endpoint: AIProviderEndpoint = 'gemini';
+  displayName = 'Google Gemini';
+  defaultBaseUrl = 'https://generativelanguage.googleapis.com';
+
+  private client: GoogleGenerativeAI | null = null;
+
+  matches(provider: ProviderDocument): boolean {
+    const host = getBaseUrlHost(provider.apiBaseUrl);
+    return host === 'generativelanguage.googleapis.com';
+  }
+
+  hasCredentials(request: AIModelRequest): boolean {
+    return !!(request.apiKey || process.env.GEMINI_API_KEY);
+  }
+
+  /**
+   * Normalize Gemini model IDs to the format expected by Google's SDK.
+   */
+  normalizeModelName(modelName: string): string {
+    if (!modelName) return modelName;
+    // Keep only the last path segment if slashes are present
+    let lastSegment = modelName.split('/').pop() || modelName;
+    // Some sources may prefix with "models/"
+    lastSegment = lastSegment.replace(/^models\//i, '');
+
+    // Alias known variants to canonical model IDs accepted by Google SDK
+    const aliasMap: Record<string, string> = {
+      'gemini-2.0-flash-lite-001': 'gemini-2.0-flash-lite',
+      'gemini-2.0-flash-001': 'gemini-2.0-flash',
+      'gemini-pro': 'gemini-1.0-pro',
+    };
+
+    if (aliasMap[lastSegment]) {
+      return aliasMap[lastSegment];
+    }
+
+    // Fallback: strip trailing build suffixes like -001, -002 when present
+    return lastSegment.replace(/-(\d{3})$/, '');
+  }
+
+  private getClient(request: AIModelRequest): GoogleGenerativeAI {
+    // A per-request key (entered in the admin UI) gets its own short-lived client
+    if (request.apiKey) {
+      return new GoogleGenerativeAI(request.apiKey);
+    }
+    if (!this.client) {
+      if (!process.env.GEMINI_API_KEY) {
+        throw new Error('GEMINI_API_KEY is not configured');
+      }
+      this.client = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
+    }
+    return this.client;
+  }
+
+  /**
+   * Candidate model IDs to try, in order, when Google returns 404 for a name
+   */
+  private getCandidateModels(modelName: string): string[] {
+    const normalizedModelName = this.normalizeModelName(modelName);
+    return Array.from(new Set([
+      normalizedModelName,
+      normalizedModelName.replace(/-(\d{3})$/, ''),
+      normalizedModelName.endsWith('-preview') ? normalizedModelName : `${normalizedModelName}-preview`,
+      normalizedModelName.endsWith('-latest') ? normalizedModelName : `${normalizedModelName}-latest`,
+    ].filter(Boolean)));
+  }
+
+  private getModel(client: GoogleGenerativeAI, candidate: string, request: AIModelRequest) {
+    return client.getGenerativeModel({
+      model: candidate,
+      generationConfig: {
+        temperature: request.configuration?.temperature ?? 0.7,
+        maxOutputTokens: request.configuration?.maxTokens ?? 1000,
+        topP: request.configuration?.topP ?? 0.9,
+        topK: request.configuration?.topK ?? 40,
+        ...(request.configuration?.stopSequences?.length && { stopSequences: request.configuration.stopSequences }),
+        ...(request.jsonSchema && {
+          responseMimeType: 'application/json',
+          responseSchema: this.toGeminiSchema(request.jsonSchema) as ResponseSchema
+        })
+      },
+      ...(request.tools?.length && {
+        tools: [{
+          functionDeclarations: request.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            parameters: this.toGeminiSchema(tool.parameters) as FunctionDeclarationSchema
+          }))
+        }],
+        toolConfig: this.getToolConfig(request)
+      })
+    });
+  }
+
+  /**
+   * Gemini accepts an OpenAPI subset of JSON Schema: keep the keywords it understands,
+   * turn ["string", "null"] types into nullable, and keep enums on strings only
+   */
+  private toGeminiSchema(schema: any): any {
+    if (!schema || typeof schema !== 'object') return schema;
+
+    const types: string[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+    const type = types.find(candidate => candidate !== 'null');
+    const result: Record<string, any> = {};
+
+    if (type) result.type = type;
+    if (types.includes('null') || schema.nullable) result.nullable = true;
+    for (const key of ['format', 'description', 'required', 'minItems', 'maxItems', 'minimum', 'maximum', 'propertyOrdering']) {
+      if (schema[key] !== undefined) result[key] = schema[key];
+    }
+    if (Array.isArray(schema.enum) && type === 'string') {
+      result.enum = schema.enum.filter((option: unknown) => typeof option === 'string');
+    }
+    if (schema.properties && typeof schema.properties === 'object') {
+      result.properties = Object.fromEntries(
+        Object.entries(schema.properties).map(([key, value]) => [key, this.toGeminiSchema(value)])
+      );
+    }
+    if (schema.items && typeof schema.items === 'object') {
+      result.items = this.toGeminiSchema(schema.items);
+    }
+    return result;
+  }
+
+  private getToolConfig(request: AIModelRequest): ToolConfig {
+    const choice = request.toolChoice || 'auto';
+    if (typeof choice === 'object') {
+      return { functionCallingConfig: { mode: FunctionCallingMode.ANY, allowedFunctionNames: [choice.name] } };
+    }
+    const modes = { auto: FunctionCallingMode.AUTO, none: FunctionCallingMode.NONE, required: FunctionCallingMode.ANY };
+    return { functionCallingConfig: { mode: modes[choice] } };
+  }
+
+  private toGeminiPart(part: AIContentPart): Part {
+    if (part.type === 'text') return { text: part.text };
+    if (!part.mimeType) {
+      throw new Error(`Gemini needs a mimeType for ${part.type} input`);
+    }
+    return part.data
+      ? { inlineData: { mimeType: part.mimeType, data: part.data } }
+      : { fileData: { mimeType: part.mimeType, fileUri: part.url || '' } };
+  }
+
+  /**
+   * Plain prompts stay a single flattened string; conversations become Gemini contents
+   * with the system prompt as systemInstruction
+   */
+  private buildRequest(request: AIModelRequest): string | GenerateContentRequest {
+    if (!request.messages?.length) return this.buildPrompt(request);
+
+    const contents: Content[] = hasUserPrompt(request)
+      ? [{ role: 'user', parts: [{ text: getUserContent(request) }] }]
+      : [];
+    for (const message of request.messages) {
+      if (message.role === 'assistant') {
+        contents.push({
+          role: 'model',
+          parts: [
+            ...(message.content ? [{ text: message.content }] : []),
+            ...(message.toolCalls || []).map(call => ({ functionCall: { name: call.name, args: call.arguments } }))
+          ]
+        });
+      } else if (message.role === 'tool') {
+        const part = { functionResponse: { name: message.name, response: toToolResultObject(message.content) } };
+        // Results for one turn's calls go back together in a single 'function' content
+        const last = contents[contents.length - 1];
+        if (last && last.role === 'function') {
+          last.parts.push(part);
+        } else {
+          contents.push({ role: 'function', parts: [part] });
+        }
+      } else {
+        contents.push({
+          role: 'user',
+          parts: typeof message.content === 'string'
+            ? [{ text: message.content }]
+            : message.content.map(part => this.toGeminiPart(part))
+        });
+      }
+    }
+    return {
+      contents,
+      ...(request.systemPrompt && { systemInstruction: applyPromptVariables(request.systemPrompt, request.variables) })
+    };
+  }
+
+  private toToolCalls(response: EnhancedGenerateContentResponse): AIToolCall[] | undefined {
+    const calls = response.functionCalls();
+    if (!calls?.length) return undefined;
+
+    // Gemini calls have no IDs; results are matched back by function name
+    const turn = Date.now().toString(36);
+    return calls.map((call, index) => ({
+      id: `gemini-${turn}-${index}`,
+      name: call.name,
+      arguments: (call.args || {}) as Record<string, any>
+    }));
+  }
+
+  private buildPrompt(request: AIModelRequest): string {
+    let finalPrompt = '';
+    if (request.systemPrompt) {
+      finalPrompt += `System: ${request.systemPrompt}\n\n`;
+    }
+    if (request.userPrompt) {
+      finalPrompt += `User: ${request.userPrompt}`;
+    } else if (request.prompt) {
+      finalPrompt += request.prompt;
+    }
+    return applyPromptVariables(finalPrompt, request.variables);
+  }
+
+  /**
+   * Run `call` against each candidate model until one does not 404
+   */
+  private async withCandidates<T>(
+    request: AIModelRequest,
+    call: (candidate: string) => Promise<T>
+  ): Promise<{ candidate: string; result: T }> {
+    let lastError: any = null;
+    for (const candidate of this.getCandidateModels(request.modelName)) {
+      try {
+        return { candidate, result: await call(candidate) };
+      } catch (err: any) {
+        lastError = err;
+        const status = err?.status || err?.response?.status;
+        const message: string = typeof err?.message === 'string' ? err.message : '';
+        const is404 = status === 404 || /404/.test(message);
+        console.warn(`⚠️ Gemini model '${candidate}' failed${is404 ? ' (404)' : ''}, trying next candidate if available...`);
+        if (!is404) {
+          break;
+        }
+      }
+    }
+
+    throw lastError || new Error(`Failed to call Gemini model: ${this.normalizeModelName(request.modelName)}`);
+  }
+
+  private toUsage(usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+    cachedContentTokenCount?: number;
+  }): AIModelUsage {
+    return {
+      promptTokens: usageMetadata?.promptTokenCount || 0,
+      completionTokens: usageMetadata?.candidatesTokenCount || 0,
+      totalTokens: usageMetadata?.totalTokenCount || 0,
+      ...(usageMetadata?.cachedContentTokenCount && { cachedPromptTokens: usageMetadata.cachedContentTokenCount })
+    };
+  }
+
+  async execute(request: AIModelRequest, context: AIProviderContext): Promise<AIModelResponse> {
+    const client = this.getClient(request);
+    const prompt = this.buildRequest(request);
+
+    const { candidate, result } = await this.withCandidates(request, candidate =>
+      this.getModel(client, candidate, request).generateContent(prompt, { timeout: request.timeoutMs })
+    );
+    const response = result.response;
+    const usage = this.toUsage(response.usageMetadata);
+    const toolCalls = this.toToolCalls(response);
+
+    return {
+      content: response.text(),
+      usage,
+      latencyMs: Date.now() - context.startTime,
+      finishReason: response.candidates?.[0]?.finishReason || 'stop',
+      ...(toolCalls && { toolCalls }),
+      costUSD: this.calculateCost(candidate, usage),
+      provider: 'gemini'
+    };
+  }
+
+  async *stream(request: AIModelRequest, context: AIProviderContext): AsyncGenerator<AIStreamEvent> {
+    const client = this.getClient(request);
+    const prompt = this.buildRequest(request);
+
+    // A 404 for an unknown model name surfaces when the stream is opened, before any text
+    const { candidate, result } = await this.withCandidates(request, candidate =>
+      this.getModel(client, candidate, request).generateContentStream(prompt, { timeout: request.timeoutMs })
+    );
+
+    let content = '';
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) {
+        content += text;
+        yield { type: 'delta', text };
+      }
+    }
+
+    const response = await result.response;
+    const usage = this.toUsage(response.usageMetadata);
+
+    yield {
+      type: 'done',
+      response: {
+        content,
+        usage,
+        latencyMs: Date.now() - context.startTime,
+        finishReason: response.candidates?.[0]?.finishReason || 'stop',
+        costUSD: this.calculateCost(candidate, usage),
+        provider: 'gemini'
+      }
+    };
+  }
+
+  calculateCost(modelName: string, usage: AIModelUsage): number {
+    return tokenCost(modelName, usage);
+  }
+}
+
+// ============================================================================
+// OPENAI-STYLE CHAT COMPLETIONS (OpenRouter, OpenAI, Mistral, Azure, local)
+// ============================================================================
+
+interface ChatCompletionsOptions {
+  endpoint: AIProviderEndpoint;
+  displayName: string;
+  defaultBaseUrl: string;
+  hosts: string[];
+  apiKeyEnv?: string;
+  requireApiKey: boolean;
+  extraHeaders?: Record<string, string>;
+  modelNameStyle: 'full' | 'bare';
+  streamUsage?: boolean; // Send stream_options.include_usage so the final chunk carries token counts
+}
+
+class ChatCompletionsAdapter implements AIProviderAdapter {
+  endpoint: AIProviderEndpoint;
+  displayName: string;
+  defaultBaseUrl: string;
+
+  constructor(protected options: ChatCompletionsOptions) {
+    this.endpoint = options.endpoint;
+    this.displayName = options.displayName;
+    this.defaultBaseUrl = options.defaultBaseUrl;
+  }
+
+  matches(provider: ProviderDocument): boolean {
+    const host = getBaseUrlHost(provider.apiBaseUrl);
+    return !!host && this.options.hosts.some(candidate => host === candidate || host.endsWith(`.${candidate}`));
+  }
+
+  hasCredentials(request: AIModelRequest, provider: ProviderDocument | null): boolean {
+    if (provider?.authTypes?.includes('none') || !this.options.requireApiKey) return true;
+    return !!(request.apiKey || (this.options.apiKeyEnv && process.env[this.options.apiKeyEnv]));
+  }
+
+  protected getApiKey(context: AIProviderContext, request: AIModelRequest): string | undefined {
+    // Providers marked 'none' (e.g. a local Ollama) are called without credentials
+    if (context.provider?.authTypes?.includes('none')) {
+      return undefined;
+    }
+    const apiKey = request.apiKey || (this.options.apiKeyEnv ? process.env[this.options.apiKeyEnv] : undefined);
+    if (!apiKey && this.options.requireApiKey) {
+      throw new Error(`${this.options.apiKeyEnv} is not configured`);
+    }
+    return apiKey;
+  }
+
+  protected getModelName(request: AIModelRequest): string {
+    return this.options.modelNameStyle === 'bare' ? stripProviderPrefix(request.modelName) : request.modelName;
+  }
+
+  protected buildUrl(context: AIProviderContext, request: AIModelRequest): string {
+    return `${context.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  }
+
+  protected buildHeaders(apiKey?: string): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }),
+      ...this.options.extraHeaders
+    };
+  }
+
+  protected buildMessages(request: AIModelRequest): Array<Record<string, any>> {
+    const messages: Array<Record<string, any>> = [];
+    if (request.systemPrompt) {
+      messages.push({ role: 'system', content: request.systemPrompt });
+    }
+    if (hasUserPrompt(request)) {
+      messages.push({ role: 'user', content: getUserContent(request) });
+    }
+
+    for (const message of request.messages || []) {
+      if (message.role === 'assistant') {
+        messages.push({
+          role: 'assistant',
+          content: message.content || null,
+          ...(message.toolCalls?.length && {
+            tool_calls: message.toolCalls.map(call => ({
+              id: call.id,
+              type: 'function',
+              function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+            }))
+          })
+        });
+      } else if (message.role === 'tool') {
+        messages.push({ role: 'tool', tool_call_id: message.toolCallId, content: message.content });
+      } else {
+        messages.push({
+          role: 'user',
+          content: typeof message.content === 'string'
+            ? message.content
+            : message.content.map(part => this.toContentPart(part))
+        });
+      }
+    }
+    return messages;
+  }
+
+  protected toContentPart(part: AIContentPart): Record<string, any> {
+    if (part.type === 'text') {
+      return { type: 'text', text: part.text };
+    }
+    if (part.type === 'image') {
+      return {
+        type: 'image_url',
+        image_url: { url: part.url || `data:${part.mimeType || 'image/jpeg'};base64,${part.data}` }
+      };
+    }
+    if (!part.data) {
+      throw new Error(`${this.displayName} needs audio input as base64 data, not a URL`);
+    }
+    // input_audio takes a format name ('wav', 'mp3') rather than a MIME type
+    const format = (part.mimeType || 'audio/wav').split('/').pop()!.replace('mpeg', 'mp3');
+    return { type: 'input_audio', input_audio: { data: part.data, format } };
+  }
+
+  protected buildBody(request: AIModelRequest): Record<string, any> {
+    const toolChoice = request.toolChoice || 'auto';
+
+    return {
+      model: this.getModelName(request),
+      messages: this.buildMessages(request),
+      temperature: request.configuration?.temperature ?? 0.7,
+      max_tokens: request.configuration?.maxTokens ?? 1000,
+      top_p: request.configuration?.topP ?? 0.9,
+      ...(request.configuration?.stopSequences?.length && { stop: request.configuration.stopSequences }),
+      ...(request.jsonSchema && {
+        // Non-strict: the router validates the result and asks for a repair if it doesn't match
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: request.jsonSchemaName || 'response', schema: request.jsonSchema, strict: false }
+        }
+      }),
+      ...(request.tools?.length && {
+        tools: request.tools.map(tool => ({
+          type: 'function',
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+        })),
+        tool_choice: typeof toolChoice === 'object'
+          ? { type: 'function', function: { name: toolChoice.name } }
+          : toolChoice
+      })
+    };
+  }
+
+  async execute(request: AIModelRequest, context: AIProviderContext): Promise<AIModelResponse> {
+    const apiKey = this.getApiKey(context, request);
+
+    const response = await fetch(this.buildUrl(context, request), {
+      method: 'POST',
+      headers: this.buildHeaders(apiKey),
+      body: JSON.stringify(this.buildBody(request)),
+      signal: getTimeoutSignal(request)
+    });
+    await throwForStatus(response, this.displayName);
+
+    const data = await response.json();
+    const choice = data.choices?.[0];
+
+    if (!choice) {
+      throw new Error(`No response choices returned from ${this.displayName}`);
+    }
+
+    const usage: AIModelUsage = {
+      promptTokens: data.usage?.prompt_tokens || 0,
+      completionTokens: data.usage?.completion_tokens || 0,
+      totalTokens: data.usage?.total_tokens || 0,
+      ...(data.usage?.prompt_tokens_details?.cached_tokens && {
+        cachedPromptTokens: data.usage.prompt_tokens_details.cached_tokens
+      })
+    };
+    const toolCalls: AIToolCall[] = (choice.message?.tool_calls || []).map((call: any) => ({
+      id: call.id,
+      name: call.function?.name,
+      arguments: parseToolArguments(call.function?.arguments, call.function?.name)
+    }));
+
+    return {
+      content: choice.message?.content || '',
+      usage,
+      latencyMs: Date.now() - context.startTime,
+      finishReason: choice.finish_reason || 'stop',
+      ...(toolCalls.length && { toolCalls }),
+      costUSD: this.calculateCost(request.modelName, usage),
+      provider: this.endpoint
+    };
+  }
+
+  async *stream(request: AIModelRequest, context: AIProviderContext): AsyncGenerator<AIStreamEvent> {
+    const apiKey = this.getApiKey(context, request);
+
+    const response = await fetch(this.buildUrl(context, request), {
+      method: 'POST',
+      headers: this.buildHeaders(apiKey),
+      body: JSON.stringify({
+        ...this.buildBody(request),
+        stream: true,
+        ...(this.options.streamUsage && { stream_options: { include_usage: true } })
+      }),
+      signal: getTimeoutSignal(request)
+    });
+    await throwForStatus(response, this.displayName);
+    if (!response.body) {
+      throw new Error(`${this.displayName} returned an empty stream`);
+    }
+
+    let content = '';
+    let finishReason = 'stop';
+    let reportedUsage: any = null;
+
+    for await (const event of readServerSentEvents(response.body)) {
+      if (event.data === '[DONE]') break;
+
+      const chunk = JSON.parse(event.data);
+      if (chunk.error) {
+        throw new Error(`${this.displayName} stream error: ${chunk.error.message || JSON.stringify(chunk.error)}`);
+      }
+      if (chunk.usage) {
+        reportedUsage = chunk.usage;
+      }
+
+      const choice = chunk.choices?.[0];
+      if (choice?.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+      const text = choice?.delta?.content;
+      if (text) {
+        content += text;
+        yield { type: 'delta', text };
+      }
+    }
+
+    // Not every server honours include_usage; fall back to an estimate so cost is never silently zero
+    const promptTokens = reportedUsage?.prompt_tokens ?? estimatePromptTokens(request);
+    const completionTokens = reportedUsage?.completion_tokens ?? estimateTokens(content);
+    const usage: AIModelUsage = {
+      promptTokens,
+      completionTokens,
+      totalTokens: reportedUsage?.total_tokens ?? promptTokens + completionTokens,
+      ...(reportedUsage?.prompt_tokens_details?.cached_tokens && {
+        cachedPromptTokens: reportedUsage.prompt_tokens_details.cached_tokens
+      })
+    };
+
+    yield {
+      type: 'done',
+      response: {
+        content,
+        usage,
+        latencyMs: Date.now() - context.startTime,
+        finishReason,
+        costUSD: this.calculateCost(request.modelName, usage),
+        provider: this.endpoint
+      }
+    };
+  }
+
+  calculateCost(modelName: string, usage: AIModelUsage): number {
+    return tokenCost(modelName, usage);
+  }
+}
+
+/**
+ * Azure OpenAI addresses deployments by name and authenticates with an api-key header
+ */
+class AzureOpenAIAdapter extends ChatCompletionsAdapter {
+  protected buildUrl(context: AIProviderContext, request: AIModelRequest): string {
+    const apiVersion = process.env.AZURE_OPENAI_API_VERSION || '2024-06-01';
+    const deployment = encodeURIComponent(stripProviderPrefix(request.modelName));
+    return `${context.baseUrl.replace(/\/+$/, '')}/openai/deployments/${deployment}/chat/completions?api-version=${apiVersion}`;
+  }
+
+  protected buildHeaders(apiKey?: string): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(apiKey && { 'api-key': apiKey })
+    };
+  }
+
+  protected buildBody(request: AIModelRequest): Record<string, any> {
+    // The deployment in the URL selects the model
+    const { model, ...body } = super.buildBody(request);
+    return body;
+  }
+}
+
+/**
+ * Self-hosted servers are billed by infrastructure, not per token
+ */
+class OpenAICompatibleAdapter extends ChatCompletionsAdapter {
+  matches(provider: ProviderDocument): boolean {
+    // Any other reachable base URL is treated as an OpenAI-compatible server
+    return !!getBaseUrlHost(provider.apiBaseUrl);
+  }
+
+  calculateCost(): number {
+    return 0;
+  }
+}
+
+// ============================================================================
+// ANTHROPIC
+// ============================================================================
+
+class AnthropicAdapter implements AIProviderAdapter {
+  endpoint: AIProviderEndpoint = 'anthropic';
+  displayName = 'Anthropic';
+  defaultBaseUrl = 'https://api.anthropic.com/v1';
+
+  matches(provider: ProviderDocument): boolean {
+    return getBaseUrlHost(provider.apiBaseUrl) === 'api.anthropic.com';
+  }
+
+  hasCredentials(request: AIModelRequest): boolean {
+    return !!(request.apiKey || process.env.ANTHROPIC_API_KEY);
+  }
+
+  /**
+   * Anthropic has no response schema parameter, so structured requests carry the schema in the system prompt
+   */
+  private getSystemPrompt(request: AIModelRequest): string | undefined {
+    if (!request.jsonSchema) return request.systemPrompt || undefined;
+
+    const instruction = `Respond with only a JSON value that matches this JSON Schema:\n${JSON.stringify(request.jsonSchema)}`;
+    return request.systemPrompt ? `${request.systemPrompt}\n\n${instruction}` : instruction;
+  }
+
+  private async post(request: AIModelRequest, context: AIProviderContext, stream: boolean): Promise<Response> {
+    const apiKey = request.apiKey || process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      throw new Error('ANTHROPIC_API_KEY is not configured');
+    }
+
+    const response = await fetch(`${context.baseUrl.replace(/\/+$/, '')}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model: stripProviderPrefix(request.modelName),
+        ...(this.getSystemPrompt(request) && { system: this.getSystemPrompt(request) }),
+        messages: this.buildMessages(request),
+        ...(request.tools?.length && {
+          tools: request.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: tool.parameters
+          })),
+          tool_choice: this.getToolChoice(request)
+        }),
+        temperature: request.configuration?.temperature ?? 0.7,
+        max_tokens: request.configuration?.maxTokens ?? 1000,
+        top_p: request.configuration?.topP ?? 0.9,
+        ...(request.configuration?.topK !== undefined && { top_k: request.configuration.topK }),
+        ...(request.configuration?.stopSequences?.length && { stop_sequences: request.configuration.stopSequences }),
+        ...(stream && { stream: true })
+      }),
+      signal: getTimeoutSignal(request)
+    });
+    await throwForStatus(response, this.displayName);
+    return response;
+  }
+
+  private buildMessages(request: AIModelRequest): Array<{ role: 'user' | 'assistant'; content: any }> {
+    const messages: Array<{ role: 'user' | 'assistant'; content: any }> = hasUserPrompt(request)
+      ? [{ role: 'user', content: getUserContent(request) }]
+      : [];
+
+    for (const message of request.messages || []) {
+      if (message.role === 'assistant') {
+        messages.push({
+          role: 'assistant',
+          content: [
+            ...(message.content ? [{ type: 'text', text: message.content }] : []),
+            ...(message.toolCalls || []).map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments }))
+          ]
+        });
+      } else if (message.role === 'tool') {
+        const block = { type: 'tool_result', tool_use_id: message.toolCallId, content: message.content };
+        // All results for one turn's calls go back in a single user message
+        const last = messages[messages.length - 1];
+        if (last && last.role === 'user' && Array.isArray(last.content)) {
+          last.content.push(block);
+        } else {
+          messages.push({ role: 'user', content: [block] });
+        }
+      } else {
+        messages.push({
+          role: 'user',
+          content: typeof message.content === 'string'
+            ? message.content
+            : message.content.map(part => this.toContentBlock(part))
+        });
+      }
+    }
+    return messages;
+  }
+
+  private toContentBlock(part: AIContentPart): Record<string, any> {
+    if (part.type === 'text') {
+      return { type: 'text', text: part.text };
+    }
+    if (part.type === 'audio') {
+      throw new Error('Anthropic does not accept audio input');
+    }
+    return {
+      type: 'image',
+      source: part.data
+        ? { type: 'base64', media_type: part.mimeType || 'image/jpeg', data: part.data }
+        : { type: 'url', url: part.url }
+    };
+  }
+
+  private getToolChoice(request: AIModelRequest): Record<string, string> {
+    const choice = request.toolChoice || 'auto';
+    if (typeof choice === 'object') return { type: 'tool', name: choice.name };
+    return { type: choice === 'required' ? 'any' : choice };
+  }
+
+  /**
+   * Anthropic reports cache reads apart from input_tokens; fold them into promptTokens
+   * so cachedPromptTokens is always a subset, as with the other providers
+   */
+  private toUsage(usage: any, completionTokens = usage?.output_tokens || 0): AIModelUsage {
+    const cachedTokens = usage?.cache_read_input_tokens || 0;
+    const promptTokens = (usage?.input_tokens || 0) + cachedTokens;
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      ...(cachedTokens && { cachedPromptTokens: cachedTokens })
+    };
+  }
+
+  async execute(request: AIModelRequest, context: AIProviderContext): Promise<AIModelResponse> {
+    const response = await this.post(request, context, false);
+
+    const data = await response.json();
+    const text = (data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+    const toolCalls: AIToolCall[] = (data.content || [])
+      .filter((block: any) => block.type === 'tool_use')
+      .map((block: any) => ({ id: block.id, name: block.name, arguments: block.input || {} }));
+
+    const usage = this.toUsage(data.usage);
+
+    return {
+      content: text,
+      usage,
+      latencyMs: Date.now() - context.startTime,
+      finishReason: data.stop_reason || 'stop',
+      ...(toolCalls.length && { toolCalls }),
+      costUSD: this.calculateCost(request.modelName, usage),
+      provider: 'anthropic'
+    };
+  }
+
+  async *stream(request: AIModelRequest, context: AIProviderContext): AsyncGenerator<AIStreamEvent> {
+    const response = await this.post(request, context, true);
+    if (!response.body) {
+      throw new Error('Anthropic returned an empty stream');
+    }
+
+    let content = '';
+    let finishReason = 'stop';
+    let promptUsage: any = null;
+    let completionTokens = 0;
+
+    for await (const event of readServerSentEvents(response.body)) {
+      const data = JSON.parse(event.data);
+      switch (data.type) {
+        case 'message_start':
+          promptUsage = data.message?.usage;
+          completionTokens = data.message?.usage?.output_tokens || 0;
+          break;
+        case 'content_block_delta':
+          if (data.delta?.type === 'text_delta' && data.delta.text) {
+            content += data.delta.text;
+            yield { type: 'delta', text: data.delta.text };
+          }
+          break;
+        case 'message_delta':
+          finishReason = data.delta?.stop_reason || finishReason;
+          completionTokens = data.usage?.output_tokens ?? completionTokens;
+          break;
+        case 'error':
+          throw new Error(`Anthropic stream error: ${data.error?.message || 'unknown error'}`);
+      }
+    }
+
+    const usage = this.toUsage(promptUsage, completionTokens);
+
+    yield {
+      type: 'done',
+      response: {
+        content,
+        usage,
+        latencyMs: Date.now() - context.startTime,
+        finishReason,
+        costUSD: this.calculateCost(request.modelName, usage),
+        provider: 'anthropic'
+      }
+    };
+  }
+
+  calculateCost(modelName: string, usage: AIModelUsage): number {
+    // Anthropic model IDs carry a date suffix (claude-3-haiku-20240307)
+    return tokenCost(stripProviderPrefix(modelName).replace(/-\d{8}$/, ''), usage);
+  }
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const geminiAdapter = new GeminiAdapter();
+
+const openRouterAdapter = new ChatCompletionsAdapter({
+  endpoint: 'openrouter',
+  displayName: 'OpenRouter',
+  defaultBaseUrl: 'https://openrouter.ai/api/v1',
+  hosts: ['openrouter.ai'],
+  apiKeyEnv: 'OPENROUTER_API_KEY',
+  requireApiKey: true,
+  extraHeaders: { 'X-Title': 'PrompTick Admin - AI Model Enrichment' },
+  modelNameStyle: 'full',
+  streamUsage: true
+});
+
+/**
+ * Adapters in match order. The OpenAI-compatible adapter accepts any URL, so it stays last.
+ */
+const ADAPTERS: AIProviderAdapter[] = [
+  geminiAdapter,
+  openRouterAdapter,
+  new ChatCompletionsAdapter({
+    endpoint: 'openai',
+    displayName: 'OpenAI',
+    defaultBaseUrl: 'https://api.openai.com/v1',
+    hosts: ['api.openai.com'],
+    apiKeyEnv: 'OPENAI_API_KEY',
+    requireApiKey: true,
+    modelNameStyle: 'bare',
+    streamUsage: true
+  }),
+  new AnthropicAdapter(),
+  new ChatCompletionsAdapter({
+    endpoint: 'mistral',
+    displayName: 'Mistral',
+    defaultBaseUrl: 'https://api.mistral.ai/v1',
+    hosts: ['api.mistral.ai'],
+    apiKeyEnv: 'MISTRAL_API_KEY',
+    requireApiKey: true,
+    modelNameStyle: 'bare'
+  }),
+  new AzureOpenAIAdapter({
+    endpoint: 'azure-openai',
+    displayName: 'Azure OpenAI',
+    defaultBaseUrl: '',
+    hosts: ['openai.azure.com'],
+    apiKeyEnv: 'AZURE_OPENAI_API_KEY',
+    requireApiKey: true,
+    modelNameStyle: 'bare',
+    streamUsage: true
+  }),
+  new OpenAICompatibleAdapter({
+    endpoint: 'openai-compatible',
+    displayName: 'OpenAI-Compatible',
+    defaultBaseUrl: 'http://localhost:11434/v1',
+    hosts: [],
+    apiKeyEnv: 'OPENAI_COMPATIBLE_API_KEY',
+    requireApiKey: false,
+    modelNameStyle: 'full',
+    streamUsage: true
+  })
+];
+
+export interface ResolvedAdapter {
+  adapter: AIProviderAdapter;
+  context: Omit<AIProviderContext, 'startTime'>;
+}
+
+/**
+ * Pick the adapter for a provider document.
+ * Returns null when the provider has no usable apiBaseUrl so callers can fall back.
+ */
+export function selectAdapterForProvider(provider: ProviderDocument): ResolvedAdapter | null {
+  if (!getBaseUrlHost(provider.apiBaseUrl)) {
+    return null;
+  }
+
+  const adapter = ADAPTERS.find(candidate => candidate.matches(provider));
+  if (!adapter) return null;
+
+  return {
+    adapter,
+    context: {
+      provider,
+      baseUrl: provider.apiBaseUrl!
+    }
+  };
+}
+
+/**
+ * Legacy routing used when no provider document is available:
+ * Gemini models → Google Gemini API, everything else → OpenRouter.
+ */
+export function selectDefaultAdapter(modelName: string): ResolvedAdapter {
+  const geminiPatterns = [
+    /^gemini-/i,
+    /^google\/gemini/i,
+    /^gemini-pro/i,
+    /^gemini-flash/i
+  ];
+  const adapter = geminiPatterns.some(pattern => pattern.test(modelName)) ? geminiAdapter : openRouterAdapter;
+
+  return {
+    adapter,
+    context: {
+      provider: null,
+      baseUrl: adapter.defaultBaseUrl
+    }
+  };
+}
+
+export function getAdapter(endpoint: AIProviderEndpoint): AIProviderAdapter | undefined {
+  return ADAPTERS.find(adapter => adapter.endpoint === endpoint);
+}
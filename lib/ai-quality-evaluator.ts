@@ -0,0 +1,493 @@
+/**
+ * AI Quality Evaluator - Admin Panel Version
+ *
+ * Evaluates a configured AI response against its use case's qualityConfig:
+ * - outputValidation.validationRules are checked deterministically (length, format, content, schema, custom)
+ * - completeness is scored from the finish reason; coherence, relevance and custom checks without a
+ *   registered function are scored by an LLM judge (the 'ai-quality-judge' use case, or AI_QUALITY_JUDGE_MODEL)
+ * - the weighted check scores give a 0-100 confidence score; failed error rules or a score under
+ *   rejectBelowScore reject the output, and a score under humanReviewThreshold queues it for review
+ */
+
+import type {
+  AIQualityConfiguration,
+  AIUseCaseConfig,
+  QualityCheckResult,
+  ValidationResult,
+  ValidationRule
+} from '@/types/ai-configuration-schema';
+import { validateJsonSchema } from './json-schema-validator';
+import { REVIEW_COLLECTION } from './ai-review-queue';
+import { redactValue } from './ai-redaction';
+
+const JUDGE_USE_CASE_ID = 'ai-quality-judge';
+const DEFAULT_JUDGE_MODEL = 'gemini-2.5-flash';
+const TRUNCATED_FINISH_REASONS = ['length', 'max_tokens', 'MAX_TOKENS'];
+
+/**
+ * The call being evaluated
+ */
+export interface AIQualityInput {
+  useCaseId: string;
+  prompt: string;
+  systemPrompt?: string;
+  content: string;
+  parsedContent?: any;
+  finishReason?: string;
+}
+
+export interface AIQualityEvaluation {
+  confidenceScore: number; // 0-100, weighted mean of the quality checks
+  qualityChecks: QualityCheckResult[];
+  validationResults: ValidationResult[];
+  rejected: boolean;
+  rejectionReason?: string;
+  needsReview: boolean;
+}
+
+/**
+ * Deterministic scorer for a custom check: 0-100 for an output
+ */
+export type AIQualityCheckFunction = (input: AIQualityInput) => number | Promise<number>;
+/**
+ * Validator for a 'custom' rule: passes when it returns true
+ */
+export type AIOutputValidator = (input: AIQualityInput, rule: ValidationRule) => boolean | Promise<boolean>;
+
+interface JudgeCriterion {
+  name: string;
+  description: string;
+}
+
+const JUDGE_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    scores: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          criterion: { type: 'string' },
+          score: { type: 'number', minimum: 0, maximum: 100 },
+          reason: { type: 'string' }
+        },
+        required: ['criterion', 'score']
+      }
+    }
+  },
+  required: ['scores']
+};
+
+const BUILT_IN_CRITERIA: Record<'coherence' | 'relevance', string> = {
+  coherence: 'The response is logically consistent, well organized and free of contradictions',
+  relevance: 'The response addresses what the prompt asked for and stays on topic'
+};
+
+/**
+ * Parse "/pattern/flags" or a bare pattern
+ */
+function toRegExp(rule: string): RegExp {
+  const match = rule.match(/^\/(.+)\/([a-z]*)$/);
+  return match ? new RegExp(match[1], match[2]) : new RegExp(rule);
+}
+
+/**
+ * Length bounds from "min:10,max:500", "10-500" or a bare maximum ("500")
+ */
+function parseLengthRule(rule: string): { min?: number; max?: number } {
+  const range = rule.match(/^\s*(\d*)\s*-\s*(\d*)\s*$/);
+  if (range) {
+    return {
+      ...(range[1] && { min: Number(range[1]) }),
+      ...(range[2] && { max: Number(range[2]) })
+    };
+  }
+  if (/^\s*\d+\s*$/.test(rule)) return { max: Number(rule) };
+
+  const bounds: { min?: number; max?: number } = {};
+  rule.split(/[,\s]+/).forEach(part => {
+    const [key, value] = part.split(/[:=]/);
+    if ((key === 'min' || key === 'max') && value && !isNaN(Number(value))) {
+      bounds[key] = Number(value);
+    }
+  });
+  return bounds;
+}
+
+function parseContent(input: AIQualityInput): { value?: any; error?: string } {
+  if (input.parsedContent !== undefined) return { value: input.parsedContent };
+  try {
+    const text = input.content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    return { value: JSON.parse(text) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Invalid JSON' };
+  }
+}
+
+export class AIQualityEvaluator {
+  private static checkFunctions = new Map<string, AIQualityCheckFunction>();
+  private static validators = new Map<string, AIOutputValidator>();
+
+  /**
+   * Register a scorer for QualityCheck.checkFunction; checks without one are scored by the judge
+   */
+  static registerCheck(name: string, check: AIQualityCheckFunction): void {
+    this.checkFunctions.set(name, check);
+  }
+
+  /**
+   * Register a validator for 'custom' rules (ValidationRule.rule is the validator name)
+   */
+  static registerValidator(name: string, validator: AIOutputValidator): void {
+    this.validators.set(name, validator);
+  }
+
+  /**
+   * Whether a quality configuration asks for any evaluation
+   */
+  static isEnabled(qualityConfig?: AIQualityConfiguration): boolean {
+    if (!qualityConfig) return false;
+    const checks = qualityConfig.qualityChecks;
+    return !!(
+      qualityConfig.outputValidation?.enabled ||
+      (qualityConfig.enableContentFiltering && qualityConfig.blockedContent?.length) ||
+      checks?.checkCoherence ||
+      checks?.checkRelevance ||
+      checks?.checkCompleteness ||
+      checks?.customChecks?.length ||
+      qualityConfig.requireHumanReview
+    );
+  }
+
+  /**
+   * Run the configured validation rules and quality checks for an output
+   */
+  static async evaluate(config: AIUseCaseConfig, input: AIQualityInput): Promise<AIQualityEvaluation> {
+    const qualityConfig = config.qualityConfig;
+    const validationResults = await this.validate(qualityConfig, input);
+    const qualityChecks = await this.runQualityChecks(qualityConfig, input);
+
+    // Unweighted built-in checks count once; custom checks use their configured weight
+    const weights = new Map((qualityConfig?.qualityChecks?.customChecks || []).map(check => [check.name, check.weight]));
+    let weightedScore = 0;
+    let totalWeight = 0;
+    qualityChecks.forEach(check => {
+      const weight = weights.get(check.checkName) ?? 1;
+      weightedScore += check.score * weight;
+      totalWeight += weight;
+    });
+    const confidenceScore = totalWeight > 0 ? Math.round(weightedScore / totalWeight) : 100;
+
+    const minConfidenceScore = qualityConfig?.outputValidation?.minConfidenceScore;
+    if (minConfidenceScore !== undefined && confidenceScore < minConfidenceScore) {
+      validationResults.push({
+        rule: 'minConfidenceScore',
+        passed: false,
+        message: `Confidence score ${confidenceScore} is below ${minConfidenceScore}`,
+        severity: 'warning'
+      });
+    }
+
+    const failedRule = validationResults.find(result => !result.passed && result.severity === 'error');
+    const rejectBelowScore = qualityConfig?.outputValidation?.rejectBelowScore;
+    const rejectionReason = failedRule
+      ? `Validation failed (${failedRule.rule}): ${failedRule.message || 'rule not met'}`
+      : rejectBelowScore !== undefined && confidenceScore < rejectBelowScore
+        ? `Quality score ${confidenceScore} is below the rejection threshold ${rejectBelowScore}`
+        : undefined;
+
+    const reviewThreshold = qualityConfig?.humanReviewThreshold;
+    const needsReview = !!qualityConfig?.requireHumanReview &&
+      (reviewThreshold === undefined || confidenceScore < reviewThreshold);
+
+    return {
+      confidenceScore,
+      qualityChecks,
+      validationResults,
+      rejected: !!rejectionReason,
+      ...(rejectionReason && { rejectionReason }),
+      needsReview
+    };
+  }
+
+  // ==========================================================================
+  // Validation rules
+  // ==========================================================================
+
+  private static async validate(
+    qualityConfig: AIQualityConfiguration | undefined,
+    input: AIQualityInput
+  ): Promise<ValidationResult[]> {
+    const results: ValidationResult[] = [];
+
+    if (qualityConfig?.enableContentFiltering) {
+      const lower = input.content.toLowerCase();
+      const blocked = (qualityConfig.blockedContent || []).filter(term => term && lower.includes(term.toLowerCase()));
+      if (blocked.length > 0) {
+        results.push({
+          rule: 'blockedContent',
+          passed: false,
+          message: `Output contains blocked content: ${blocked.join(', ')}`,
+          severity: 'error'
+        });
+      }
+    }
+
+    if (!qualityConfig?.outputValidation?.enabled) return results;
+
+    for (const rule of qualityConfig.outputValidation.validationRules || []) {
+      let passed: boolean;
+      let detail: string | undefined;
+      try {
+        ({ passed, detail } = await this.checkRule(rule, input));
+      } catch (error) {
+        passed = false;
+        detail = `Rule could not be evaluated: ${error instanceof Error ? error.message : error}`;
+      }
+      results.push({
+        rule: `${rule.type}:${rule.rule}`.slice(0, 120),
+        passed,
+        ...(!passed && { message: detail ? `${rule.message} (${detail})` : rule.message }),
+        severity: rule.severity
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Check one rule. 'content' rules require the text or pattern, or forbid it with a leading "!".
+   * 'format' accepts "json" or a pattern; 'schema' is a JSON Schema for the parsed output.
+   */
+  private static async checkRule(rule: ValidationRule, input: AIQualityInput): Promise<{ passed: boolean; detail?: string }> {
+    const content = input.content;
+
+    switch (rule.type) {
+      case 'length': {
+        const { min, max } = parseLengthRule(rule.rule);
+        const passed = (min === undefined || content.length >= min) && (max === undefined || content.length <= max);
+        return { passed, ...(!passed && { detail: `${content.length} characters` }) };
+      }
+      case 'format': {
+        if (rule.rule.trim().toLowerCase() === 'json') {
+          const { error } = parseContent(input);
+          return { passed: !error, ...(error && { detail: error }) };
+        }
+        return { passed: toRegExp(rule.rule).test(content) };
+      }
+      case 'content': {
+        const forbidden = rule.rule.startsWith('!');
+        const pattern = forbidden ? rule.rule.slice(1) : rule.rule;
+        const found = pattern.startsWith('/')
+          ? toRegExp(pattern).test(content)
+          : content.toLowerCase().includes(pattern.toLowerCase());
+        return { passed: forbidden ? !found : found };
+      }
+      case 'schema': {
+        const { value, error } = parseContent(input);
+        if (error) return { passed: false, detail: error };
+        const validation = validateJsonSchema(value, JSON.parse(rule.rule));
+        return { passed: validation.valid, ...(!validation.valid && { detail: validation.errors.slice(0, 3).join('; ') }) };
+      }
+      case 'custom': {
+        const validator = this.validators.get(rule.rule);
+        if (!validator) {
+          console.warn(`⚠️ No validator registered for custom rule "${rule.rule}", skipping`);
+          return { passed: true, detail: 'validator not registered' };
+        }
+        return { passed: await validator(input, rule) };
+      }
+      default:
+        return { passed: true };
+    }
+  }
+
+  // ==========================================================================
+  // Quality checks
+  // ==========================================================================
+
+  private static async runQualityChecks(
+    qualityConfig: AIQualityConfiguration | undefined,
+    input: AIQualityInput
+  ): Promise<QualityCheckResult[]> {
+    const checks = qualityConfig?.qualityChecks;
+    if (!checks) return [];
+
+    const results: QualityCheckResult[] = [];
+    const judgeCriteria: JudgeCriterion[] = [];
+    const thresholds = new Map<string, number>();
+
+    if (checks.checkCompleteness) {
+      results.push(this.scoreCompleteness(input));
+    }
+    if (checks.checkCoherence) {
+      judgeCriteria.push({ name: 'coherence', description: BUILT_IN_CRITERIA.coherence });
+    }
+    if (checks.checkRelevance) {
+      judgeCriteria.push({ name: 'relevance', description: BUILT_IN_CRITERIA.relevance });
+    }
+
+    for (const check of checks.customChecks || []) {
+      thresholds.set(check.name, check.threshold);
+      const checkFunction = this.checkFunctions.get(check.checkFunction);
+      if (!checkFunction) {
+        judgeCriteria.push({ name: check.name, description: check.description || check.checkFunction });
+        continue;
+      }
+      try {
+        const score = Math.max(0, Math.min(100, await checkFunction(input)));
+        results.push({ checkName: check.name, score, passed: score >= check.threshold });
+      } catch (error) {
+        results.push({
+          checkName: check.name,
+          score: 0,
+          passed: false,
+          details: `Check failed: ${error instanceof Error ? error.message : error}`
+        });
+      }
+    }
+
+    if (judgeCriteria.length > 0) {
+      const judged = await this.judge(input, judgeCriteria);
+      judgeCriteria.forEach(criterion => {
+        const result = judged.get(criterion.name);
+        // Unscored criteria are left out rather than counted as failures
+        if (!result) return;
+        const threshold = thresholds.get(criterion.name) ?? 50;
+        results.push({
+          checkName: criterion.name,
+          score: result.score,
+          passed: result.score >= threshold,
+          ...(result.reason && { details: result.reason })
+        });
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Deterministic completeness: empty output scores 0, a token-limit cut-off 40
+   */
+  private static scoreCompleteness(input: AIQualityInput): QualityCheckResult {
+    if (!input.content.trim()) {
+      return { checkName: 'completeness', score: 0, passed: false, details: 'Empty output' };
+    }
+    if (input.finishReason && TRUNCATED_FINISH_REASONS.includes(input.finishReason)) {
+      return { checkName: 'completeness', score: 40, passed: false, details: 'Output was cut off at the token limit' };
+    }
+    return { checkName: 'completeness', score: 100, passed: true };
+  }
+
+  /**
+   * Score criteria with the judge model. Judge failures are logged and yield no scores.
+   */
+  private static async judge(
+    input: AIQualityInput,
+    criteria: JudgeCriterion[]
+  ): Promise<Map<string, { score: number; reason?: string }>> {
+    const scores = new Map<string, { score: number; reason?: string }>();
+
+    try {
+      const { AIAPIRouter } = await import('./ai-api-router');
+      // A configured judge use case picks its own model; otherwise use the env/default model
+      const judgeConfig = await AIAPIRouter.getUseCaseConfig(JUDGE_USE_CASE_ID);
+      const response = await AIAPIRouter.executeForUseCase({
+        useCaseId: JUDGE_USE_CASE_ID,
+        ...(!judgeConfig && { modelName: process.env.AI_QUALITY_JUDGE_MODEL || DEFAULT_JUDGE_MODEL }),
+        systemPrompt: 'You are a strict evaluator of AI outputs. Score each criterion from 0 (fails completely) to 100 (fully meets it) and give a one-sentence reason.',
+        userPrompt: [
+          'Criteria:',
+          ...criteria.map(criterion => `- ${criterion.name}: ${criterion.description}`),
+          '',
+          ...(input.systemPrompt ? ['System prompt:', input.systemPrompt, ''] : []),
+          'Prompt:',
+          input.prompt,
+          '',
+          'Response to evaluate:',
+          input.content
+        ].join('\n'),
+        configuration: { temperature: 0 },
+        jsonSchema: JUDGE_RESPONSE_SCHEMA,
+        jsonSchemaName: 'quality_scores',
+        analytics: { category: 'service', metadata: { evaluatedUseCaseId: input.useCaseId } }
+      });
+
+      const entries: Array<{ criterion?: string; score?: number; reason?: string }> = response.parsedContent?.scores || [];
+      entries.forEach(entry => {
+        if (entry.criterion && typeof entry.score === 'number') {
+          scores.set(entry.criterion, {
+            score: Math.round(Math.max(0, Math.min(100, entry.score))),
+            ...(entry.reason && { reason: entry.reason })
+          });
+        }
+      });
+    } catch (error) {
+      console.warn(`⚠️ Quality judge failed for ${input.useCaseId}, skipping judged checks:`, error);
+    }
+
+    return scores;
+  }
+
+  // ==========================================================================
+  // Recording
+  // ==========================================================================
+
+  /**
+   * Store the evaluation on the aiExecutions record and queue the output for review when needed
+   */
+  static async record(
+    executionId: string,
+    config: AIUseCaseConfig,
+    input: AIQualityInput & { model: string },
+    evaluation: AIQualityEvaluation
+  ): Promise<void> {
+    try {
+      const { adminDb } = await import('./firebase-admin');
+      const { FieldValue } = await import('firebase-admin/firestore');
+      const batch = adminDb.batch();
+
+      // Merged so it doesn't matter whether the analytics write lands first
+      batch.set(adminDb.collection('aiExecutions').doc(executionId), {
+        qualityScore: evaluation.confidenceScore,
+        qualityChecks: evaluation.qualityChecks,
+        validationResults: evaluation.validationResults,
+        qualityRejected: evaluation.rejected,
+        ...(evaluation.needsReview && { reviewStatus: 'pending' })
+      }, { merge: true });
+
+      if (evaluation.needsReview) {
+        batch.set(adminDb.collection(REVIEW_COLLECTION).doc(executionId), {
+          executionId,
+          useCaseId: config.useCaseId,
+          configurationVersion: config.metadata?.version || '1.0.0',
+          model: input.model,
+          // Reviewers see the same redacted text as the execution logs
+          ...redactValue({
+            prompt: input.prompt,
+            ...(input.systemPrompt && { systemPrompt: input.systemPrompt }),
+            output: input.content
+          }, config.monitoringConfig?.redaction, {}),
+          qualityScore: evaluation.confidenceScore,
+          qualityChecks: evaluation.qualityChecks,
+          validationResults: evaluation.validationResults,
+          rejected: evaluation.rejected,
+          status: 'pending',
+          createdAt: new Date()
+        });
+        batch.set(adminDb.collection('aiUseCaseConfigs').doc(config.useCaseId), {
+          metadata: { reviewStats: { pending: FieldValue.increment(1) } }
+        }, { merge: true });
+      }
+
+      await batch.commit();
+      if (evaluation.needsReview) {
+        console.log(`📝 Queued ${config.useCaseId} output for human review (score ${evaluation.confidenceScore})`);
+      }
+    } catch (error) {
+      console.error(`❌ Failed to record quality evaluation for ${executionId}:`, error);
+    }
+  }
+}
+
+export default AIQualityEvaluator;
@@ -0,0 +1,375 @@
+/**
+ * AI Rate Limiter - Admin Panel Version
+ *
+ * Enforces AIPerformanceConfiguration limits for every AIAPIRouter call:
+ * - rateLimitPerMinute / rateLimitPerHour → token buckets
+ * - maxConcurrentRequests                 → semaphore
+ *
+ * Limits apply per use case and per provider endpoint (e.g. all OpenRouter traffic).
+ * Provider limits come from ProviderDocument.defaultSettings.rateLimit (per minute) and can
+ * be overridden with AI_PROVIDER_RATE_LIMITS, e.g. {"openrouter":{"perMinute":60,"maxConcurrent":5}}.
+ *
+ * Over the limit, 'immediate' scheduling rejects; 'queue', 'batch' and 'scheduled' wait
+ * (FIFO, up to AI_RATE_LIMIT_MAX_WAIT_MS). State is in-process, per server instance.
+ */
+
+import type { AIPerformanceConfiguration, SchedulingStrategy } from '@/types/ai-configuration-schema';
+import type { ProviderDocument } from '@/types/model-schema';
+
+const DEFAULT_MAX_WAIT_MS = 5 * 60 * 1000;
+
+export interface AIRateLimits {
+  perMinute?: number;
+  perHour?: number;
+  maxConcurrent?: number;
+}
+
+export interface AIRateLimitScope {
+  useCaseId?: string;
+  provider: string; // Adapter endpoint, e.g. 'openrouter'
+  performanceConfig?: AIPerformanceConfiguration | null;
+  providerDocument?: ProviderDocument | null;
+}
+
+export interface AIRateLimiterStatus {
+  key: string;
+  scope: 'use-case' | 'provider';
+  id: string;
+  perMinute?: { limit: number; available: number; utilization: number };
+  perHour?: { limit: number; available: number; utilization: number };
+  concurrency?: { limit: number; active: number; queued: number; utilization: number };
+  waiting: number;
+  acquired: number;
+  rejected: number;
+  lastAcquiredAt?: string;
+}
+
+// ============================================================================
+// PRIMITIVES
+// ============================================================================
+
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(readonly capacity: number, private readonly windowMs: number) {
+    this.tokens = capacity;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const refillPerMs = this.capacity / this.windowMs;
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * refillPerMs);
+    this.lastRefill = now;
+  }
+
+  get available(): number {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+
+  /** Milliseconds until a token can be taken (0 = now) */
+  msUntilAvailable(): number {
+    this.refill();
+    if (this.tokens >= 1) return 0;
+    return Math.ceil((1 - this.tokens) * (this.windowMs / this.capacity));
+  }
+
+  take(): void {
+    this.refill();
+    this.tokens -= 1;
+  }
+}
+
+class Semaphore {
+  active = 0;
+  private waiters: Array<() => void> = [];
+
+  constructor(readonly max: number) {}
+
+  get queued(): number {
+    return this.waiters.length;
+  }
+
+  tryAcquire(): boolean {
+    if (this.active < this.max) {
+      this.active++;
+      return true;
+    }
+    return false;
+  }
+
+  /** Give up a queued acquire (e.g. the wait deadline passed) */
+  cancel(waiter: () => void): void {
+    this.waiters = this.waiters.filter(candidate => candidate !== waiter);
+  }
+
+  enqueue(waiter: () => void): void {
+    this.waiters.push(waiter);
+  }
+
+  release(): void {
+    this.active = Math.max(0, this.active - 1);
+    const next = this.waiters.shift();
+    if (next) next();
+  }
+}
+
+/**
+ * Buckets and semaphore for one use case or provider
+ */
+class Limiter {
+  perMinute?: TokenBucket;
+  perHour?: TokenBucket;
+  semaphore?: Semaphore;
+  waiting = 0;
+  acquired = 0;
+  rejected = 0;
+  lastAcquiredAt?: Date;
+  private queueTail: Promise<void> = Promise.resolve();
+
+  constructor(readonly key: string, readonly scope: 'use-case' | 'provider', readonly id: string) {}
+
+  /** Rebuild buckets only when a limit actually changes, so state survives config reloads */
+  configure(limits: AIRateLimits): void {
+    if (limits.perMinute !== this.perMinute?.capacity) {
+      this.perMinute = limits.perMinute ? new TokenBucket(limits.perMinute, 60 * 1000) : undefined;
+    }
+    if (limits.perHour !== this.perHour?.capacity) {
+      this.perHour = limits.perHour ? new TokenBucket(limits.perHour, 60 * 60 * 1000) : undefined;
+    }
+    if (limits.maxConcurrent !== this.semaphore?.max) {
+      // In-flight calls on a replaced semaphore simply release into the old one
+      this.semaphore = limits.maxConcurrent ? new Semaphore(limits.maxConcurrent) : undefined;
+    }
+  }
+
+  get isLimited(): boolean {
+    return !!(this.perMinute || this.perHour || this.semaphore);
+  }
+
+  msUntilAvailable(): number {
+    return Math.max(this.perMinute?.msUntilAvailable() ?? 0, this.perHour?.msUntilAvailable() ?? 0);
+  }
+
+  takeToken(): void {
+    this.perMinute?.take();
+    this.perHour?.take();
+    this.acquired++;
+    this.lastAcquiredAt = new Date();
+  }
+
+  /**
+   * Wait for a rate token in FIFO order, giving up at the deadline
+   */
+  waitForToken(deadline: number): Promise<void> {
+    const turn = this.queueTail.then(async () => {
+      let wait = this.msUntilAvailable();
+      while (wait > 0) {
+        if (Date.now() + wait > deadline) {
+          throw new Error(`Rate limit queue wait exceeded for ${this.scope} ${this.id}`);
+        }
+        await new Promise(resolve => setTimeout(resolve, wait));
+        wait = this.msUntilAvailable();
+      }
+      this.takeToken();
+    });
+    // Keep the chain alive for the next caller even if this one gives up
+    this.queueTail = turn.catch(() => {});
+    return turn;
+  }
+
+  /**
+   * Wait for a concurrency slot, giving up at the deadline
+   */
+  waitForSlot(semaphore: Semaphore, deadline: number): Promise<void> {
+    if (semaphore.tryAcquire()) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      const waiter = () => {
+        clearTimeout(timer);
+        semaphore.active++;
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        semaphore.cancel(waiter);
+        reject(new Error(`Rate limit queue wait exceeded for ${this.scope} ${this.id} (max ${semaphore.max} concurrent)`));
+      }, Math.max(0, deadline - Date.now()));
+      semaphore.enqueue(waiter);
+    });
+  }
+
+  toStatus(): AIRateLimiterStatus {
+    const utilization = (used: number, limit: number) => Math.round((used / limit) * 1000) / 10;
+    return {
+      key: this.key,
+      scope: this.scope,
+      id: this.id,
+      ...(this.perMinute && {
+        perMinute: {
+          limit: this.perMinute.capacity,
+          available: this.perMinute.available,
+          utilization: utilization(this.perMinute.capacity - this.perMinute.available, this.perMinute.capacity)
+        }
+      }),
+      ...(this.perHour && {
+        perHour: {
+          limit: this.perHour.capacity,
+          available: this.perHour.available,
+          utilization: utilization(this.perHour.capacity - this.perHour.available, this.perHour.capacity)
+        }
+      }),
+      ...(this.semaphore && {
+        concurrency: {
+          limit: this.semaphore.max,
+          active: this.semaphore.active,
+          queued: this.semaphore.queued,
+          utilization: utilization(this.semaphore.active, this.semaphore.max)
+        }
+      }),
+      waiting: this.waiting,
+      acquired: this.acquired,
+      rejected: this.rejected,
+      lastAcquiredAt: this.lastAcquiredAt?.toISOString()
+    };
+  }
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+export class AIRateLimiter {
+  private static limiters = new Map<string, Limiter>();
+  private static providerOverrides: Record<string, AIRateLimits> | null = null;
+
+  /**
+   * Provider limits from AI_PROVIDER_RATE_LIMITS, parsed once
+   */
+  private static getProviderOverrides(): Record<string, AIRateLimits> {
+    if (!this.providerOverrides) {
+      try {
+        this.providerOverrides = process.env.AI_PROVIDER_RATE_LIMITS
+          ? JSON.parse(process.env.AI_PROVIDER_RATE_LIMITS)
+          : {};
+      } catch (error) {
+        console.warn('⚠️ Ignoring invalid AI_PROVIDER_RATE_LIMITS:', error);
+        this.providerOverrides = {};
+      }
+    }
+    return this.providerOverrides!;
+  }
+
+  private static getLimiter(scope: 'use-case' | 'provider', id: string, limits: AIRateLimits): Limiter {
+    const key = `${scope}:${id}`;
+    let limiter = this.limiters.get(key);
+    if (!limiter) {
+      limiter = new Limiter(key, scope, id);
+      this.limiters.set(key, limiter);
+    }
+    limiter.configure(limits);
+    return limiter;
+  }
+
+  private static getLimiters(scope: AIRateLimitScope): Limiter[] {
+    const limiters: Limiter[] = [];
+
+    const performance = scope.performanceConfig;
+    if (scope.useCaseId && performance) {
+      limiters.push(this.getLimiter('use-case', scope.useCaseId, {
+        perMinute: performance.rateLimitPerMinute || undefined,
+        perHour: performance.rateLimitPerHour || undefined,
+        maxConcurrent: performance.maxConcurrentRequests || undefined
+      }));
+    }
+
+    const providerLimits: AIRateLimits = {
+      perMinute: scope.providerDocument?.defaultSettings?.rateLimit || undefined,
+      ...this.getProviderOverrides()[scope.provider]
+    };
+    limiters.push(this.getLimiter('provider', scope.provider, providerLimits));
+
+    return limiters.filter(limiter => limiter.isLimited);
+  }
+
+  /**
+   * Wait for (or reject on) the use case and provider limits.
+   * Returns a release function that must be called once the provider call finishes.
+   */
+  static async acquire(scope: AIRateLimitScope): Promise<() => void> {
+    const limiters = this.getLimiters(scope);
+    if (limiters.length === 0) {
+      return () => {};
+    }
+
+    const strategy: SchedulingStrategy = scope.performanceConfig?.schedulingStrategy || 'queue';
+    const held: Semaphore[] = [];
+    const release = () => {
+      held.splice(0).forEach(semaphore => semaphore.release());
+    };
+
+    try {
+      if (strategy === 'immediate') {
+        this.acquireImmediately(limiters, held);
+      } else {
+        await this.acquireQueued(limiters, held);
+      }
+      return release;
+    } catch (error) {
+      release();
+      throw error;
+    }
+  }
+
+  private static acquireImmediately(limiters: Limiter[], held: Semaphore[]): void {
+    // Check every limiter before taking anything, so a rejection consumes no tokens
+    const blocked = limiters.find(limiter =>
+      limiter.msUntilAvailable() > 0 || (limiter.semaphore && limiter.semaphore.active >= limiter.semaphore.max)
+    );
+    if (blocked) {
+      blocked.rejected++;
+      throw new Error(`Rate limit exceeded for ${blocked.scope} ${blocked.id} (scheduling strategy 'immediate')`);
+    }
+
+    for (const limiter of limiters) {
+      if (limiter.semaphore) {
+        limiter.semaphore.tryAcquire();
+        held.push(limiter.semaphore);
+      }
+      limiter.takeToken();
+    }
+  }
+
+  private static async acquireQueued(limiters: Limiter[], held: Semaphore[]): Promise<void> {
+    const deadline = Date.now() + (Number(process.env.AI_RATE_LIMIT_MAX_WAIT_MS) || DEFAULT_MAX_WAIT_MS);
+
+    for (const limiter of limiters) {
+      limiter.waiting++;
+      try {
+        if (limiter.semaphore) {
+          const semaphore = limiter.semaphore;
+          await limiter.waitForSlot(semaphore, deadline);
+          held.push(semaphore);
+        }
+        await limiter.waitForToken(deadline);
+      } catch (error) {
+        limiter.rejected++;
+        throw error;
+      } finally {
+        limiter.waiting--;
+      }
+    }
+  }
+
+  /**
+   * Current utilization of every limiter that has been used
+   */
+  static getStatus(): AIRateLimiterStatus[] {
+    return Array.from(this.limiters.values())
+      .filter(limiter => limiter.isLimited)
+      .map(limiter => limiter.toStatus())
+      .sort((a, b) => a.key.localeCompare(b.key));
+  }
+}
+
+export default AIRateLimiter;
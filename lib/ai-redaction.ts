@@ -0,0 +1,112 @@
+/**
+ * AI Redaction - Admin Panel Version
+ *
+ * Scrubs sensitive content from prompts and responses before they are written to execution logs.
+ * Built-in rules cover email addresses, API keys / bearer tokens and phone numbers; use cases can
+ * turn them off individually and add their own regexes through monitoringConfig.redaction.
+ */
+
+import type { AIRedactionConfig } from '@/types/ai-configuration-schema';
+
+interface RedactionRule {
+  name: string;
+  pattern: RegExp;
+  replacement: string;
+}
+
+export interface RedactionResult {
+  text: string;
+  counts: Record<string, number>; // Matches replaced per rule
+}
+
+const EMAIL_RULE: RedactionRule = {
+  name: 'email',
+  pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  replacement: '[REDACTED:email]'
+};
+
+// Provider-style keys (sk-..., AIza..., ghp_..., xoxb-...), AWS access keys and bearer tokens
+const API_KEY_RULE: RedactionRule = {
+  name: 'apiKey',
+  pattern: /\b(?:sk-(?:or-|ant-|proj-)?[A-Za-z0-9_-]{16,}|AIza[0-9A-Za-z_-]{35}|gh[pousr]_[A-Za-z0-9]{36,}|xox[abpr]-[A-Za-z0-9-]{10,}|AKIA[0-9A-Z]{16})\b|\bBearer\s+[A-Za-z0-9._~+/-]{20,}=*/g,
+  replacement: '[REDACTED:apiKey]'
+};
+
+// Grouped numbers ending in four digits (555-123-4567, +44 20 7946 0958); bare digit runs (IDs, amounts) are left alone
+const PHONE_RULE: RedactionRule = {
+  name: 'phone',
+  pattern: /(?:\+\d{1,3}[\s-]?)?(?:\(\d{2,4}\)[\s-]?|\d{2,4}[\s-])\d{3,4}[\s-]\d{4}\b/g,
+  replacement: '[REDACTED:phone]'
+};
+
+const ruleCache = new Map<string, RedactionRule[]>();
+
+/**
+ * Rules for a redaction config; invalid custom patterns are skipped with a warning
+ */
+function getRules(config?: AIRedactionConfig): RedactionRule[] {
+  if (config && !config.enabled) return [];
+
+  const key = JSON.stringify(config || {});
+  const cached = ruleCache.get(key);
+  if (cached) return cached;
+
+  const rules: RedactionRule[] = [];
+  // API keys first so a key that looks like an email or phone number is labelled as a key
+  if (config?.redactApiKeys !== false) rules.push(API_KEY_RULE);
+  if (config?.redactEmails !== false) rules.push(EMAIL_RULE);
+  if (config?.redactPhoneNumbers !== false) rules.push(PHONE_RULE);
+
+  for (const custom of config?.customPatterns || []) {
+    try {
+      const flags = custom.flags?.includes('g') ? custom.flags : `${custom.flags || ''}g`;
+      rules.push({
+        name: custom.name,
+        pattern: new RegExp(custom.pattern, flags),
+        replacement: custom.replacement ?? `[REDACTED:${custom.name}]`
+      });
+    } catch (error) {
+      console.warn(`⚠️ Skipping invalid redaction pattern "${custom.name}":`, error);
+    }
+  }
+
+  ruleCache.set(key, rules);
+  return rules;
+}
+
+/**
+ * Redact one string
+ */
+export function redactText(text: string, config?: AIRedactionConfig): RedactionResult {
+  const counts: Record<string, number> = {};
+  let result = text;
+
+  for (const rule of getRules(config)) {
+    result = result.replace(rule.pattern, () => {
+      counts[rule.name] = (counts[rule.name] || 0) + 1;
+      return rule.replacement;
+    });
+  }
+
+  return { text: result, counts };
+}
+
+/**
+ * Redact every string inside a JSON-like value, adding matches to counts
+ */
+export function redactValue<T>(value: T, config: AIRedactionConfig | undefined, counts: Record<string, number>): T {
+  if (typeof value === 'string') {
+    const result = redactText(value, config);
+    Object.entries(result.counts).forEach(([name, count]) => { counts[name] = (counts[name] || 0) + count; });
+    return result.text as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, config, counts)) as T;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redactValue(item, config, counts)])
+    ) as T;
+  }
+  return value;
+}
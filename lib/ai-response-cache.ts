@@ -0,0 +1,400 @@
+/**
+ * AI Response Cache - Admin Panel Version
+ *
+ * Cache in front of AIAPIRouter, driven by each use case's AIPerformanceConfiguration
+ * (enableCaching, cacheTTL, cacheKeyStrategy).
+ *
+ * Backends (AI_RESPONSE_CACHE_BACKEND):
+ * - memory    → in-process LRU (default; per server instance)
+ * - firestore → shared aiResponseCache collection
+ *
+ * Hits, misses and the cost saved are counted per use case in aiCacheStats/{useCaseId}.
+ */
+
+import { createHash } from 'crypto';
+
+import type { AIPerformanceConfiguration, CacheKeyStrategy } from '@/types/ai-configuration-schema';
+import type { AIModelRequest, AIModelResponse } from './ai-api-router';
+import { applyPromptVariables } from './ai-provider-adapters';
+
+const DEFAULT_TTL_SECONDS = 60 * 60;
+const DEFAULT_MAX_MEMORY_ENTRIES = 500;
+
+export interface CachedAIResponse {
+  useCaseId: string;
+  response: AIModelResponse;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface AIResponseCacheBackend {
+  name: 'memory' | 'firestore';
+  get(key: string): Promise<CachedAIResponse | null>;
+  set(key: string, entry: CachedAIResponse): Promise<void>;
+  /** Remove every entry for a use case, returning how many were removed */
+  invalidate(useCaseId: string): Promise<number>;
+}
+
+/**
+ * Where and for how long a request's response may be cached
+ */
+export interface AICachePolicy {
+  useCaseId: string;
+  key: string;
+  ttlSeconds: number;
+  strategy: CacheKeyStrategy;
+}
+
+export interface AICacheStats {
+  useCaseId: string;
+  hits: number;
+  misses: number;
+  hitRate: number; // Percentage
+  savedCostUSD: number;
+  savedTokens: number;
+  lastHitAt?: string;
+  invalidatedAt?: string;
+}
+
+// ============================================================================
+// BACKENDS
+// ============================================================================
+
+/**
+ * Copy a response for storage, dropping the raw provider payload
+ */
+function toStoredResponse(response: AIModelResponse): AIModelResponse {
+  const { response: _raw, cacheHit: _cacheHit, ...rest } = response;
+  return JSON.parse(JSON.stringify(rest));
+}
+
+/**
+ * In-process LRU: Map iteration order doubles as recency order
+ */
+class MemoryLRUBackend implements AIResponseCacheBackend {
+  name = 'memory' as const;
+  private entries = new Map<string, CachedAIResponse>();
+
+  constructor(private maxEntries: number) {}
+
+  async get(key: string): Promise<CachedAIResponse | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return null;
+    }
+    // Re-insert to mark as most recently used
+    this.entries.set(key, entry);
+    return { ...entry, response: JSON.parse(JSON.stringify(entry.response)) };
+  }
+
+  async set(key: string, entry: CachedAIResponse): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async invalidate(useCaseId: string): Promise<number> {
+    let removed = 0;
+    for (const [key, entry] of Array.from(this.entries.entries())) {
+      if (entry.useCaseId === useCaseId) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+/**
+ * Shared cache in the aiResponseCache collection.
+ * The response is stored as a JSON string because parsed content may contain nested arrays.
+ */
+class FirestoreBackend implements AIResponseCacheBackend {
+  name = 'firestore' as const;
+  private static readonly COLLECTION = 'aiResponseCache';
+
+  async get(key: string): Promise<CachedAIResponse | null> {
+    const { adminDb } = await import('./firebase-admin');
+    const doc = await adminDb.collection(FirestoreBackend.COLLECTION).doc(key).get();
+    if (!doc.exists) return null;
+
+    const data = doc.data()!;
+    const expiresAt = data.expiresAt?.toMillis?.() ?? 0;
+    if (expiresAt <= Date.now()) {
+      doc.ref.delete().catch(() => {});
+      return null;
+    }
+
+    return {
+      useCaseId: data.useCaseId,
+      response: JSON.parse(data.payload),
+      createdAt: data.createdAt?.toMillis?.() ?? 0,
+      expiresAt
+    };
+  }
+
+  async set(key: string, entry: CachedAIResponse): Promise<void> {
+    const { adminDb } = await import('./firebase-admin');
+    const { Timestamp } = await import('firebase-admin/firestore');
+    await adminDb.collection(FirestoreBackend.COLLECTION).doc(key).set({
+      useCaseId: entry.useCaseId,
+      payload: JSON.stringify(entry.response),
+      createdAt: Timestamp.fromMillis(entry.createdAt),
+      expiresAt: Timestamp.fromMillis(entry.expiresAt)
+    });
+  }
+
+  async invalidate(useCaseId: string): Promise<number> {
+    const { adminDb } = await import('./firebase-admin');
+    let removed = 0;
+
+    // Delete in batches of 500 (Firestore batch limit)
+    while (true) {
+      const snapshot = await adminDb
+        .collection(FirestoreBackend.COLLECTION)
+        .where('useCaseId', '==', useCaseId)
+        .limit(500)
+        .get();
+      if (snapshot.empty) break;
+
+      const batch = adminDb.batch();
+      snapshot.docs.forEach(doc => batch.delete(doc.ref));
+      await batch.commit();
+      removed += snapshot.size;
+    }
+
+    return removed;
+  }
+}
+
+// ============================================================================
+// CACHE KEYS
+// ============================================================================
+
+/**
+ * JSON with object keys sorted, so equivalent requests hash identically
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+export class AIResponseCache {
+  private static backend: AIResponseCacheBackend | null = null;
+
+  static getBackend(): AIResponseCacheBackend {
+    if (!this.backend) {
+      this.backend = process.env.AI_RESPONSE_CACHE_BACKEND === 'firestore'
+        ? new FirestoreBackend()
+        : new MemoryLRUBackend(Number(process.env.AI_RESPONSE_CACHE_MAX_ENTRIES) || DEFAULT_MAX_MEMORY_ENTRIES);
+      console.log(`🗄️ AI response cache using ${this.backend.name} backend`);
+    }
+    return this.backend;
+  }
+
+  /**
+   * Cache key for a request under the given strategy.
+   * Returns null for 'custom' when the caller did not supply request.cacheKey.
+   */
+  static buildKey(request: AIModelRequest, useCaseId: string, strategy: CacheKeyStrategy): string | null {
+    let material: string;
+
+    switch (strategy) {
+      case 'custom':
+        // A caller's key can't tell the turns of a tool conversation apart
+        if (!request.cacheKey || request.messages?.length) return null;
+        material = request.cacheKey;
+        break;
+      case 'full-request':
+        material = stableStringify({
+          modelName: request.modelName,
+          providerId: request.providerId,
+          systemPrompt: request.systemPrompt,
+          userPrompt: request.userPrompt,
+          prompt: request.prompt,
+          variables: request.variables,
+          configuration: request.configuration,
+          parseResponse: request.parseResponse,
+          strictJsonMode: request.strictJsonMode,
+          ...(request.jsonSchema && { jsonSchema: request.jsonSchema }),
+          ...(request.messages?.length && { messages: request.messages }),
+          ...(request.tools?.length && { tools: request.tools, toolChoice: request.toolChoice })
+        });
+        break;
+      case 'prompt-hash':
+      default:
+        // Only the model, the final prompt text and any conversation turns matter
+        material = stableStringify({
+          modelName: request.modelName,
+          systemPrompt: request.systemPrompt ? applyPromptVariables(request.systemPrompt, request.variables) : null,
+          prompt: applyPromptVariables(request.userPrompt || request.prompt || '', request.variables),
+          ...(request.messages?.length && { messages: request.messages }),
+          ...(request.tools?.length && { tools: request.tools.map(tool => tool.name) })
+        });
+    }
+
+    return hash(`${useCaseId}:${strategy}:${material}`);
+  }
+
+  /**
+   * Caching policy for a request, or null when the use case has caching disabled
+   */
+  static getPolicy(
+    request: AIModelRequest,
+    useCaseId: string,
+    performanceConfig?: AIPerformanceConfiguration | null
+  ): AICachePolicy | null {
+    if (!performanceConfig?.enableCaching) return null;
+
+    const strategy = performanceConfig.cacheKeyStrategy || 'prompt-hash';
+    const key = this.buildKey(request, useCaseId, strategy);
+    if (!key) return null;
+
+    return {
+      useCaseId,
+      key,
+      strategy,
+      ttlSeconds: performanceConfig.cacheTTL || DEFAULT_TTL_SECONDS
+    };
+  }
+
+  /**
+   * Look up a cached response, counting the hit or miss
+   */
+  static async get(policy: AICachePolicy): Promise<AIModelResponse | null> {
+    let entry: CachedAIResponse | null = null;
+    try {
+      entry = await this.getBackend().get(policy.key);
+    } catch (error) {
+      console.warn(`⚠️ AI response cache lookup failed for ${policy.useCaseId}:`, error);
+    }
+
+    this.recordLookup(policy.useCaseId, entry?.response || null);
+    if (entry) {
+      console.log(`🗄️ Cache hit for ${policy.useCaseId} (${policy.strategy})`);
+    }
+    return entry?.response || null;
+  }
+
+  static async set(policy: AICachePolicy, response: AIModelResponse): Promise<void> {
+    const now = Date.now();
+    await this.getBackend().set(policy.key, {
+      useCaseId: policy.useCaseId,
+      response: toStoredResponse(response),
+      createdAt: now,
+      expiresAt: now + policy.ttlSeconds * 1000
+    });
+  }
+
+  /**
+   * Drop every cached response for a use case
+   */
+  static async invalidate(useCaseId: string): Promise<number> {
+    const removed = await this.getBackend().invalidate(useCaseId);
+
+    try {
+      const { adminDb } = await import('./firebase-admin');
+      const { FieldValue } = await import('firebase-admin/firestore');
+      await adminDb.collection('aiCacheStats').doc(useCaseId).set({
+        useCaseId,
+        invalidatedAt: new Date(),
+        entriesInvalidated: FieldValue.increment(removed),
+        updatedAt: new Date()
+      }, { merge: true });
+    } catch (error) {
+      console.warn(`⚠️ Could not record cache invalidation for ${useCaseId}:`, error);
+    }
+
+    console.log(`🗑️ Invalidated ${removed} cached response(s) for ${useCaseId}`);
+    return removed;
+  }
+
+  /**
+   * Hit/miss counters for all use cases, keyed by useCaseId
+   */
+  static async getStats(): Promise<Map<string, AICacheStats>> {
+    const stats = new Map<string, AICacheStats>();
+    try {
+      const { adminDb } = await import('./firebase-admin');
+      const snapshot = await adminDb.collection('aiCacheStats').get();
+      snapshot.forEach(doc => {
+        stats.set(doc.id, this.toStats(doc.id, doc.data()));
+      });
+    } catch (error) {
+      console.warn('⚠️ Could not load AI cache stats:', error);
+    }
+    return stats;
+  }
+
+  static async getStatsForUseCase(useCaseId: string): Promise<AICacheStats> {
+    const { adminDb } = await import('./firebase-admin');
+    const doc = await adminDb.collection('aiCacheStats').doc(useCaseId).get();
+    return this.toStats(useCaseId, doc.exists ? doc.data()! : {});
+  }
+
+  private static toStats(useCaseId: string, data: Record<string, any>): AICacheStats {
+    const hits = data.hits || 0;
+    const misses = data.misses || 0;
+    return {
+      useCaseId,
+      hits,
+      misses,
+      hitRate: hits + misses > 0 ? (hits / (hits + misses)) * 100 : 0,
+      savedCostUSD: data.savedCostUSD || 0,
+      savedTokens: data.savedTokens || 0,
+      lastHitAt: data.lastHitAt?.toDate?.()?.toISOString(),
+      invalidatedAt: data.invalidatedAt?.toDate?.()?.toISOString()
+    };
+  }
+
+  /**
+   * Fire-and-forget counter update for a lookup
+   */
+  private static recordLookup(useCaseId: string, cached: AIModelResponse | null): void {
+    (async () => {
+      const { adminDb } = await import('./firebase-admin');
+      const { FieldValue } = await import('firebase-admin/firestore');
+      await adminDb.collection('aiCacheStats').doc(useCaseId).set({
+        useCaseId,
+        ...(cached
+          ? {
+              hits: FieldValue.increment(1),
+              savedCostUSD: FieldValue.increment(cached.costUSD || 0),
+              savedTokens: FieldValue.increment(cached.usage?.totalTokens || 0),
+              lastHitAt: new Date()
+            }
+          : { misses: FieldValue.increment(1) }),
+        updatedAt: new Date()
+      }, { merge: true });
+    })().catch(error => {
+      console.error('📊 Cache stats tracking error (non-blocking):', error);
+    });
+  }
+}
+
+export default AIResponseCache;
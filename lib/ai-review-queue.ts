@@ -0,0 +1,155 @@
+/**
+ * AI Review Queue - Admin Panel Version
+ *
+ * Human review of AI outputs flagged by the quality evaluator (aiReviews, keyed by execution ID).
+ * A decision is written back to the aiExecutions record (reviewStatus, and qualityScore when the
+ * reviewer scores it) and counted in the use case's metadata.reviewStats. Approved or corrected
+ * outputs can be saved to aiReviewedExamples as reference data for the use case.
+ */
+
+import type { AIOutputReview, AIOutputReviewStatus } from '@/types/ai-configuration-schema';
+
+export const REVIEW_COLLECTION = 'aiReviews';
+export const REVIEWED_EXAMPLES_COLLECTION = 'aiReviewedExamples';
+const DEFAULT_LIST_LIMIT = 100;
+
+export type AIReviewAction = 'approve' | 'reject' | 'edit';
+
+export interface AIReviewDecision {
+  action: AIReviewAction;
+  notes?: string;
+  editedOutput?: string; // Required for 'edit'
+  score?: number; // Reviewer's 0-100 quality score
+  saveAsExample?: boolean; // Ignored for rejections
+}
+
+const ACTION_STATUS: Record<AIReviewAction, AIOutputReviewStatus> = {
+  approve: 'approved',
+  reject: 'rejected',
+  edit: 'edited'
+};
+
+export class AIReviewQueue {
+  /**
+   * Reviews, newest first, optionally filtered by status and use case
+   */
+  static async list(filters: {
+    status?: AIOutputReviewStatus;
+    useCaseId?: string;
+    limit?: number;
+  } = {}): Promise<Array<AIOutputReview & { id: string }>> {
+    const { adminDb } = await import('./firebase-admin');
+    let query: FirebaseFirestore.Query = adminDb.collection(REVIEW_COLLECTION);
+    if (filters.status) query = query.where('status', '==', filters.status);
+    if (filters.useCaseId) query = query.where('useCaseId', '==', filters.useCaseId);
+
+    const snapshot = await query
+      .orderBy('createdAt', 'desc')
+      .limit(filters.limit || DEFAULT_LIST_LIMIT)
+      .get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as AIOutputReview & { id: string });
+  }
+
+  /**
+   * Number of reviews in each status
+   */
+  static async countByStatus(): Promise<Record<AIOutputReviewStatus, number>> {
+    const { adminDb } = await import('./firebase-admin');
+    const statuses: AIOutputReviewStatus[] = ['pending', 'approved', 'rejected', 'edited'];
+    const counts = await Promise.all(statuses.map(status =>
+      adminDb.collection(REVIEW_COLLECTION).where('status', '==', status).count().get()
+    ));
+    return Object.fromEntries(
+      statuses.map((status, index) => [status, counts[index].data().count])
+    ) as Record<AIOutputReviewStatus, number>;
+  }
+
+  static async get(reviewId: string): Promise<(AIOutputReview & { id: string }) | null> {
+    const { adminDb } = await import('./firebase-admin');
+    const doc = await adminDb.collection(REVIEW_COLLECTION).doc(reviewId).get();
+    return doc.exists ? ({ id: doc.id, ...doc.data() } as AIOutputReview & { id: string }) : null;
+  }
+
+  /**
+   * Record a reviewer's decision on a pending review. The status check and every write happen in
+   * one transaction, so concurrent decisions can't both count. Returns null when the review is
+   * missing or no longer pending.
+   */
+  static async decide(reviewId: string, decision: AIReviewDecision): Promise<AIOutputReview | null> {
+    if (decision.action === 'edit' && !decision.editedOutput?.trim()) {
+      throw new Error('editedOutput is required to edit a review');
+    }
+
+    const { adminDb } = await import('./firebase-admin');
+    const { FieldValue } = await import('firebase-admin/firestore');
+    const status = ACTION_STATUS[decision.action];
+    const hasScore = typeof decision.score === 'number' && !isNaN(decision.score);
+    const score = hasScore ? Math.max(0, Math.min(100, Math.round(decision.score!))) : undefined;
+    const saveAsExample = !!decision.saveAsExample && status !== 'rejected';
+    const reviewRef = adminDb.collection(REVIEW_COLLECTION).doc(reviewId);
+
+    const decided = await adminDb.runTransaction(async transaction => {
+      const doc = await transaction.get(reviewRef);
+      if (!doc.exists) return null;
+      const review = { id: doc.id, ...doc.data() } as AIOutputReview & { id: string };
+      if (review.status !== 'pending') return null;
+      // A deleted use case keeps only its tombstone, so its stats aren't recreated as a stub config
+      const configRef = adminDb.collection('aiUseCaseConfigs').doc(review.useCaseId);
+      const configExists = (await transaction.get(configRef)).exists;
+
+      const now = new Date();
+      const reviewUpdate: Record<string, any> = {
+        status,
+        reviewedAt: now,
+        reviewedBy: 'admin', // TODO: Get actual user from auth
+        ...(decision.notes && { reviewerNotes: decision.notes }),
+        ...(score !== undefined && { reviewerScore: score }),
+        ...(status === 'edited' && { editedOutput: decision.editedOutput }),
+        ...(saveAsExample && { savedAsExample: true })
+      };
+
+      transaction.update(reviewRef, reviewUpdate);
+
+      // The reviewer's score replaces the evaluator's, so experiment and quality stats use it
+      transaction.set(adminDb.collection('aiExecutions').doc(review.executionId), {
+        reviewStatus: status,
+        ...(score !== undefined && { qualityScore: score, evaluatorQualityScore: review.qualityScore })
+      }, { merge: true });
+
+      if (configExists) {
+        transaction.set(configRef, {
+          metadata: {
+            reviewStats: {
+              pending: FieldValue.increment(-1),
+              [status]: FieldValue.increment(1),
+              lastReviewedAt: now
+            }
+          }
+        }, { merge: true });
+      }
+
+      if (saveAsExample) {
+        transaction.set(adminDb.collection(REVIEWED_EXAMPLES_COLLECTION).doc(review.id), {
+          useCaseId: review.useCaseId,
+          configurationVersion: review.configurationVersion,
+          model: review.model,
+          prompt: review.prompt,
+          ...(review.systemPrompt && { systemPrompt: review.systemPrompt }),
+          output: status === 'edited' ? decision.editedOutput : review.output,
+          qualityScore: score ?? review.qualityScore,
+          reviewId: review.id,
+          createdAt: now
+        });
+      }
+
+      return { ...review, ...reviewUpdate } as AIOutputReview;
+    });
+
+    if (decided) {
+      console.log(`📝 Review ${reviewId} (${decided.useCaseId}) marked ${status}`);
+    }
+    return decided;
+  }
+}
+
+export default AIReviewQueue;
@@ -0,0 +1,134 @@
+/**
+ * AI Tool Runner - Admin Panel Version
+ *
+ * Multi-turn tool calling on top of AIAPIRouter. Register handlers for the functions a
+ * model may call, then run() sends the request, executes every tool call the model makes,
+ * feeds the results back as 'tool' messages and repeats until the model answers without
+ * calling a tool.
+ *
+ * Tool definitions are normalized by the provider adapters (Gemini function declarations,
+ * OpenAI/OpenRouter `tools`, Anthropic `tools`). Each turn is tracked as its own execution.
+ */
+
+import {
+  AIAPIRouter,
+  type AIChatMessage,
+  type AIModelRequest,
+  type AIModelResponse,
+  type AIToolCall,
+  type AIToolDefinition
+} from './ai-api-router';
+
+const DEFAULT_MAX_TURNS = 8;
+
+export type AIToolHandler = (args: Record<string, any>, call: AIToolCall) => unknown | Promise<unknown>;
+
+export interface AIToolInvocation {
+  turn: number;
+  call: AIToolCall;
+  result?: unknown;
+  error?: string;
+  latencyMs: number;
+}
+
+export interface AIToolRunOptions {
+  maxTurns?: number; // Provider calls before giving up (default 8)
+  /** Called after each tool handler finishes, e.g. to stream progress */
+  onToolCall?: (invocation: AIToolInvocation) => void;
+}
+
+export interface AIToolRunResult {
+  response: AIModelResponse; // Final answer
+  messages: AIChatMessage[]; // Conversation after the initial prompt, including tool calls and results
+  invocations: AIToolInvocation[];
+  turns: number;
+  totalCostUSD: number;
+  totalTokens: number;
+}
+
+/**
+ * Serialize a handler result for the model
+ */
+function toToolContent(result: unknown): string {
+  return typeof result === 'string' ? result : JSON.stringify(result ?? null);
+}
+
+export class AIToolRunner {
+  private tools = new Map<string, { definition: AIToolDefinition; handler: AIToolHandler }>();
+
+  register(definition: AIToolDefinition, handler: AIToolHandler): this {
+    this.tools.set(definition.name, { definition, handler });
+    return this;
+  }
+
+  get definitions(): AIToolDefinition[] {
+    return Array.from(this.tools.values()).map(tool => tool.definition);
+  }
+
+  /**
+   * Run a request until the model stops calling tools
+   */
+  async run(request: AIModelRequest, options: AIToolRunOptions = {}): Promise<AIToolRunResult> {
+    const maxTurns = options.maxTurns ?? DEFAULT_MAX_TURNS;
+    const messages: AIChatMessage[] = [...(request.messages || [])];
+    const invocations: AIToolInvocation[] = [];
+    let totalCostUSD = 0;
+    let totalTokens = 0;
+
+    for (let turn = 1; turn <= maxTurns; turn++) {
+      const response = await AIAPIRouter.executeRequest({
+        ...request,
+        messages: [...messages],
+        tools: [...(request.tools || []), ...this.definitions],
+        analytics: request.analytics && {
+          ...request.analytics,
+          metadata: { ...request.analytics.metadata, toolTurn: turn }
+        }
+      });
+      totalCostUSD += response.costUSD;
+      totalTokens += response.usage.totalTokens;
+
+      if (!response.toolCalls?.length) {
+        return { response, messages, invocations, turns: turn, totalCostUSD, totalTokens };
+      }
+
+      messages.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
+
+      for (const call of response.toolCalls) {
+        const invocation = await this.invoke(call, turn);
+        invocations.push(invocation);
+        options.onToolCall?.(invocation);
+
+        messages.push({
+          role: 'tool',
+          toolCallId: call.id,
+          name: call.name,
+          // Errors go back to the model so it can correct the call or answer without the tool
+          content: invocation.error ? JSON.stringify({ error: invocation.error }) : toToolContent(invocation.result)
+        });
+      }
+    }
+
+    throw new Error(`Model ${request.modelName} was still calling tools after ${maxTurns} turns`);
+  }
+
+  private async invoke(call: AIToolCall, turn: number): Promise<AIToolInvocation> {
+    const startTime = Date.now();
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      console.warn(`⚠️ Model called unknown tool ${call.name}`);
+      return { turn, call, error: `Unknown tool: ${call.name}`, latencyMs: 0 };
+    }
+
+    try {
+      console.log(`🔧 Calling tool ${call.name} (turn ${turn})`);
+      const result = await tool.handler(call.arguments, call);
+      return { turn, call, result, latencyMs: Date.now() - startTime };
+    } catch (error: any) {
+      console.error(`❌ Tool ${call.name} failed:`, error);
+      return { turn, call, error: error?.message || 'Tool failed', latencyMs: Date.now() - startTime };
+    }
+  }
+}
+
+export default AIToolRunner;
@@ -0,0 +1,486 @@
+/**
+ * AI Usage Rollups - Admin Panel Version
+ *
+ * Aggregates raw aiExecutions into hourly and daily buckets per use case, model and provider
+ * (aiUsageRollups): calls, errors, tokens, cost, cache hits, latency p50/p95 and average quality
+ * score. Bucket documents have deterministic IDs, so re-running a window simply recomputes it.
+ *
+ * Each run also refreshes the per-use-case summaries that the stats overview reads
+ * (aiUsageStats/{useCaseId} and metadata.usageStats) from the last 30 days of daily buckets.
+ */
+
+export type AIUsageGranularity = 'hour' | 'day';
+
+export const ROLLUP_COLLECTION = 'aiUsageRollups';
+const USAGE_STATS_COLLECTION = 'aiUsageStats';
+const SUMMARY_WINDOW_DAYS = 30;
+const DEFAULT_LOOKBACK_HOURS = 48; // Recomputed on every run to pick up late executions
+const BATCH_SIZE = 400;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Upper bounds (ms) of the latency histogram kept on every bucket so percentiles can be merged
+export const LATENCY_HISTOGRAM_BOUNDS = [100, 250, 500, 1000, 2000, 5000, 10000, 20000, 30000, 60000, Infinity];
+
+export interface AIUsageRollup {
+  granularity: AIUsageGranularity;
+  bucketStart: Date;
+  useCaseId: string;
+  model: string;
+  provider: string;
+  calls: number;
+  errors: number;
+  errorRate: number; // Percentage
+  cacheHits: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUSD: number;
+  latencyP50: number;
+  latencyP95: number;
+  latencyHistogram: number[]; // Counts per LATENCY_HISTOGRAM_BOUNDS bucket
+  qualityScoreSum: number; // Sum of qualityScore over evaluated executions
+  qualitySamples: number;
+  updatedAt: Date;
+}
+
+export interface AIUsageSeriesPoint {
+  bucketStart: string; // ISO
+  calls: number;
+  errors: number;
+  errorRate: number;
+  totalTokens: number;
+  costUSD: number;
+  latencyP50: number;
+  latencyP95: number;
+  avgQualityScore: number | null; // null when no execution in the bucket was evaluated
+}
+
+export interface AIUsageBreakdownEntry {
+  key: string;
+  calls: number;
+  errors: number;
+  costUSD: number;
+  totalTokens: number;
+}
+
+export interface AIUsageSeries {
+  granularity: AIUsageGranularity;
+  from: string;
+  to: string;
+  points: AIUsageSeriesPoint[];
+  totals: Omit<AIUsageSeriesPoint, 'bucketStart'>;
+  byUseCase: AIUsageBreakdownEntry[];
+  byModel: AIUsageBreakdownEntry[];
+  byProvider: AIUsageBreakdownEntry[];
+}
+
+export interface AIUsageTotals extends Omit<AIUsageSeriesPoint, 'bucketStart'> {
+  // Highest exact p95 of the merged buckets; unlike latencyP95 it isn't rounded up to a histogram bound
+  maxBucketLatencyP95: number;
+}
+
+interface BucketAccumulator {
+  granularity: AIUsageGranularity;
+  bucketStart: number;
+  useCaseId: string;
+  model: string;
+  provider: string;
+  calls: number;
+  errors: number;
+  cacheHits: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUSD: number;
+  qualityScoreSum: number;
+  qualitySamples: number;
+  latencies: number[];
+}
+
+export function getBucketStart(time: number, granularity: AIUsageGranularity): number {
+  const size = granularity === 'hour' ? HOUR_MS : DAY_MS;
+  return Math.floor(time / size) * size; // UTC buckets
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+function toHistogram(latencies: number[]): number[] {
+  const histogram = LATENCY_HISTOGRAM_BOUNDS.map(() => 0);
+  latencies.forEach(latency => {
+    histogram[LATENCY_HISTOGRAM_BOUNDS.findIndex(bound => latency <= bound)]++;
+  });
+  return histogram;
+}
+
+/**
+ * Percentile from a merged histogram: the upper bound of the bucket it falls in
+ * (the last finite bound for the overflow bucket)
+ */
+function histogramPercentile(histogram: number[], p: number): number {
+  const total = histogram.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return 0;
+  const target = Math.ceil((p / 100) * total);
+  let seen = 0;
+  for (let i = 0; i < histogram.length; i++) {
+    seen += histogram[i];
+    if (seen >= target) {
+      return isFinite(LATENCY_HISTOGRAM_BOUNDS[i]) ? LATENCY_HISTOGRAM_BOUNDS[i] : LATENCY_HISTOGRAM_BOUNDS[i - 1];
+    }
+  }
+  return 0;
+}
+
+// Document IDs can't contain "/", which model names (e.g. "openai/gpt-4o") do
+function toKeyPart(value: string): string {
+  return value.replace(/\//g, '|');
+}
+
+function toDate(value: any): Date | null {
+  if (!value) return null;
+  if (value instanceof Date) return value;
+  if (typeof value.toDate === 'function') return value.toDate();
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Firestore batches take at most 500 writes
+async function commitWrites(
+  adminDb: FirebaseFirestore.Firestore,
+  writes: Array<(batch: FirebaseFirestore.WriteBatch) => void>
+): Promise<void> {
+  for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+    const batch = adminDb.batch();
+    writes.slice(i, i + BATCH_SIZE).forEach(write => write(batch));
+    await batch.commit();
+  }
+}
+
+/**
+ * Totals for a group of buckets. A single bucket keeps its exact percentiles;
+ * merged buckets use the combined histogram.
+ */
+export function summarizeRollups(group: AIUsageRollup[]): Omit<AIUsageSeriesPoint, 'bucketStart'> {
+  const histogram = LATENCY_HISTOGRAM_BOUNDS.map(() => 0);
+  let calls = 0;
+  let errors = 0;
+  let totalTokens = 0;
+  let costUSD = 0;
+  let qualityScoreSum = 0;
+  let qualitySamples = 0;
+  group.forEach(rollup => {
+    calls += rollup.calls;
+    errors += rollup.errors;
+    totalTokens += rollup.totalTokens;
+    costUSD += rollup.costUSD;
+    qualityScoreSum += rollup.qualityScoreSum || 0;
+    qualitySamples += rollup.qualitySamples || 0;
+    rollup.latencyHistogram?.forEach((count, index) => { histogram[index] += count; });
+  });
+
+  const single = group.length === 1 ? group[0] : null;
+  return {
+    calls,
+    errors,
+    errorRate: calls ? Math.round((errors / calls) * 1000) / 10 : 0,
+    totalTokens,
+    costUSD,
+    latencyP50: single ? single.latencyP50 : histogramPercentile(histogram, 50),
+    latencyP95: single ? single.latencyP95 : histogramPercentile(histogram, 95),
+    avgQualityScore: qualitySamples ? Math.round((qualityScoreSum / qualitySamples) * 10) / 10 : null
+  };
+}
+
+export class AIUsageRollups {
+  /**
+   * Recompute the hourly and daily buckets covering [since, until).
+   * The window is widened to whole UTC days so daily buckets are complete, and is read one
+   * day at a time so a long window never holds more than a day of executions in memory.
+   */
+  static async rollup(options: { since?: Date; until?: Date } = {}): Promise<{
+    executions: number;
+    buckets: number;
+    from: string;
+    to: string;
+  }> {
+    const until = options.until || new Date();
+    const since = options.since || new Date(until.getTime() - DEFAULT_LOOKBACK_HOURS * HOUR_MS);
+    const from = new Date(getBucketStart(since.getTime(), 'day'));
+    const to = new Date(getBucketStart(until.getTime(), 'day') + DAY_MS);
+
+    console.log(`📈 Rolling up aiExecutions from ${from.toISOString()} to ${to.toISOString()}`);
+
+    let executions = 0;
+    let buckets = 0;
+    for (let dayStart = from.getTime(); dayStart < to.getTime(); dayStart += DAY_MS) {
+      const day = await this.rollupDay(new Date(dayStart), new Date(dayStart + DAY_MS));
+      executions += day.executions;
+      buckets += day.buckets;
+    }
+
+    await this.refreshUsageSummaries();
+
+    console.log(`📈 Rolled up ${executions} executions into ${buckets} buckets`);
+    return { executions, buckets, from: from.toISOString(), to: to.toISOString() };
+  }
+
+  /**
+   * Recompute the buckets of one UTC day [from, to)
+   */
+  private static async rollupDay(from: Date, to: Date): Promise<{ executions: number; buckets: number }> {
+    const { adminDb } = await import('./firebase-admin');
+    const snapshot = await adminDb.collection('aiExecutions')
+      .where('timestamp', '>=', from)
+      .where('timestamp', '<', to)
+      .select('useCaseId', 'model', 'modelUsed', 'provider', 'success', 'latencyMs', 'tokenUsage', 'costUSD', 'cacheHit', 'qualityScore', 'timestamp')
+      .get();
+
+    const buckets = new Map<string, BucketAccumulator>();
+    snapshot.forEach(doc => {
+      const data = doc.data();
+      const timestamp = toDate(data.timestamp);
+      if (!timestamp || !data.useCaseId) return;
+
+      const model = data.model || data.modelUsed || 'unknown';
+      const provider = data.provider || 'unknown';
+      (['hour', 'day'] as AIUsageGranularity[]).forEach(granularity => {
+        const bucketStart = getBucketStart(timestamp.getTime(), granularity);
+        const id = [granularity, new Date(bucketStart).toISOString(), data.useCaseId, model, provider]
+          .map(toKeyPart)
+          .join('_');
+        const bucket: BucketAccumulator = buckets.get(id) || {
+          granularity,
+          bucketStart,
+          useCaseId: data.useCaseId,
+          model,
+          provider,
+          calls: 0,
+          errors: 0,
+          cacheHits: 0,
+          promptTokens: 0,
+          completionTokens: 0,
+          totalTokens: 0,
+          costUSD: 0,
+          qualityScoreSum: 0,
+          qualitySamples: 0,
+          latencies: []
+        };
+
+        bucket.calls++;
+        if (data.success === false) bucket.errors++;
+        if (data.cacheHit) bucket.cacheHits++;
+        bucket.promptTokens += data.tokenUsage?.promptTokens || 0;
+        bucket.completionTokens += data.tokenUsage?.completionTokens || 0;
+        bucket.totalTokens += data.tokenUsage?.totalTokens || 0;
+        bucket.costUSD += data.costUSD || 0;
+        if (typeof data.qualityScore === 'number') {
+          bucket.qualityScoreSum += data.qualityScore;
+          bucket.qualitySamples++;
+        }
+        // Cache hits don't reflect provider latency
+        if (!data.cacheHit && Number.isFinite(data.latencyMs)) bucket.latencies.push(data.latencyMs);
+        buckets.set(id, bucket);
+      });
+    });
+
+    // Buckets in the window that no longer have executions are removed
+    const existing = await adminDb.collection(ROLLUP_COLLECTION)
+      .where('bucketStart', '>=', from)
+      .where('bucketStart', '<', to)
+      .select()
+      .get();
+    const staleIds = existing.docs.map(doc => doc.id).filter(id => !buckets.has(id));
+
+    const now = new Date();
+    const writes: Array<(batch: FirebaseFirestore.WriteBatch) => void> = [
+      ...Array.from(buckets.entries()).map(([id, bucket]) => (batch: FirebaseFirestore.WriteBatch) => {
+        const sorted = [...bucket.latencies].sort((a, b) => a - b);
+        const { latencies: _latencies, bucketStart, ...totals } = bucket;
+        batch.set(adminDb.collection(ROLLUP_COLLECTION).doc(id), {
+          ...totals,
+          bucketStart: new Date(bucketStart),
+          errorRate: Math.round((bucket.errors / bucket.calls) * 1000) / 10,
+          latencyP50: percentile(sorted, 50),
+          latencyP95: percentile(sorted, 95),
+          latencyHistogram: toHistogram(sorted),
+          updatedAt: now
+        });
+      }),
+      ...staleIds.map(id => (batch: FirebaseFirestore.WriteBatch) => {
+        batch.delete(adminDb.collection(ROLLUP_COLLECTION).doc(id));
+      })
+    ];
+
+    await commitWrites(adminDb, writes);
+    return { executions: snapshot.size, buckets: buckets.size };
+
+  }
+
+  /**
+   * Rebuild aiUsageStats/{useCaseId} and metadata.usageStats from the recent daily buckets
+   */
+  static async refreshUsageSummaries(): Promise<void> {
+    const { adminDb } = await import('./firebase-admin');
+    const since = new Date(getBucketStart(Date.now(), 'day') - (SUMMARY_WINDOW_DAYS - 1) * DAY_MS);
+    const snapshot = await adminDb.collection(ROLLUP_COLLECTION)
+      .where('granularity', '==', 'day')
+      .where('bucketStart', '>=', since)
+      .get();
+
+    const summaries = new Map<string, {
+      calls: number;
+      errors: number;
+      costUSD: number;
+      histogram: number[];
+      latencyTotal: number;
+      latencySamples: number;
+      days: Set<number>;
+      lastBucket: Date;
+    }>();
+    snapshot.forEach(doc => {
+      const rollup = doc.data() as AIUsageRollup;
+      const bucketStart = toDate(rollup.bucketStart)!;
+      const summary = summaries.get(rollup.useCaseId) || {
+        calls: 0,
+        errors: 0,
+        costUSD: 0,
+        histogram: LATENCY_HISTOGRAM_BOUNDS.map(() => 0),
+        latencyTotal: 0,
+        latencySamples: 0,
+        days: new Set<number>(),
+        lastBucket: bucketStart
+      };
+      summary.calls += rollup.calls;
+      summary.errors += rollup.errors;
+      summary.costUSD += rollup.costUSD;
+      rollup.latencyHistogram?.forEach((count, index) => { summary.histogram[index] += count; });
+      const samples = rollup.latencyHistogram?.reduce((sum, count) => sum + count, 0) || 0;
+      summary.latencyTotal += rollup.latencyP50 * samples;
+      summary.latencySamples += samples;
+      summary.days.add(bucketStart.getTime());
+      if (bucketStart > summary.lastBucket) summary.lastBucket = bucketStart;
+      summaries.set(rollup.useCaseId, summary);
+    });
+
+    const configs = await adminDb.collection('aiUseCaseConfigs').select().get();
+    const configIds = new Set(configs.docs.map(doc => doc.id));
+    const writes: Array<(batch: FirebaseFirestore.WriteBatch) => void> = [];
+    summaries.forEach((summary, useCaseId) => {
+      const usageStats = {
+        totalCalls: summary.calls,
+        dailyAverageCalls: Math.round((summary.calls / SUMMARY_WINDOW_DAYS) * 10) / 10,
+        totalCost: summary.costUSD,
+        // Weighted by each day's median, which keeps this stable against outliers
+        averageLatency: summary.latencySamples ? Math.round(summary.latencyTotal / summary.latencySamples) : 0,
+        successRate: summary.calls ? Math.round(((summary.calls - summary.errors) / summary.calls) * 1000) / 10 : 0,
+        lastUsed: summary.lastBucket
+      };
+      writes.push(batch => batch.set(adminDb.collection(USAGE_STATS_COLLECTION).doc(useCaseId), {
+        ...usageStats,
+        latencyP95: histogramPercentile(summary.histogram, 95),
+        windowDays: SUMMARY_WINDOW_DAYS,
+        updatedAt: new Date()
+      }));
+      if (configIds.has(useCaseId)) {
+        writes.push(batch => batch.update(adminDb.collection('aiUseCaseConfigs').doc(useCaseId), { 'metadata.usageStats': usageStats }));
+      }
+    });
+    await commitWrites(adminDb, writes);
+  }
+
+  /**
+   * Time series over a date range, optionally filtered to one use case, model or provider.
+   * Empty buckets are filled with zeros so charts have an even x-axis.
+   */
+  static async getSeries(options: {
+    from: Date;
+    to: Date;
+    granularity: AIUsageGranularity;
+    useCaseId?: string;
+    model?: string;
+    provider?: string;
+  }): Promise<AIUsageSeries> {
+    const { adminDb } = await import('./firebase-admin');
+    const { granularity } = options;
+    const from = new Date(getBucketStart(options.from.getTime(), granularity));
+
+    const snapshot = await adminDb.collection(ROLLUP_COLLECTION)
+      .where('granularity', '==', granularity)
+      .where('bucketStart', '>=', from)
+      .where('bucketStart', '<=', options.to)
+      .get();
+
+    const rollups = snapshot.docs
+      .map(doc => doc.data() as AIUsageRollup)
+      .filter(rollup =>
+        (!options.useCaseId || rollup.useCaseId === options.useCaseId) &&
+        (!options.model || rollup.model === options.model) &&
+        (!options.provider || rollup.provider === options.provider)
+      );
+
+    const step = granularity === 'hour' ? HOUR_MS : DAY_MS;
+    const points = new Map<number, AIUsageRollup[]>();
+    for (let time = from.getTime(); time <= options.to.getTime(); time += step) {
+      points.set(time, []);
+    }
+    rollups.forEach(rollup => {
+      const time = toDate(rollup.bucketStart)!.getTime();
+      points.set(time, [...(points.get(time) || []), rollup]);
+    });
+
+    const breakdown = (key: (rollup: AIUsageRollup) => string): AIUsageBreakdownEntry[] => {
+      const entries = new Map<string, AIUsageBreakdownEntry>();
+      rollups.forEach(rollup => {
+        const name = key(rollup);
+        const entry = entries.get(name) || { key: name, calls: 0, errors: 0, costUSD: 0, totalTokens: 0 };
+        entry.calls += rollup.calls;
+        entry.errors += rollup.errors;
+        entry.costUSD += rollup.costUSD;
+        entry.totalTokens += rollup.totalTokens;
+        entries.set(name, entry);
+      });
+      return Array.from(entries.values()).sort((a, b) => b.costUSD - a.costUSD || b.calls - a.calls);
+    };
+
+    return {
+      granularity,
+      from: from.toISOString(),
+      to: options.to.toISOString(),
+      points: Array.from(points.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([time, group]) => ({ bucketStart: new Date(time).toISOString(), ...summarizeRollups(group) })),
+      totals: summarizeRollups(rollups),
+      byUseCase: breakdown(rollup => rollup.useCaseId),
+      byModel: breakdown(rollup => rollup.model),
+      byProvider: breakdown(rollup => rollup.provider)
+    };
+  }
+
+  /**
+   * Totals per use case over the hourly buckets starting in [from, to]
+   */
+  static async getUseCaseTotals(from: Date, to: Date): Promise<Map<string, AIUsageTotals>> {
+    const { adminDb } = await import('./firebase-admin');
+    const snapshot = await adminDb.collection(ROLLUP_COLLECTION)
+      .where('granularity', '==', 'hour')
+      .where('bucketStart', '>=', new Date(getBucketStart(from.getTime(), 'hour')))
+      .where('bucketStart', '<=', to)
+      .get();
+
+    const groups = new Map<string, AIUsageRollup[]>();
+    snapshot.forEach(doc => {
+      const rollup = doc.data() as AIUsageRollup;
+      groups.set(rollup.useCaseId, [...(groups.get(rollup.useCaseId) || []), rollup]);
+    });
+
+    return new Map(Array.from(groups.entries()).map(([useCaseId, group]) => [useCaseId, {
+      ...summarizeRollups(group),
+      maxBucketLatencyP95: Math.max(0, ...group.filter(rollup => !!rollup.latencyHistogram?.some(Boolean)).map(rollup => rollup.latencyP95))
+    }]));
+  }
+}
+
+export default AIUsageRollups;
@@ -0,0 +1,340 @@
+/**
+ * Enrichment Job Queue - Admin Panel Version
+ *
+ * Durable queue behind model enrichment executions. Each workflow_executions document has a job in
+ * enrichmentJobs (same ID) and one work item per model in enrichmentJobs/{id}/items. A worker claims a
+ * job by taking its lease, renews the lease with heartbeats while it processes items, and releases it
+ * when it finishes, pauses or runs out of time. Jobs whose lease expires (the server restarted or the
+ * worker died) are requeued by recoverOrphaned(), and processing resumes at the first pending item.
+ */
+
+export const ENRICHMENT_JOB_COLLECTION = 'enrichmentJobs';
+const ITEM_SUBCOLLECTION = 'items';
+
+export const DEFAULT_LEASE_MS = 5 * 60 * 1000;
+const MAX_ITEM_ATTEMPTS = 3; // An item that keeps killing its worker is failed instead of retried forever
+const CLAIM_CANDIDATES = 20;
+const WRITE_BATCH_SIZE = 400;
+
+export type EnrichmentJobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+export type EnrichmentJobItemStatus = 'pending' | 'processing' | 'succeeded' | 'failed' | 'skipped';
+
+export interface EnrichmentJob {
+  id: string; // Same as the workflow_executions ID
+  status: EnrichmentJobStatus;
+  totalItems: number;
+  leaseOwner?: string;
+  leaseExpiresAt?: string;
+  heartbeatAt?: string;
+  availableAt: string; // Not claimable before this (used for the delay between batches)
+  recoveries: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EnrichmentJobItem {
+  id: string;
+  modelId: string;
+  index: number; // Position in the execution's model list
+  status: EnrichmentJobItemStatus;
+  attempts: number;
+  cost?: number;
+  error?: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface OrphanRecovery {
+  jobId: string;
+  reason: 'lease-expired' | 'legacy-execution';
+  resetItems: number;
+  failedItems: number;
+}
+
+const nowIso = () => new Date().toISOString();
+const addMs = (ms: number) => new Date(Date.now() + ms).toISOString();
+const itemId = (index: number) => String(index).padStart(5, '0');
+
+export class EnrichmentJobQueue {
+
+  /**
+   * Create the job and its work items for an execution
+   */
+  static async enqueue(executionId: string, modelIds: string[], startIndex: number = 0): Promise<EnrichmentJob> {
+    const { adminDb } = await import('./firebase-admin');
+    const jobRef = adminDb.collection(ENRICHMENT_JOB_COLLECTION).doc(executionId);
+    const timestamp = nowIso();
+
+    const job: EnrichmentJob = {
+      id: executionId,
+      status: 'queued',
+      totalItems: modelIds.length,
+      availableAt: timestamp,
+      recoveries: 0,
+      createdAt: timestamp,
+      updatedAt: timestamp
+    };
+
+    // Items first, so a worker never claims a job whose items are only partly written
+    for (let i = 0; i < modelIds.length; i += WRITE_BATCH_SIZE) {
+      const batch = adminDb.batch();
+      modelIds.slice(i, i + WRITE_BATCH_SIZE).forEach((modelId, offset) => {
+        const index = startIndex + i + offset;
+        const item: EnrichmentJobItem = { id: itemId(index), modelId, index, status: 'pending', attempts: 0 };
+        batch.set(jobRef.collection(ITEM_SUBCOLLECTION).doc(item.id), item);
+      });
+      await batch.commit();
+    }
+    await jobRef.set(job);
+
+    console.log(`📥 Queued enrichment job ${executionId} with ${modelIds.length} models`);
+    return job;
+  }
+
+  static async getJob(jobId: string): Promise<EnrichmentJob | null> {
+    const { adminDb } = await import('./firebase-admin');
+    const doc = await adminDb.collection(ENRICHMENT_JOB_COLLECTION).doc(jobId).get();
+    return doc.exists ? (doc.data() as EnrichmentJob) : null;
+  }
+
+  /**
+   * Items in model order
+   */
+  static async getItems(jobId: string): Promise<EnrichmentJobItem[]> {
+    const { adminDb } = await import('./firebase-admin');
+    const snapshot = await adminDb.collection(ENRICHMENT_JOB_COLLECTION).doc(jobId)
+      .collection(ITEM_SUBCOLLECTION)
+      .orderBy('index')
+      .get();
+    return snapshot.docs.map(doc => doc.data() as EnrichmentJobItem);
+  }
+
+  static async itemRef(jobId: string, id: string): Promise<FirebaseFirestore.DocumentReference> {
+    const { adminDb } = await import('./firebase-admin');
+    return adminDb.collection(ENRICHMENT_JOB_COLLECTION).doc(jobId).collection(ITEM_SUBCOLLECTION).doc(id);
+  }
+
+  /**
+   * Take the lease on a claimable job: a specific one, or the oldest available
+   */
+  static async claim(workerId: string, options: { jobId?: string; leaseMs?: number } = {}): Promise<EnrichmentJob | null> {
+    const { adminDb } = await import('./firebase-admin');
+    const collection = adminDb.collection(ENRICHMENT_JOB_COLLECTION);
+    const leaseMs = options.leaseMs ?? DEFAULT_LEASE_MS;
+
+    return adminDb.runTransaction(async transaction => {
+      const now = nowIso();
+      let candidates: EnrichmentJob[];
+      if (options.jobId) {
+        const doc = await transaction.get(collection.doc(options.jobId));
+        candidates = doc.exists ? [doc.data() as EnrichmentJob] : [];
+      } else {
+        // Single-field filter so no composite index is needed; ordering happens here
+        const snapshot = await transaction.get(collection.where('status', '==', 'queued').limit(CLAIM_CANDIDATES));
+        candidates = snapshot.docs.map(doc => doc.data() as EnrichmentJob)
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      }
+
+      // A resumed job can still be leased by the worker that paused it until that worker lets go
+      const job = candidates.find(candidate =>
+        candidate.status === 'queued' &&
+        candidate.availableAt <= now &&
+        (!candidate.leaseOwner || (candidate.leaseExpiresAt || '') <= now)
+      );
+      if (!job) return null;
+
+      const claimed: EnrichmentJob = {
+        ...job,
+        status: 'running',
+        leaseOwner: workerId,
+        leaseExpiresAt: addMs(leaseMs),
+        heartbeatAt: now,
+        updatedAt: now
+      };
+      transaction.set(collection.doc(job.id), claimed);
+      return claimed;
+    });
+  }
+
+  /**
+   * Renew the lease. Returns the job's status, or null when the lease now belongs to someone else;
+   * anything other than 'running' means the worker should stop (paused or cancelled by an admin).
+   */
+  static async heartbeat(jobId: string, workerId: string, leaseMs: number = DEFAULT_LEASE_MS): Promise<EnrichmentJobStatus | null> {
+    const { adminDb } = await import('./firebase-admin');
+    const jobRef = adminDb.collection(ENRICHMENT_JOB_COLLECTION).doc(jobId);
+
+    return adminDb.runTransaction(async transaction => {
+      const doc = await transaction.get(jobRef);
+      const job = doc.data() as EnrichmentJob | undefined;
+      if (!job || job.leaseOwner !== workerId) return null;
+
+      if (job.status === 'running') {
+        const now = nowIso();
+        transaction.update(jobRef, { leaseExpiresAt: addMs(leaseMs), heartbeatAt: now, updatedAt: now });
+      }
+      return job.status;
+    });
+  }
+
+  /**
+   * Give the lease back. A running job moves to `status`; a job that was paused or cancelled while
+   * leased keeps that status.
+   */
+  static async release(
+    jobId: string,
+    workerId: string,
+    status: EnrichmentJobStatus,
+    options: { delayMs?: number } = {}
+  ): Promise<EnrichmentJobStatus | null> {
+    const { adminDb } = await import('./firebase-admin');
+    const { FieldValue } = await import('firebase-admin/firestore');
+    const jobRef = adminDb.collection(ENRICHMENT_JOB_COLLECTION).doc(jobId);
+
+    return adminDb.runTransaction(async transaction => {
+      const doc = await transaction.get(jobRef);
+      const job = doc.data() as EnrichmentJob | undefined;
+      if (!job || job.leaseOwner !== workerId) return null;
+
+      const nextStatus = job.status === 'running' ? status : job.status;
+      transaction.update(jobRef, {
+        status: nextStatus,
+        leaseOwner: FieldValue.delete(),
+        leaseExpiresAt: FieldValue.delete(),
+        availableAt: addMs(options.delayMs || 0),
+        updatedAt: nowIso()
+      });
+      return nextStatus;
+    });
+  }
+
+  /**
+   * Change a job's status from outside the worker (pause, resume). Returns the previous status.
+   */
+  static async setStatus(
+    jobId: string,
+    status: EnrichmentJobStatus,
+    allowedFrom: EnrichmentJobStatus[]
+  ): Promise<EnrichmentJobStatus | null> {
+    const { adminDb } = await import('./firebase-admin');
+    const jobRef = adminDb.collection(ENRICHMENT_JOB_COLLECTION).doc(jobId);
+
+    return adminDb.runTransaction(async transaction => {
+      const doc = await transaction.get(jobRef);
+      const job = doc.data() as EnrichmentJob | undefined;
+      if (!job) return null;
+      if (!allowedFrom.includes(job.status)) {
+        throw new Error(`Enrichment job ${jobId} is ${job.status}`);
+      }
+      if (status === 'queued' && job.leaseOwner && (job.leaseExpiresAt || '') > nowIso()) {
+        throw new Error(`Enrichment job ${jobId} is still finishing its current model; try again shortly`);
+      }
+      transaction.update(jobRef, {
+        status,
+        ...(status === 'queued' && { availableAt: nowIso() }),
+        updatedAt: nowIso()
+      });
+      return job.status;
+    });
+  }
+
+  /**
+   * Cancel a job that hasn't finished; a worker holding it stops at its next heartbeat
+   */
+  static async cancel(jobId: string): Promise<boolean> {
+    const { adminDb } = await import('./firebase-admin');
+    const jobRef = adminDb.collection(ENRICHMENT_JOB_COLLECTION).doc(jobId);
+
+    return adminDb.runTransaction(async transaction => {
+      const job = (await transaction.get(jobRef)).data() as EnrichmentJob | undefined;
+      if (!job || ['completed', 'failed', 'cancelled'].includes(job.status)) return false;
+      transaction.update(jobRef, { status: 'cancelled', updatedAt: nowIso() });
+      return true;
+    });
+  }
+
+  /**
+   * Requeue jobs whose worker stopped heartbeating, and put pre-queue executions that were left
+   * 'running' (started before this queue existed) onto the queue from their last processed model
+   */
+  static async recoverOrphaned(leaseMs: number = DEFAULT_LEASE_MS): Promise<OrphanRecovery[]> {
+    const { adminDb } = await import('./firebase-admin');
+    const { FieldValue } = await import('firebase-admin/firestore');
+    const collection = adminDb.collection(ENRICHMENT_JOB_COLLECTION);
+    const now = nowIso();
+    const recoveries: OrphanRecovery[] = [];
+
+    const running = await collection.where('status', '==', 'running').get();
+    for (const doc of running.docs) {
+      const job = doc.data() as EnrichmentJob;
+      if (job.leaseExpiresAt && job.leaseExpiresAt > now) continue;
+
+      const recovery = await adminDb.runTransaction(async transaction => {
+        const fresh = (await transaction.get(doc.ref)).data() as EnrichmentJob | undefined;
+        if (!fresh || fresh.status !== 'running' || (fresh.leaseExpiresAt && fresh.leaseExpiresAt > nowIso())) return null;
+
+        const interrupted = await transaction.get(doc.ref.collection(ITEM_SUBCOLLECTION).where('status', '==', 'processing'));
+        let resetItems = 0;
+        let failedItems = 0;
+        interrupted.docs.forEach(itemDoc => {
+          const item = itemDoc.data() as EnrichmentJobItem;
+          if (item.attempts >= MAX_ITEM_ATTEMPTS) {
+            transaction.update(itemDoc.ref, {
+              status: 'failed',
+              error: `Worker stopped during ${item.attempts} attempts`,
+              completedAt: nowIso()
+            });
+            failedItems++;
+          } else {
+            transaction.update(itemDoc.ref, { status: 'pending' });
+            resetItems++;
+          }
+        });
+
+        transaction.update(doc.ref, {
+          status: 'queued',
+          leaseOwner: FieldValue.delete(),
+          leaseExpiresAt: FieldValue.delete(),
+          availableAt: nowIso(),
+          recoveries: (fresh.recoveries || 0) + 1,
+          updatedAt: nowIso()
+        });
+        return { jobId: doc.id, reason: 'lease-expired' as const, resetItems, failedItems };
+      });
+      if (recovery) recoveries.push(recovery);
+    }
+
+    // Executions started before the queue existed have no job; their models were processed in order
+    const legacy = await adminDb.collection('workflow_executions').where('status', '==', 'running').get();
+    const staleBefore = new Date(Date.now() - leaseMs).toISOString();
+    for (const doc of legacy.docs) {
+      const execution = doc.data();
+      const lastActivity = execution.logs?.[execution.logs.length - 1]?.timestamp || execution.startedAt;
+      if (lastActivity > staleBefore || (await collection.doc(doc.id).get()).exists) continue;
+
+      const processed = execution.processedModels || 0;
+      const remaining: string[] = (execution.modelIds || []).slice(processed);
+      await this.enqueue(doc.id, remaining, processed);
+      recoveries.push({ jobId: doc.id, reason: 'legacy-execution', resetItems: remaining.length, failedItems: 0 });
+    }
+
+    if (recoveries.length > 0) {
+      console.log(`♻️ Recovered ${recoveries.length} orphaned enrichment jobs:`, recoveries.map(recovery => recovery.jobId));
+    }
+    return recoveries;
+  }
+
+  /**
+   * Jobs for the queue overview, newest first
+   */
+  static async listJobs(limit: number = 50): Promise<EnrichmentJob[]> {
+    const { adminDb } = await import('./firebase-admin');
+    const snapshot = await adminDb.collection(ENRICHMENT_JOB_COLLECTION)
+      .orderBy('createdAt', 'desc')
+      .limit(limit)
+      .get();
+    return snapshot.docs.map(doc => doc.data() as EnrichmentJob);
+  }
+}
+
+export default EnrichmentJobQueue;
@@ -0,0 +1,78 @@
+/**
+ * Enrichment Worker - Admin Panel Version
+ *
+ * One worker tick: recover orphaned enrichment jobs, then claim and process queued jobs until the
+ * time budget runs out. Ticks run in the admin panel process on an interval (startInline, from
+ * instrumentation.ts), in scripts/enrichment-worker.js, or through POST /api/admin/workflows/worker.
+ */
+
+import type { EnrichmentJobStatus, OrphanRecovery } from './enrichment-job-queue';
+
+const DEFAULT_BUDGET_MS = 50000;
+const DEFAULT_INLINE_POLL_MS = 60000;
+
+export interface EnrichmentWorkerTickResult {
+  workerId: string;
+  recovered: OrphanRecovery[];
+  processed: Array<{ jobId: string; status: EnrichmentJobStatus | null }>;
+  durationMs: number;
+}
+
+export class EnrichmentWorker {
+  private static inlineTimer: ReturnType<typeof setInterval> | null = null;
+
+  static async tick(options: { workerId?: string; budgetMs?: number } = {}): Promise<EnrichmentWorkerTickResult> {
+    const { EnrichmentJobQueue } = await import('./enrichment-job-queue');
+    const { AIEnrichmentService } = await import('./ai-enrichment-service');
+
+    const startedAt = Date.now();
+    const workerId = options.workerId || `worker_${process.pid}_${Math.random().toString(36).substr(2, 6)}`;
+    const deadline = startedAt + (options.budgetMs ?? DEFAULT_BUDGET_MS);
+
+    const recovered = await EnrichmentJobQueue.recoverOrphaned();
+    const processed: EnrichmentWorkerTickResult['processed'] = [];
+
+    while (Date.now() < deadline) {
+      const job = await EnrichmentJobQueue.claim(workerId);
+      if (!job) break;
+
+      console.log(`⚙️ Worker ${workerId} processing enrichment job ${job.id}`);
+      const status = await AIEnrichmentService.processJob(job.id, workerId, deadline);
+      processed.push({ jobId: job.id, status });
+    }
+
+    return { workerId, recovered, processed, durationMs: Date.now() - startedAt };
+  }
+
+  /**
+   * Run worker ticks in this process on an interval, so jobs orphaned by a restart are recovered
+   * and finished without a separate worker. Skipped when ENRICHMENT_WORKER_MODE=external.
+   */
+  static startInline(pollMs: number = Number(process.env.ENRICHMENT_WORKER_POLL_MS) || DEFAULT_INLINE_POLL_MS): void {
+    if (process.env.ENRICHMENT_WORKER_MODE === 'external' || this.inlineTimer) return;
+
+    const workerId = `inline_${process.pid}_${Math.random().toString(36).substr(2, 6)}`;
+    let ticking = false;
+    const run = async () => {
+      if (ticking) return;
+      ticking = true;
+      try {
+        const result = await this.tick({ workerId, budgetMs: Math.min(DEFAULT_BUDGET_MS, pollMs) });
+        result.recovered.forEach(recovery => {
+          console.log(`♻️ Recovered enrichment job ${recovery.jobId} (${recovery.reason}): ${recovery.resetItems} models requeued, ${recovery.failedItems} failed`);
+        });
+      } catch (error) {
+        console.error('❌ Inline enrichment worker tick failed:', error);
+      } finally {
+        ticking = false;
+      }
+    };
+
+    this.inlineTimer = setInterval(run, pollMs);
+    this.inlineTimer.unref?.();
+    console.log(`⚙️ Inline enrichment worker ${workerId} started (every ${pollMs}ms)`);
+    run();
+  }
+}
+
+export default EnrichmentWorker;
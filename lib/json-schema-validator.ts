@@ -0,0 +1,132 @@
+/**
+ * JSON Schema Validator
+ *
+ * Validates parsed model output against the JSON Schema subset used for structured
+ * responses: type (including "integer" and type arrays), nullable, enum, const,
+ * properties/required/additionalProperties, items/minItems/maxItems,
+ * minLength/maxLength/pattern, minimum/maximum, and anyOf/oneOf/allOf.
+ * Unknown keywords are ignored. Errors are readable so they can be sent back to the model.
+ */
+
+export interface JsonSchemaValidationResult {
+  valid: boolean;
+  errors: string[]; // e.g. "$.performanceAnalysis.qualityTier: expected integer, got string"
+}
+
+const MAX_ERRORS = 20;
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  if (type === 'number') return actual === 'number' || actual === 'integer';
+  return actual === type;
+}
+
+function validate(value: unknown, schema: any, path: string, errors: string[]): void {
+  if (!schema || typeof schema !== 'object' || errors.length >= MAX_ERRORS) return;
+
+  if (value === null && schema.nullable) return;
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push(`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string') {
+      // An invalid pattern is a schema error, reported like any other instead of failing the call
+      let pattern: RegExp | null = null;
+      try {
+        pattern = new RegExp(schema.pattern);
+      } catch {
+        errors.push(`${path}: schema has an invalid pattern ${schema.pattern}`);
+      }
+      if (pattern && !pattern.test(value)) {
+        errors.push(`${path}: must match ${schema.pattern}`);
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items && typeof schema.items === 'object') {
+      value.forEach((item, index) => validate(item, schema.items, `${path}[${index}]`, errors));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties: Record<string, any> = schema.properties || {};
+
+    for (const key of Array.isArray(schema.required) ? schema.required : []) {
+      if (object[key] === undefined) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    }
+    for (const [key, propertyValue] of Object.entries(object)) {
+      if (properties[key]) {
+        validate(propertyValue, properties[key], `${path}.${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        validate(propertyValue, schema.additionalProperties, `${path}.${key}`, errors);
+      }
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    schema.allOf.forEach((subschema: any) => validate(value, subschema, path, errors));
+  }
+  for (const keyword of ['anyOf', 'oneOf'] as const) {
+    if (!Array.isArray(schema[keyword])) continue;
+    const matches = schema[keyword].filter((subschema: any) => validateJsonSchema(value, subschema).valid).length;
+    if (keyword === 'anyOf' ? matches === 0 : matches !== 1) {
+      errors.push(`${path}: must match ${keyword === 'anyOf' ? 'at least one' : 'exactly one'} of the allowed schemas`);
+    }
+  }
+}
+
+/**
+ * Validate a value against a JSON Schema
+ */
+export function validateJsonSchema(value: unknown, schema: object): JsonSchemaValidationResult {
+  const errors: string[] = [];
+  validate(value, schema, '$', errors);
+  return { valid: errors.length === 0, errors: errors.slice(0, MAX_ERRORS) };
+}
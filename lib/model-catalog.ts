@@ -0,0 +1,84 @@
+/**
+ * Model Catalog - Admin Panel Version
+ *
+ * Finds the ModelDocument behind a model name used in an AIAPIRouter request, so the router
+ * can read catalog pricing and capabilities.
+ *
+ * Lookup for a model name (optionally qualified by provider ID):
+ * 1. models doc whose ID is the bare name (seeded models, e.g. "gpt-4o")
+ * 2. models doc whose fullModelPath is "<provider>/<model>"
+ * 3. models doc whose ID is the sanitized full path (OpenRouter sync, e.g. "openai-gpt-4o")
+ *
+ * Results (including misses) are cached in-process for a few minutes.
+ */
+
+import type { ModelDocument } from '@/types/model-schema';
+
+const CATALOG_CACHE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Sanitize a model path into a document ID, matching the OpenRouter sync ("openai/gpt-4o" → "openai-gpt-4o")
+ */
+function toModelDocId(path: string): string {
+  return path.replace(/[\/\-\.]/g, '-').toLowerCase();
+}
+
+export class ModelCatalog {
+  private static cache = new Map<string, { model: ModelDocument | null; fetchedAt: number }>();
+
+  /**
+   * Catalog document for a model, or null when the model isn't in the catalog (or Firestore is unavailable)
+   */
+  static async getModel(modelName: string, providerId?: string | null): Promise<ModelDocument | null> {
+    const fullPath = modelName.includes('/') ? modelName : providerId ? `${providerId}/${modelName}` : null;
+    const cacheKey = fullPath || modelName;
+
+    const cached = this.cache.get(cacheKey);
+    if (cached && Date.now() - cached.fetchedAt < CATALOG_CACHE_TTL_MS) {
+      return cached.model;
+    }
+
+    let model: ModelDocument | null = null;
+    try {
+      model = await this.findModel(modelName, fullPath);
+    } catch (error) {
+      console.warn(`⚠️ Could not look up ${cacheKey} in the model catalog:`, error);
+    }
+
+    this.cache.set(cacheKey, { model, fetchedAt: Date.now() });
+    return model;
+  }
+
+  private static async findModel(modelName: string, fullPath: string | null): Promise<ModelDocument | null> {
+    // Import Firebase admin dynamically so the router still works without Firestore
+    const { adminDb } = await import('./firebase-admin');
+    const models = adminDb.collection('models');
+
+    if (!modelName.includes('/')) {
+      const doc = await models.doc(modelName).get();
+      if (doc.exists) return { id: doc.id, ...doc.data() } as ModelDocument;
+    }
+
+    if (fullPath) {
+      const snapshot = await models.where('fullModelPath', '==', fullPath).limit(1).get();
+      if (!snapshot.empty) {
+        const doc = snapshot.docs[0];
+        return { id: doc.id, ...doc.data() } as ModelDocument;
+      }
+
+      const doc = await models.doc(toModelDocId(fullPath)).get();
+      if (doc.exists) return { id: doc.id, ...doc.data() } as ModelDocument;
+    }
+
+    return null;
+  }
+
+  /**
+   * Drop cached documents, e.g. after a catalog sync changed prices or capabilities
+   */
+  static clearCache(): void {
+    this.cache.clear();
+  }
+}
+
+export default ModelCatalog;
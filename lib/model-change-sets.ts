@@ -0,0 +1,166 @@
+/**
+ * Model Change Sets - Admin Panel Version
+ *
+ * Staging area for AI enrichment results (model_change_sets). Each research result is stored as a
+ * field-by-field diff against the current ModelDocument, with the research's confidence and sources.
+ * Nothing is written to the model until an admin accepts all or some of the fields.
+ */
+
+import type { ModelChangeSet, ModelDocument, ModelFieldChange } from '@/types/model-schema';
+import { ModelHistory, flattenFields, getPath, mergeModel, setPath } from './model-history';
+
+export const CHANGE_SET_COLLECTION = 'model_change_sets';
+const DEFAULT_LIST_LIMIT = 100;
+
+// Timestamps that change on every enrichment; they are set when a change set is applied rather than reviewed
+const UNREVIEWED_PATHS = new Set(['updatedAt', 'dataSource.lastSuccessfulUpdate', 'pricing.lastUpdated']);
+
+export interface StageChangeSetInput {
+  model: ModelDocument;
+  updates: Partial<ModelDocument>;
+  source: ModelChangeSet['source'];
+  executionId?: string;
+  confidence: string;
+  confidenceScore: number;
+  sources: string[];
+  aiModel?: string;
+  cost: number;
+}
+
+/**
+ * Fields an update would change on a model. Fields the update leaves unset are not changes.
+ */
+export function diffModel(model: ModelDocument, updates: Partial<ModelDocument>): ModelFieldChange[] {
+  return Object.entries(flattenFields(updates))
+    .filter(([path, after]) => after !== undefined && !UNREVIEWED_PATHS.has(path))
+    .map(([path, after]) => ({ path, before: getPath(model, path) ?? null, after }))
+    .filter(change => JSON.stringify(change.before) !== JSON.stringify(change.after));
+}
+
+export class ModelChangeSets {
+  /**
+   * Store an enrichment result as a pending change set
+   */
+  static async stage(input: StageChangeSetInput): Promise<ModelChangeSet> {
+    const { adminDb } = await import('./firebase-admin');
+    const { Timestamp } = await import('firebase-admin/firestore');
+    const docRef = adminDb.collection(CHANGE_SET_COLLECTION).doc();
+
+    const changeSet: ModelChangeSet = {
+      id: docRef.id,
+      modelId: input.model.id,
+      modelName: input.model.name,
+      ...(input.executionId && { executionId: input.executionId }),
+      source: input.source,
+      status: 'pending',
+      changes: diffModel(input.model, input.updates),
+      confidence: input.confidence,
+      confidenceScore: input.confidenceScore,
+      sources: input.sources,
+      ...(input.aiModel && { aiModel: input.aiModel }),
+      cost: input.cost,
+      createdAt: Timestamp.now()
+    };
+
+    await docRef.set(changeSet);
+    console.log(`📋 Staged ${changeSet.changes.length} field changes for ${input.model.name} (change set ${docRef.id})`);
+    return changeSet;
+  }
+
+  /**
+   * Change sets, newest first, optionally filtered by status, model and execution
+   */
+  static async list(filters: {
+    status?: ModelChangeSet['status'];
+    modelId?: string;
+    executionId?: string;
+    limit?: number;
+  } = {}): Promise<ModelChangeSet[]> {
+    const { adminDb } = await import('./firebase-admin');
+    let query: FirebaseFirestore.Query = adminDb.collection(CHANGE_SET_COLLECTION);
+    if (filters.status) query = query.where('status', '==', filters.status);
+    if (filters.modelId) query = query.where('modelId', '==', filters.modelId);
+    if (filters.executionId) query = query.where('executionId', '==', filters.executionId);
+
+    const snapshot = await query
+      .orderBy('createdAt', 'desc')
+      .limit(filters.limit || DEFAULT_LIST_LIMIT)
+      .get();
+    return snapshot.docs.map(doc => doc.data() as ModelChangeSet);
+  }
+
+  static async get(changeSetId: string): Promise<ModelChangeSet | null> {
+    const { adminDb } = await import('./firebase-admin');
+    const doc = await adminDb.collection(CHANGE_SET_COLLECTION).doc(changeSetId).get();
+    return doc.exists ? (doc.data() as ModelChangeSet) : null;
+  }
+
+  /**
+   * Write the accepted fields (all of them when paths is omitted) to the model
+   */
+  static async accept(changeSet: ModelChangeSet, paths?: string[], notes?: string): Promise<ModelChangeSet> {
+    const accepted = paths ? changeSet.changes.filter(change => paths.includes(change.path)) : changeSet.changes;
+    if (accepted.length === 0) {
+      throw new Error('Select at least one field to accept');
+    }
+
+    const { adminDb } = await import('./firebase-admin');
+    const { Timestamp } = await import('firebase-admin/firestore');
+    const modelRef = adminDb.collection('models').doc(changeSet.modelId);
+    const modelDoc = await modelRef.get();
+    if (!modelDoc.exists) {
+      throw new Error(`Model not found in database: ${changeSet.modelId}`);
+    }
+
+    const now = Timestamp.now();
+    const modelUpdate: Record<string, any> = {};
+    accepted.forEach(change => setPath(modelUpdate, change.path, change.after));
+    setPath(modelUpdate, 'dataSource.lastSuccessfulUpdate', now);
+    if (accepted.some(change => change.path.startsWith('pricing.'))) {
+      setPath(modelUpdate, 'pricing.lastUpdated', now);
+    }
+    modelUpdate.updatedAt = now;
+
+    const reviewUpdate = {
+      status: accepted.length === changeSet.changes.length ? 'applied' as const : 'partially-applied' as const,
+      acceptedPaths: accepted.map(change => change.path),
+      reviewedAt: now,
+      reviewedBy: 'admin', // TODO: Get actual user from auth
+      ...(notes && { reviewerNotes: notes })
+    };
+
+    // Merge keeps sibling fields of nested maps; arrays are replaced as a whole
+    const batch = adminDb.batch();
+    batch.set(modelRef, modelUpdate, { merge: true });
+    batch.update(adminDb.collection(CHANGE_SET_COLLECTION).doc(changeSet.id), reviewUpdate);
+    const before = modelDoc.data() || {};
+    await ModelHistory.record(batch, modelRef, before, mergeModel(before, modelUpdate), {
+      source: 'enrichment',
+      actor: reviewUpdate.reviewedBy,
+      ...(changeSet.executionId && { executionId: changeSet.executionId }),
+      changeSetId: changeSet.id
+    });
+    await batch.commit();
+
+    console.log(`✅ Applied ${accepted.length}/${changeSet.changes.length} fields from change set ${changeSet.id} to ${changeSet.modelName}`);
+    return { ...changeSet, ...reviewUpdate };
+  }
+
+  static async reject(changeSet: ModelChangeSet, notes?: string): Promise<ModelChangeSet> {
+    const { adminDb } = await import('./firebase-admin');
+    const { Timestamp } = await import('firebase-admin/firestore');
+
+    const reviewUpdate = {
+      status: 'rejected' as const,
+      reviewedAt: Timestamp.now(),
+      reviewedBy: 'admin', // TODO: Get actual user from auth
+      ...(notes && { reviewerNotes: notes })
+    };
+    await adminDb.collection(CHANGE_SET_COLLECTION).doc(changeSet.id).update(reviewUpdate);
+
+    console.log(`🚫 Rejected change set ${changeSet.id} for ${changeSet.modelName}`);
+    return { ...changeSet, ...reviewUpdate };
+  }
+}
+
+export default ModelChangeSets;
@@ -4,6 +4,7 @@
 import { adminDb as db } from '@/lib/firebase-admin';
 import { Timestamp, FieldValue } from 'firebase-admin/firestore';
 import type { ModelDocument, ProviderDocument } from '@/types/model-schema';
+import { ModelHistory } from './model-history';
 
 export class ModelDataSeeder {
   
@@ -54,15 +55,7 @@ export class ModelDataSeeder {
     for (let i = 0; i < models.length; i += batchSize) {
       const batch = db.batch();
       const modelBatch = models.slice(i, i + batchSize);
-      
-      modelBatch.forEach(model => {
-        const modelRef = db.collection('models').doc(model.id);
-        batch.set(modelRef, {
-          ...model,
-          createdAt: FieldValue.serverTimestamp(),
-          updatedAt: FieldValue.serverTimestamp()
-        });
-      });
+      await this.writeSeedModels(batch, modelBatch);
       
       await batch.commit();
       console.log(`✅ Seeded batch ${Math.floor(i / batchSize) + 1}: ${modelBatch.length} models`);
@@ -807,17 +800,34 @@ export class ModelDataSeeder {
     }
     
     const batch = db.batch();
-    modelsToSeed.forEach(model => {
-      const modelRef = db.collection('models').doc(model.id);
-      batch.set(modelRef, {
+    await this.writeSeedModels(batch, modelsToSeed);
+    
+    await batch.commit();
+    console.log(`✅ Seeded ${modelsToSeed.length} specific models`);
+  }
+
+  /**
+   * Replace seeded models in a batch, recording each write in the model's history
+   */
+  private static async writeSeedModels(
+    batch: FirebaseFirestore.WriteBatch,
+    models: Omit<ModelDocument, 'createdAt' | 'updatedAt'>[]
+  ): Promise<void> {
+    const modelRefs = models.map(model => db.collection('models').doc(model.id));
+    const existingDocs = await db.getAll(...modelRefs);
+    
+    for (const [index, model] of models.entries()) {
+      const seededModel = {
         ...model,
         createdAt: FieldValue.serverTimestamp(),
         updatedAt: FieldValue.serverTimestamp()
+      };
+      batch.set(modelRefs[index], seededModel);
+      await ModelHistory.record(batch, modelRefs[index], existingDocs[index].data() || null, seededModel, {
+        source: 'seed',
+        actor: 'model-data-seeder'
       });
-    });
-    
-    await batch.commit();
-    console.log(`✅ Seeded ${modelsToSeed.length} specific models`);
+    }
   }
 
   /**
@@ -830,7 +840,14 @@ export class ModelDataSeeder {
       updatedAt: FieldValue.serverTimestamp()
     };
     
-    await modelRef.update(updateData);
+    const existingDoc = await modelRef.get();
+    const batch = db.batch();
+    batch.update(modelRef, updateData);
+    await ModelHistory.record(batch, modelRef, existingDoc.data() || null, { ...existingDoc.data(), ...updateData }, {
+      source: 'manual',
+      actor: 'admin' // TODO: Get actual user from auth
+    });
+    await batch.commit();
     console.log(`✅ Updated model: ${modelId}`);
   }
 }
\ No newline at end of file
@@ -0,0 +1,199 @@
+/**
+ * Model History - Admin Panel Version
+ *
+ * Field-level change history for models (models/{id}/modelHistory). Every write to a model records
+ * where it came from (sync, seed, enrichment, manual edit or import), who made it, which fields it
+ * changed and the resulting model snapshot. Field provenance is read back from this history, and any
+ * snapshot can be restored.
+ */
+
+import type { ModelFieldProvenance, ModelHistoryEntry, ModelWriteSource } from '@/types/model-schema';
+
+export const MODEL_HISTORY_SUBCOLLECTION = 'modelHistory';
+const DEFAULT_LIST_LIMIT = 50;
+const PROVENANCE_SCAN_LIMIT = 200;
+
+// Bookkeeping timestamps that change on every write; they are never reported as changed fields
+const UNTRACKED_PATHS = new Set(['createdAt', 'updatedAt', 'dataSource.lastSuccessfulUpdate', 'pricing.lastUpdated']);
+
+export interface RecordModelWriteInput {
+  source: ModelWriteSource;
+  actor: string;
+  executionId?: string;
+  changeSetId?: string;
+  revertedFrom?: string;
+}
+
+export const isPlainObject = (value: any): value is Record<string, any> =>
+  !!value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+
+// Timestamps that made a round trip through JSON (e.g. a model sent back by the edit modal)
+const isSerializedTimestamp = (value: Record<string, any>): boolean =>
+  Object.keys(value).length === 2 && '_seconds' in value && '_nanoseconds' in value;
+
+/**
+ * Leaf fields by dotted path. Arrays, Timestamps and empty objects are leaves.
+ */
+export function flattenFields(value: Record<string, any>, prefix: string = '', fields: Record<string, any> = {}): Record<string, any> {
+  Object.entries(value).forEach(([key, entry]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(entry) && Object.keys(entry).length > 0 && !isSerializedTimestamp(entry)) {
+      flattenFields(entry, path, fields);
+    } else {
+      fields[path] = entry;
+    }
+  });
+  return fields;
+}
+
+export function getPath(value: any, path: string): any {
+  return path.split('.').reduce((current, key) => (current == null ? undefined : current[key]), value);
+}
+
+export function setPath(target: Record<string, any>, path: string, value: any): void {
+  const keys = path.split('.');
+  let current = target;
+  keys.slice(0, -1).forEach(key => {
+    current[key] = isPlainObject(current[key]) ? current[key] : {};
+    current = current[key];
+  });
+  current[keys[keys.length - 1]] = value;
+}
+
+/**
+ * The document a set({ merge: true }) of updates produces: nested maps merge, everything else is replaced
+ */
+export function mergeModel(existing: Record<string, any>, updates: Record<string, any>): Record<string, any> {
+  const merged: Record<string, any> = { ...existing };
+  Object.entries(updates).forEach(([key, value]) => {
+    if (value === undefined) return;
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key]) ? mergeModel(merged[key], value) : value;
+  });
+  return merged;
+}
+
+/**
+ * Dotted paths whose value differs between two versions of a model, including removed fields
+ */
+export function changedPaths(before: Record<string, any> | null, after: Record<string, any>): string[] {
+  const beforeFields = flattenFields(before || {});
+  const afterFields = flattenFields(after);
+  const paths = new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)]);
+
+  return Array.from(paths)
+    .filter(path => !UNTRACKED_PATHS.has(path))
+    .filter(path => JSON.stringify(beforeFields[path] ?? null) !== JSON.stringify(afterFields[path] ?? null))
+    .sort();
+}
+
+export class ModelHistory {
+  /**
+   * Add a history entry for a model write to the batch that makes the write.
+   * Writes that change no tracked field are not recorded. Returns the changed paths.
+   */
+  static async record(
+    batch: FirebaseFirestore.WriteBatch,
+    modelRef: FirebaseFirestore.DocumentReference,
+    before: Record<string, any> | null,
+    after: Record<string, any>,
+    input: RecordModelWriteInput
+  ): Promise<string[]> {
+    const paths = changedPaths(before, after);
+    if (paths.length === 0) return paths;
+
+    const { Timestamp } = await import('firebase-admin/firestore');
+    const entryRef = modelRef.collection(MODEL_HISTORY_SUBCOLLECTION).doc();
+    const entry: ModelHistoryEntry = {
+      id: entryRef.id,
+      modelId: modelRef.id,
+      source: input.source,
+      ...(input.executionId && { executionId: input.executionId }),
+      ...(input.changeSetId && { changeSetId: input.changeSetId }),
+      ...(input.revertedFrom && { revertedFrom: input.revertedFrom }),
+      actor: input.actor,
+      changedPaths: paths,
+      snapshot: after,
+      createdAt: Timestamp.now()
+    };
+
+    batch.set(entryRef, entry);
+    return paths;
+  }
+
+  /**
+   * History entries for a model, newest first
+   */
+  static async list(modelId: string, limit: number = DEFAULT_LIST_LIMIT): Promise<ModelHistoryEntry[]> {
+    const { adminDb } = await import('./firebase-admin');
+    const snapshot = await adminDb.collection('models').doc(modelId)
+      .collection(MODEL_HISTORY_SUBCOLLECTION)
+      .orderBy('createdAt', 'desc')
+      .limit(limit)
+      .get();
+    return snapshot.docs.map(doc => doc.data() as ModelHistoryEntry);
+  }
+
+  /**
+   * The latest write to each field, from the most recent history entries
+   */
+  static async getProvenance(modelId: string): Promise<Record<string, ModelFieldProvenance>> {
+    const entries = await this.list(modelId, PROVENANCE_SCAN_LIMIT);
+    const provenance: Record<string, ModelFieldProvenance> = {};
+
+    entries.forEach(entry => {
+      entry.changedPaths.forEach(path => {
+        if (provenance[path]) return;
+        provenance[path] = {
+          source: entry.source,
+          ...(entry.executionId && { executionId: entry.executionId }),
+          actor: entry.actor,
+          entryId: entry.id,
+          changedAt: entry.createdAt
+        };
+      });
+    });
+
+    return provenance;
+  }
+
+  /**
+   * Restore a model to the snapshot of one of its history entries. Fields added since are removed.
+   * The revert is itself recorded as a manual write.
+   */
+  static async revert(modelId: string, entryId: string, actor: string): Promise<string[]> {
+    const { adminDb } = await import('./firebase-admin');
+    const { Timestamp } = await import('firebase-admin/firestore');
+    const modelRef = adminDb.collection('models').doc(modelId);
+
+    const [modelDoc, entryDoc] = await Promise.all([
+      modelRef.get(),
+      modelRef.collection(MODEL_HISTORY_SUBCOLLECTION).doc(entryId).get()
+    ]);
+    if (!modelDoc.exists) {
+      throw new Error(`Model not found in database: ${modelId}`);
+    }
+    if (!entryDoc.exists) {
+      throw new Error(`History entry not found: ${entryId}`);
+    }
+
+    const entry = entryDoc.data() as ModelHistoryEntry;
+    const restored = { ...entry.snapshot, updatedAt: Timestamp.now() };
+
+    const batch = adminDb.batch();
+    batch.set(modelRef, restored);
+    const paths = await this.record(batch, modelRef, modelDoc.data() || null, restored, {
+      source: 'manual',
+      actor,
+      revertedFrom: entryId
+    });
+    await batch.commit();
+
+    const { ModelCatalog } = await import('./model-catalog');
+    ModelCatalog.clearCache();
+
+    console.log(`⏪ Reverted ${modelId} to history entry ${entryId} (${paths.length} fields changed)`);
+    return paths;
+  }
+}
+
+export default ModelHistory;
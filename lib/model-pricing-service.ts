@@ -0,0 +1,99 @@
+/**
+ * Model Pricing Service - Admin Panel Version
+ *
+ * Resolves per-token prices for AIAPIRouter calls from the `pricing` stored on each
+ * ModelDocument (seeded, edited in the models page, or refreshed by the OpenRouter sync),
+ * so execution costs reconcile with the model catalog. Documents are found and cached by ModelCatalog.
+ */
+
+import type { ModelDocument } from '@/types/model-schema';
+import type { AIModelUsage } from './ai-provider-adapters';
+import { ModelCatalog } from './model-catalog';
+
+/**
+ * Where a response's costUSD came from:
+ * - catalog:       pricing on the ModelDocument
+ * - default-table: built-in list prices in the provider adapter (model not in the catalog)
+ * - self-hosted:   OpenAI-compatible server, no per-token cost
+ */
+export type PricingSource = 'catalog' | 'default-table' | 'self-hosted';
+
+/**
+ * Catalog pricing normalized to USD per token
+ */
+export interface ResolvedModelPricing {
+  modelId: string; // models document ID the price came from
+  inputPerToken: number;
+  outputPerToken: number;
+  cachedInputPerToken?: number; // Discounted rate for prompt tokens served from the provider's cache
+  perImage?: number;
+  lastUpdated?: string;
+}
+
+/**
+ * Multiplier from the stored unit to USD per token.
+ * Documents written before `unit` existed are per 1K tokens, except those from the
+ * old OpenRouterSync (source 'third-party', scraped from OpenRouter), which stored
+ * OpenRouter's raw per-token prices.
+ */
+function perTokenMultiplier(model: Pick<ModelDocument, 'pricing' | 'dataSource'>): number {
+  const legacyOpenRouter = model.pricing.source === 'third-party'
+    && !!model.dataSource?.scrapedFrom?.some(source => source.includes('openrouter'));
+  const unit = model.pricing.unit || (legacyOpenRouter ? 'per-token' : 'per-1k-tokens');
+  return unit === 'per-token' ? 1 : 1 / 1000;
+}
+
+function toIsoString(value: any): string | undefined {
+  if (!value) return undefined;
+  if (typeof value.toDate === 'function') return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === 'string' ? value : undefined;
+}
+
+export class ModelPricingService {
+  /**
+   * Normalize a ModelDocument's pricing, or null when it has no usable token prices
+   */
+  static normalize(model: Pick<ModelDocument, 'id' | 'pricing' | 'dataSource'>): ResolvedModelPricing | null {
+    const pricing = model.pricing;
+    if (!pricing || typeof pricing.inputTokenCost !== 'number' || typeof pricing.outputTokenCost !== 'number') {
+      return null;
+    }
+
+    const multiplier = perTokenMultiplier(model);
+    return {
+      modelId: model.id,
+      inputPerToken: pricing.inputTokenCost * multiplier,
+      outputPerToken: pricing.outputTokenCost * multiplier,
+      ...(typeof pricing.cachedInputTokenCost === 'number' && {
+        cachedInputPerToken: pricing.cachedInputTokenCost * multiplier
+      }),
+      ...(typeof pricing.imageInputCost === 'number' && { perImage: pricing.imageInputCost }),
+      lastUpdated: toIsoString(pricing.lastUpdated)
+    };
+  }
+
+  /**
+   * Catalog pricing for a model, or null when the model isn't in the catalog
+   */
+  static async resolvePricing(modelName: string, providerId?: string | null): Promise<ResolvedModelPricing | null> {
+    const model = await ModelCatalog.getModel(modelName, providerId);
+    return model ? this.normalize(model) : null;
+  }
+
+  /**
+   * Cost in USD. Cached prompt tokens are billed at the cached rate when the catalog has one,
+   * and each image input at the per-image price.
+   */
+  static calculateCost(pricing: ResolvedModelPricing, usage: AIModelUsage): number {
+    const cachedTokens = Math.min(usage.cachedPromptTokens || 0, usage.promptTokens);
+    const cachedRate = pricing.cachedInputPerToken ?? pricing.inputPerToken;
+
+    return (usage.promptTokens - cachedTokens) * pricing.inputPerToken
+      + cachedTokens * cachedRate
+      + usage.completionTokens * pricing.outputPerToken
+      + (usage.imageInputs || 0) * (pricing.perImage || 0);
+  }
+}
+
+export default ModelPricingService;
@@ -4,6 +4,8 @@
 import { adminDb as db } from '@/lib/firebase-admin';
 import { Timestamp, FieldValue } from 'firebase-admin/firestore';
 import type { ModelDocument, ProviderDocument } from '@/types/model-schema';
+import { ModelCatalog } from './model-catalog';
+import { ModelHistory, mergeModel } from './model-history';
 
 interface OpenRouterModel {
   id: string;
@@ -21,6 +23,8 @@ interface OpenRouterModel {
     completion: string;
     image?: string;
     request: string;
+    input_cache_read?: string;
+    input_cache_write?: string;
   };
   top_provider: {
     context_length: number;
@@ -73,6 +77,7 @@ export class OpenRouterSync {
       // Sync models
       await this.syncModels(models);
       result.modelsProcessed = models.length;
+      ModelCatalog.clearCache();
       
       result.processingTimeMs = Date.now() - startTime;
       console.log(`✅ OpenRouter sync completed in ${result.processingTimeMs}ms`);
@@ -228,20 +233,27 @@ export class OpenRouterSync {
     for (let i = 0; i < models.length; i += batchSize) {
       const batch = db.batch();
       const modelBatch = models.slice(i, i + batchSize);
+      const transformedModels = modelBatch.map(model => this.transformModelData(model));
+      const modelRefs = transformedModels.map(model => db.collection('models').doc(model.id));
+      const existingDocs = await db.getAll(...modelRefs);
       
-      modelBatch.forEach(model => {
-        const transformedModel = this.transformModelData(model);
-        const modelRef = db.collection('models').doc(transformedModel.id);
-        
+      for (const [index, transformedModel] of transformedModels.entries()) {
+        const before = existingDocs[index].data() || null;
+        // New models are seeded with the estimated defaults; existing ones only get what OpenRouter owns,
+        // so enrichment results and their staleness survive the sync
+        const modelData = before
+          ? { ...this.extractSyncedFields(modelBatch[index], transformedModel), updatedAt: FieldValue.serverTimestamp() }
+          : { ...transformedModel, createdAt: FieldValue.serverTimestamp(), updatedAt: FieldValue.serverTimestamp() };
+
         // Clean undefined values before writing to Firestore
-        const cleanedModel = this.cleanUndefinedValues({
-          ...transformedModel,
-          createdAt: FieldValue.serverTimestamp(),
-          updatedAt: FieldValue.serverTimestamp()
-        });
+        const cleanedModel = this.cleanUndefinedValues(modelData);
         
-        batch.set(modelRef, cleanedModel, { merge: true });
-      });
+        batch.set(modelRefs[index], cleanedModel, { merge: true });
+        await ModelHistory.record(batch, modelRefs[index], before, mergeModel(before || {}, cleanedModel), {
+          source: 'sync',
+          actor: 'openrouter-sync'
+        });
+      }
       
       await batch.commit();
       console.log(`✅ Synced batch ${Math.floor(i / batchSize) + 1}: ${modelBatch.length} models`);
@@ -250,6 +262,31 @@ export class OpenRouterSync {
     console.log(`✅ Synced ${models.length} models total`);
   }
   
+  /**
+   * The fields OpenRouter is the source of truth for: name, description, pricing and the capabilities
+   * its API reports. Written to models that already exist instead of the full transformed document.
+   */
+  private static extractSyncedFields(
+    model: OpenRouterModel,
+    transformed: Omit<ModelDocument, 'createdAt' | 'updatedAt'>
+  ): Record<string, any> {
+    const { capabilities } = transformed;
+    return {
+      name: transformed.name,
+      fullModelPath: transformed.fullModelPath,
+      ...(model.description && { description: model.description }),
+      pricing: transformed.pricing,
+      capabilities: {
+        supportsImages: capabilities.supportsImages,
+        supportsFunctionCalling: capabilities.supportsFunctionCalling,
+        supportsVision: capabilities.supportsVision,
+        supportsAudio: capabilities.supportsAudio,
+        maxTokens: capabilities.maxTokens,
+        contextWindow: capabilities.contextWindow
+      }
+    };
+  }
+
   /**
    * Transform OpenRouter model data to our schema
    */
@@ -288,9 +325,14 @@ export class OpenRouterSync {
       },
       
       pricing: {
-        inputTokenCost: parseFloat(model.pricing.prompt) || 0,
-        outputTokenCost: parseFloat(model.pricing.completion) || 0,
+        // OpenRouter prices are per token; the catalog stores per 1K tokens
+        inputTokenCost: (parseFloat(model.pricing.prompt) || 0) * 1000,
+        outputTokenCost: (parseFloat(model.pricing.completion) || 0) * 1000,
+        ...(model.pricing.input_cache_read && {
+          cachedInputTokenCost: (parseFloat(model.pricing.input_cache_read) || 0) * 1000
+        }),
         ...(model.pricing.image && { imageInputCost: parseFloat(model.pricing.image) }),
+        unit: 'per-1k-tokens',
         currency: 'USD',
         source: 'third-party',
         lastUpdated: Timestamp.now(),
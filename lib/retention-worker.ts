@@ -0,0 +1,442 @@
+/**
+ * Retention Worker - Admin Panel Version
+ *
+ * Deletes (or archives, then deletes) execution records past their retention window:
+ * - aiExecutions: the use case's monitoringConfig.analyticsRetention, extended to the plan's
+ *   analyticsRetentionDays when the record carries metadata.organizationId / metadata.userId
+ *   (captured prompt/response logs in aiExecutionLogs go with their execution)
+ * - prompts/{promptId}/executions: the owning organization's or user's plan executionHistoryDays
+ * - workflow_executions: WORKFLOW_EXECUTION_RETENTION_DAYS (default 90); unfinished executions are kept
+ *   (their enrichmentJobs documents and work items go with them)
+ * Plans without a subscription fall back to subscriptionConfig/global defaultUsageLimits.
+ * Archives are gzipped JSONL written to RETENTION_ARCHIVE_BUCKET (Cloud Storage) or RETENTION_ARCHIVE_DIR.
+ * Every run, dry runs included, is recorded in retentionRuns.
+ */
+
+import type { AIUseCaseConfig } from '@/types/ai-configuration-schema';
+import type { UsageLimits } from '@/types/subscription-schema';
+import { EXECUTION_LOG_COLLECTION } from './ai-analytics';
+import { ENRICHMENT_JOB_COLLECTION } from './enrichment-job-queue';
+
+export const RETENTION_RUN_COLLECTION = 'retentionRuns';
+
+const PAGE_SIZE = 200; // Two deletes per document (record + execution log) stay under Firestore's 500 writes per batch
+const DEFAULT_MAX_DOCS_PER_TARGET = 5000; // Bounds a single run; the next run picks up the rest
+const DEFAULT_ANALYTICS_RETENTION_DAYS = 30;
+const DEFAULT_EXECUTION_HISTORY_DAYS = 7;
+const DEFAULT_WORKFLOW_RETENTION_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type RetentionTarget = 'aiExecutions' | 'promptExecutions' | 'workflowExecutions';
+export type RetentionMode = 'delete' | 'archive';
+
+export interface RetentionRunOptions {
+  dryRun?: boolean;
+  mode?: RetentionMode;
+  targets?: RetentionTarget[];
+  maxDocsPerTarget?: number;
+}
+
+export interface RetentionTargetReport {
+  scanned: number; // Documents older than the shortest applicable window
+  expired: number; // Of those, past their own window
+  deleted: number;
+  archived: number;
+  archiveFiles: string[];
+  byScope: Record<string, number>; // Expired counts per use case / plan
+  sampleIds: string[]; // First few expired document paths, for dry-run review
+  truncated: boolean; // maxDocsPerTarget was reached
+  error?: string;
+}
+
+export interface RetentionRun {
+  id: string;
+  dryRun: boolean;
+  mode: RetentionMode;
+  startedAt: Date;
+  completedAt: Date;
+  durationMs: number;
+  targets: Partial<Record<RetentionTarget, RetentionTargetReport>>;
+  totals: { scanned: number; expired: number; deleted: number; archived: number };
+  triggeredBy: string;
+}
+
+const ALL_TARGETS: RetentionTarget[] = ['aiExecutions', 'promptExecutions', 'workflowExecutions'];
+const SAMPLE_SIZE = 20;
+
+type Retention = number | 'unlimited';
+
+interface SweepContext {
+  runId: string;
+  dryRun: boolean;
+  mode: RetentionMode;
+  maxDocs: number;
+  now: number;
+}
+
+function toMillis(value: any): number | null {
+  if (!value) return null;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  const time = value instanceof Date ? value.getTime() : new Date(value).getTime();
+  return isNaN(time) ? null : time;
+}
+
+function longest(a: Retention, b: Retention): Retention {
+  if (a === 'unlimited' || b === 'unlimited') return 'unlimited';
+  return Math.max(a, b);
+}
+
+function emptyReport(): RetentionTargetReport {
+  return { scanned: 0, expired: 0, deleted: 0, archived: 0, archiveFiles: [], byScope: {}, sampleIds: [], truncated: false };
+}
+
+/**
+ * Resolves plan limits for organizations and users, cached for one run
+ */
+class PlanLimitResolver {
+  private organizations = new Map<string, Promise<UsageLimits>>();
+  private users = new Map<string, Promise<UsageLimits>>();
+  private projects = new Map<string, Promise<{ organizationId: string | null; ownerId?: string } | null>>();
+  private prompts = new Map<string, Promise<string | null>>();
+  private defaults: Promise<UsageLimits> | null = null;
+
+  constructor(private db: FirebaseFirestore.Firestore) {}
+
+  getDefaults(): Promise<UsageLimits> {
+    if (!this.defaults) {
+      this.defaults = this.db.collection('subscriptionConfig').doc('global').get().then(doc => ({
+        executionHistoryDays: DEFAULT_EXECUTION_HISTORY_DAYS,
+        analyticsRetentionDays: DEFAULT_ANALYTICS_RETENTION_DAYS,
+        ...(doc.data()?.defaultUsageLimits || {})
+      }) as UsageLimits);
+    }
+    return this.defaults;
+  }
+
+  private async fromSubscription(collection: string, field: string, id: string): Promise<UsageLimits> {
+    const snapshot = await this.db.collection(collection)
+      .where(field, '==', id)
+      .where('status', 'in', ['active', 'trialing', 'past_due'])
+      .limit(1)
+      .get();
+    const defaults = await this.getDefaults();
+    if (snapshot.empty) return defaults;
+
+    const planDoc = await this.db.collection('subscriptionPlans').doc(snapshot.docs[0].data().planId).get();
+    return { ...defaults, ...(planDoc.data()?.usageLimits || {}) };
+  }
+
+  forOrganization(organizationId: string): Promise<UsageLimits> {
+    if (!this.organizations.has(organizationId)) {
+      this.organizations.set(organizationId, this.fromSubscription('organizationSubscriptions', 'organizationId', organizationId));
+    }
+    return this.organizations.get(organizationId)!;
+  }
+
+  forUser(userId: string): Promise<UsageLimits> {
+    if (!this.users.has(userId)) {
+      this.users.set(userId, this.fromSubscription('userSubscriptions', 'userId', userId));
+    }
+    return this.users.get(userId)!;
+  }
+
+  /**
+   * Limits for whoever owns a prompt: its project's organization, else the project owner
+   */
+  async forPrompt(promptId: string): Promise<{ scope: string; limits: UsageLimits }> {
+    if (!this.prompts.has(promptId)) {
+      this.prompts.set(promptId, this.db.collection('prompts').doc(promptId).get().then(doc => doc.data()?.projectId || null));
+    }
+    const projectId = await this.prompts.get(promptId)!;
+
+    if (projectId && !this.projects.has(projectId)) {
+      this.projects.set(projectId, this.db.collection('projects').doc(projectId).get().then(doc =>
+        doc.exists ? { organizationId: doc.data()!.organizationId || null, ownerId: doc.data()!.ownerId } : null
+      ));
+    }
+    const project = projectId ? await this.projects.get(projectId)! : null;
+
+    if (project?.organizationId) {
+      return { scope: `org:${project.organizationId}`, limits: await this.forOrganization(project.organizationId) };
+    }
+    if (project?.ownerId) {
+      return { scope: `user:${project.ownerId}`, limits: await this.forUser(project.ownerId) };
+    }
+    return { scope: 'default', limits: await this.getDefaults() };
+  }
+}
+
+export class RetentionWorker {
+  /**
+   * Run retention over the selected targets and record the run
+   */
+  static async run(options: RetentionRunOptions = {}): Promise<RetentionRun> {
+    const { adminDb } = await import('./firebase-admin');
+    const dryRun = options.dryRun ?? false;
+    const mode = options.mode || (process.env.RETENTION_ARCHIVE_BUCKET || process.env.RETENTION_ARCHIVE_DIR ? 'archive' : 'delete');
+    const maxDocs = options.maxDocsPerTarget || DEFAULT_MAX_DOCS_PER_TARGET;
+    const targets = options.targets?.length ? options.targets : ALL_TARGETS;
+
+    if (mode === 'archive' && !dryRun && !process.env.RETENTION_ARCHIVE_BUCKET && !process.env.RETENTION_ARCHIVE_DIR) {
+      throw new Error('Archive mode needs RETENTION_ARCHIVE_BUCKET or RETENTION_ARCHIVE_DIR');
+    }
+
+    const runRef = adminDb.collection(RETENTION_RUN_COLLECTION).doc();
+    const startedAt = new Date();
+    const plans = new PlanLimitResolver(adminDb);
+    const context = { runId: runRef.id, dryRun, mode, maxDocs, now: startedAt.getTime() };
+
+    console.log(`🧹 Retention run ${runRef.id} (${dryRun ? 'dry run' : mode}) for ${targets.join(', ')}`);
+
+    const reports: RetentionRun['targets'] = {};
+    for (const target of targets) {
+      try {
+        switch (target) {
+          case 'aiExecutions':
+            reports[target] = await this.sweepAIExecutions(adminDb, plans, context);
+            break;
+          case 'promptExecutions':
+            reports[target] = await this.sweepPromptExecutions(adminDb, plans, context);
+            break;
+          case 'workflowExecutions':
+            reports[target] = await this.sweepWorkflowExecutions(adminDb, context);
+            break;
+        }
+      } catch (error) {
+        console.error(`❌ Retention sweep of ${target} failed:`, error);
+        reports[target] = { ...emptyReport(), error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+
+    const completedAt = new Date();
+    const totals = { scanned: 0, expired: 0, deleted: 0, archived: 0 };
+    Object.values(reports).forEach(report => {
+      totals.scanned += report!.scanned;
+      totals.expired += report!.expired;
+      totals.deleted += report!.deleted;
+      totals.archived += report!.archived;
+    });
+
+    const run: RetentionRun = {
+      id: runRef.id,
+      dryRun,
+      mode,
+      startedAt,
+      completedAt,
+      durationMs: completedAt.getTime() - startedAt.getTime(),
+      targets: reports,
+      totals,
+      triggeredBy: 'admin' // TODO: Get actual user from auth
+    };
+    const { id: _id, ...record } = run;
+    await runRef.set(record);
+
+    console.log(`✅ Retention run ${runRef.id}: ${totals.expired} expired, ${totals.deleted} deleted, ${totals.archived} archived`);
+    return run;
+  }
+
+  static async listRuns(limit: number = 20): Promise<RetentionRun[]> {
+    const { adminDb } = await import('./firebase-admin');
+    const snapshot = await adminDb.collection(RETENTION_RUN_COLLECTION)
+      .orderBy('startedAt', 'desc')
+      .limit(limit)
+      .get();
+    return snapshot.docs.map(doc => {
+      const data = doc.data();
+      return {
+        ...data,
+        id: doc.id,
+        startedAt: data.startedAt?.toDate?.() || data.startedAt,
+        completedAt: data.completedAt?.toDate?.() || data.completedAt
+      } as RetentionRun;
+    });
+  }
+
+  // ==========================================================================
+  // Sweeps
+  // ==========================================================================
+
+  private static async sweepAIExecutions(
+    db: FirebaseFirestore.Firestore,
+    plans: PlanLimitResolver,
+    context: SweepContext
+  ): Promise<RetentionTargetReport> {
+    const report = emptyReport();
+    const configSnapshot = await db.collection('aiUseCaseConfigs').get();
+    const useCaseRetention = new Map<string, number>(configSnapshot.docs.map(doc => [
+      doc.id,
+      (doc.data() as AIUseCaseConfig).monitoringConfig?.analyticsRetention || DEFAULT_ANALYTICS_RETENTION_DAYS
+    ]));
+
+    // Nothing is younger than the shortest use case window, so that bounds the scan
+    const shortest = Math.min(DEFAULT_ANALYTICS_RETENTION_DAYS, ...useCaseRetention.values());
+    const query = db.collection('aiExecutions').where('startedAt', '<', new Date(context.now - shortest * DAY_MS));
+
+    await this.sweep(query, 'startedAt', 'aiExecutions', report, context, async doc => {
+      const data = doc.data();
+      let retention: Retention = useCaseRetention.get(data.useCaseId) || DEFAULT_ANALYTICS_RETENTION_DAYS;
+      let scope = data.useCaseId || 'unknown';
+
+      // Customer-attributed records are kept at least as long as their plan promises
+      const organizationId = data.metadata?.organizationId;
+      const userId = data.metadata?.userId;
+      if (organizationId || userId) {
+        const limits = organizationId ? await plans.forOrganization(organizationId) : await plans.forUser(userId);
+        retention = longest(retention, limits.analyticsRetentionDays);
+        scope = `${scope} (${organizationId ? `org:${organizationId}` : `user:${userId}`})`;
+      }
+
+      return { expired: this.isExpired(toMillis(data.startedAt), retention, context.now), scope };
+    });
+
+    return report;
+  }
+
+  private static async sweepPromptExecutions(
+    db: FirebaseFirestore.Firestore,
+    plans: PlanLimitResolver,
+    context: SweepContext
+  ): Promise<RetentionTargetReport> {
+    const report = emptyReport();
+    const defaults = await plans.getDefaults();
+    const planSnapshot = await db.collection('subscriptionPlans').get();
+    const windows = [defaults.executionHistoryDays, ...planSnapshot.docs.map(doc => doc.data().usageLimits?.executionHistoryDays)]
+      .filter((days): days is number => typeof days === 'number');
+    if (windows.length === 0) return report; // Every plan keeps history forever
+
+    const query = db.collectionGroup('executions').where('executedAt', '<', new Date(context.now - Math.min(...windows) * DAY_MS));
+
+    await this.sweep(query, 'executedAt', 'promptExecutions', report, context, async doc => {
+      // Only prompts/{promptId}/executions belongs to this target
+      const prompt = doc.ref.parent.parent;
+      if (!prompt || prompt.parent.id !== 'prompts') return null;
+
+      const { scope, limits } = await plans.forPrompt(prompt.id);
+      return { expired: this.isExpired(toMillis(doc.data().executedAt), limits.executionHistoryDays, context.now), scope };
+    });
+
+    return report;
+  }
+
+  private static async sweepWorkflowExecutions(
+    db: FirebaseFirestore.Firestore,
+    context: SweepContext
+  ): Promise<RetentionTargetReport> {
+    const report = emptyReport();
+    const retentionDays = Number(process.env.WORKFLOW_EXECUTION_RETENTION_DAYS) || DEFAULT_WORKFLOW_RETENTION_DAYS;
+    // startedAt is stored as an ISO string, which sorts chronologically
+    const query = db.collection('workflow_executions').where('startedAt', '<', new Date(context.now - retentionDays * DAY_MS).toISOString());
+
+    await this.sweep(query, 'startedAt', 'workflowExecutions', report, context, async doc => {
+      const data = doc.data();
+      if (['running', 'pending', 'paused'].includes(data.status)) return null;
+      return { expired: true, scope: data.status || 'unknown' };
+    });
+
+    return report;
+  }
+
+  /**
+   * Page through a query in order, classify each document, and delete/archive the expired ones page by page
+   */
+  private static async sweep(
+    query: FirebaseFirestore.Query,
+    orderField: string,
+    target: RetentionTarget,
+    report: RetentionTargetReport,
+    context: SweepContext,
+    classify: (doc: FirebaseFirestore.QueryDocumentSnapshot) => Promise<{ expired: boolean; scope: string } | null>
+  ): Promise<void> {
+    let cursor: FirebaseFirestore.QueryDocumentSnapshot | null = null;
+    let page = 0;
+
+    while (report.scanned < context.maxDocs) {
+      const limit = Math.min(PAGE_SIZE, context.maxDocs - report.scanned);
+      let pageQuery = query.orderBy(orderField).limit(limit);
+      if (cursor) pageQuery = pageQuery.startAfter(cursor);
+      const snapshot = await pageQuery.get();
+      if (snapshot.empty) return;
+      cursor = snapshot.docs[snapshot.docs.length - 1];
+      report.scanned += snapshot.size;
+
+      const expired: FirebaseFirestore.QueryDocumentSnapshot[] = [];
+      for (const doc of snapshot.docs) {
+        const verdict = await classify(doc);
+        if (!verdict?.expired) continue;
+        expired.push(doc);
+        report.byScope[verdict.scope] = (report.byScope[verdict.scope] || 0) + 1;
+        if (report.sampleIds.length < SAMPLE_SIZE) report.sampleIds.push(doc.ref.path);
+      }
+      report.expired += expired.length;
+
+      if (!context.dryRun && expired.length > 0) {
+        if (context.mode === 'archive') {
+          report.archiveFiles.push(await this.archive(target, context.runId, page, expired));
+          report.archived += expired.length;
+        }
+        const batch = query.firestore.batch();
+        expired.forEach(doc => {
+          batch.delete(doc.ref);
+          if (target === 'aiExecutions') {
+            batch.delete(query.firestore.collection(EXECUTION_LOG_COLLECTION).doc(doc.id));
+          }
+        });
+        await batch.commit();
+        if (target === 'workflowExecutions') {
+          // The execution's enrichment job and its per-model work items
+          await Promise.all(expired.map(doc => query.firestore.recursiveDelete(query.firestore.collection(ENRICHMENT_JOB_COLLECTION).doc(doc.id))));
+        }
+        report.deleted += expired.length;
+      }
+
+      page++;
+      if (snapshot.size < limit) return;
+    }
+
+    report.truncated = true;
+  }
+
+  private static isExpired(time: number | null, retention: Retention, now: number): boolean {
+    if (retention === 'unlimited' || time === null) return false;
+    return time < now - retention * DAY_MS;
+  }
+
+  // ==========================================================================
+  // Archiving
+  // ==========================================================================
+
+  /**
+   * Write one page of documents as gzipped JSONL; returns where it was written
+   */
+  private static async archive(
+    target: RetentionTarget,
+    runId: string,
+    page: number,
+    docs: FirebaseFirestore.QueryDocumentSnapshot[]
+  ): Promise<string> {
+    const { gzipSync } = await import('zlib');
+    const lines = docs.map(doc => JSON.stringify({ path: doc.ref.path, data: doc.data() }, (_key, value) =>
+      // Timestamps serialize as { _seconds, _nanoseconds } otherwise
+      value && typeof value === 'object' && typeof value.toDate === 'function' ? value.toDate().toISOString() : value
+    ));
+    const contents = gzipSync(Buffer.from(lines.join('\n') + '\n', 'utf8'));
+    const fileName = `retention/${target}/${runId}-${String(page).padStart(4, '0')}.jsonl.gz`;
+
+    const bucketName = process.env.RETENTION_ARCHIVE_BUCKET;
+    if (bucketName) {
+      await import('./firebase-admin');
+      const { getStorage } = await import('firebase-admin/storage');
+      await getStorage().bucket(bucketName).file(fileName).save(contents, { contentType: 'application/gzip' });
+      return `gs://${bucketName}/${fileName}`;
+    }
+
+    const path = await import('path');
+    const { mkdir, writeFile } = await import('fs/promises');
+    const filePath = path.join(process.env.RETENTION_ARCHIVE_DIR!, fileName);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, contents);
+    return filePath;
+  }
+}
+
+export default RetentionWorker;
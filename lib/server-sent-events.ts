@@ -0,0 +1,114 @@
+/**
+ * Server-Sent Events helpers
+ *
+ * Used on both sides of a stream:
+ * - readServerSentEvents parses an SSE body (provider APIs, or our own routes in the browser)
+ * - createServerSentEventsResponse turns an async iterable of events into a streaming route response
+ *
+ * Only relies on web stream APIs so it can be imported from client components.
+ */
+
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Parse a single SSE block ("event: x\ndata: y") into an event.
+ * Returns null for comment-only or keep-alive blocks.
+ */
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event: string | undefined;
+  const dataLines: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (!line || line.startsWith(':')) continue;
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      dataLines.push(value);
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+  return { event, data: dataLines.join('\n') };
+}
+
+/**
+ * Read SSE events from a response body as they arrive
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer = (buffer + decoder.decode(value, { stream: true })).replace(/\r\n?/g, '\n');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const event = parseEventBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (event) yield event;
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+
+    // Servers are not required to terminate the last event with a blank line
+    const trailing = parseEventBlock(buffer + decoder.decode());
+    if (trailing) yield trailing;
+  } finally {
+    // Stops the upstream request when the consumer bails out early
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Stream `{ type, ... }` events to the client. Each event is sent with its type as the
+ * SSE event name and the whole object as JSON data; a thrown error becomes an 'error' event.
+ */
+export function createServerSentEventsResponse(events: AsyncIterable<{ type: string }>): Response {
+  const encoder = new TextEncoder();
+  const iterator = events[Symbol.asyncIterator]();
+
+  const encode = (type: string, payload: unknown) =>
+    encoder.encode(`event: ${type}\ndata: ${JSON.stringify(payload)}\n\n`);
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encode(value.type, value));
+      } catch (error: any) {
+        console.error('❌ Event stream failed:', error);
+        controller.enqueue(encode('error', { type: 'error', error: error?.message || 'Stream failed' }));
+        controller.close();
+      }
+    },
+    async cancel() {
+      // Client disconnected: unwind the producer so it stops calling the provider
+      await iterator.return?.();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
@@ -0,0 +1,222 @@
+/**
+ * SMTP Transport - Admin Panel Version
+ *
+ * Minimal SMTP client for plain-text notification email (no attachments or HTML).
+ * Supports implicit TLS (port 465 / SMTP_SECURE=true), STARTTLS when the server offers it,
+ * and AUTH PLAIN. Configured from SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS and SMTP_FROM.
+ */
+
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+
+export interface EmailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+/**
+ * Anything that can deliver an EmailMessage; swap in another implementation with AIAlerts.setEmailTransport
+ */
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS from the start
+  user?: string;
+  pass?: string;
+  from: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+/**
+ * Line-oriented SMTP conversation over a (possibly upgraded) socket
+ */
+class SmtpConnection {
+  private socket: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private error: Error | null = null;
+  private notify: (() => void) | null = null;
+
+  constructor(socket: net.Socket, private timeoutMs: number) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new Error('SMTP connection timed out')));
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      const parts = this.buffer.split('\r\n');
+      this.buffer = parts.pop() || '';
+      this.lines.push(...parts);
+      this.notify?.();
+    });
+    socket.on('error', error => {
+      this.error = error;
+      this.notify?.();
+    });
+    socket.on('close', () => {
+      this.error = this.error || new Error('SMTP connection closed');
+      this.notify?.();
+    });
+  }
+
+  async readReply(): Promise<{ code: number; text: string }> {
+    const lines: string[] = [];
+    for (;;) {
+      while (this.lines.length === 0) {
+        if (this.error) throw this.error;
+        await new Promise<void>(resolve => { this.notify = resolve; });
+        this.notify = null;
+      }
+      const line = this.lines.shift()!;
+      lines.push(line.slice(4));
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        return { code: parseInt(line.slice(0, 3), 10), text: lines.join('\n') };
+      }
+    }
+  }
+
+  async command(line: string, expected: number[]): Promise<{ code: number; text: string }> {
+    this.socket.write(`${line}\r\n`);
+    const reply = await this.readReply();
+    if (!expected.includes(reply.code)) {
+      // Never echo credentials back into logs
+      const verb = line.startsWith('AUTH') ? 'AUTH' : line.split(' ')[0];
+      throw new Error(`SMTP ${verb} failed: ${reply.code} ${reply.text}`);
+    }
+    return reply;
+  }
+
+  /**
+   * Switch the connection to TLS after a successful STARTTLS
+   */
+  async upgrade(host: string): Promise<void> {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('error');
+    this.socket.removeAllListeners('close');
+    this.socket.setTimeout(0);
+    const secureSocket = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secureSocket.once('secureConnect', resolve);
+      secureSocket.once('error', reject);
+    });
+    this.socket = secureSocket;
+    this.buffer = '';
+    this.lines = [];
+    this.attach(secureSocket);
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+}
+
+function encodeHeader(value: string): string {
+  // RFC 2047 encoded-word for non-ASCII subjects
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+export class SmtpTransport implements EmailTransport {
+  constructor(private options: SmtpOptions) {}
+
+  /**
+   * Transport from SMTP_* environment variables, or null when SMTP isn't configured
+   */
+  static fromEnv(): SmtpTransport | null {
+    const host = process.env.SMTP_HOST;
+    const from = process.env.SMTP_FROM || process.env.SMTP_USER;
+    if (!host || !from) return null;
+
+    const port = Number(process.env.SMTP_PORT) || 587;
+    return new SmtpTransport({
+      host,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+      from
+    });
+  }
+
+  private connect(): Promise<net.Socket> {
+    const { host, port, secure } = this.options;
+    return new Promise((resolve, reject) => {
+      const socket: net.Socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+        : net.connect({ host, port }, () => resolve(socket));
+      socket.once('error', reject);
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    if (message.to.length === 0) return;
+
+    const { host, secure, user, pass, from } = this.options;
+    const connection = new SmtpConnection(await this.connect(), this.options.timeoutMs || DEFAULT_TIMEOUT_MS);
+
+    try {
+      const greeting = await connection.readReply();
+      if (greeting.code !== 220) {
+        throw new Error(`SMTP server refused the connection: ${greeting.code} ${greeting.text}`);
+      }
+
+      const hostname = os.hostname() || 'localhost';
+      let ehlo = await connection.command(`EHLO ${hostname}`, [250]);
+      if (!secure && /^STARTTLS$/m.test(ehlo.text)) {
+        await connection.command('STARTTLS', [220]);
+        await connection.upgrade(host);
+        ehlo = await connection.command(`EHLO ${hostname}`, [250]);
+      }
+
+      if (user && pass) {
+        const credentials = Buffer.from(`\u0000${user}\u0000${pass}`, 'utf8').toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await connection.command(`MAIL FROM:<${extractAddress(from)}>`, [250]);
+      for (const recipient of message.to) {
+        await connection.command(`RCPT TO:<${extractAddress(recipient)}>`, [250, 251]);
+      }
+      await connection.command('DATA', [354]);
+
+      const headers = [
+        `From: ${from}`,
+        `To: ${message.to.join(', ')}`,
+        `Subject: ${encodeHeader(message.subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: 8bit'
+      ];
+      // Dot-stuff lines that start with "." so they aren't read as the end of DATA
+      const body = message.text
+        .replace(/\r?\n/g, '\r\n')
+        .split('\r\n')
+        .map(line => (line.startsWith('.') ? `.${line}` : line))
+        .join('\r\n');
+      await connection.command(`${headers.join('\r\n')}\r\n\r\n${body}\r\n.`, [250]);
+
+      await connection.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+  }
+}
+
+export default SmtpTransport;
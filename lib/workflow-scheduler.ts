@@ -0,0 +1,375 @@
+/**
+ * Workflow Scheduler - Admin Panel Version
+ *
+ * Recurring workflows on cron schedules (workflowSchedules). A scheduler tick, driven by
+ * POST /api/admin/workflows/schedules/tick (scripts/workflow-scheduler.js calls it in a loop, or a
+ * scheduler calls it every minute), runs every enabled schedule that is due. Each schedule is claimed
+ * with a lease so two ticks never run it twice, and OpenRouter syncs also take a workflow lock that the
+ * manual sync shares, so two syncs never overlap. Stale-model enrichment targets models whose
+ * lastSuccessfulUpdate is older than their updateFrequency allows.
+ */
+
+import { getNextCronRun } from './cron-expression';
+import type { EnrichmentConfig } from './ai-enrichment-service';
+
+export const WORKFLOW_SCHEDULE_COLLECTION = 'workflowSchedules';
+export const WORKFLOW_LOCK_COLLECTION = 'workflowLocks';
+export const OPENROUTER_SYNC_LOCK = 'openrouter-sync';
+
+const SCHEDULE_LEASE_MS = 30 * 60 * 1000; // Longer than a full sync; a tick that dies frees the schedule after this
+const DEFAULT_LOCK_TTL_MS = 30 * 60 * 1000;
+const DUE_CANDIDATES = 20;
+
+export type WorkflowScheduleType = 'openrouter-sync' | 'stale-model-enrichment';
+export type WorkflowScheduleRunStatus = 'succeeded' | 'failed' | 'skipped';
+
+export const WORKFLOW_SCHEDULE_TYPES: WorkflowScheduleType[] = ['openrouter-sync', 'stale-model-enrichment'];
+
+export interface StaleEnrichmentScheduleConfig {
+  aiModel: string;
+  batchSize: number;
+  maxCostPerBatch: number;
+  targetDataQuality: 'basic' | 'enhanced' | 'premium';
+  includeValidation: boolean;
+  autoApply: boolean; // Otherwise results are staged as model change sets
+  providerId?: string;
+  maxModels: number; // Most overdue first
+}
+
+export interface WorkflowSchedule {
+  id: string;
+  name: string;
+  type: WorkflowScheduleType;
+  cronExpression: string; // UTC
+  enabled: boolean;
+  enrichment?: StaleEnrichmentScheduleConfig; // stale-model-enrichment only
+  nextRunAt: string;
+  lastRunAt?: string;
+  lastRunStatus?: WorkflowScheduleRunStatus;
+  lastRunMessage?: string;
+  lastExecutionId?: string; // Enrichment execution started by the last run
+  leaseOwner?: string;
+  leaseExpiresAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WorkflowScheduleInput = Pick<WorkflowSchedule, 'name' | 'type' | 'cronExpression' | 'enabled'> & {
+  enrichment?: Partial<StaleEnrichmentScheduleConfig>;
+};
+
+export interface WorkflowScheduleRunResult {
+  scheduleId: string;
+  name: string;
+  type: WorkflowScheduleType;
+  status: WorkflowScheduleRunStatus;
+  message: string;
+  executionId?: string;
+}
+
+export interface WorkflowLock {
+  owner: string;
+  acquiredAt: string;
+  expiresAt: string;
+}
+
+export const DEFAULT_STALE_ENRICHMENT_CONFIG: StaleEnrichmentScheduleConfig = {
+  aiModel: 'gemini-1.5-flash-latest',
+  batchSize: 10,
+  maxCostPerBatch: 5.00,
+  targetDataQuality: 'enhanced',
+  includeValidation: false,
+  autoApply: false,
+  maxModels: 50
+};
+
+const nowIso = () => new Date().toISOString();
+const addMs = (ms: number) => new Date(Date.now() + ms).toISOString();
+const newOwnerId = () => `scheduler_${process.pid}_${Math.random().toString(36).substr(2, 6)}`;
+
+export class WorkflowScheduler {
+
+  /**
+   * Check a schedule and fill in enrichment defaults. Throws with a message suitable for a 400.
+   */
+  static validate(input: WorkflowScheduleInput): Pick<WorkflowSchedule, 'name' | 'type' | 'cronExpression' | 'enabled' | 'enrichment'> {
+    if (!input.name?.trim()) {
+      throw new Error('Schedule name is required');
+    }
+    if (!WORKFLOW_SCHEDULE_TYPES.includes(input.type)) {
+      throw new Error(`type must be one of: ${WORKFLOW_SCHEDULE_TYPES.join(', ')}`);
+    }
+    getNextCronRun(input.cronExpression || '');
+
+    let enrichment: StaleEnrichmentScheduleConfig | undefined;
+    if (input.type === 'stale-model-enrichment') {
+      enrichment = { ...DEFAULT_STALE_ENRICHMENT_CONFIG, ...input.enrichment };
+      if (!enrichment.providerId) delete enrichment.providerId;
+      if (!(enrichment.maxModels > 0) || !(enrichment.batchSize > 0) || !(enrichment.maxCostPerBatch > 0)) {
+        throw new Error('maxModels, batchSize and maxCostPerBatch must be positive');
+      }
+    }
+
+    return {
+      name: input.name.trim(),
+      type: input.type,
+      cronExpression: input.cronExpression.trim(),
+      enabled: input.enabled !== false,
+      ...(enrichment && { enrichment })
+    };
+  }
+
+  static async list(): Promise<WorkflowSchedule[]> {
+    const { adminDb } = await import('./firebase-admin');
+    const snapshot = await adminDb.collection(WORKFLOW_SCHEDULE_COLLECTION).get();
+    return snapshot.docs
+      .map(doc => doc.data() as WorkflowSchedule)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  static async get(scheduleId: string): Promise<WorkflowSchedule | null> {
+    const { adminDb } = await import('./firebase-admin');
+    const doc = await adminDb.collection(WORKFLOW_SCHEDULE_COLLECTION).doc(scheduleId).get();
+    return doc.exists ? (doc.data() as WorkflowSchedule) : null;
+  }
+
+  static async create(input: WorkflowScheduleInput): Promise<WorkflowSchedule> {
+    const { adminDb } = await import('./firebase-admin');
+    const docRef = adminDb.collection(WORKFLOW_SCHEDULE_COLLECTION).doc();
+    const now = nowIso();
+    const valid = this.validate(input);
+
+    const schedule: WorkflowSchedule = {
+      id: docRef.id,
+      ...valid,
+      nextRunAt: getNextCronRun(valid.cronExpression).toISOString(),
+      createdAt: now,
+      updatedAt: now
+    };
+    await docRef.set(schedule);
+
+    console.log(`🗓️ Created ${schedule.type} schedule "${schedule.name}" (${schedule.cronExpression}), next run ${schedule.nextRunAt}`);
+    return schedule;
+  }
+
+  /**
+   * Replace a schedule's settings. The next run is recalculated from now, so a changed
+   * expression or a re-enabled schedule doesn't fire for runs it missed.
+   */
+  static async update(scheduleId: string, input: WorkflowScheduleInput): Promise<WorkflowSchedule | null> {
+    const { adminDb } = await import('./firebase-admin');
+    const { FieldValue } = await import('firebase-admin/firestore');
+    const docRef = adminDb.collection(WORKFLOW_SCHEDULE_COLLECTION).doc(scheduleId);
+    if (!(await docRef.get()).exists) return null;
+
+    const valid = this.validate(input);
+    const update = {
+      ...valid,
+      ...(!valid.enrichment && { enrichment: FieldValue.delete() }),
+      nextRunAt: getNextCronRun(valid.cronExpression).toISOString(),
+      updatedAt: nowIso()
+    };
+    await docRef.update(update);
+    return this.get(scheduleId);
+  }
+
+  static async delete(scheduleId: string): Promise<boolean> {
+    const { adminDb } = await import('./firebase-admin');
+    const docRef = adminDb.collection(WORKFLOW_SCHEDULE_COLLECTION).doc(scheduleId);
+    if (!(await docRef.get()).exists) return false;
+    await docRef.delete();
+    return true;
+  }
+
+  /**
+   * Run every enabled schedule that is due
+   */
+  static async tick(options: { runnerId?: string } = {}): Promise<WorkflowScheduleRunResult[]> {
+    const { adminDb } = await import('./firebase-admin');
+    const runnerId = options.runnerId || newOwnerId();
+    const now = nowIso();
+
+    // Single-field filter so no composite index is needed; due-ness is checked here and again in claim()
+    const snapshot = await adminDb.collection(WORKFLOW_SCHEDULE_COLLECTION)
+      .where('enabled', '==', true)
+      .get();
+    const due = snapshot.docs
+      .map(doc => doc.data() as WorkflowSchedule)
+      .filter(schedule => schedule.nextRunAt <= now)
+      .sort((a, b) => a.nextRunAt.localeCompare(b.nextRunAt))
+      .slice(0, DUE_CANDIDATES);
+
+    const results: WorkflowScheduleRunResult[] = [];
+    for (const candidate of due) {
+      const schedule = await this.claim(candidate.id, runnerId, false);
+      if (schedule) {
+        results.push(await this.run(schedule, runnerId));
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Run a schedule now, whether or not it is due or enabled. Returns null when another tick is running it.
+   */
+  static async runNow(scheduleId: string, runnerId: string = newOwnerId()): Promise<WorkflowScheduleRunResult | null> {
+    const schedule = await this.claim(scheduleId, runnerId, true);
+    return schedule ? this.run(schedule, runnerId) : null;
+  }
+
+  /**
+   * Run a function while holding a named workflow lock. Locks expire after ttlMs, so a process that
+   * dies while holding one can't block the workflow forever.
+   */
+  static async withLock<T>(
+    lockName: string,
+    fn: () => Promise<T>,
+    ttlMs: number = DEFAULT_LOCK_TTL_MS
+  ): Promise<{ acquired: true; result: T } | { acquired: false; lock: WorkflowLock }> {
+    const { adminDb } = await import('./firebase-admin');
+    const lockRef = adminDb.collection(WORKFLOW_LOCK_COLLECTION).doc(lockName);
+    const owner = newOwnerId();
+
+    const heldBy = await adminDb.runTransaction(async transaction => {
+      const doc = await transaction.get(lockRef);
+      const lock = doc.data() as WorkflowLock | undefined;
+      if (lock && lock.expiresAt > nowIso()) return lock;
+
+      transaction.set(lockRef, { owner, acquiredAt: nowIso(), expiresAt: addMs(ttlMs) });
+      return null;
+    });
+    if (heldBy) {
+      return { acquired: false, lock: heldBy };
+    }
+
+    try {
+      return { acquired: true, result: await fn() };
+    } finally {
+      // Only release our own lock; an expired one may have been taken over
+      await adminDb.runTransaction(async transaction => {
+        const doc = await transaction.get(lockRef);
+        if ((doc.data() as WorkflowLock | undefined)?.owner === owner) {
+          transaction.delete(lockRef);
+        }
+      });
+    }
+  }
+
+  /**
+   * Take the schedule's lease and move nextRunAt to the next occurrence after now, so runs missed
+   * while nothing was ticking collapse into one
+   */
+  private static async claim(scheduleId: string, runnerId: string, force: boolean): Promise<WorkflowSchedule | null> {
+    const { adminDb } = await import('./firebase-admin');
+    const docRef = adminDb.collection(WORKFLOW_SCHEDULE_COLLECTION).doc(scheduleId);
+
+    return adminDb.runTransaction(async transaction => {
+      const doc = await transaction.get(docRef);
+      const schedule = doc.data() as WorkflowSchedule | undefined;
+      const now = nowIso();
+      if (!schedule) return null;
+      if (!force && (!schedule.enabled || schedule.nextRunAt > now)) return null;
+      if (schedule.leaseOwner && (schedule.leaseExpiresAt || '') > now) return null;
+
+      const claimed: WorkflowSchedule = {
+        ...schedule,
+        nextRunAt: getNextCronRun(schedule.cronExpression).toISOString(),
+        leaseOwner: runnerId,
+        leaseExpiresAt: addMs(SCHEDULE_LEASE_MS),
+        updatedAt: now
+      };
+      transaction.set(docRef, claimed);
+      return claimed;
+    });
+  }
+
+  private static async run(schedule: WorkflowSchedule, runnerId: string): Promise<WorkflowScheduleRunResult> {
+    console.log(`🗓️ Running ${schedule.type} schedule "${schedule.name}" (${schedule.id})`);
+
+    let outcome: Pick<WorkflowScheduleRunResult, 'status' | 'message' | 'executionId'>;
+    try {
+      outcome = schedule.type === 'openrouter-sync'
+        ? await this.runOpenRouterSync()
+        : await this.runStaleEnrichment(schedule);
+    } catch (error: any) {
+      console.error(`❌ Schedule "${schedule.name}" failed:`, error);
+      outcome = { status: 'failed', message: error.message || 'Unknown error' };
+    }
+
+    const { adminDb } = await import('./firebase-admin');
+    const { FieldValue } = await import('firebase-admin/firestore');
+    const docRef = adminDb.collection(WORKFLOW_SCHEDULE_COLLECTION).doc(schedule.id);
+    await adminDb.runTransaction(async transaction => {
+      const doc = await transaction.get(docRef);
+      const current = doc.data() as WorkflowSchedule | undefined;
+      if (!current) return; // Deleted while running
+
+      const now = nowIso();
+      transaction.update(docRef, {
+        lastRunAt: now,
+        lastRunStatus: outcome.status,
+        lastRunMessage: outcome.message,
+        ...(outcome.executionId && { lastExecutionId: outcome.executionId }),
+        ...(current.leaseOwner === runnerId && { leaseOwner: FieldValue.delete(), leaseExpiresAt: FieldValue.delete() }),
+        updatedAt: now
+      });
+    });
+
+    console.log(`🗓️ Schedule "${schedule.name}" ${outcome.status}: ${outcome.message}`);
+    return { scheduleId: schedule.id, name: schedule.name, type: schedule.type, ...outcome };
+  }
+
+  private static async runOpenRouterSync(): Promise<Pick<WorkflowScheduleRunResult, 'status' | 'message'>> {
+    const { OpenRouterSync } = await import('./openrouter-sync');
+
+    const locked = await this.withLock(OPENROUTER_SYNC_LOCK, () => OpenRouterSync.syncAllModels(process.env.OPENROUTER_API_KEY));
+    if (!locked.acquired) {
+      return { status: 'skipped', message: `An OpenRouter sync is already running (started ${locked.lock.acquiredAt})` };
+    }
+
+    const { result } = locked;
+    return {
+      status: 'succeeded',
+      message: `Synced ${result.modelsProcessed} models from ${result.providersProcessed} providers in ${Math.round(result.processingTimeMs / 1000)}s`
+    };
+  }
+
+  private static async runStaleEnrichment(schedule: WorkflowSchedule): Promise<Pick<WorkflowScheduleRunResult, 'status' | 'message' | 'executionId'>> {
+    const { AIEnrichmentService } = await import('./ai-enrichment-service');
+    const { EnrichmentJobQueue } = await import('./enrichment-job-queue');
+    const config = { ...DEFAULT_STALE_ENRICHMENT_CONFIG, ...schedule.enrichment };
+
+    // Don't stack runs: the previous one may still be working through its models
+    if (schedule.lastExecutionId) {
+      const previous = await EnrichmentJobQueue.getJob(schedule.lastExecutionId);
+      if (previous && ['queued', 'running', 'paused'].includes(previous.status)) {
+        return { status: 'skipped', message: `Previous run ${previous.id} is still ${previous.status}` };
+      }
+    }
+
+    const staleModels = await AIEnrichmentService.findStaleModels({ providerId: config.providerId, limit: config.maxModels });
+    if (staleModels.length === 0) {
+      return { status: 'skipped', message: 'No stale models' };
+    }
+
+    const enrichmentConfig: EnrichmentConfig = {
+      aiModel: config.aiModel,
+      batchSize: config.batchSize,
+      maxCostPerBatch: config.maxCostPerBatch,
+      includeValidation: config.includeValidation,
+      targetDataQuality: config.targetDataQuality,
+      testMode: false,
+      autoApply: config.autoApply,
+      ...(config.providerId && { providerId: config.providerId })
+    };
+    const execution = await AIEnrichmentService.startEnrichment(enrichmentConfig, staleModels.map(model => model.id));
+
+    return {
+      status: 'succeeded',
+      message: `Started enrichment of ${staleModels.length} stale models`,
+      executionId: execution.id
+    };
+  }
+}
+
+export default WorkflowScheduler;
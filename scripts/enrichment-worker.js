@@ -0,0 +1,122 @@
+/*
+  Standalone enrichment worker.
+  Runs worker ticks in a loop. Each tick recovers enrichment jobs whose worker died (for example when
+  the server restarted), then claims queued jobs and processes their models until its time budget runs
+  out. Progress is stored per model, so a job interrupted mid-run resumes at the first model it hadn't
+  finished.
+
+  By default the worker processes jobs in this process, straight against Firestore, loading the admin
+  panel's lib/ modules through the TypeScript compiler. With --remote it instead asks a running admin
+  panel to run each tick (POST /api/admin/workflows/worker).
+
+  Usage:
+    node scripts/enrichment-worker.js [--once] [--remote]
+
+  Environment:
+    ADMIN_URL                   Admin panel URL for --remote (default http://localhost:3001)
+    ENRICHMENT_WORKER_POLL_MS   Wait between ticks when the queue is empty (default 15000)
+    ENRICHMENT_WORKER_BUDGET_MS Time budget per tick (default 50000)
+
+  Set ENRICHMENT_WORKER_MODE=external on the admin panel to leave all processing to this worker.
+*/
+
+require('dotenv').config({ path: './.env.local' });
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const ADMIN_URL = (process.env.ADMIN_URL || 'http://localhost:3001').replace(/\/$/, '');
+const POLL_MS = Number(process.env.ENRICHMENT_WORKER_POLL_MS) || 15000;
+const BUDGET_MS = Number(process.env.ENRICHMENT_WORKER_BUDGET_MS) || 50000;
+const WORKER_ID = `${os.hostname()}_${process.pid}`;
+const PROJECT_ROOT = path.resolve(__dirname, '..');
+
+let stopping = false;
+
+process.on('SIGINT', () => {
+  if (stopping) process.exit(1);
+  stopping = true;
+  console.log('\n🛑 Stopping after the current tick (Ctrl+C again to exit now)...');
+});
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Let require() load the lib/ TypeScript modules: transpile .ts files and resolve the "@/" path alias
+function registerTypeScript() {
+  const Module = require('module');
+  const ts = require('typescript');
+
+  const resolveFilename = Module._resolveFilename;
+  Module._resolveFilename = function (request, ...rest) {
+    const resolved = request.startsWith('@/') ? path.join(PROJECT_ROOT, request.slice(2)) : request;
+    return resolveFilename.call(this, resolved, ...rest);
+  };
+
+  require.extensions['.ts'] = (module, filename) => {
+    const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+      fileName: filename,
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2020,
+        esModuleInterop: true
+      }
+    });
+    module._compile(outputText, filename);
+  };
+}
+
+async function remoteTick() {
+  const response = await fetch(`${ADMIN_URL}/api/admin/workflows/worker`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ workerId: WORKER_ID, budgetMs: BUDGET_MS })
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Worker tick failed (${response.status})`);
+  }
+  return data;
+}
+
+function localTick() {
+  const { EnrichmentWorker } = require('../lib/enrichment-worker.ts');
+  return EnrichmentWorker.tick({ workerId: WORKER_ID, budgetMs: BUDGET_MS });
+}
+
+async function main() {
+  const once = process.argv.includes('--once');
+  const remote = process.argv.includes('--remote');
+
+  if (remote) {
+    console.log(`⚙️ Enrichment worker ${WORKER_ID} polling ${ADMIN_URL}`);
+  } else {
+    registerTypeScript();
+    console.log(`⚙️ Enrichment worker ${WORKER_ID} processing jobs in this process`);
+  }
+  const tick = remote ? remoteTick : localTick;
+
+  while (!stopping) {
+    let busy = false;
+    try {
+      const result = await tick();
+      result.recovered.forEach(recovery => {
+        console.log(`♻️ Recovered ${recovery.jobId} (${recovery.reason}): ${recovery.resetItems} models requeued, ${recovery.failedItems} failed`);
+      });
+      result.processed.forEach(job => {
+        console.log(`✅ ${job.jobId}: ${job.status}`);
+      });
+      busy = result.processed.length > 0;
+    } catch (error) {
+      console.error('❌ Worker tick failed:', error.message);
+    }
+
+    if (once) break;
+    if (!busy) await sleep(POLL_MS);
+  }
+
+  // Firestore keeps its connection open; exit once the loop is done
+  process.exit(0);
+}
+
+main();
@@ -0,0 +1,128 @@
+/*
+  Scan a source tree for AI call sites and reconcile them with the stored AI configurations.
+  Candidate files are uploaded to /api/admin/ai-configurations/discover, which parses them
+  and returns a report of:
+  - Call sites with no configuration (draft configurations are generated for them)
+  - Configurations with no call site
+  - Configurations whose call site moved to another file, function or line
+
+  Usage:
+    node scripts/scan-ai-call-sites.js <source-dir> [--out report.json] [--import]
+
+  --import posts the report's configurations to /api/admin/ai-configurations/import.
+  The admin panel URL defaults to http://localhost:3001 and can be set with ADMIN_URL.
+*/
+
+require('dotenv').config({ path: './.env.local' });
+
+const fs = require('fs');
+const path = require('path');
+
+const ADMIN_URL = (process.env.ADMIN_URL || 'http://localhost:3001').replace(/\/$/, '');
+const SKIP_DIRS = new Set(['node_modules', '.next', '.git', 'dist', 'build', 'coverage', 'out']);
+const SOURCE_EXTENSIONS = /\.(ts|tsx|js|jsx|mjs|cjs)$/;
+const MAX_FILE_BYTES = 1024 * 1024;
+
+// Keep in sync with CANDIDATE_PATTERN in lib/ai-call-site-scanner.ts
+const CANDIDATE_PATTERN = /executeRequest|executeForUseCase|executeStreamingRequest|aiConfigurationService|generate(Stream|Content)?\s*\(|completions\.create|messages\.create|api\.openai\.com|openrouter\.ai|api\.anthropic\.com|generativelanguage\.googleapis\.com/;
+
+function parseArgs(argv) {
+  const args = { root: null, out: 'ai-call-sites-report.json', import: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--out') {
+      args.out = argv[++i];
+    } else if (arg === '--import') {
+      args.import = true;
+    } else if (!args.root) {
+      args.root = arg;
+    }
+  }
+  return args;
+}
+
+function collectFiles(root) {
+  const files = [];
+  const walk = (dir) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIP_DIRS.has(entry.name)) walk(fullPath);
+        continue;
+      }
+      if (!entry.isFile() || !SOURCE_EXTENSIONS.test(entry.name) || entry.name.endsWith('.d.ts')) continue;
+      if (fs.statSync(fullPath).size > MAX_FILE_BYTES) continue;
+
+      const content = fs.readFileSync(fullPath, 'utf8');
+      if (!CANDIDATE_PATTERN.test(content)) continue;
+      files.push({ path: path.relative(root, fullPath).split(path.sep).join('/'), content });
+    }
+  };
+  walk(root);
+  return files;
+}
+
+async function postJson(route, body) {
+  const response = await fetch(`${ADMIN_URL}${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(`${route} failed (${response.status}): ${data.message || data.error}${data.details ? `\n  ${data.details.join('\n  ')}` : ''}`);
+  }
+  return data;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.root) {
+    console.error('Usage: node scripts/scan-ai-call-sites.js <source-dir> [--out report.json] [--import]');
+    process.exit(1);
+  }
+
+  const root = path.resolve(args.root);
+  console.log(`🔎 Collecting candidate files under ${root}...`);
+  const files = collectFiles(root);
+  console.log(`📄 ${files.length} files mention an AI call pattern`);
+
+  const { report } = await postJson('/api/admin/ai-configurations/discover', { files });
+  fs.writeFileSync(args.out, JSON.stringify(report, null, 2));
+
+  console.log(`\n✅ Found ${report.callSites.length} call sites (report written to ${args.out})`);
+  console.log(`  Matched:      ${report.matched.length}`);
+  console.log(`  Unconfigured: ${report.unconfigured.length}`);
+  report.unconfigured.forEach(item => {
+    const site = item.callSites[0];
+    console.log(`    + ${item.useCaseId} (${site.file}:${site.line} ${site.function}, ${site.callPattern})`);
+  });
+  console.log(`  Moved:        ${report.moved.length}`);
+  report.moved.forEach(move => {
+    console.log(`    ~ ${move.useCaseId}: ${move.from.file}:${move.from.line || '?'} -> ${move.to.file}:${move.to.line || '?'}`);
+  });
+  console.log(`  Orphaned:     ${report.orphaned.length}`);
+  report.orphaned.forEach(item => {
+    console.log(`    - ${item.useCaseId} (${item.location?.file || 'no location'}${item.fileScanned ? '' : ', file not scanned'})`);
+  });
+
+  if (!args.import) {
+    if (report.configurations.length > 0) {
+      console.log(`\nRe-run with --import to create or relocate ${report.configurations.length} configurations.`);
+    }
+    return;
+  }
+
+  if (report.configurations.length === 0) {
+    console.log('\nNothing to import.');
+    return;
+  }
+
+  const result = await postJson('/api/admin/ai-configurations/import', { configurations: report.configurations });
+  console.log(`\n📥 ${result.message}`);
+}
+
+main().catch(error => {
+  console.error('❌ Scan failed:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,70 @@
+/*
+  Workflow scheduler.
+  Runs a scheduler tick against the admin panel (POST /api/admin/workflows/schedules/tick) once a minute.
+  Each tick runs the enabled workflow schedules that are due: OpenRouter syncs and stale-model
+  enrichment. Enrichment runs are only queued here; the enrichment worker processes them.
+
+  Usage:
+    node scripts/workflow-scheduler.js [--once]
+
+  Environment:
+    ADMIN_URL                  Admin panel URL (default http://localhost:3001)
+    WORKFLOW_SCHEDULER_POLL_MS Wait between ticks (default 60000)
+
+  Instead of running this, a system cron or cloud scheduler can POST to the tick endpoint every minute.
+*/
+
+require('dotenv').config({ path: './.env.local' });
+
+const os = require('os');
+
+const ADMIN_URL = (process.env.ADMIN_URL || 'http://localhost:3001').replace(/\/$/, '');
+const POLL_MS = Number(process.env.WORKFLOW_SCHEDULER_POLL_MS) || 60000;
+const RUNNER_ID = `${os.hostname()}_${process.pid}`;
+
+let stopping = false;
+
+process.on('SIGINT', () => {
+  if (stopping) process.exit(1);
+  stopping = true;
+  console.log('\n🛑 Stopping after the current tick (Ctrl+C again to exit now)...');
+});
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function tick() {
+  const response = await fetch(`${ADMIN_URL}/api/admin/workflows/schedules/tick`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ runnerId: RUNNER_ID })
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Scheduler tick failed (${response.status})`);
+  }
+  return data;
+}
+
+async function main() {
+  const once = process.argv.includes('--once');
+  console.log(`🗓️ Workflow scheduler ${RUNNER_ID} polling ${ADMIN_URL}`);
+
+  while (!stopping) {
+    const startedAt = Date.now();
+    try {
+      const { results } = await tick();
+      results.forEach(result => {
+        const icon = result.status === 'succeeded' ? '✅' : result.status === 'skipped' ? '⏭️' : '❌';
+        console.log(`${icon} ${result.name} (${result.type}): ${result.message}`);
+      });
+    } catch (error) {
+      console.error('❌ Scheduler tick failed:', error.message);
+    }
+
+    if (once) break;
+    // A long sync inside the tick counts toward the wait
+    await sleep(Math.max(0, POLL_MS - (Date.now() - startedAt)));
+  }
+}
+
+main();
@@ -61,6 +61,9 @@ export interface AIUseCaseConfig {
   // === MONITORING & METADATA ===
   monitoringConfig: AIMonitoringConfiguration;
   metadata: AIUseCaseMetadata;
+
+  // === EXPERIMENTS ===
+  experimentConfig?: AIExperimentConfiguration; // A/B test or staged rollout of config changes
 }
 
 // ============================================================================
@@ -198,6 +201,7 @@ export interface AIMonitoringConfiguration {
   logResponses: boolean;
   logPerformanceMetrics: boolean;
   logLevel: LogLevel;
+  redaction?: AIRedactionConfig; // Applied to logged prompts and responses (all built-in rules when unset)
   
   // Metrics collection
   collectUsageMetrics: boolean;
@@ -247,6 +251,25 @@ export interface AIUseCaseMetadata {
     successRate: number;
     lastUsed?: Timestamp;
   };
+
+  // Response cache statistics (read-only, populated by system)
+  cacheStats?: {
+    hits: number;
+    misses: number;
+    hitRate: number; // Percentage
+    savedCostUSD: number;
+    lastHitAt?: string;
+    invalidatedAt?: string;
+  };
+
+  // Human review outcomes (read-only, populated by the review queue)
+  reviewStats?: {
+    pending: number;
+    approved: number;
+    rejected: number;
+    edited: number;
+    lastReviewedAt?: Timestamp;
+  };
   
   // Timestamps
   createdAt: Timestamp;
@@ -296,6 +319,19 @@ export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 // DETAILED SUPPORTING INTERFACES
 // ============================================================================
 
+export interface AIRedactionConfig {
+  enabled: boolean;
+  redactEmails?: boolean; // Default true
+  redactApiKeys?: boolean; // Default true
+  redactPhoneNumbers?: boolean; // Default true
+  customPatterns?: Array<{
+    name: string;
+    pattern: string; // Regular expression source
+    flags?: string; // 'g' is always added
+    replacement?: string; // Default "[REDACTED:<name>]"
+  }>;
+}
+
 export interface ValidationRule {
   type: 'length' | 'format' | 'content' | 'schema' | 'custom';
   rule: string; // Rule definition (regex, schema, etc.)
@@ -319,6 +355,71 @@ export interface ConfigurationVersion {
   rollbackData?: Partial<AIUseCaseConfig>; // Data needed for rollback
 }
 
+/**
+ * A/B experiment on a use case: traffic is split across weighted variants that override parts
+ * of the configuration. A staged rollout is a control variant plus a small-weight candidate.
+ */
+export interface AIExperimentConfiguration {
+  experimentId: string; // Recorded on aiExecutions; use a new ID to start a fresh comparison
+  name?: string;
+  enabled: boolean;
+  stickyBy?: 'userId' | 'organizationId'; // Assignment key (default userId, then organizationId)
+  variants: AIExperimentVariant[];
+  startedAt?: string;
+  endedAt?: string;
+  winnerVariantId?: string; // Set when a variant is promoted
+}
+
+export interface AIExperimentVariant {
+  variantId: string; // e.g. 'control', 'flash-low-temp'
+  description?: string;
+  weight: number; // Relative share of traffic; 0 pauses the variant
+  // Overrides merged over the base configuration (an empty variant is the control)
+  modelConfig?: Partial<Pick<AIModelConfiguration, 'primaryModel' | 'fallbackModels'>>;
+  generationConfig?: Partial<AIGenerationConfiguration>;
+  promptConfig?: Partial<AIPromptConfiguration>;
+}
+
+/**
+ * A deleted configuration, kept in aiUseCaseConfigTombstones so it can be restored
+ */
+export interface AIUseCaseConfigTombstone {
+  useCaseId: string;
+  configuration: AIUseCaseConfig;
+  deletedAt: Timestamp;
+  deletedBy: string;
+}
+
+export type AIOutputReviewStatus = 'pending' | 'approved' | 'rejected' | 'edited';
+
+/**
+ * An output queued for human review (aiReviews/{executionId}), created when
+ * qualityConfig.requireHumanReview is set and the score is under humanReviewThreshold
+ */
+export interface AIOutputReview {
+  executionId: string; // Matching aiExecutions document
+  useCaseId: string;
+  configurationVersion: string;
+  model: string;
+  prompt: string;
+  systemPrompt?: string;
+  output: string;
+  qualityScore: number; // Evaluator confidence score, 0-100
+  qualityChecks: QualityCheckResult[];
+  validationResults: ValidationResult[];
+  rejected: boolean; // The evaluator already rejected the output
+  status: AIOutputReviewStatus;
+  createdAt: Timestamp;
+
+  // Reviewer decision
+  reviewedAt?: Timestamp;
+  reviewedBy?: string;
+  reviewerNotes?: string;
+  reviewerScore?: number; // Replaces qualityScore on the execution when given
+  editedOutput?: string; // Corrected output ('edited')
+  savedAsExample?: boolean; // Copied to aiReviewedExamples
+}
+
 // ============================================================================
 // REQUEST AND RESPONSE INTERFACES
 // ============================================================================
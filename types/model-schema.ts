@@ -42,9 +42,11 @@ export interface ModelPerformance {
 }
 
 export interface ModelPricing {
-  inputTokenCost: number; // per 1k tokens in USD
-  outputTokenCost: number; // per 1k tokens in USD
+  inputTokenCost: number; // per 1k tokens in USD (see unit)
+  outputTokenCost: number; // per 1k tokens in USD (see unit)
+  cachedInputTokenCost?: number; // per 1k cached prompt tokens, if the provider discounts them
   imageInputCost?: number; // per image if supported
+  unit?: 'per-1k-tokens' | 'per-token'; // Unit of the token costs; missing means per 1k (per token for legacy OpenRouter sync docs)
   currency: 'USD';
   
   // Data source tracking
@@ -231,6 +233,60 @@ export interface ModelDocument {
   updatedAt: Timestamp;
 }
 
+// One field of a proposed model change, as a dotted path (e.g. "performance.qualityTier")
+export interface ModelFieldChange {
+  path: string;
+  before: any; // null when the model doesn't have the field yet
+  after: any;
+}
+
+// AI enrichment result staged for review before it is written to the model (model_change_sets)
+export interface ModelChangeSet {
+  id: string;
+  modelId: string;
+  modelName: string;
+  executionId?: string; // Enrichment execution that produced it; absent for single-model tests
+  source: 'enrichment' | 'test';
+  status: 'pending' | 'applied' | 'partially-applied' | 'rejected';
+  changes: ModelFieldChange[];
+  confidence: string; // The research's own 'high' | 'medium' | 'low'
+  confidenceScore: number; // 0-100, from sources and completeness
+  sources: string[];
+  aiModel?: string;
+  cost: number;
+  acceptedPaths?: string[];
+  reviewerNotes?: string;
+  createdAt: Timestamp;
+  reviewedAt?: Timestamp;
+  reviewedBy?: string;
+}
+
+// Where a write to a model came from
+export type ModelWriteSource = 'sync' | 'seed' | 'enrichment' | 'manual' | 'import';
+
+// One write to a model (models/{id}/modelHistory)
+export interface ModelHistoryEntry {
+  id: string;
+  modelId: string;
+  source: ModelWriteSource;
+  executionId?: string; // Enrichment execution, for enrichment writes
+  changeSetId?: string; // Accepted model change set, for enrichment writes
+  revertedFrom?: string; // History entry whose snapshot this write restored
+  actor: string;
+  changedPaths: string[]; // Dotted field paths the write changed
+  snapshot: Record<string, any>; // The model as it was after the write
+  createdAt: Timestamp;
+}
+
+// The most recent write that changed a field
+export interface ModelFieldProvenance {
+  source: ModelWriteSource;
+  executionId?: string;
+  actor: string;
+  entryId: string;
+  changedAt: Timestamp;
+}
+
 // Provider document structure (parent collection)
 export interface ProviderDocument {
   id: string; // "openai", "anthropic", "google"
@@ -240,7 +296,8 @@ export interface ProviderDocument {
   // Provider metadata
   website: string;
   apiBaseUrl?: string;
-  authTypes: ('api-key' | 'oauth' | 'service-account')[];
+  authTypes: ('api-key' | 'oauth' | 'service-account' | 'none')[]; // 'none' for local OpenAI-compatible servers
+  directAccess?: boolean; // Send "provider/model" IDs to this provider's API instead of OpenRouter
   
   // Business information
   supportLevels: ('enterprise' | 'business' | 'developer')[];